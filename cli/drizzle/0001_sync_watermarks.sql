@@ -0,0 +1,11 @@
+CREATE TABLE "sync_watermarks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"connector" varchar(50) NOT NULL,
+	"target" varchar(500) NOT NULL,
+	"last_from" timestamp with time zone NOT NULL,
+	"last_to" timestamp with time zone NOT NULL,
+	"cursor" text,
+	"activity_count" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "uq_sync_watermarks_connector_target" UNIQUE("connector","target")
+);
@@ -0,0 +1,12 @@
+CREATE TABLE "identities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" varchar(20) NOT NULL,
+	"value" varchar(500) NOT NULL,
+	"person" varchar(255) NOT NULL,
+	"source" varchar(20) DEFAULT 'manual' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "uq_identities_kind_value" UNIQUE("kind","value")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_identities_person" ON "identities" USING btree ("person");
\ No newline at end of file
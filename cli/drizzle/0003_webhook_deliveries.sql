@@ -0,0 +1,11 @@
+CREATE TABLE "webhook_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"delivery_id" varchar(100) NOT NULL,
+	"event" varchar(50) NOT NULL,
+	"action" varchar(50),
+	"activity_count" integer DEFAULT 0 NOT NULL,
+	"received_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "uq_webhook_deliveries_delivery_id" UNIQUE("delivery_id")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_webhook_deliveries_received_at" ON "webhook_deliveries" USING btree ("received_at");
\ No newline at end of file
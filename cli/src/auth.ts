@@ -6,7 +6,7 @@ import dotenv from 'dotenv';
 import { createAppAuth } from '@octokit/auth-app';
 
 // Re-load env to ensure we get fresh values if updated
-dotenv.config();
+dotenv.config({ quiet: true });
 
 export interface AuthResult {
   token: string;
@@ -0,0 +1,141 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import dayjs from 'dayjs';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import type { ActivityRepository } from '../infrastructure/activity-repository.js';
+import { createPersonLookup } from '../core/identity-resolver.js';
+import {
+  DIGEST_FORMATS,
+  renderDigest,
+  summarizeActivities,
+  type DigestFormat,
+  type DigestRenderOptions,
+} from '../core/digest.js';
+import { resolveNotificationChannels } from '../config/notifications.config.js';
+import { Notifier } from '../notifications/notifier.js';
+import { parseDateOption } from '../core/date-utils.js';
+import { logInfo } from '../logger.js';
+
+const DIGEST_SECTIONS = ['developers', 'repositories'] as const;
+
+/**
+ * Summarize stored activities of a period for a weekly update
+ *
+ * Per developer (aliases merged through identities): commits, PRs opened and merged, reviews
+ * given, comments and issue moves. Per repository: commit, PR and issue throughput.
+ */
+export const digestCommand = new Command('digest')
+  .description('Summarize a period per developer and per repository as Markdown or plain text')
+  .option('--from <date>', 'Start date (YYYY-MM-DD or "7 days ago")', '7 days ago')
+  .option('--to <date>', 'End date (YYYY-MM-DD or "now")', 'now')
+  .option('--repository <string>', 'Only include one repository')
+  .option(
+    '--sections <sections>',
+    'Comma-separated sections: developers, repositories',
+    (value: string) => value.split(',').map((s) => s.trim()),
+    [...DIGEST_SECTIONS]
+  )
+  .option('--max-items <number>', 'PRs and issues listed per section before "and N more"', '10')
+  .option('--format <string>', 'Output format: markdown, text', 'markdown')
+  .option(
+    '--notify <channels>',
+    'Also post the digest to comma-separated channels (names from NOTIFICATIONS_CONFIG or <type>:<url>)',
+    (value: string) => value.split(',').map((c) => c.trim())
+  )
+  .action(async (options) => {
+    let repository: ActivityRepository | undefined;
+    try {
+      const format = options.format as DigestFormat;
+      if (!DIGEST_FORMATS.includes(format)) {
+        console.error(
+          chalk.red(`Error: Unknown format "${options.format}". Use: ${DIGEST_FORMATS.join(', ')}`)
+        );
+        process.exit(1);
+      }
+
+      const sections = options.sections as string[];
+      const invalidSection = sections.find(
+        (s) => !(DIGEST_SECTIONS as readonly string[]).includes(s)
+      );
+      if (invalidSection) {
+        console.error(
+          chalk.red(
+            `Error: Unknown section "${invalidSection}". Use: ${DIGEST_SECTIONS.join(', ')}`
+          )
+        );
+        process.exit(1);
+      }
+
+      const maxItems = parseInt(options.maxItems, 10);
+      if (!Number.isInteger(maxItems) || maxItems < 0) {
+        console.error(chalk.red('Error: --max-items must be a non-negative integer'));
+        process.exit(1);
+      }
+
+      const fromParsed = parseDateOption(options.from, 'from');
+      if (!fromParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
+        process.exit(1);
+      }
+      const toParsed = parseDateOption(options.to, 'to');
+      if (!toParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.to}"`));
+        process.exit(1);
+      }
+
+      const channels = options.notify ? resolveNotificationChannels(options.notify) : [];
+
+      repository = createActivityRepository();
+      const connected = await repository.connect();
+      if (!connected) {
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
+        process.exit(1);
+      }
+
+      logInfo(
+        chalk.blue(
+          `Summarizing activities from ${dayjs(fromParsed).format('YYYY-MM-DD HH:mm')} to ${dayjs(toParsed).format('YYYY-MM-DD HH:mm')}`
+        )
+      );
+
+      const personOf = createPersonLookup(await repository.listIdentities());
+      const digest = await summarizeActivities(
+        repository.streamActivities({
+          fromDate: fromParsed,
+          toDate: toParsed,
+          repository: options.repository,
+        }),
+        personOf,
+        { from: fromParsed, to: toParsed }
+      );
+      logInfo(
+        chalk.green(
+          `✓ ${digest.developers.length} developers, ${digest.repositories.length} repositories\n`
+        )
+      );
+
+      const renderOptions: DigestRenderOptions = {
+        maxItems,
+        sections: sections as DigestRenderOptions['sections'],
+      };
+      process.stdout.write(renderDigest(digest, format, renderOptions));
+
+      if (channels.length > 0) {
+        const period = `${dayjs(fromParsed).format('YYYY-MM-DD')} – ${dayjs(toParsed).format('YYYY-MM-DD')}`;
+        await new Notifier().notifyAll(channels, {
+          title: `Activity digest ${period}`,
+          markdown: renderDigest(digest, 'markdown', renderOptions),
+          fields: { command: 'digest', from: digest.from, to: digest.to },
+          data: digest,
+        });
+        logInfo(chalk.green(`✓ Notified ${channels.map((c) => c.name).join(', ')}`));
+      }
+
+      await repository.close();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error building digest:'), errorMessage);
+      await repository?.close();
+      process.exit(1);
+    }
+  });
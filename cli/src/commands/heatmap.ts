@@ -0,0 +1,190 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import dayjs from 'dayjs';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import type {
+  ActivityQueryOptions,
+  ActivityRepository,
+} from '../infrastructure/activity-repository.js';
+import { resolveAuthorFilter } from '../core/identity-resolver.js';
+import { resolveWorkingCalendar } from '../core/working-time.js';
+import { HEATMAP_WEEKDAYS, buildHeatmap, heatmapToCsv, type Heatmap } from '../core/heatmap.js';
+import { loadWorkingCalendars } from '../config/working-calendars.js';
+import { parseDateOption } from '../core/date-utils.js';
+import { logInfo } from '../logger.js';
+
+const HEATMAP_FORMATS = ['table', 'json', 'csv'];
+
+// Intensity levels, lightest first: working hours in greens, off-hours in reds
+const WORKING_SHADES = ['#0e4429', '#006d32', '#26a641', '#39d353'];
+const OFF_HOURS_SHADES = ['#4a1c1c', '#8b2323', '#c93c3c', '#f05a5a'];
+const EMPTY_WORKING_SHADE = '#22272e';
+
+/**
+ * Show when work happens: stored activities per weekday and hour of day
+ *
+ * Regular working hours (WORKING_* or a working calendar) are highlighted so activity in the
+ * evening, at night or on weekends stands out.
+ */
+export const heatmapCommand = new Command('heatmap')
+  .description('Show activities per weekday and hour of day, highlighting off-hours work')
+  .option('--from <date>', 'Start date (YYYY-MM-DD or "90 days ago")', '90 days ago')
+  .option('--to <date>', 'End date (YYYY-MM-DD or "now")', 'now')
+  .option('--author <string>', 'Filter by author (resolved through identities when linked)')
+  .option('--repository <string>', 'Filter by repository')
+  .option('--type <string>', 'Filter by activity type (commit, pr_created, pr_review, etc.)')
+  .option(
+    '--timezone <string>',
+    'IANA timezone of the grid and working hours (default: calendar timezone or local)'
+  )
+  .option(
+    '--calendars <path>',
+    "Working calendars file; with --author, that person's hours are overlaid (default: WORKING_CALENDARS)"
+  )
+  .option('--format <string>', 'Output format: table, json, csv', 'table')
+  .action(async (options) => {
+    let repository: ActivityRepository | undefined;
+    try {
+      if (!HEATMAP_FORMATS.includes(options.format)) {
+        console.error(
+          chalk.red(`Error: Unknown format "${options.format}". Use: ${HEATMAP_FORMATS.join(', ')}`)
+        );
+        process.exit(1);
+      }
+
+      if (options.timezone && !isValidTimezone(options.timezone)) {
+        console.error(chalk.red(`Error: Unknown timezone "${options.timezone}"`));
+        process.exit(1);
+      }
+
+      const fromParsed = parseDateOption(options.from, 'from');
+      if (!fromParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
+        process.exit(1);
+      }
+      const toParsed = parseDateOption(options.to, 'to');
+      if (!toParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.to}"`));
+        process.exit(1);
+      }
+
+      const calendar = resolveWorkingCalendar(
+        await loadWorkingCalendars(options.calendars),
+        options.author
+      );
+      const timezone: string = options.timezone ?? calendar.timezone ?? dayjs.tz.guess();
+
+      repository = createActivityRepository();
+      const connected = await repository.connect();
+      if (!connected) {
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
+        process.exit(1);
+      }
+
+      const filters: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {
+        repository: options.repository,
+        type: options.type,
+        fromDate: fromParsed,
+        toDate: toParsed,
+      };
+      if (options.author) {
+        const authorFilter = await resolveAuthorFilter(repository, options.author);
+        if (authorFilter) {
+          filters.authors = authorFilter.authors;
+          filters.authorEmails = authorFilter.emails;
+        } else {
+          filters.author = options.author;
+        }
+      }
+
+      logInfo(
+        chalk.blue(
+          `Building heatmap from ${dayjs(fromParsed).format('YYYY-MM-DD HH:mm')} to ${dayjs(toParsed).format('YYYY-MM-DD HH:mm')} (${timezone})`
+        )
+      );
+
+      const heatmap = await buildHeatmap(repository.streamActivities(filters), {
+        ...calendar,
+        timezone,
+      });
+
+      if (options.format === 'json') {
+        console.log(
+          JSON.stringify(
+            {
+              from: fromParsed.toISOString(),
+              to: toParsed.toISOString(),
+              weekdays: HEATMAP_WEEKDAYS,
+              ...heatmap,
+            },
+            null,
+            2
+          )
+        );
+      } else if (options.format === 'csv') {
+        process.stdout.write(heatmapToCsv(heatmap));
+      } else {
+        printHeatmap(heatmap);
+      }
+
+      await repository.close();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error building heatmap:'), errorMessage);
+      await repository?.close();
+      process.exit(1);
+    }
+  });
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Print the weekday × hour grid, one colored cell per hour
+ */
+function printHeatmap(heatmap: Heatmap): void {
+  const max = Math.max(...heatmap.counts.flat());
+  const cellWidth = Math.max(2, String(max).length) + 1;
+
+  const hours = Array.from({ length: 24 }, (_, hour) => String(hour).padStart(cellWidth)).join('');
+  console.log(`\n     ${chalk.gray(hours)}`);
+
+  heatmap.counts.forEach((counts, weekday) => {
+    const cells = counts.map((count, hour) => {
+      const working = heatmap.workingSlots[weekday][hour];
+      const text = (count > 0 ? String(count) : '·').padStart(cellWidth);
+      if (count === 0) {
+        return working ? chalk.bgHex(EMPTY_WORKING_SHADE).gray(text) : chalk.gray(text);
+      }
+      const shades = working ? WORKING_SHADES : OFF_HOURS_SHADES;
+      const level = Math.min(shades.length - 1, Math.floor((count / max) * shades.length));
+      return chalk.bgHex(shades[level]).whiteBright(text);
+    });
+    console.log(`  ${HEATMAP_WEEKDAYS[weekday]}${cells.join('')}`);
+  });
+
+  const share =
+    heatmap.total > 0 ? ` (${((heatmap.offHours / heatmap.total) * 100).toFixed(1)}%)` : '';
+  console.log(
+    `\n  ${chalk.bgHex(WORKING_SHADES[2])('  ')} working hours  ${chalk.bgHex(OFF_HOURS_SHADES[2])('  ')} off-hours  ${chalk.gray(`(${heatmap.timezone})`)}`
+  );
+  console.log(
+    `  ${heatmap.total} activities, ${chalk.bold(`${heatmap.offHours} off-hours`)}${share}`
+  );
+
+  if (heatmap.total > 0) {
+    const weekday = heatmap.counts.findIndex((counts) => counts.includes(max));
+    const hour = heatmap.counts[weekday].indexOf(max);
+    console.log(
+      chalk.gray(
+        `  Busiest hour: ${HEATMAP_WEEKDAYS[weekday]} ${String(hour).padStart(2, '0')}:00 (${max})`
+      )
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import type { ActivityRepository } from '../infrastructure/activity-repository.js';
+import { normalizeIdentityValue, type Identity } from '../infrastructure/identity-repository.js';
+import { parseAlias, suggestIdentities } from '../core/identity-resolver.js';
+import { logInfo } from '../logger.js';
+
+/**
+ * Open the configured repository, run an identities action and close it
+ */
+async function withRepository(
+  action: string,
+  run: (repository: ActivityRepository) => Promise<void>
+): Promise<void> {
+  let repository: ActivityRepository | undefined;
+  try {
+    repository = createActivityRepository();
+    const connected = await repository.connect();
+    if (!connected) {
+      console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
+      process.exit(1);
+    }
+
+    await run(repository);
+    await repository.close();
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(chalk.red(`Error ${action}:`), errorMessage);
+    await repository?.close();
+    process.exit(1);
+  }
+}
+
+function printIdentities(identities: Identity[]): void {
+  const byPerson = new Map<string, Identity[]>();
+  for (const identity of identities) {
+    const list = byPerson.get(identity.person) || [];
+    list.push(identity);
+    byPerson.set(identity.person, list);
+  }
+
+  for (const [person, aliases] of byPerson) {
+    console.log(chalk.bold(person));
+    for (const alias of aliases) {
+      const source = alias.source === 'suggested' ? chalk.gray(' (suggested)') : '';
+      console.log(`  ${chalk.cyan(alias.kind.padEnd(6))} ${alias.value}${source}`);
+    }
+  }
+}
+
+const listCommand = new Command('list')
+  .description('List identities grouped by person')
+  .option('--person <string>', 'Only show aliases of this person')
+  .option('--format <string>', 'Output format: json, table', 'table')
+  .action(async (options) => {
+    await withRepository('listing identities', async (repository) => {
+      const identities = await repository.listIdentities(
+        options.person ? normalizeIdentityValue(options.person) : undefined
+      );
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(identities, null, 2));
+      } else if (identities.length === 0) {
+        logInfo(chalk.yellow('No identities stored. Try `identities suggest`.'));
+      } else {
+        printIdentities(identities);
+      }
+    });
+  });
+
+const suggestCommand = new Command('suggest')
+  .description('Suggest identities linking commit authors and emails to GitHub logins')
+  .option('--apply', 'Save the suggestions', false)
+  .action(async (options) => {
+    await withRepository('suggesting identities', async (repository) => {
+      const aliases = await repository.listAuthorAliases();
+      const existing = await repository.listIdentities();
+      const suggestions = suggestIdentities(aliases, existing);
+
+      if (suggestions.length === 0) {
+        logInfo(chalk.green('No new identity suggestions.'));
+        return;
+      }
+
+      for (const suggestion of suggestions) {
+        console.log(
+          `${chalk.cyan(suggestion.kind.padEnd(6))} ${suggestion.value} ${chalk.gray('→')} ${chalk.bold(suggestion.person)} ${chalk.gray(`(${suggestion.reason})`)}`
+        );
+      }
+
+      if (options.apply) {
+        await repository.saveIdentities(
+          suggestions.map(({ reason: _reason, ...identity }) => identity)
+        );
+        logInfo(chalk.green(`\n✓ Saved ${suggestions.length} identities`));
+      } else {
+        logInfo(chalk.gray(`\n${suggestions.length} suggestions. Re-run with --apply to save.`));
+      }
+    });
+  });
+
+const linkCommand = new Command('link')
+  .description('Attach aliases (email:..., name:..., login:...) to a person')
+  .argument('<person>', 'Canonical person identifier (usually the GitHub login)')
+  .argument('<aliases...>', 'Aliases; values with "@" default to email, others to login')
+  .action(async (personArg: string, aliasArgs: string[]) => {
+    await withRepository('linking identities', async (repository) => {
+      const person = normalizeIdentityValue(personArg);
+      const identities: Identity[] = aliasArgs.map((arg) => ({
+        ...parseAlias(arg),
+        person,
+        source: 'manual',
+      }));
+
+      await repository.saveIdentities(identities);
+      logInfo(chalk.green(`✓ Linked ${identities.length} aliases to ${person}`));
+    });
+  });
+
+const mergeCommand = new Command('merge')
+  .description('Merge people: move every alias of the source people to the target person')
+  .argument('<target>', 'Person that keeps the aliases')
+  .argument('<sources...>', 'People to merge into the target')
+  .action(async (targetArg: string, sourceArgs: string[]) => {
+    await withRepository('merging identities', async (repository) => {
+      const target = normalizeIdentityValue(targetArg);
+      let moved = 0;
+
+      for (const sourceArg of sourceArgs) {
+        const source = normalizeIdentityValue(sourceArg);
+        if (source === target) continue;
+        moved += await repository.reassignPerson(source, target);
+        // Keep the old person name resolvable as an alias of the target
+        await repository.saveIdentities([
+          { kind: 'login', value: source, person: target, source: 'manual' },
+        ]);
+      }
+
+      logInfo(chalk.green(`✓ Moved ${moved} aliases to ${target}`));
+    });
+  });
+
+const splitCommand = new Command('split')
+  .description('Detach aliases from their person')
+  .argument('<aliases...>', 'Aliases to detach (email:..., name:..., login:...)')
+  .action(async (aliasArgs: string[]) => {
+    await withRepository('splitting identities', async (repository) => {
+      const removed = await repository.deleteIdentities(aliasArgs.map(parseAlias));
+      logInfo(chalk.green(`✓ Detached ${removed} aliases`));
+    });
+  });
+
+/**
+ * Manage identities mapping git authors, emails and GitHub logins to one person
+ * Used by --author filters so one developer is queried as a single author
+ */
+export const identitiesCommand = new Command('identities')
+  .description('Manage identities mapping emails, git author names and GitHub logins to people')
+  .addCommand(listCommand)
+  .addCommand(suggestCommand)
+  .addCommand(linkCommand)
+  .addCommand(mergeCommand)
+  .addCommand(splitCommand);
@@ -0,0 +1,75 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import type { ActivityRepository, StoredActivity } from '../infrastructure/activity-repository.js';
+import { planKeyMigration } from '../core/activity-key-migration.js';
+import { createActivityKeyGenerator } from '../connectors/activity-keys.js';
+import { logInfo } from '../logger.js';
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Re-key stored activities with their connector's unique key and remove duplicates
+ *
+ * Activities used to be keyed by the repository's generic generator and by timestamps
+ * rounded to the minute. Run this after upgrading, ideally after re-syncing the stored
+ * range so PR comments, reviews and issue events carry their GraphQL node IDs.
+ */
+export const migrateActivityKeysCommand = new Command('migrate-activity-keys')
+  .description('Re-key stored activities (GraphQL node IDs where known) and remove duplicates')
+  .option('--dry-run', 'Only report what would change', false)
+  .action(async (options) => {
+    let repository: ActivityRepository | undefined;
+    try {
+      repository = createActivityRepository();
+      const connected = await repository.connect();
+      if (!connected) {
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
+        process.exit(1);
+      }
+
+      logInfo(chalk.blue('Loading stored activities...'));
+      const rows = await loadAllActivities(repository);
+
+      const keyFor = createActivityKeyGenerator();
+      const plan = planKeyMigration(rows, keyFor);
+
+      logInfo(chalk.bold('\n=== Activity Key Migration ===\n'));
+      logInfo(`  Activities:          ${rows.length}`);
+      logInfo(`  Unchanged:           ${plan.unchanged}`);
+      logInfo(`  Re-keyed:            ${plan.rekeyed.length}`);
+      logInfo(`  Legacy duplicates:   ${plan.legacyDuplicates}`);
+      logInfo(`  Same-key duplicates: ${plan.keyCollisions}`);
+
+      if (options.dryRun) {
+        logInfo(chalk.yellow('\nDry run: no changes written.'));
+      } else if (plan.rekeyed.length === 0 && plan.deletedIds.length === 0) {
+        logInfo(chalk.green('\n✓ Keys are up to date'));
+      } else {
+        await repository.applyKeyChanges(plan);
+        logInfo(
+          chalk.green(
+            `\n✓ Re-keyed ${plan.rekeyed.length} and removed ${plan.deletedIds.length} activities`
+          )
+        );
+      }
+
+      await repository.close();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error migrating activity keys:'), errorMessage);
+      await repository?.close();
+      process.exit(1);
+    }
+  });
+
+async function loadAllActivities(repository: ActivityRepository): Promise<StoredActivity[]> {
+  const rows: StoredActivity[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await repository.findActivities({ limit: PAGE_SIZE, offset });
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
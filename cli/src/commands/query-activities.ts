@@ -1,39 +1,70 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import dayjs from 'dayjs';
-import { initDatabase, closeDatabase, isDatabaseConfigured } from '../infrastructure/database.js';
-import {
-  findActivities,
-  countActivities,
-  type ActivityQueryOptions,
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import type {
+  ActivityQueryOptions,
+  ActivityRepository,
+  StoredActivity,
 } from '../infrastructure/activity-repository.js';
+import { resolveAuthorFilter } from '../core/identity-resolver.js';
+import {
+  EXPORT_FORMATS,
+  createActivityWriter,
+  parseFields,
+  type ActivityWriter,
+  type ExportFormat,
+} from '../core/activity-export.js';
+import { parseDateOption } from '../core/date-utils.js';
 import { logInfo } from '../logger.js';
 
 export const queryActivitiesCommand = new Command('query-activities')
   .description('Query stored activities from the database')
-  .option('--author <string>', 'Filter by author')
+  .option('--author <string>', 'Filter by author (resolved through identities when linked)')
   .option('--repository <string>', 'Filter by repository')
   .option('--type <string>', 'Filter by activity type (commit, pr_created, pr_review, etc.)')
+  .option('--path <prefix>', 'Only commits changing a file under this path (e.g. src/api/)')
   .option('--from <date>', 'Start date (YYYY-MM-DD)')
   .option('--to <date>', 'End date (YYYY-MM-DD)')
   .option('--limit <number>', 'Maximum number of results', '100')
   .option('--offset <number>', 'Skip first N results', '0')
+  .option('--all', 'Stream every matching activity, ignoring --limit and --offset', false)
   .option('--count-only', 'Only show count, not full results', false)
-  .option('--format <string>', 'Output format: json, table', 'json')
+  .option('--format <string>', 'Output format: json, ndjson, csv, markdown, table', 'json')
+  .option(
+    '--fields <fields>',
+    'Comma-separated fields to output, including meta.<key> (json, ndjson, csv, markdown)'
+  )
   .action(async (options) => {
+    let repository: ActivityRepository | undefined;
     try {
-      if (!isDatabaseConfigured()) {
+      const format = options.format as ExportFormat | 'table';
+      if (format !== 'table' && !EXPORT_FORMATS.includes(format)) {
         console.error(
           chalk.red(
-            'Error: Database not configured. Set DATABASE_URL or POSTGRES_* environment variables.'
+            `Error: Unknown format "${options.format}" (expected ${[...EXPORT_FORMATS, 'table'].join(', ')}).`
           )
         );
         process.exit(1);
       }
+      if (options.fields && format === 'table') {
+        console.error(chalk.red('Error: --fields is not supported with --format table.'));
+        process.exit(1);
+      }
 
-      const connected = await initDatabase();
+      let fields: string[] | undefined;
+      try {
+        fields = options.fields ? parseFields(options.fields) : undefined;
+      } catch (error) {
+        console.error(chalk.red(`Error: ${(error as Error).message}`));
+        process.exit(1);
+      }
+
+      // Initialize storage
+      repository = createActivityRepository();
+      const connected = await repository.connect();
       if (!connected) {
-        console.error(chalk.red('Error: Could not connect to database.'));
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
         process.exit(1);
       }
 
@@ -43,8 +74,16 @@ export const queryActivitiesCommand = new Command('query-activities')
         offset: parseInt(options.offset, 10),
       };
 
+      let resolvedPerson: string | undefined;
       if (options.author) {
-        queryOptions.author = options.author;
+        const authorFilter = await resolveAuthorFilter(repository, options.author);
+        if (authorFilter) {
+          resolvedPerson = authorFilter.person;
+          queryOptions.authors = authorFilter.authors;
+          queryOptions.authorEmails = authorFilter.emails;
+        } else {
+          queryOptions.author = options.author;
+        }
       }
 
       if (options.repository) {
@@ -55,61 +94,121 @@ export const queryActivitiesCommand = new Command('query-activities')
         queryOptions.type = options.type;
       }
 
+      if (options.path) {
+        queryOptions.pathPrefix = options.path;
+      }
+
       if (options.from) {
-        queryOptions.fromDate = dayjs(options.from).toDate();
+        const parsed = parseDateOption(options.from, 'from');
+        if (!parsed) {
+          console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
+          process.exit(1);
+        }
+        queryOptions.fromDate = parsed;
       }
 
       if (options.to) {
-        queryOptions.toDate = dayjs(options.to).toDate();
+        const parsed = parseDateOption(options.to, 'to');
+        if (!parsed) {
+          console.error(chalk.red(`Error: Could not parse date: "${options.to}"`));
+          process.exit(1);
+        }
+        queryOptions.toDate = parsed;
       }
 
       // Log query info
       logInfo(chalk.blue('Querying activities...'));
       if (options.author) logInfo(chalk.gray(`  Author: ${options.author}`));
+      if (resolvedPerson) {
+        logInfo(
+          chalk.gray(
+            `  Person: ${resolvedPerson} (${queryOptions.authors?.length} names, ${queryOptions.authorEmails?.length} emails)`
+          )
+        );
+      }
       if (options.repository) logInfo(chalk.gray(`  Repository: ${options.repository}`));
       if (options.type) logInfo(chalk.gray(`  Type: ${options.type}`));
+      if (options.path) logInfo(chalk.gray(`  Path: ${options.path}`));
       if (options.from) logInfo(chalk.gray(`  From: ${options.from}`));
       if (options.to) logInfo(chalk.gray(`  To: ${options.to}`));
 
       if (options.countOnly) {
-        const count = await countActivities(queryOptions);
+        const count = await repository.countActivities(queryOptions);
         logInfo(chalk.green(`\nTotal activities: ${count}`));
-        await closeDatabase();
+        await repository.close();
         return;
       }
 
-      const activities = await findActivities(queryOptions);
-      const totalCount = await countActivities(queryOptions);
+      const writer = format === 'table' ? tableWriter : createActivityWriter(format, fields);
 
-      logInfo(chalk.green(`\nFound ${activities.length} activities (total: ${totalCount})\n`));
+      if (options.all) {
+        // Stream with a database cursor; count first since the cursor holds the connection
+        const totalCount = await repository.countActivities(queryOptions);
+        logInfo(chalk.green(`\nExporting ${totalCount} activities\n`));
 
-      if (options.format === 'table') {
-        // Table format output
-        for (const activity of activities) {
-          const date = dayjs(activity.date).format('YYYY-MM-DD HH:mm');
-          const typeColor = getTypeColor(activity.type);
-
-          console.log(
-            `${chalk.gray(date)} ${typeColor(activity.type.padEnd(20))} ${chalk.white(activity.author.padEnd(20))} ${chalk.cyan(activity.repository)}`
-          );
-          if (activity.title) {
-            console.log(`  ${chalk.gray(activity.title)}`);
-          }
-        }
+        const written = await writeActivities(writer, repository.streamActivities(queryOptions));
+        logInfo(chalk.green(`\n✓ Exported ${written} activities`));
       } else {
-        // JSON format output
-        console.log(JSON.stringify(activities, null, 2));
+        const activities = await repository.findActivities(queryOptions);
+        const totalCount = await repository.countActivities(queryOptions);
+
+        logInfo(chalk.green(`\nFound ${activities.length} activities (total: ${totalCount})\n`));
+
+        await writeActivities(writer, activities);
       }
 
-      await closeDatabase();
+      await repository.close();
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(chalk.red('Error querying activities:'), errorMessage);
-      await closeDatabase();
+      await repository?.close();
       process.exit(1);
     }
   });
 
+/**
+ * Write activities to stdout, waiting for the stream to drain so large exports stay bounded in memory
+ * @returns Number of activities written
+ */
+async function writeActivities(
+  writer: ActivityWriter,
+  activities: Iterable<StoredActivity> | AsyncIterable<StoredActivity>
+): Promise<number> {
+  let written = 0;
+  await writeOutput(writer.begin());
+  for await (const activity of activities) {
+    await writeOutput(writer.row(activity));
+    written++;
+  }
+  await writeOutput(writer.end());
+  return written;
+}
+
+function writeOutput(text: string): Promise<void> {
+  if (!text || process.stdout.write(text)) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => process.stdout.once('drain', resolve));
+}
+
+/**
+ * Colored one-line-per-activity output for terminals
+ */
+const tableWriter: ActivityWriter = {
+  begin: () => '',
+  row: (activity) => {
+    const date = dayjs(activity.date).format('YYYY-MM-DD HH:mm');
+    const typeColor = getTypeColor(activity.type);
+
+    let text = `${chalk.gray(date)} ${typeColor(activity.type.padEnd(20))} ${chalk.white(activity.author.padEnd(20))} ${chalk.cyan(activity.repository)}\n`;
+    if (activity.title) {
+      text += `  ${chalk.gray(activity.title)}\n`;
+    }
+    return text;
+  },
+  end: () => '',
+};
+
 function getTypeColor(type: string): (text: string) => string {
   switch (type) {
     case 'commit':
@@ -120,6 +219,15 @@ function getTypeColor(type: string): (text: string) => string {
       return chalk.magenta;
     case 'pr_comment':
       return chalk.cyan;
+    case 'pr_merged':
+      return chalk.green;
+    case 'pr_closed':
+      return chalk.red;
+    case 'pr_review_requested':
+    case 'pr_ready_for_review':
+      return chalk.magenta;
+    case 'pr_commit':
+      return chalk.blue;
     case 'issue_status_change':
       return chalk.yellow;
     case 'issue_assignment':
@@ -128,6 +236,12 @@ function getTypeColor(type: string): (text: string) => string {
       return chalk.yellow;
     case 'issue_state_change':
       return chalk.red;
+    case 'issue_created':
+      return chalk.blue;
+    case 'issue_comment':
+      return chalk.cyan;
+    case 'deployment':
+      return chalk.greenBright;
     default:
       return chalk.gray;
   }
@@ -0,0 +1,366 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import dayjs from 'dayjs';
+import { GitHubClient } from '../github.js';
+import { getGitHubToken } from '../auth.js';
+import {
+  buildIssueFlowRow,
+  summarizeIssueFlow,
+  summarizeIssueGroup,
+  type FlowDurationSummary,
+  type IssueFlowGroup,
+  type IssueFlowRow,
+  type StatusCategories,
+} from '../core/cycle-time-report.js';
+import type { DurationPair } from '../core/pr-metrics-report.js';
+import { formatWorkingDuration } from '../core/working-time.js';
+import { toCsvRow } from '../core/csv.js';
+import { loadConnectorsConfig } from '../config/connectors.config.js';
+import { loadStatusCategories } from '../config/status-categories.js';
+import { loadWorkingCalendars } from '../config/working-calendars.js';
+import { parseDateOption } from '../core/date-utils.js';
+import { logInfo } from '../logger.js';
+
+const GROUP_LEVELS = ['issue', 'assignee', 'label'] as const;
+type GroupLevel = (typeof GROUP_LEVELS)[number];
+
+const UNASSIGNED = '(unassigned)';
+const NO_LABEL = '(no label)';
+
+interface CycleTimeReport {
+  from: string;
+  to: string;
+  project: string;
+  categories: StatusCategories;
+  percentiles: number[];
+  overall: IssueFlowGroup;
+  issues?: IssueFlowRow[];
+  byAssignee?: IssueFlowGroup[];
+  byLabel?: IssueFlowGroup[];
+}
+
+/**
+ * Report flow metrics for ProjectV2 issues done in a date range
+ *
+ * Reads each issue's status history on the board and computes, per issue, per assignee and
+ * per label:
+ * - Lead time (created to done) and cycle time (first started status to done)
+ * - Time spent in each status
+ * Every duration is measured on the wall clock and in working time.
+ */
+export const cycleTimeCommand = new Command('cycle-time')
+  .description('Report issue lead time, cycle time and time per status from a project board')
+  .option('--owner <string>', 'GitHub organization or user (default: GITHUB_OWNER)')
+  .option('--project <number>', 'ProjectV2 number (default: PROJECT_NUMBER)')
+  .option(
+    '--config <path>',
+    'Config file whose first issues target is used when --project is omitted'
+  )
+  .option(
+    '--from <date>',
+    'Start date for issues done (YYYY-MM-DD or "30 days ago")',
+    '30 days ago'
+  )
+  .option('--to <date>', 'End date for issues done (YYYY-MM-DD or "now")', 'now')
+  .option(
+    '--categories <path>',
+    'Status category mapping file with started and done statuses (default: STATUS_CATEGORIES)'
+  )
+  .option(
+    '--started <statuses>',
+    'Comma-separated statuses that mean work has started (overrides the mapping file)',
+    (value: string) => value.split(',').map((s) => s.trim())
+  )
+  .option(
+    '--done <statuses>',
+    'Comma-separated statuses that mean work is done (overrides the mapping file)',
+    (value: string) => value.split(',').map((s) => s.trim())
+  )
+  .option(
+    '--group-by <levels>',
+    'Comma-separated levels to report: issue, assignee, label',
+    (value: string) => value.split(',').map((l) => l.trim()),
+    [...GROUP_LEVELS]
+  )
+  .option(
+    '--percentiles <list>',
+    'Comma-separated percentiles to compute',
+    (value: string) => value.split(',').map((p) => Number(p.trim())),
+    [50, 85, 95]
+  )
+  .option(
+    '--calendars <path>',
+    'Working calendars file with per-team and per-person hours (default: WORKING_CALENDARS)'
+  )
+  .option('--format <string>', 'Output format: table, json, csv', 'table')
+  .action(async (options) => {
+    try {
+      const levels = options.groupBy as string[];
+      const invalidLevel = levels.find((l) => !GROUP_LEVELS.includes(l as GroupLevel));
+      if (invalidLevel) {
+        console.error(
+          chalk.red(`Error: Unknown group level "${invalidLevel}". Use: ${GROUP_LEVELS.join(', ')}`)
+        );
+        process.exit(1);
+      }
+
+      if (!['table', 'json', 'csv'].includes(options.format)) {
+        console.error(
+          chalk.red(`Error: Unknown format "${options.format}". Use: table, json, csv`)
+        );
+        process.exit(1);
+      }
+
+      if (options.format === 'csv' && levels.length !== 1) {
+        console.error(
+          chalk.red('Error: CSV output needs a single --group-by level (issue, assignee or label)')
+        );
+        process.exit(1);
+      }
+
+      const percentiles = options.percentiles as number[];
+      if (percentiles.some((p) => !Number.isFinite(p) || p < 0 || p > 100)) {
+        console.error(chalk.red('Error: --percentiles must be numbers between 0 and 100'));
+        process.exit(1);
+      }
+
+      const fromParsed = parseDateOption(options.from, 'from');
+      if (!fromParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
+        process.exit(1);
+      }
+      const toParsed = parseDateOption(options.to, 'to');
+      if (!toParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.to}"`));
+        process.exit(1);
+      }
+      const fromDate = dayjs(fromParsed);
+      const toDate = dayjs(toParsed);
+
+      const target = (loadConnectorsConfig(options.config).issues?.targets || []).find(
+        (t) => t.enabled
+      );
+      const owner: string | undefined = options.owner || target?.owner;
+      const projectNumber = options.project ? parseInt(options.project, 10) : target?.projectNumber;
+      if (!owner || !projectNumber) {
+        console.error(
+          chalk.red(
+            'Error: No project. Pass --owner and --project or set GITHUB_OWNER and PROJECT_NUMBER.'
+          )
+        );
+        process.exit(1);
+      }
+
+      const fileCategories = loadStatusCategories(options.categories);
+      const categories: StatusCategories = {
+        started: options.started ?? fileCategories.started,
+        done: options.done ?? fileCategories.done,
+      };
+      const calendars = await loadWorkingCalendars(options.calendars);
+
+      const authResult = await getGitHubToken();
+      if (!authResult) {
+        console.error(chalk.red('Error: GITHUB_TOKEN or GitHub App credentials are required'));
+        process.exit(1);
+      }
+      const client = new GitHubClient(authResult.token);
+
+      const project = `${owner}/Project-${projectNumber}`;
+      logInfo(
+        chalk.blue(
+          `\nComputing flow metrics for ${project}, issues done from ${fromDate.format('YYYY-MM-DD HH:mm')} to ${toDate.format('YYYY-MM-DD HH:mm')}\n`
+        )
+      );
+      logInfo(chalk.gray(`  Started: ${categories.started.join(', ')}`));
+      logInfo(chalk.gray(`  Done: ${categories.done.join(', ')}`));
+
+      // Moving an item to a done status updates it, so items done in the range were updated since
+      const items = await client.fetchProjectItems({
+        owner,
+        projectNumber,
+        filter: `updated:>=${fromDate.format('YYYY-MM-DD')}`,
+      });
+      for (const warning of items.warnings) {
+        logInfo(chalk.yellow(`  ! ${warning}`));
+      }
+
+      const rows = items.nodes
+        .map((item) => buildIssueFlowRow(item, { projectNumber, categories, calendars, toDate }))
+        .filter((row): row is IssueFlowRow => {
+          if (!row?.doneAt) return false;
+          const done = dayjs(row.doneAt);
+          return !done.isBefore(fromDate) && !done.isAfter(toDate);
+        })
+        .sort((a, b) => dayjs(a.doneAt).diff(dayjs(b.doneAt)));
+      logInfo(chalk.green(`  ✓ ${rows.length} issues done (${items.nodes.length} items fetched)`));
+
+      const report: CycleTimeReport = {
+        from: fromDate.toISOString(),
+        to: toDate.toISOString(),
+        project,
+        categories,
+        percentiles,
+        overall: summarizeIssueGroup('all issues', rows, percentiles),
+      };
+      if (levels.includes('issue')) report.issues = rows;
+      if (levels.includes('assignee')) {
+        report.byAssignee = summarizeIssueFlow(
+          rows,
+          (r) => (r.assignees.length > 0 ? r.assignees : [UNASSIGNED]),
+          percentiles
+        );
+      }
+      if (levels.includes('label')) {
+        report.byLabel = summarizeIssueFlow(
+          rows,
+          (r) => (r.labels.length > 0 ? r.labels : [NO_LABEL]),
+          percentiles
+        );
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(report, null, 2));
+      } else if (options.format === 'csv') {
+        printCsv(report);
+      } else {
+        printTable(report);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error computing cycle time:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+function formatSeconds(seconds: number | undefined): string {
+  return seconds === undefined ? '-' : formatWorkingDuration(seconds * 1000);
+}
+
+function formatPair(pair: DurationPair): string {
+  return `${formatSeconds(pair.wallClockSeconds)} (${formatSeconds(pair.workingSeconds)} wt)`;
+}
+
+function formatSummary(summary: FlowDurationSummary): string {
+  const values = Object.keys(summary.wallClock.percentiles).map(
+    (p) =>
+      `${p} ${formatSeconds(summary.wallClock.percentiles[p])} / ${formatSeconds(summary.working.percentiles[p])} wt`
+  );
+  return `${values.join(', ')} ${chalk.gray(`(n=${summary.wallClock.count})`)}`;
+}
+
+function printGroup(group: IssueFlowGroup): void {
+  console.log(`${chalk.white(group.key)} ${chalk.gray(`${group.issueCount} issues`)}`);
+  console.log(`  ${chalk.gray('lead time: ')} ${formatSummary(group.leadTime)}`);
+  console.log(`  ${chalk.gray('cycle time:')} ${formatSummary(group.cycleTime)}`);
+  for (const [status, summary] of Object.entries(group.statusTimes)) {
+    console.log(`  ${chalk.gray(`${status}:`)} ${formatSummary(summary)}`);
+  }
+}
+
+function printTable(report: CycleTimeReport): void {
+  if (report.issues) {
+    logInfo(chalk.bold(`\n=== Issues (${report.issues.length}) ===\n`));
+    for (const row of report.issues) {
+      const assignees = row.assignees.length > 0 ? row.assignees.join(', ') : UNASSIGNED;
+      console.log(
+        `${chalk.cyan(row.repository)}#${chalk.white(String(row.number))} ${chalk.white(row.title)} ${chalk.gray(`[${row.status}] ${assignees}`)}`
+      );
+      console.log(
+        `  ${chalk.gray('lead time:')} ${formatPair(row.leadTime)}` +
+          `  ${chalk.gray('cycle time:')} ${formatPair(row.cycleTime)}` +
+          `  ${chalk.gray('done:')} ${dayjs(row.doneAt).format('YYYY-MM-DD')}`
+      );
+      console.log(
+        `  ${chalk.gray('statuses:')} ${row.statusTimes.map((s) => `${s.status} ${formatPair(s)}`).join(', ') || '-'}`
+      );
+    }
+  }
+
+  logInfo(chalk.bold('\n=== Overall ===\n'));
+  printGroup(report.overall);
+
+  const groupSections: [string, IssueFlowGroup[] | undefined][] = [
+    ['By Assignee', report.byAssignee],
+    ['By Label', report.byLabel],
+  ];
+  for (const [title, groups] of groupSections) {
+    if (!groups) continue;
+    logInfo(chalk.bold(`\n=== ${title} ===\n`));
+    groups.forEach(printGroup);
+  }
+}
+
+function printCsv(report: CycleTimeReport): void {
+  if (report.issues) {
+    console.log(
+      toCsvRow([
+        'repository',
+        'number',
+        'title',
+        'status',
+        'assignees',
+        'labels',
+        'createdAt',
+        'startedAt',
+        'doneAt',
+        'leadTimeSeconds',
+        'leadTimeWorkingSeconds',
+        'cycleTimeSeconds',
+        'cycleTimeWorkingSeconds',
+        'statusTimes',
+      ])
+    );
+    for (const row of report.issues) {
+      console.log(
+        toCsvRow([
+          row.repository,
+          row.number,
+          row.title,
+          row.status,
+          row.assignees.join(';'),
+          row.labels.join(';'),
+          row.createdAt,
+          row.startedAt,
+          row.doneAt,
+          row.leadTime.wallClockSeconds,
+          row.leadTime.workingSeconds,
+          row.cycleTime.wallClockSeconds,
+          row.cycleTime.workingSeconds,
+          // status:seconds:workingSeconds, in order of first visit
+          row.statusTimes
+            .map((s) => `${s.status}:${s.wallClockSeconds ?? ''}:${s.workingSeconds ?? ''}`)
+            .join(';'),
+        ])
+      );
+    }
+    return;
+  }
+
+  const groups = report.byAssignee || report.byLabel || [];
+  const summaryColumns = (name: string): string[] =>
+    report.percentiles.flatMap((p) => [`${name}P${p}Seconds`, `${name}WorkingP${p}Seconds`]);
+  const summaryValues = (summary: FlowDurationSummary): unknown[] =>
+    report.percentiles.flatMap((p) => [
+      summary.wallClock.percentiles[`p${p}`],
+      summary.working.percentiles[`p${p}`],
+    ]);
+
+  console.log(
+    toCsvRow([
+      report.byAssignee ? 'assignee' : 'label',
+      'issueCount',
+      ...summaryColumns('leadTime'),
+      ...summaryColumns('cycleTime'),
+    ])
+  );
+  for (const group of groups) {
+    console.log(
+      toCsvRow([
+        group.key,
+        group.issueCount,
+        ...summaryValues(group.leadTime),
+        ...summaryValues(group.cycleTime),
+      ])
+    );
+  }
+}
@@ -0,0 +1,370 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import dayjs from 'dayjs';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import type { ActivityRepository } from '../infrastructure/activity-repository.js';
+import {
+  buildDeploymentRows,
+  summarizeDora,
+  summarizeDoraBy,
+  type DeploymentRow,
+  type DoraConventions,
+  type DoraGroup,
+} from '../core/dora-report.js';
+import type { PercentileSummary } from '../core/statistics.js';
+import { formatWorkingDuration } from '../core/working-time.js';
+import { toCsvRow } from '../core/csv.js';
+import { loadDoraConventions } from '../config/dora-conventions.js';
+import type { UserActivity } from '../types.js';
+import { parseDateOption } from '../core/date-utils.js';
+import { logInfo } from '../logger.js';
+
+const GROUP_LEVELS = ['deployment', 'repository'] as const;
+type GroupLevel = (typeof GROUP_LEVELS)[number];
+
+// Activity types linking deployments to the changes they shipped
+const LINKED_TYPES = ['pr_created', 'pr_commit', 'pr_merged', 'commit'];
+
+interface DoraReport {
+  from: string;
+  to: string;
+  conventions: DoraConventions;
+  percentiles: number[];
+  overall: DoraGroup;
+  deployments?: DeploymentRow[];
+  byRepository?: DoraGroup[];
+}
+
+/**
+ * Report DORA metrics from stored deployments, PRs and commits
+ *
+ * Needs activities from the deployments connector alongside prs (and commits) activities:
+ * - Deployment frequency: deployments per week and days with a deployment
+ * - Lead time for changes: first commit of each shipped PR or direct commit to its deployment
+ * - Change failure rate: share of deployments remediated by a revert, hotfix or failure label
+ * - Time to restore: failed deployment to the deployment shipping its first remediation
+ * Durations are wall-clock time, as DORA defines them.
+ */
+export const doraCommand = new Command('dora')
+  .description('Report deployment frequency, lead time, change failure rate and time to restore')
+  .option(
+    '--from <date>',
+    'Start date for deployments (YYYY-MM-DD or "30 days ago")',
+    '30 days ago'
+  )
+  .option('--to <date>', 'End date for deployments (YYYY-MM-DD or "now")', 'now')
+  .option('--repository <string>', 'Only deployments of this repository (owner/name)')
+  .option('--environment <string>', 'Only deployments to this environment')
+  .option(
+    '--lookback <days>',
+    'Days before --from to load earlier deployments and commits for linking',
+    '90'
+  )
+  .option(
+    '--conventions <path>',
+    'File with failure labels, revert and hotfix patterns (default: DORA_CONVENTIONS)'
+  )
+  .option(
+    '--failure-labels <labels>',
+    'Comma-separated PR labels marking remediations (overrides the conventions file)',
+    (value: string) => value.split(',').map((l) => l.trim())
+  )
+  .option(
+    '--group-by <levels>',
+    'Comma-separated levels to report: deployment, repository',
+    (value: string) => value.split(',').map((l) => l.trim()),
+    [...GROUP_LEVELS]
+  )
+  .option(
+    '--percentiles <list>',
+    'Comma-separated percentiles of lead time and time to restore',
+    (value: string) => value.split(',').map((p) => Number(p.trim())),
+    [50, 90]
+  )
+  .option('--format <string>', 'Output format: table, json, csv', 'table')
+  .action(async (options) => {
+    let repository: ActivityRepository | undefined;
+    try {
+      const levels = options.groupBy as string[];
+      const invalidLevel = levels.find((l) => !GROUP_LEVELS.includes(l as GroupLevel));
+      if (invalidLevel) {
+        console.error(
+          chalk.red(`Error: Unknown group level "${invalidLevel}". Use: ${GROUP_LEVELS.join(', ')}`)
+        );
+        process.exit(1);
+      }
+
+      if (!['table', 'json', 'csv'].includes(options.format)) {
+        console.error(
+          chalk.red(`Error: Unknown format "${options.format}". Use: table, json, csv`)
+        );
+        process.exit(1);
+      }
+
+      if (options.format === 'csv' && levels.length !== 1) {
+        console.error(
+          chalk.red('Error: CSV output needs a single --group-by level (deployment or repository)')
+        );
+        process.exit(1);
+      }
+
+      const percentiles = options.percentiles as number[];
+      if (percentiles.some((p) => !Number.isFinite(p) || p < 0 || p > 100)) {
+        console.error(chalk.red('Error: --percentiles must be numbers between 0 and 100'));
+        process.exit(1);
+      }
+
+      const lookbackDays = Number(options.lookback);
+      if (!Number.isInteger(lookbackDays) || lookbackDays < 0) {
+        console.error(chalk.red('Error: --lookback must be a whole number of days'));
+        process.exit(1);
+      }
+
+      const fromParsed = parseDateOption(options.from, 'from');
+      if (!fromParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
+        process.exit(1);
+      }
+      const toParsed = parseDateOption(options.to, 'to');
+      if (!toParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.to}"`));
+        process.exit(1);
+      }
+      const fromDate = dayjs(fromParsed);
+      const toDate = dayjs(toParsed);
+
+      const fileConventions = loadDoraConventions(options.conventions);
+      const conventions: DoraConventions = {
+        ...fileConventions,
+        failureLabels: options.failureLabels ?? fileConventions.failureLabels,
+      };
+
+      repository = createActivityRepository();
+      const connected = await repository.connect();
+      if (!connected) {
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
+        process.exit(1);
+      }
+
+      logInfo(
+        chalk.blue(
+          `\nComputing DORA metrics for deployments from ${fromDate.format('YYYY-MM-DD HH:mm')} to ${toDate.format('YYYY-MM-DD HH:mm')}\n`
+        )
+      );
+
+      // Remediations shipped after --to still mark deployments in range as failed
+      const window = {
+        fromDate: fromDate.subtract(lookbackDays, 'day').toDate(),
+        toDate: new Date(),
+      };
+      const activities: UserActivity[] = [];
+      for await (const activity of repository.streamActivities({
+        ...window,
+        type: 'deployment',
+        repository: options.repository,
+      })) {
+        if (!options.environment || activity.meta?.environment === options.environment) {
+          activities.push(activity);
+        }
+      }
+      const deploymentCount = activities.length;
+      for (const type of LINKED_TYPES) {
+        // Local commits are stored under the directory name, so they are matched by SHA only
+        const repositoryFilter = type === 'commit' ? undefined : options.repository;
+        for await (const activity of repository.streamActivities({
+          ...window,
+          type,
+          repository: repositoryFilter,
+        })) {
+          activities.push(activity);
+        }
+      }
+      await repository.close();
+      repository = undefined;
+
+      if (deploymentCount === 0) {
+        logInfo(
+          chalk.yellow(
+            '  ! No deployments stored. Sync them first with the deployments connector (DEPLOYMENTS_ENABLED=true).'
+          )
+        );
+      }
+
+      const rows = buildDeploymentRows(activities, conventions).filter((row) => {
+        const deployedAt = dayjs(row.deployedAt);
+        return !deployedAt.isBefore(fromDate) && !deployedAt.isAfter(toDate);
+      });
+      logInfo(
+        chalk.green(
+          `  ✓ ${rows.length} deployments in range, ${rows.reduce((n, r) => n + r.changes.length, 0)} changes linked`
+        )
+      );
+
+      const range = { from: fromDate, to: toDate };
+      const report: DoraReport = {
+        from: fromDate.toISOString(),
+        to: toDate.toISOString(),
+        conventions,
+        percentiles,
+        overall: summarizeDora('all deployments', rows, range, percentiles),
+      };
+      if (levels.includes('deployment')) report.deployments = rows;
+      if (levels.includes('repository')) {
+        report.byRepository = summarizeDoraBy(
+          rows,
+          (r) => (r.environment ? `${r.repository} (${r.environment})` : r.repository),
+          range,
+          percentiles
+        );
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(report, null, 2));
+      } else if (options.format === 'csv') {
+        printCsv(report);
+      } else {
+        printTable(report);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error computing DORA metrics:'), errorMessage);
+      await repository?.close();
+      process.exit(1);
+    }
+  });
+
+function formatSeconds(seconds: number | undefined): string {
+  return seconds === undefined ? '-' : formatWorkingDuration(seconds * 1000);
+}
+
+function formatSummary(summary: PercentileSummary): string {
+  const values = Object.entries(summary.percentiles).map(
+    ([p, seconds]) => `${p} ${formatSeconds(seconds)}`
+  );
+  return `${values.join(', ')} ${chalk.gray(`(n=${summary.count})`)}`;
+}
+
+function formatRate(rate: number | undefined): string {
+  return rate === undefined ? '-' : `${(rate * 100).toFixed(1)}%`;
+}
+
+function printGroup(group: DoraGroup): void {
+  console.log(`${chalk.white(group.key)} ${chalk.gray(`${group.deployments} deployments`)}`);
+  console.log(
+    `  ${chalk.gray('deployment frequency:')} ${group.deploymentsPerWeek} per week` +
+      chalk.gray(` (${group.deploymentDays} days with a deployment)`)
+  );
+  console.log(
+    `  ${chalk.gray('lead time for changes:')} ${formatSummary(group.leadTime)} ${chalk.gray(`${group.changes} changes`)}`
+  );
+  console.log(
+    `  ${chalk.gray('change failure rate:')} ${formatRate(group.changeFailureRate)}` +
+      chalk.gray(` (${group.failedDeployments} failed)`)
+  );
+  console.log(`  ${chalk.gray('time to restore:')} ${formatSummary(group.timeToRestore)}`);
+}
+
+function printTable(report: DoraReport): void {
+  if (report.deployments) {
+    logInfo(chalk.bold(`\n=== Deployments (${report.deployments.length}) ===\n`));
+    for (const row of report.deployments) {
+      const where = row.environment ? ` → ${row.environment}` : '';
+      const status = row.failed
+        ? chalk.red(
+            ` FAILED, fixed by ${row.failureFixedBy} after ${formatSeconds(row.recoverySeconds)}`
+          )
+        : '';
+      console.log(
+        `${chalk.cyan(row.repository)} ${chalk.white(row.title)}${chalk.gray(`${where} ${dayjs(row.deployedAt).format('YYYY-MM-DD HH:mm')} [${row.kind}]`)}${status}`
+      );
+      for (const change of row.changes) {
+        const remediation = change.remediation ? chalk.yellow(` (${change.remediation})`) : '';
+        console.log(
+          `  ${chalk.white(change.reference)} ${change.title} ${chalk.gray(`by ${change.author}, lead time ${formatSeconds(change.leadTimeSeconds)}`)}${remediation}`
+        );
+      }
+      if (row.changes.length === 0) {
+        console.log(chalk.gray('  no stored PRs or commits linked'));
+      }
+    }
+  }
+
+  logInfo(chalk.bold('\n=== Overall ===\n'));
+  printGroup(report.overall);
+
+  if (report.byRepository) {
+    logInfo(chalk.bold('\n=== By Repository ===\n'));
+    report.byRepository.forEach(printGroup);
+  }
+}
+
+function printCsv(report: DoraReport): void {
+  if (report.deployments) {
+    console.log(
+      toCsvRow([
+        'repository',
+        'environment',
+        'kind',
+        'title',
+        'sha',
+        'deployedAt',
+        'changes',
+        'changeLeadTimes',
+        'failed',
+        'fixedBy',
+        'recoveredAt',
+        'recoverySeconds',
+      ])
+    );
+    for (const row of report.deployments) {
+      console.log(
+        toCsvRow([
+          row.repository,
+          row.environment,
+          row.kind,
+          row.title,
+          row.sha,
+          row.deployedAt,
+          row.changes.length,
+          // reference:seconds per change, in deployed order
+          row.changes.map((c) => `${c.reference}:${c.leadTimeSeconds ?? ''}`).join(';'),
+          row.failed,
+          row.failureFixedBy,
+          row.recoveredAt,
+          row.recoverySeconds,
+        ])
+      );
+    }
+    return;
+  }
+
+  const percentileKeys = report.percentiles.map((p) => `p${p}`);
+  console.log(
+    toCsvRow([
+      'group',
+      'deployments',
+      'deploymentsPerWeek',
+      'deploymentDays',
+      'changes',
+      ...percentileKeys.map((p) => `leadTime_${p}`),
+      'failedDeployments',
+      'changeFailureRate',
+      ...percentileKeys.map((p) => `timeToRestore_${p}`),
+    ])
+  );
+  for (const group of report.byRepository || []) {
+    console.log(
+      toCsvRow([
+        group.key,
+        group.deployments,
+        group.deploymentsPerWeek,
+        group.deploymentDays,
+        group.changes,
+        ...percentileKeys.map((p) => group.leadTime.percentiles[p]),
+        group.failedDeployments,
+        group.changeFailureRate,
+        ...percentileKeys.map((p) => group.timeToRestore.percentiles[p]),
+      ])
+    );
+  }
+}
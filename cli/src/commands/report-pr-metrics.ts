@@ -0,0 +1,440 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import dayjs from 'dayjs';
+import { GitHubClient } from '../github.js';
+import { getGitHubToken } from '../auth.js';
+import { processPR } from '../core/pr-processor.js';
+import {
+  buildPRMetricsRow,
+  summarizePRMetrics,
+  type DurationPair,
+  type DurationPairSummary,
+  type PRMetricsGroup,
+  type PRMetricsRow,
+  type ReviewerEngagement,
+} from '../core/pr-metrics-report.js';
+import { formatWorkingDuration } from '../core/working-time.js';
+import { toCsvRow } from '../core/csv.js';
+import { toMarkdownRow } from '../core/activity-export.js';
+import { loadConnectorsConfig } from '../config/connectors.config.js';
+import { loadWorkingCalendars } from '../config/working-calendars.js';
+import { resolveNotificationChannels } from '../config/notifications.config.js';
+import { Notifier } from '../notifications/notifier.js';
+import { parseDateOption } from '../core/date-utils.js';
+import { logInfo } from '../logger.js';
+
+const GROUP_LEVELS = ['pr', 'author', 'repository'] as const;
+type GroupLevel = (typeof GROUP_LEVELS)[number];
+
+interface PRMetricsReport {
+  from: string;
+  to: string;
+  prs?: PRMetricsRow[];
+  byAuthor?: PRMetricsGroup[];
+  byRepository?: PRMetricsGroup[];
+}
+
+/**
+ * Report review and merge metrics for pull requests created in a date range
+ *
+ * Fetches PRs from GitHub and computes, per PR, per author and per repository:
+ * - Time to first review, time to approval, time to merge (wall-clock and working time)
+ * - Review cycles and reviewer engagement
+ */
+export const prMetricsCommand = new Command('pr-metrics')
+  .description('Report PR review and merge metrics per PR, author and repository')
+  .option('--owner <string>', 'GitHub organization or user (default: GITHUB_OWNER)')
+  .option(
+    '--repo <repos>',
+    'Comma-separated repositories as name or owner/name (default: GITHUB_REPO)',
+    (value: string) => value.split(',').map((r) => r.trim())
+  )
+  .option(
+    '--config <path>',
+    'Config file whose PR repositories are reported when --repo is omitted'
+  )
+  .option(
+    '--from <date>',
+    'Start date for PR creation (YYYY-MM-DD or "30 days ago")',
+    '30 days ago'
+  )
+  .option('--to <date>', 'End date for PR creation (YYYY-MM-DD or "now")', 'now')
+  .option(
+    '--group-by <levels>',
+    'Comma-separated levels to report: pr, author, repository',
+    (value: string) => value.split(',').map((l) => l.trim()),
+    [...GROUP_LEVELS]
+  )
+  .option(
+    '--calendars <path>',
+    'Working calendars file with per-team and per-person hours (default: WORKING_CALENDARS)'
+  )
+  .option('--format <string>', 'Output format: table, json, csv', 'table')
+  .option(
+    '--notify <channels>',
+    'Also post a summary to comma-separated channels (names from NOTIFICATIONS_CONFIG or <type>:<url>)',
+    (value: string) => value.split(',').map((c) => c.trim())
+  )
+  .action(async (options) => {
+    try {
+      const levels = options.groupBy as string[];
+      const invalidLevel = levels.find((l) => !GROUP_LEVELS.includes(l as GroupLevel));
+      if (invalidLevel) {
+        console.error(
+          chalk.red(`Error: Unknown group level "${invalidLevel}". Use: ${GROUP_LEVELS.join(', ')}`)
+        );
+        process.exit(1);
+      }
+
+      if (!['table', 'json', 'csv'].includes(options.format)) {
+        console.error(
+          chalk.red(`Error: Unknown format "${options.format}". Use: table, json, csv`)
+        );
+        process.exit(1);
+      }
+
+      if (options.format === 'csv' && levels.length !== 1) {
+        console.error(
+          chalk.red('Error: CSV output needs a single --group-by level (pr, author or repository)')
+        );
+        process.exit(1);
+      }
+
+      const fromParsed = parseDateOption(options.from, 'from');
+      if (!fromParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
+        process.exit(1);
+      }
+      const toParsed = parseDateOption(options.to, 'to');
+      if (!toParsed) {
+        console.error(chalk.red(`Error: Could not parse date: "${options.to}"`));
+        process.exit(1);
+      }
+      const fromDate = dayjs(fromParsed);
+      const toDate = dayjs(toParsed);
+
+      const repositories = resolveRepositories(options.owner, options.repo, options.config);
+      if (repositories.length === 0) {
+        console.error(
+          chalk.red('Error: No repositories. Pass --repo or set GITHUB_OWNER and GITHUB_REPO.')
+        );
+        process.exit(1);
+      }
+
+      const calendars = await loadWorkingCalendars(options.calendars);
+      const channels = options.notify ? resolveNotificationChannels(options.notify) : [];
+
+      const authResult = await getGitHubToken();
+      if (!authResult) {
+        console.error(chalk.red('Error: GITHUB_TOKEN or GitHub App credentials are required'));
+        process.exit(1);
+      }
+      const client = new GitHubClient(authResult.token);
+
+      logInfo(
+        chalk.blue(
+          `\nComputing PR metrics from ${fromDate.format('YYYY-MM-DD HH:mm')} to ${toDate.format('YYYY-MM-DD HH:mm')}\n`
+        )
+      );
+
+      const rows: PRMetricsRow[] = [];
+      for (const { owner, repo } of repositories) {
+        const repoName = `${owner}/${repo}`;
+        logInfo(chalk.cyan(`Fetching pull requests for ${repoName}...`));
+
+        const rawPRs = await client.fetchPullRequests({
+          owner,
+          repo,
+          from: fromDate.toISOString(),
+          to: toDate.toISOString(),
+        });
+
+        for (const warning of rawPRs.warnings) {
+          logInfo(chalk.yellow(`  ! ${warning}`));
+        }
+
+        const inRange = rawPRs.nodes.filter((pr) => {
+          const created = dayjs(pr.createdAt);
+          return !created.isBefore(fromDate) && !created.isAfter(toDate);
+        });
+
+        for (const pr of inRange) {
+          rows.push(buildPRMetricsRow(processPR(pr, toDate), repoName, calendars));
+        }
+        logInfo(chalk.green(`  ✓ ${repoName}: ${inRange.length} pull requests`));
+      }
+
+      const report: PRMetricsReport = {
+        from: fromDate.toISOString(),
+        to: toDate.toISOString(),
+      };
+      if (levels.includes('pr')) report.prs = rows;
+      if (levels.includes('author')) report.byAuthor = summarizePRMetrics(rows, (r) => r.author);
+      if (levels.includes('repository')) {
+        report.byRepository = summarizePRMetrics(rows, (r) => r.repository);
+      }
+
+      if (options.format === 'json') {
+        console.log(JSON.stringify(report, null, 2));
+      } else if (options.format === 'csv') {
+        printCsv(report);
+      } else {
+        printTable(report);
+      }
+
+      if (channels.length > 0) {
+        await new Notifier().notifyAll(channels, {
+          title: `PR metrics ${fromDate.format('YYYY-MM-DD')} – ${toDate.format('YYYY-MM-DD')}`,
+          markdown: renderMarkdownSummary(report),
+          fields: { command: 'report pr-metrics', from: report.from, to: report.to },
+          data: report,
+        });
+        logInfo(chalk.green(`✓ Notified ${channels.map((c) => c.name).join(', ')}`));
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error computing PR metrics:'), errorMessage);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Resolve --repo/--owner into owner/name pairs, falling back to connector config
+ */
+function resolveRepositories(
+  ownerOption: string | undefined,
+  repoOption: string[] | undefined,
+  configPath?: string
+): { owner: string; repo: string }[] {
+  const prTargets = (loadConnectorsConfig(configPath).prs?.targets || []).filter((t) => t.enabled);
+  const defaultOwner = ownerOption || prTargets[0]?.owner;
+  // --owner overrides the owner of configured repositories
+  const repos =
+    repoOption ||
+    prTargets.flatMap((t) =>
+      !t.repo ? [] : [t.owner && !ownerOption ? `${t.owner}/${t.repo}` : t.repo]
+    );
+
+  return repos
+    .map((entry) => {
+      const [first, second] = entry.split('/');
+      return second ? { owner: first, repo: second } : { owner: defaultOwner || '', repo: first };
+    })
+    .filter((r) => r.owner && r.repo);
+}
+
+function formatSeconds(seconds: number | undefined): string {
+  return seconds === undefined ? '-' : formatWorkingDuration(seconds * 1000);
+}
+
+function formatPair(pair: DurationPair): string {
+  return `${formatSeconds(pair.wallClockSeconds)} (${formatSeconds(pair.workingSeconds)} wt)`;
+}
+
+function formatSummary(summary: DurationPairSummary): string {
+  return (
+    `median ${formatSeconds(summary.wallClock.medianSeconds)} / ${formatSeconds(summary.working.medianSeconds)} wt, ` +
+    `p90 ${formatSeconds(summary.wallClock.p90Seconds)} / ${formatSeconds(summary.working.p90Seconds)} wt ` +
+    chalk.gray(`(n=${summary.wallClock.count})`)
+  );
+}
+
+function formatEngagement(engagement: Record<string, ReviewerEngagement>): string {
+  const entries = Object.entries(engagement).sort(
+    ([, a], [, b]) => b.reviewCount + b.commentCount - (a.reviewCount + a.commentCount)
+  );
+  if (entries.length === 0) return '-';
+  return entries
+    .map(([reviewer, stats]) => `${reviewer} (${stats.reviewCount}r/${stats.commentCount}c)`)
+    .join(', ');
+}
+
+function printTable(report: PRMetricsReport): void {
+  if (report.prs) {
+    logInfo(chalk.bold(`\n=== Pull Requests (${report.prs.length}) ===\n`));
+    for (const row of report.prs) {
+      console.log(
+        `${chalk.cyan(row.repository)}#${chalk.white(String(row.number))} ${chalk.white(row.title)} ${chalk.gray(`by ${row.author}`)}`
+      );
+      console.log(
+        `  ${chalk.gray('first review:')} ${formatPair(row.timeToFirstReview)}` +
+          `  ${chalk.gray('approval:')} ${formatPair(row.timeToApproval)}` +
+          `  ${chalk.gray('merge:')} ${formatPair(row.timeToMerge)}`
+      );
+      console.log(
+        `  ${chalk.gray('cycles:')} ${row.reviewCycles}  ${chalk.gray('comments:')} ${row.totalComments}` +
+          `  ${chalk.gray('reviewers:')} ${formatEngagement(row.reviewerEngagement)}`
+      );
+    }
+  }
+
+  const groupSections: [string, PRMetricsGroup[] | undefined][] = [
+    ['By Author', report.byAuthor],
+    ['By Repository', report.byRepository],
+  ];
+
+  for (const [title, groups] of groupSections) {
+    if (!groups) continue;
+    logInfo(chalk.bold(`\n=== ${title} ===\n`));
+    for (const group of groups) {
+      console.log(`${chalk.white(group.key)} ${chalk.gray(`${group.prCount} PRs`)}`);
+      console.log(`  ${chalk.gray('first review:')} ${formatSummary(group.timeToFirstReview)}`);
+      console.log(`  ${chalk.gray('approval:    ')} ${formatSummary(group.timeToApproval)}`);
+      console.log(`  ${chalk.gray('merge:       ')} ${formatSummary(group.timeToMerge)}`);
+      console.log(
+        `  ${chalk.gray('cycles:')} ${group.reviewCycles.total} (median ${group.reviewCycles.median ?? '-'})` +
+          `  ${chalk.gray('comments:')} ${group.totalComments}` +
+          `  ${chalk.gray('reviewers:')} ${formatEngagement(group.reviewerEngagement)}`
+      );
+    }
+  }
+}
+
+/**
+ * Markdown summary posted with --notify: one table per reported level, working-time medians
+ */
+function renderMarkdownSummary(report: PRMetricsReport): string {
+  const lines = [
+    `# PR metrics ${dayjs(report.from).format('YYYY-MM-DD')} – ${dayjs(report.to).format('YYYY-MM-DD')}`,
+  ];
+  const median = (summary: DurationPairSummary): string =>
+    formatSeconds(summary.working.medianSeconds);
+
+  const groupSections: [string, PRMetricsGroup[] | undefined][] = [
+    ['By author', report.byAuthor],
+    ['By repository', report.byRepository],
+  ];
+  for (const [title, groups] of groupSections) {
+    if (!groups) continue;
+    lines.push('', `## ${title}`, '');
+    lines.push(
+      toMarkdownRow(['', 'PRs', 'First review', 'Approval', 'Merge', 'Review cycles']),
+      toMarkdownRow(['---', '---', '---', '---', '---', '---'])
+    );
+    for (const group of groups) {
+      lines.push(
+        toMarkdownRow([
+          group.key,
+          group.prCount,
+          median(group.timeToFirstReview),
+          median(group.timeToApproval),
+          median(group.timeToMerge),
+          group.reviewCycles.total,
+        ])
+      );
+    }
+  }
+
+  if (report.prs && !report.byAuthor && !report.byRepository) {
+    lines.push('', `## Pull requests (${report.prs.length})`, '');
+    for (const row of report.prs) {
+      lines.push(
+        `- [${row.repository}#${row.number}](${row.url}) ${row.title} by ${row.author}: ` +
+          `first review ${formatSeconds(row.timeToFirstReview.workingSeconds)}, ` +
+          `merge ${formatSeconds(row.timeToMerge.workingSeconds)}`
+      );
+    }
+  }
+
+  lines.push('', '_Durations are working-time medians._');
+  return lines.join('\n') + '\n';
+}
+
+function formatEngagementCsv(engagement: Record<string, ReviewerEngagement>): string {
+  return Object.entries(engagement)
+    .map(([reviewer, stats]) => `${reviewer}:${stats.reviewCount}:${stats.commentCount}`)
+    .join(';');
+}
+
+function printCsv(report: PRMetricsReport): void {
+  if (report.prs) {
+    console.log(
+      toCsvRow([
+        'repository',
+        'number',
+        'title',
+        'author',
+        'createdAt',
+        'closedAt',
+        'timeToFirstReviewSeconds',
+        'timeToFirstReviewWorkingSeconds',
+        'timeToApprovalSeconds',
+        'timeToApprovalWorkingSeconds',
+        'timeToMergeSeconds',
+        'timeToMergeWorkingSeconds',
+        'reviewCycles',
+        'totalComments',
+        'uniqueReviewers',
+        'hasBackAndForth',
+        'reviewers',
+      ])
+    );
+    for (const row of report.prs) {
+      console.log(
+        toCsvRow([
+          row.repository,
+          row.number,
+          row.title,
+          row.author,
+          row.createdAt,
+          row.closedAt,
+          row.timeToFirstReview.wallClockSeconds,
+          row.timeToFirstReview.workingSeconds,
+          row.timeToApproval.wallClockSeconds,
+          row.timeToApproval.workingSeconds,
+          row.timeToMerge.wallClockSeconds,
+          row.timeToMerge.workingSeconds,
+          row.reviewCycles,
+          row.totalComments,
+          row.uniqueReviewers,
+          row.hasBackAndForth,
+          formatEngagementCsv(row.reviewerEngagement),
+        ])
+      );
+    }
+    return;
+  }
+
+  const groups = report.byAuthor || report.byRepository || [];
+  const summaryColumns = (name: string): string[] => [
+    `${name}MedianSeconds`,
+    `${name}P90Seconds`,
+    `${name}WorkingMedianSeconds`,
+    `${name}WorkingP90Seconds`,
+  ];
+  const summaryValues = (summary: DurationPairSummary): unknown[] => [
+    summary.wallClock.medianSeconds,
+    summary.wallClock.p90Seconds,
+    summary.working.medianSeconds,
+    summary.working.p90Seconds,
+  ];
+
+  console.log(
+    toCsvRow([
+      report.byAuthor ? 'author' : 'repository',
+      'prCount',
+      ...summaryColumns('timeToFirstReview'),
+      ...summaryColumns('timeToApproval'),
+      ...summaryColumns('timeToMerge'),
+      'reviewCyclesTotal',
+      'reviewCyclesMedian',
+      'totalComments',
+      'reviewers',
+    ])
+  );
+  for (const group of groups) {
+    console.log(
+      toCsvRow([
+        group.key,
+        group.prCount,
+        ...summaryValues(group.timeToFirstReview),
+        ...summaryValues(group.timeToApproval),
+        ...summaryValues(group.timeToMerge),
+        group.reviewCycles.total,
+        group.reviewCycles.median,
+        group.totalComments,
+        formatEngagementCsv(group.reviewerEngagement),
+      ])
+    );
+  }
+}
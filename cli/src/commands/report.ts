@@ -0,0 +1,13 @@
+import { Command } from 'commander';
+import { prMetricsCommand } from './report-pr-metrics.js';
+import { cycleTimeCommand } from './report-cycle-time.js';
+import { doraCommand } from './report-dora.js';
+
+/**
+ * Parent command for analytical reports over GitHub and stored activity data
+ */
+export const reportCommand = new Command('report')
+  .description('Generate analytical reports')
+  .addCommand(prMetricsCommand)
+  .addCommand(cycleTimeCommand)
+  .addCommand(doraCommand);
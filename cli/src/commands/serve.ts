@@ -0,0 +1,60 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import type { ActivityRepository } from '../infrastructure/activity-repository.js';
+import { createJsonServer, listen } from '../server/http.js';
+import { createActivityApiRoutes } from '../server/activity-api.js';
+import { logInfo } from '../logger.js';
+
+export const serveCommand = new Command('serve')
+  .description('Serve stored activities over a read-only HTTP JSON API')
+  .option('--port <number>', 'Port to listen on', process.env.PORT || '3000')
+  .option('--host <string>', 'Interface to bind', '127.0.0.1')
+  .action(async (options) => {
+    let repository: ActivityRepository | undefined;
+    try {
+      const port = parseInt(options.port, 10);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        console.error(chalk.red(`Error: Invalid port "${options.port}".`));
+        process.exit(1);
+      }
+
+      repository = createActivityRepository();
+      const connected = await repository.connect();
+      if (!connected) {
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
+        process.exit(1);
+      }
+
+      const server = createJsonServer(createActivityApiRoutes(repository));
+      await listen(server, port, options.host);
+
+      logInfo(
+        chalk.green(
+          `✓ Serving activities (${repository.backend}) on http://${options.host}:${port}`
+        )
+      );
+      logInfo(chalk.gray('  GET /health'));
+      logInfo(chalk.gray('  GET /activities'));
+      logInfo(chalk.gray('  GET /activities/count'));
+      logInfo(chalk.gray('  GET /activities/aggregates?groupBy=type|author|repository'));
+      logInfo(chalk.gray('  GET /activities/:id'));
+
+      const shutdown = (): void => {
+        logInfo(chalk.blue('\nShutting down...'));
+        server.close(() => {
+          repository?.close().finally(() => process.exit(0));
+        });
+        server.closeAllConnections();
+      };
+      process.removeAllListeners('SIGINT');
+      process.removeAllListeners('SIGTERM');
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error starting server:'), errorMessage);
+      await repository?.close();
+      process.exit(1);
+    }
+  });
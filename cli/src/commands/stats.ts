@@ -0,0 +1,159 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import dayjs from 'dayjs';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import {
+  ACTIVITY_INTERVALS,
+  type ActivityInterval,
+  type ActivityQueryOptions,
+  type ActivityRepository,
+} from '../infrastructure/activity-repository.js';
+import { ActivityService, type ActivityStats } from '../core/activity-service.js';
+import { resolveAuthorFilter } from '../core/identity-resolver.js';
+import { parseDateOption } from '../core/date-utils.js';
+import { logInfo } from '../logger.js';
+
+const BAR_WIDTH = 30;
+
+/**
+ * Count stored activities by type, author, repository and date bucket
+ *
+ * Answers "who did what" for a period from grouped database queries, without exporting rows.
+ */
+export const statsCommand = new Command('stats')
+  .description('Show activity counts by type, author, repository and day/week/month')
+  .option('--from <date>', 'Start date (YYYY-MM-DD or "30 days ago")')
+  .option('--to <date>', 'End date (YYYY-MM-DD or "now")')
+  .option('--author <string>', 'Filter by author (resolved through identities when linked)')
+  .option('--repository <string>', 'Filter by repository')
+  .option('--type <string>', 'Filter by activity type (commit, pr_created, pr_review, etc.)')
+  .option('--interval <string>', 'Date buckets: day, week, month', 'week')
+  .option('--top <number>', 'Rows shown per breakdown in table output (0 for all)', '10')
+  .option('--format <string>', 'Output format: table, json', 'table')
+  .action(async (options) => {
+    let repository: ActivityRepository | undefined;
+    try {
+      if (!['table', 'json'].includes(options.format)) {
+        console.error(chalk.red(`Error: Unknown format "${options.format}". Use: table, json`));
+        process.exit(1);
+      }
+
+      const interval = options.interval as ActivityInterval;
+      if (!ACTIVITY_INTERVALS.includes(interval)) {
+        console.error(
+          chalk.red(
+            `Error: Unknown interval "${options.interval}". Use: ${ACTIVITY_INTERVALS.join(', ')}`
+          )
+        );
+        process.exit(1);
+      }
+
+      const top = parseInt(options.top, 10);
+      if (!Number.isInteger(top) || top < 0) {
+        console.error(chalk.red('Error: --top must be a non-negative integer'));
+        process.exit(1);
+      }
+
+      const filters: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {
+        repository: options.repository,
+        type: options.type,
+      };
+      if (options.from) {
+        const fromParsed = parseDateOption(options.from, 'from');
+        if (!fromParsed) {
+          console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
+          process.exit(1);
+        }
+        filters.fromDate = fromParsed;
+      }
+      if (options.to) {
+        const toParsed = parseDateOption(options.to, 'to');
+        if (!toParsed) {
+          console.error(chalk.red(`Error: Could not parse date: "${options.to}"`));
+          process.exit(1);
+        }
+        filters.toDate = toParsed;
+      }
+
+      repository = createActivityRepository();
+      const connected = await repository.connect();
+      if (!connected) {
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
+        process.exit(1);
+      }
+
+      if (options.author) {
+        const authorFilter = await resolveAuthorFilter(repository, options.author);
+        if (authorFilter) {
+          filters.authors = authorFilter.authors;
+          filters.authorEmails = authorFilter.emails;
+        } else {
+          filters.author = options.author;
+        }
+      }
+
+      const from = filters.fromDate ? dayjs(filters.fromDate).format('YYYY-MM-DD HH:mm') : 'start';
+      const to = filters.toDate ? dayjs(filters.toDate).format('YYYY-MM-DD HH:mm') : 'now';
+      logInfo(chalk.blue(`Counting activities from ${from} to ${to}`));
+
+      const stats = await new ActivityService(repository).getActivityStats(filters, interval);
+
+      if (options.format === 'json') {
+        console.log(
+          JSON.stringify(
+            { from: filters.fromDate ?? null, to: filters.toDate ?? null, ...stats },
+            null,
+            2
+          )
+        );
+      } else {
+        printStats(stats, top);
+      }
+
+      await repository.close();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error computing statistics:'), errorMessage);
+      await repository?.close();
+      process.exit(1);
+    }
+  });
+
+function printStats(stats: ActivityStats, top: number): void {
+  console.log(chalk.bold(`\nTotal activities: ${stats.totalActivities}`));
+  if (stats.totalActivities === 0) return;
+
+  printBreakdown('By type', stats.activitiesByType, stats.totalActivities, top);
+  printBreakdown('By author', stats.activitiesByAuthor, stats.totalActivities, top);
+  printBreakdown('By repository', stats.activitiesByRepository, stats.totalActivities, top);
+  printBreakdown(`Per ${stats.interval}`, stats.activitiesByPeriod, stats.totalActivities, 0);
+}
+
+/**
+ * Print counts with their share of the total and a bar scaled to the largest count
+ */
+function printBreakdown(
+  title: string,
+  counts: Record<string, number>,
+  total: number,
+  top: number
+): void {
+  const entries = Object.entries(counts);
+  const shown = top > 0 ? entries.slice(0, top) : entries;
+  const max = Math.max(...entries.map(([, count]) => count));
+  const keyWidth = Math.max(...shown.map(([key]) => key.length));
+  const countWidth = String(max).length;
+
+  console.log(chalk.bold(`\n${title}`));
+  for (const [key, count] of shown) {
+    const share = `${((count / total) * 100).toFixed(1)}%`.padStart(6);
+    const bar = '█'.repeat(Math.max(1, Math.round((count / max) * BAR_WIDTH)));
+    console.log(
+      `  ${key.padEnd(keyWidth)}  ${String(count).padStart(countWidth)}  ${chalk.gray(share)}  ${chalk.cyan(bar)}`
+    );
+  }
+  if (shown.length < entries.length) {
+    const rest = entries.slice(shown.length).reduce((sum, [, count]) => sum + count, 0);
+    console.log(chalk.gray(`  …and ${entries.length - shown.length} more (${rest} activities)`));
+  }
+}
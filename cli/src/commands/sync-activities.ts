@@ -1,24 +1,33 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import dayjs from 'dayjs';
-import * as chrono from 'chrono-node';
-import { initDatabase, closeDatabase, isDatabaseConfigured } from '../infrastructure/database.js';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
 import { ActivityService } from '../core/activity-service.js';
 import { IssuesConnector } from '../connectors/issues-connector.js';
 import { PRsConnector } from '../connectors/prs-connector.js';
+import { RepoIssuesConnector } from '../connectors/repo-issues-connector.js';
 import { CommitsConnector } from '../connectors/commits-connector.js';
+import { GitLabConnector } from '../connectors/gitlab-connector.js';
+import { JiraConnector } from '../connectors/jira-connector.js';
+import { DeploymentsConnector } from '../connectors/deployments-connector.js';
 import type {
   ActivityConnector,
   ConnectorConfig,
   ConnectorResult,
 } from '../core/activity-connector.js';
 import type { UserActivity } from '../types.js';
+import type { ActivityRepository } from '../infrastructure/activity-repository.js';
+import { advanceWatermark, type SyncWatermark } from '../infrastructure/watermark-repository.js';
+import { parseDateOption } from '../core/date-utils.js';
 import { logInfo } from '../logger.js';
 import {
   loadConnectorsConfig,
   filterConfigByConnectors,
   getEnabledConnectors,
+  type ConnectorsConfig,
+  type TargetOptions,
 } from '../config/connectors.config.js';
+import { ConfigValidationError } from '../config/config-file.js';
 
 /**
  * Unified command to sync all developer activities
@@ -27,19 +36,41 @@ import {
  * Collects:
  * - Issue changes (status, comment, label, etc.)
  * - PR changes (create, update, review)
+ * - Repository issues without a project board (opt-in)
  * - Commits
  *
  * Uses upsert logic to update existing activities
+ *
+ * When --from is omitted each connector resumes from its stored watermark
+ * (the end of its last successful sync), so missed or slow cron runs leave no gaps.
+ *
+ * With --config every project, repository and directory listed in the file is synced,
+ * each with its own watermark.
  */
+const DEFAULT_FROM = '15 minutes ago';
+
+// Re-read a small window before the watermark; upserts make the overlap harmless
+const WATERMARK_OVERLAP_MINUTES = 5;
+
 export const syncActivitiesCommand = new Command('sync-activities')
   .description('Sync all developer activities from all sources (issues, PRs, commits)')
-  .option('--from <date>', 'Start date (YYYY-MM-DD or "15 minutes ago")', '15 minutes ago')
+  .option(
+    '--from <date>',
+    `Start date (YYYY-MM-DD or "15 minutes ago"). Defaults to each connector's watermark, or "${DEFAULT_FROM}" when none is stored`
+  )
   .option('--to <date>', 'End date (YYYY-MM-DD or "now")', 'now')
+  .option('--config <path>', 'YAML or JSON config file listing the targets of each connector')
   .option(
     '--enabled-connectors <connectors>',
-    'Comma-separated list of connectors to enable (issues,prs,commits). If not specified, uses config file defaults.',
+    'Comma-separated list of connectors to enable (issues,prs,repo-issues,commits,gitlab,jira,deployments). If not specified, uses config file defaults.',
     (value: string) => value.split(',').map((c) => c.trim())
   )
+  .option(
+    '--reset-watermark',
+    'Delete stored watermarks of the enabled connectors before syncing',
+    false
+  )
+  .option('--list-watermarks', 'List stored sync watermarks and exit', false)
   .action(async (options, command) => {
     // Reject any positional arguments
     if (command.args && command.args.length > 0) {
@@ -53,46 +84,58 @@ export const syncActivitiesCommand = new Command('sync-activities')
       process.exit(1);
     }
 
+    let repository: ActivityRepository | undefined;
     try {
-      // Initialize database
-      if (!isDatabaseConfigured()) {
-        console.error(
-          chalk.red(
-            'Error: Database not configured. Set DATABASE_URL or POSTGRES_* environment variables.'
-          )
-        );
-        process.exit(1);
-      }
+      // Load connector configuration
+      const connectorsConfig = loadConnectorsConfig(options.config);
 
-      const connected = await initDatabase();
+      // Initialize storage
+      repository = createActivityRepository();
+      const connected = await repository.connect();
       if (!connected) {
-        console.error(chalk.red('Error: Could not connect to database.'));
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
         process.exit(1);
       }
 
-      // Parse dates using chrono-node for natural language support
-      const fromParsed = chrono.parseDate(options.from);
-      if (!fromParsed) {
-        console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
-        process.exit(1);
+      if (options.listWatermarks) {
+        printWatermarks(await repository.listWatermarks());
+        await repository.close();
+        return;
+      }
+
+      // Parse dates: YYYY-MM-DD covers the whole day, anything else goes through chrono-node
+      let explicitFrom: dayjs.Dayjs | undefined;
+      if (options.from) {
+        const fromParsed = parseDateOption(options.from, 'from');
+        if (!fromParsed) {
+          console.error(chalk.red(`Error: Could not parse date: "${options.from}"`));
+          process.exit(1);
+        }
+        explicitFrom = dayjs(fromParsed);
       }
-      const fromDate = dayjs(fromParsed);
+      const defaultFrom = dayjs(parseDateOption(DEFAULT_FROM, 'from') ?? undefined);
 
-      const toParsed = options.to === 'now' ? new Date() : chrono.parseDate(options.to);
+      const startedAt = dayjs();
+      const toParsed = parseDateOption(options.to, 'to');
       if (!toParsed) {
         console.error(chalk.red(`Error: Could not parse date: "${options.to}"`));
         process.exit(1);
       }
       const toDate = dayjs(toParsed);
 
-      logInfo(
-        chalk.blue(
-          `\nSyncing activities from ${fromDate.format('YYYY-MM-DD HH:mm')} to ${toDate.format('YYYY-MM-DD HH:mm')}\n`
-        )
-      );
-
-      // Load connector configuration
-      const connectorsConfig = loadConnectorsConfig();
+      if (explicitFrom) {
+        logInfo(
+          chalk.blue(
+            `\nSyncing activities from ${explicitFrom.format('YYYY-MM-DD HH:mm')} to ${toDate.format('YYYY-MM-DD HH:mm')}\n`
+          )
+        );
+      } else {
+        logInfo(
+          chalk.blue(
+            `\nSyncing activities from stored watermarks to ${toDate.format('YYYY-MM-DD HH:mm')}\n`
+          )
+        );
+      }
 
       // Filter by enabled connectors if specified
       const enabledConnectors = options.enabledConnectors || getEnabledConnectors(connectorsConfig);
@@ -100,44 +143,73 @@ export const syncActivitiesCommand = new Command('sync-activities')
 
       logInfo(chalk.gray(`Enabled connectors: ${enabledConnectors.join(', ')}\n`));
 
-      // Create connectors based on config
-      const connectors: ActivityConnector[] = [];
-      if (filteredConfig.issues?.enabled) {
-        connectors.push(new IssuesConnector());
-      }
-      if (filteredConfig.prs?.enabled) {
-        connectors.push(new PRsConnector());
-      }
-      if (filteredConfig.commits?.enabled) {
-        connectors.push(new CommitsConnector());
+      if (options.resetWatermark) {
+        const removed = await repository.resetWatermarks(enabledConnectors);
+        logInfo(
+          chalk.yellow(`Reset ${removed} watermark(s) for: ${enabledConnectors.join(', ')}\n`)
+        );
       }
 
-      // Build connector configuration for each connector type
-      const config: ConnectorConfig = {
-        enabled: true,
-        from: fromDate,
-        to: toDate,
-        owner: filteredConfig.issues?.owner || filteredConfig.prs?.owner,
-        projectNumber: filteredConfig.issues?.projectNumber,
-        repo: filteredConfig.prs?.repo,
-        repoDirectory: filteredConfig.commits?.repoDirectory,
-      };
+      // One job per connector target
+      const jobs = buildSyncJobs(filteredConfig, explicitFrom ?? defaultFrom, toDate);
+      if (jobs.length === 0) {
+        logInfo(chalk.yellow('No enabled targets to sync.'));
+      }
 
       // Collect activities from all connectors
       logInfo(chalk.blue('\nCollecting activities from connectors...\n'));
-      const results: ConnectorResult[] = [];
+      const results: { target: string; result: ConnectorResult }[] = [];
       const allActivities: UserActivity[] = [];
+      // Each activity is keyed by the connector that produced it
+      const keyOwners = new Map<UserActivity, ActivityConnector>();
+      const pendingWatermarks: { existing: SyncWatermark | null; next: SyncWatermark }[] = [];
+
+      for (const { connector, config, options: targetOptions } of jobs) {
+        const target = connector.getTarget(config);
+        const existing = await repository.getWatermark(connector.name, target);
+        const targetFrom = targetOptions.from
+          ? dayjs(parseDateOption(targetOptions.from, 'from') ?? undefined)
+          : defaultFrom;
+        const connectorFrom =
+          explicitFrom ??
+          (existing
+            ? dayjs(existing.lastTo).subtract(WATERMARK_OVERLAP_MINUTES, 'minute')
+            : targetFrom);
 
-      for (const connector of connectors) {
-        logInfo(chalk.cyan(`Running ${connector.name} connector...`));
+        logInfo(
+          chalk.cyan(
+            `Running ${connector.name} connector (${target}) from ${connectorFrom.format('YYYY-MM-DD HH:mm')}${existing && !explicitFrom ? ' [watermark]' : ''}...`
+          )
+        );
 
         try {
-          const result = await connector.execute(config);
-          results.push(result);
+          const result = await connector.execute({ ...config, from: connectorFrom });
+          results.push({ target, result });
+
+          // A connector that missed data keeps its watermark, so the next run fetches this window again
+          if (result.success && !result.incomplete) {
+            pendingWatermarks.push({
+              existing,
+              next: {
+                connector: connector.name,
+                target,
+                lastFrom: connectorFrom.toDate(),
+                // A date-only --to ends at midnight; later activity of today is still to come
+                lastTo: (toDate.isAfter(startedAt) ? startedAt : toDate).toDate(),
+                cursor: result.cursor ?? existing?.cursor,
+                activityCount: result.count,
+              },
+            });
+          }
 
           if (result.success) {
             logInfo(chalk.green(`  ✓ ${result.connectorName}: ${result.count} activities`));
+            printConnectorWarnings(result.warnings);
+            if (result.incomplete) {
+              logInfo(chalk.yellow('    ! Incomplete data, watermark not advanced'));
+            }
             allActivities.push(...result.activities);
+            result.activities.forEach((activity) => keyOwners.set(activity, connector));
           } else {
             logInfo(chalk.red(`  ✗ ${result.connectorName}: ${result.error || 'Unknown error'}`));
           }
@@ -145,11 +217,14 @@ export const syncActivitiesCommand = new Command('sync-activities')
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           logInfo(chalk.red(`  ✗ ${connector.name}: ${errorMessage}`));
           results.push({
-            activities: [],
-            connectorName: connector.name,
-            success: false,
-            error: errorMessage,
-            count: 0,
+            target,
+            result: {
+              activities: [],
+              connectorName: connector.name,
+              success: false,
+              error: errorMessage,
+              count: 0,
+            },
           });
         }
       }
@@ -158,22 +233,28 @@ export const syncActivitiesCommand = new Command('sync-activities')
       allActivities.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
       // Save activities using the service
-      const service = new ActivityService();
-      const saveResult = await service.saveActivities(allActivities);
+      const service = new ActivityService(repository);
+      const saveResult = await service.saveActivities(allActivities, (activity) =>
+        keyOwners.get(activity)!.generateActivityKey(activity)
+      );
+
+      // Advance watermarks only when everything fetched was stored
+      if (saveResult.errors.length === 0) {
+        for (const { existing, next } of pendingWatermarks) {
+          await repository.saveWatermark(advanceWatermark(existing, next));
+        }
+      }
 
       // Print summary
       logInfo(chalk.bold('\n=== Sync Summary ===\n'));
 
       logInfo(chalk.cyan('Connectors:'));
-      for (const connectorResult of results) {
+      for (const { target, result: connectorResult } of results) {
+        const label = `${connectorResult.connectorName} (${target})`;
         if (connectorResult.success) {
-          logInfo(
-            chalk.green(`  ✓ ${connectorResult.connectorName}: ${connectorResult.count} activities`)
-          );
+          logInfo(chalk.green(`  ✓ ${label}: ${connectorResult.count} activities`));
         } else {
-          logInfo(
-            chalk.red(`  ✗ ${connectorResult.connectorName}: ${connectorResult.error || 'Failed'}`)
-          );
+          logInfo(chalk.red(`  ✗ ${label}: ${connectorResult.error || 'Failed'}`));
         }
       }
 
@@ -181,19 +262,163 @@ export const syncActivitiesCommand = new Command('sync-activities')
       logInfo(chalk.green(`  ✓ Saved/Updated: ${saveResult.saved} activities`));
       if (saveResult.errors.length > 0) {
         logInfo(chalk.red(`  ✗ Errors: ${saveResult.errors.join(', ')}`));
+        logInfo(chalk.yellow('  ! Watermarks not advanced; the next run will retry this window'));
+      } else {
+        logInfo(chalk.green(`  ✓ Watermarks advanced: ${pendingWatermarks.length}`));
       }
 
       logInfo(chalk.cyan('\nTotal:'));
       logInfo(chalk.bold(`  ${allActivities.length} activities processed\n`));
 
-      await closeDatabase();
+      await repository.close();
     } catch (error: unknown) {
+      if (error instanceof ConfigValidationError) {
+        console.error(chalk.red(error.message));
+        await repository?.close();
+        process.exit(1);
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(chalk.red('Error syncing activities:'), errorMessage);
       if (error instanceof Error && error.stack) {
         console.error(chalk.gray(error.stack));
       }
-      await closeDatabase();
+      await repository?.close();
       process.exit(1);
     }
   });
+
+interface SyncJob {
+  connector: ActivityConnector;
+  config: ConnectorConfig;
+  options: TargetOptions;
+}
+
+/**
+ * Expand the connector config into one job per enabled target
+ */
+function buildSyncJobs(
+  connectorsConfig: ConnectorsConfig,
+  from: dayjs.Dayjs,
+  to: dayjs.Dayjs
+): SyncJob[] {
+  const jobs: SyncJob[] = [];
+  const base: ConnectorConfig = { enabled: true, from, to };
+
+  if (connectorsConfig.issues?.enabled) {
+    const connector = new IssuesConnector();
+    for (const target of connectorsConfig.issues.targets.filter((t) => t.enabled)) {
+      jobs.push({
+        connector,
+        config: { ...base, owner: target.owner, projectNumber: target.projectNumber },
+        options: target,
+      });
+    }
+  }
+
+  if (connectorsConfig.prs?.enabled) {
+    const connector = new PRsConnector();
+    for (const target of connectorsConfig.prs.targets.filter((t) => t.enabled)) {
+      jobs.push({
+        connector,
+        config: { ...base, owner: target.owner, repo: target.repo },
+        options: target,
+      });
+    }
+  }
+
+  if (connectorsConfig.repoIssues?.enabled) {
+    const connector = new RepoIssuesConnector();
+    for (const target of connectorsConfig.repoIssues.targets.filter((t) => t.enabled)) {
+      jobs.push({
+        connector,
+        config: { ...base, owner: target.owner, repo: target.repo },
+        options: target,
+      });
+    }
+  }
+
+  if (connectorsConfig.commits?.enabled) {
+    const connector = new CommitsConnector();
+    for (const target of connectorsConfig.commits.targets.filter((t) => t.enabled)) {
+      jobs.push({
+        connector,
+        config: { ...base, repoDirectory: target.repoDirectory, excludeGlobs: target.exclude },
+        options: target,
+      });
+    }
+  }
+
+  if (connectorsConfig.gitlab?.enabled) {
+    const connector = new GitLabConnector();
+    for (const target of connectorsConfig.gitlab.targets.filter((t) => t.enabled)) {
+      jobs.push({
+        connector,
+        config: { ...base, baseUrl: target.baseUrl, project: target.project },
+        options: target,
+      });
+    }
+  }
+
+  if (connectorsConfig.jira?.enabled) {
+    const connector = new JiraConnector();
+    for (const target of connectorsConfig.jira.targets.filter((t) => t.enabled)) {
+      jobs.push({
+        connector,
+        config: { ...base, baseUrl: target.baseUrl, project: target.project, jql: target.jql },
+        options: target,
+      });
+    }
+  }
+
+  if (connectorsConfig.deployments?.enabled) {
+    const connector = new DeploymentsConnector();
+    for (const target of connectorsConfig.deployments.targets.filter((t) => t.enabled)) {
+      jobs.push({
+        connector,
+        config: {
+          ...base,
+          owner: target.owner,
+          repo: target.repo,
+          repoDirectory: target.repoDirectory,
+          environment: target.environment,
+          tagPattern: target.tagPattern,
+        },
+        options: target,
+      });
+    }
+  }
+
+  return jobs;
+}
+
+// Keep truncation reports readable on large backfills
+const MAX_PRINTED_WARNINGS = 10;
+
+function printConnectorWarnings(warnings: string[] | undefined): void {
+  if (!warnings || warnings.length === 0) return;
+
+  for (const warning of warnings.slice(0, MAX_PRINTED_WARNINGS)) {
+    logInfo(chalk.yellow(`    ! ${warning}`));
+  }
+  if (warnings.length > MAX_PRINTED_WARNINGS) {
+    logInfo(chalk.yellow(`    ! ... and ${warnings.length - MAX_PRINTED_WARNINGS} more`));
+  }
+}
+
+function printWatermarks(watermarks: SyncWatermark[]): void {
+  if (watermarks.length === 0) {
+    logInfo(chalk.yellow('No sync watermarks stored.'));
+    return;
+  }
+
+  logInfo(chalk.bold('\n=== Sync Watermarks ===\n'));
+  for (const watermark of watermarks) {
+    console.log(
+      `${chalk.cyan(watermark.connector.padEnd(10))} ${chalk.white(watermark.target)}\n` +
+        `  ${chalk.gray('synced to:')} ${dayjs(watermark.lastTo).format('YYYY-MM-DD HH:mm:ss')}` +
+        `  ${chalk.gray('window from:')} ${dayjs(watermark.lastFrom).format('YYYY-MM-DD HH:mm:ss')}` +
+        `  ${chalk.gray('activities:')} ${watermark.activityCount}` +
+        (watermark.cursor ? `  ${chalk.gray('cursor:')} ${watermark.cursor}` : '')
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { createActivityRepository } from '../infrastructure/repository-factory.js';
+import type { ActivityRepository } from '../infrastructure/activity-repository.js';
+import { createJsonServer, listen } from '../server/http.js';
+import { createWebhookRoutes, DEFAULT_WEBHOOK_PATH } from '../server/webhook-api.js';
+import { SUPPORTED_WEBHOOK_EVENTS, type TimelineEventFetcher } from '../core/github-webhook.js';
+import { getGitHubToken } from '../auth.js';
+import { GitHubClient } from '../github.js';
+import { logInfo } from '../logger.js';
+
+export const webhookServerCommand = new Command('webhook-server')
+  .description('Receive GitHub webhook deliveries and store their activities in real time')
+  .option('--port <number>', 'Port to listen on', process.env.WEBHOOK_PORT || '3001')
+  .option('--host <string>', 'Interface to bind', '0.0.0.0')
+  .option('--path <path>', 'Delivery endpoint path', DEFAULT_WEBHOOK_PATH)
+  .option(
+    '--secret <secret>',
+    'Webhook secret (default: GITHUB_WEBHOOK_SECRET environment variable)'
+  )
+  .action(async (options) => {
+    let repository: ActivityRepository | undefined;
+    try {
+      const port = parseInt(options.port, 10);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        console.error(chalk.red(`Error: Invalid port "${options.port}".`));
+        process.exit(1);
+      }
+
+      const secret: string | undefined = options.secret || process.env.GITHUB_WEBHOOK_SECRET;
+      if (!secret) {
+        console.error(
+          chalk.red('Error: A webhook secret is required (--secret or GITHUB_WEBHOOK_SECRET).')
+        );
+        process.exit(1);
+      }
+
+      if (!options.path.startsWith('/')) {
+        console.error(chalk.red(`Error: Invalid path "${options.path}" (must start with /).`));
+        process.exit(1);
+      }
+
+      repository = createActivityRepository();
+      const connected = await repository.connect();
+      if (!connected) {
+        console.error(chalk.red(`Error: Could not connect to ${repository.backend} storage.`));
+        process.exit(1);
+      }
+
+      // Lifecycle events are keyed by their timeline event, which only the GraphQL API knows
+      let fetchTimeline: TimelineEventFetcher | undefined;
+      const authResult = await getGitHubToken();
+      if (authResult) {
+        const client = new GitHubClient(authResult.token);
+        fetchTimeline = client.fetchTimelineEvents.bind(client);
+      }
+
+      const routes = createWebhookRoutes(repository, {
+        secret,
+        path: options.path,
+        fetchTimeline,
+      });
+      const server = createJsonServer(routes);
+      await listen(server, port, options.host);
+
+      logInfo(
+        chalk.green(
+          `✓ Receiving GitHub webhooks (${repository.backend}) on http://${options.host}:${port}${options.path}`
+        )
+      );
+      logInfo(chalk.gray(`  Events: ${SUPPORTED_WEBHOOK_EVENTS.join(', ')}`));
+      if (!fetchTimeline) {
+        logInfo(
+          chalk.yellow(
+            '  ! No GitHub credentials: merges, closes, review requests, labels, assignments and board moves are left to sync-activities'
+          )
+        );
+      }
+
+      const shutdown = (): void => {
+        logInfo(chalk.blue('\nShutting down...'));
+        server.close(() => {
+          repository?.close().finally(() => process.exit(0));
+        });
+        server.closeAllConnections();
+      };
+      process.removeAllListeners('SIGINT');
+      process.removeAllListeners('SIGTERM');
+      process.once('SIGINT', shutdown);
+      process.once('SIGTERM', shutdown);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(chalk.red('Error starting webhook server:'), errorMessage);
+      await repository?.close();
+      process.exit(1);
+    }
+  });
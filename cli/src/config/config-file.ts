@@ -0,0 +1,467 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import * as chrono from 'chrono-node';
+import type {
+  CommitsTarget,
+  ConnectorsConfig,
+  DeploymentsTarget,
+  GitLabTarget,
+  IssuesTarget,
+  JiraTarget,
+  PRsTarget,
+  RepoIssuesTarget,
+  TargetOptions,
+} from './connectors.config.js';
+
+/**
+ * Config file format version understood by this CLI
+ */
+export const CONFIG_VERSION = 1;
+
+/**
+ * Raised when a config file cannot be read or does not match the expected shape
+ * Lists every problem found, each prefixed with its path in the file
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    readonly file: string,
+    readonly problems: string[]
+  ) {
+    super(`Invalid config file ${file}:\n${problems.map((p) => `  - ${p}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * Load and validate a connector config file (YAML or JSON)
+ *
+ * Example (YAML):
+ *   version: 1
+ *   defaults:
+ *     owner: my-org
+ *     gitlabUrl: https://gitlab.example.com
+ *     jiraUrl: https://your-company.atlassian.net
+ *   issues:
+ *     projects:
+ *       - projectNumber: 3
+ *   prs:
+ *     repositories:
+ *       - repo: api
+ *       - owner: other-org
+ *         repo: web
+ *         from: 30 days ago
+ *   repo-issues:
+ *     repositories:
+ *       - repo: api
+ *   commits:
+ *     directories:
+ *       - path: ../repos/api
+ *         exclude: [docs/generated, '*.snap']
+ *   gitlab:
+ *     projects:
+ *       - project: platform/api
+ *   jira:
+ *     projects:
+ *       - project: PROD
+ *         jql: component = Backend
+ *   deployments:
+ *     repositories:
+ *       - repo: api
+ *         environment: production
+ *         path: ../repos/api
+ *
+ * Relative directory paths are resolved against the config file location.
+ *
+ * @param filePath - Path to a .yaml, .yml or .json file
+ * @throws ConfigValidationError when the file is unreadable or invalid
+ */
+export function loadConfigFile(filePath: string): ConnectorsConfig {
+  const resolved = path.resolve(filePath);
+
+  let content: string;
+  try {
+    content = fs.readFileSync(resolved, 'utf8');
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigValidationError(filePath, [`cannot read file: ${reason}`]);
+  }
+
+  let raw: unknown;
+  try {
+    raw =
+      path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigValidationError(filePath, [`cannot parse file: ${reason}`]);
+  }
+
+  const problems: string[] = [];
+  const config = validateConfig(raw, path.dirname(resolved), problems);
+  if (problems.length > 0) {
+    throw new ConfigValidationError(filePath, problems);
+  }
+  return config;
+}
+
+function validateConfig(raw: unknown, baseDir: string, problems: string[]): ConnectorsConfig {
+  if (!isObject(raw)) {
+    problems.push('root: must be a mapping with "version" and connector sections');
+    return {};
+  }
+
+  checkKeys(
+    raw,
+    '',
+    [
+      'version',
+      'defaults',
+      'issues',
+      'prs',
+      'repo-issues',
+      'commits',
+      'gitlab',
+      'jira',
+      'deployments',
+    ],
+    problems
+  );
+
+  if (raw.version === undefined) {
+    problems.push(`version: is required (current version is ${CONFIG_VERSION})`);
+  } else if (raw.version !== CONFIG_VERSION) {
+    problems.push(
+      `version: unsupported version ${JSON.stringify(raw.version)} (expected ${CONFIG_VERSION})`
+    );
+  }
+
+  let defaultOwner: string | undefined;
+  let defaultGitLabUrl: string | undefined;
+  let defaultJiraUrl: string | undefined;
+  if (raw.defaults !== undefined) {
+    if (isObject(raw.defaults)) {
+      checkKeys(raw.defaults, 'defaults', ['owner', 'gitlabUrl', 'jiraUrl'], problems);
+      defaultOwner = optionalString(raw.defaults, 'owner', 'defaults', problems);
+      defaultGitLabUrl = optionalUrl(raw.defaults, 'gitlabUrl', 'defaults', problems);
+      defaultJiraUrl = optionalUrl(raw.defaults, 'jiraUrl', 'defaults', problems);
+    } else {
+      problems.push('defaults: must be a mapping');
+    }
+  }
+
+  const config: ConnectorsConfig = {};
+
+  const issues = readSection(raw, 'issues', 'projects', problems);
+  if (issues) {
+    config.issues = {
+      enabled: issues.enabled,
+      targets: issues.items.map(({ item, at }): IssuesTarget => {
+        checkKeys(item, at, ['owner', 'projectNumber', 'enabled', 'from'], problems);
+        const owner = optionalString(item, 'owner', at, problems) ?? defaultOwner;
+        if (!owner) problems.push(`${at}.owner: is required (or set defaults.owner)`);
+        const projectNumber = item.projectNumber;
+        if (!Number.isInteger(projectNumber) || (projectNumber as number) <= 0) {
+          problems.push(`${at}.projectNumber: must be a positive integer`);
+        }
+        return {
+          ...readTargetOptions(item, at, problems),
+          owner,
+          projectNumber: projectNumber as number,
+        };
+      }),
+    };
+    checkDuplicates(
+      config.issues.targets.map((t) => `${t.owner}/Project-${t.projectNumber}`),
+      'issues.projects',
+      problems
+    );
+  }
+
+  const prs = readSection(raw, 'prs', 'repositories', problems);
+  if (prs) {
+    config.prs = {
+      enabled: prs.enabled,
+      targets: prs.items.map(({ item, at }): PRsTarget => {
+        checkKeys(item, at, ['owner', 'repo', 'enabled', 'from'], problems);
+        const owner = optionalString(item, 'owner', at, problems) ?? defaultOwner;
+        if (!owner) problems.push(`${at}.owner: is required (or set defaults.owner)`);
+        const repo = optionalString(item, 'repo', at, problems);
+        if (!repo) problems.push(`${at}.repo: is required`);
+        return { ...readTargetOptions(item, at, problems), owner, repo };
+      }),
+    };
+    checkDuplicates(
+      config.prs.targets.map((t) => `${t.owner}/${t.repo}`),
+      'prs.repositories',
+      problems
+    );
+  }
+
+  const repoIssues = readSection(raw, 'repo-issues', 'repositories', problems);
+  if (repoIssues) {
+    config.repoIssues = {
+      enabled: repoIssues.enabled,
+      targets: repoIssues.items.map(({ item, at }): RepoIssuesTarget => {
+        checkKeys(item, at, ['owner', 'repo', 'enabled', 'from'], problems);
+        const owner = optionalString(item, 'owner', at, problems) ?? defaultOwner;
+        if (!owner) problems.push(`${at}.owner: is required (or set defaults.owner)`);
+        const repo = optionalString(item, 'repo', at, problems);
+        if (!repo) problems.push(`${at}.repo: is required`);
+        return { ...readTargetOptions(item, at, problems), owner, repo };
+      }),
+    };
+    checkDuplicates(
+      config.repoIssues.targets.map((t) => `${t.owner}/${t.repo}`),
+      'repo-issues.repositories',
+      problems
+    );
+  }
+
+  const commits = readSection(raw, 'commits', 'directories', problems);
+  if (commits) {
+    config.commits = {
+      enabled: commits.enabled,
+      targets: commits.items.map(({ item, at }): CommitsTarget => {
+        checkKeys(item, at, ['path', 'exclude', 'enabled', 'from'], problems);
+        const directory = optionalString(item, 'path', at, problems);
+        if (!directory) problems.push(`${at}.path: is required`);
+        return {
+          ...readTargetOptions(item, at, problems),
+          repoDirectory: directory ? path.resolve(baseDir, directory) : undefined,
+          exclude: optionalStringList(item, 'exclude', at, problems),
+        };
+      }),
+    };
+    checkDuplicates(
+      config.commits.targets.map((t) => t.repoDirectory || ''),
+      'commits.directories',
+      problems
+    );
+  }
+
+  const gitlab = readSection(raw, 'gitlab', 'projects', problems);
+  if (gitlab) {
+    config.gitlab = {
+      enabled: gitlab.enabled,
+      targets: gitlab.items.map(({ item, at }): GitLabTarget => {
+        checkKeys(item, at, ['project', 'baseUrl', 'enabled', 'from'], problems);
+        // Numeric project IDs are accepted as well as full paths
+        const project = Number.isInteger(item.project)
+          ? String(item.project)
+          : optionalString(item, 'project', at, problems);
+        if (!project) problems.push(`${at}.project: is required`);
+        const baseUrl = optionalUrl(item, 'baseUrl', at, problems) ?? defaultGitLabUrl;
+        return { ...readTargetOptions(item, at, problems), baseUrl, project };
+      }),
+    };
+    checkDuplicates(
+      config.gitlab.targets.map((t) => `${t.baseUrl || ''}|${t.project}`),
+      'gitlab.projects',
+      problems
+    );
+  }
+
+  const jira = readSection(raw, 'jira', 'projects', problems);
+  if (jira) {
+    config.jira = {
+      enabled: jira.enabled,
+      targets: jira.items.map(({ item, at }): JiraTarget => {
+        checkKeys(item, at, ['project', 'baseUrl', 'jql', 'enabled', 'from'], problems);
+        const project = optionalString(item, 'project', at, problems);
+        if (!project) problems.push(`${at}.project: is required`);
+        const baseUrl = optionalUrl(item, 'baseUrl', at, problems) ?? defaultJiraUrl;
+        if (!baseUrl) problems.push(`${at}.baseUrl: is required (or set defaults.jiraUrl)`);
+        const jql = optionalString(item, 'jql', at, problems);
+        return { ...readTargetOptions(item, at, problems), baseUrl, project, jql };
+      }),
+    };
+    checkDuplicates(
+      config.jira.targets.map((t) => `${t.baseUrl}|${t.project}|${t.jql || ''}`),
+      'jira.projects',
+      problems
+    );
+  }
+
+  const deployments = readSection(raw, 'deployments', 'repositories', problems);
+  if (deployments) {
+    config.deployments = {
+      enabled: deployments.enabled,
+      targets: deployments.items.map(({ item, at }): DeploymentsTarget => {
+        checkKeys(
+          item,
+          at,
+          ['owner', 'repo', 'path', 'environment', 'tagPattern', 'enabled', 'from'],
+          problems
+        );
+        const repo = optionalString(item, 'repo', at, problems);
+        const directory = optionalString(item, 'path', at, problems);
+        const owner = optionalString(item, 'owner', at, problems) ?? defaultOwner;
+        if (!repo && !directory) problems.push(`${at}: needs a repo, a path or both`);
+        if (repo && !owner) problems.push(`${at}.owner: is required (or set defaults.owner)`);
+        const tagPattern = optionalString(item, 'tagPattern', at, problems);
+        if (tagPattern && !isValidPattern(tagPattern)) {
+          problems.push(`${at}.tagPattern: invalid regular expression "${tagPattern}"`);
+        }
+        return {
+          ...readTargetOptions(item, at, problems),
+          owner: repo ? owner : undefined,
+          repo,
+          repoDirectory: directory ? path.resolve(baseDir, directory) : undefined,
+          environment: optionalString(item, 'environment', at, problems),
+          tagPattern,
+        };
+      }),
+    };
+    checkDuplicates(
+      config.deployments.targets.map(
+        (t) => `${t.repo ? `${t.owner}/${t.repo}` : t.repoDirectory}@${t.environment || ''}`
+      ),
+      'deployments.repositories',
+      problems
+    );
+  }
+
+  return config;
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a connector section: `{ enabled?: boolean, <listKey>: [ ...targets ] }`
+ */
+function readSection(
+  raw: RawObject,
+  name: string,
+  listKey: string,
+  problems: string[]
+): { enabled: boolean; items: { item: RawObject; at: string }[] } | undefined {
+  const section = raw[name];
+  if (section === undefined) return undefined;
+  if (!isObject(section)) {
+    problems.push(`${name}: must be a mapping with a "${listKey}" list`);
+    return undefined;
+  }
+
+  checkKeys(section, name, ['enabled', listKey], problems);
+  const enabled = optionalBoolean(section, 'enabled', name, problems) ?? true;
+
+  const list = section[listKey];
+  if (!Array.isArray(list)) {
+    problems.push(`${name}.${listKey}: must be a list`);
+    return { enabled, items: [] };
+  }
+
+  const items: { item: RawObject; at: string }[] = [];
+  list.forEach((item, index) => {
+    const at = `${name}.${listKey}[${index}]`;
+    if (isObject(item)) {
+      items.push({ item, at });
+    } else {
+      problems.push(`${at}: must be a mapping`);
+    }
+  });
+  return { enabled, items };
+}
+
+function readTargetOptions(item: RawObject, at: string, problems: string[]): TargetOptions {
+  const from = optionalString(item, 'from', at, problems);
+  if (from && !chrono.parseDate(from)) {
+    problems.push(`${at}.from: cannot parse date "${from}"`);
+  }
+  return {
+    enabled: optionalBoolean(item, 'enabled', at, problems) ?? true,
+    from,
+  };
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(obj: RawObject, at: string, allowed: string[], problems: string[]): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) {
+      problems.push(
+        `${at ? `${at}.` : ''}${key}: unknown key (expected one of: ${allowed.join(', ')})`
+      );
+    }
+  }
+}
+
+function optionalString(
+  obj: RawObject,
+  key: string,
+  at: string,
+  problems: string[]
+): string | undefined {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.trim() === '') {
+    problems.push(`${at}.${key}: must be a non-empty string`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function optionalStringList(
+  obj: RawObject,
+  key: string,
+  at: string,
+  problems: string[]
+): string[] | undefined {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string' && v.trim() !== '')) {
+    problems.push(`${at}.${key}: must be a list of non-empty strings`);
+    return undefined;
+  }
+  return value.map((v: string) => v.trim());
+}
+
+function optionalUrl(
+  obj: RawObject,
+  key: string,
+  at: string,
+  problems: string[]
+): string | undefined {
+  const value = optionalString(obj, key, at, problems);
+  if (value && !/^https?:\/\/[^/]+/.test(value)) {
+    problems.push(`${at}.${key}: must be an http(s) URL`);
+    return undefined;
+  }
+  return value;
+}
+
+function optionalBoolean(
+  obj: RawObject,
+  key: string,
+  at: string,
+  problems: string[]
+): boolean | undefined {
+  const value = obj[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'boolean') {
+    problems.push(`${at}.${key}: must be true or false`);
+    return undefined;
+  }
+  return value;
+}
+
+function checkDuplicates(keys: string[], at: string, problems: string[]): void {
+  const seen = new Set<string>();
+  for (const key of keys) {
+    if (seen.has(key)) {
+      problems.push(`${at}: duplicate target ${key}`);
+    }
+    seen.add(key);
+  }
+}
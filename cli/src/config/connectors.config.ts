@@ -1,46 +1,178 @@
+import { loadConfigFile } from './config-file.js';
+
 /**
  * Connector configuration
  * This file contains all connector-specific settings
- * Can be overridden by environment variables
+ * Loaded from a config file (--config) or from environment variables
+ */
+
+/**
+ * Options shared by every sync target
  */
+export interface TargetOptions {
+  enabled: boolean;
+  from?: string; // Start date used when the target has no stored watermark
+}
+
+export interface IssuesTarget extends TargetOptions {
+  owner?: string;
+  projectNumber?: number;
+}
+
+export interface PRsTarget extends TargetOptions {
+  owner?: string;
+  repo?: string;
+}
+
+export interface RepoIssuesTarget extends TargetOptions {
+  owner?: string;
+  repo?: string;
+}
+
+export interface CommitsTarget extends TargetOptions {
+  repoDirectory?: string;
+  exclude?: string[]; // Globs added to the default lockfile/generated/vendored excludes
+}
+
+export interface DeploymentsTarget extends TargetOptions {
+  owner?: string;
+  repo?: string;
+  repoDirectory?: string; // Local clone: tags when GitHub has neither, and deployed commits
+  environment?: string;
+  tagPattern?: string;
+}
+
+export interface GitLabTarget extends TargetOptions {
+  baseUrl?: string;
+  project?: string;
+}
+
+export interface JiraTarget extends TargetOptions {
+  baseUrl?: string;
+  project?: string; // Project key
+  jql?: string; // Extra filter ANDed with the project
+}
 
 export interface ConnectorsConfig {
   issues?: {
     enabled: boolean;
-    owner?: string;
-    projectNumber?: number;
+    targets: IssuesTarget[];
   };
   prs?: {
     enabled: boolean;
-    owner?: string;
-    repo?: string;
+    targets: PRsTarget[];
+  };
+  repoIssues?: {
+    enabled: boolean;
+    targets: RepoIssuesTarget[];
   };
   commits?: {
     enabled: boolean;
-    repoDirectory?: string;
+    targets: CommitsTarget[];
+  };
+  gitlab?: {
+    enabled: boolean;
+    targets: GitLabTarget[];
+  };
+  jira?: {
+    enabled: boolean;
+    targets: JiraTarget[];
+  };
+  deployments?: {
+    enabled: boolean;
+    targets: DeploymentsTarget[];
   };
 }
 
 /**
- * Load connector configuration from environment variables and defaults
+ * Load connector configuration from a config file, or from environment variables and defaults
+ * The environment describes a single target per connector
+ *
+ * @param configPath - Optional YAML/JSON config file listing many targets per connector
  */
-export function loadConnectorsConfig(): ConnectorsConfig {
+export function loadConnectorsConfig(configPath?: string): ConnectorsConfig {
+  if (configPath) {
+    return loadConfigFile(configPath);
+  }
+
   return {
     issues: {
       enabled: process.env.ISSUES_ENABLED !== 'false',
-      owner: process.env.GITHUB_OWNER,
-      projectNumber: process.env.PROJECT_NUMBER
-        ? parseInt(process.env.PROJECT_NUMBER, 10)
-        : undefined,
+      targets: [
+        {
+          enabled: true,
+          owner: process.env.GITHUB_OWNER,
+          projectNumber: process.env.PROJECT_NUMBER
+            ? parseInt(process.env.PROJECT_NUMBER, 10)
+            : undefined,
+        },
+      ],
     },
     prs: {
       enabled: process.env.PRS_ENABLED !== 'false',
-      owner: process.env.GITHUB_OWNER,
-      repo: process.env.GITHUB_REPO,
+      targets: [
+        {
+          enabled: true,
+          owner: process.env.GITHUB_OWNER,
+          repo: process.env.GITHUB_REPO,
+        },
+      ],
+    },
+    // Opt-in: overlaps with the issues connector when the repository's issues are on a board
+    repoIssues: {
+      enabled: process.env.REPO_ISSUES_ENABLED === 'true',
+      targets: [
+        {
+          enabled: true,
+          owner: process.env.GITHUB_OWNER,
+          repo: process.env.GITHUB_REPO,
+        },
+      ],
     },
     commits: {
       enabled: process.env.COMMITS_ENABLED !== 'false',
-      repoDirectory: process.env.REPO_DIRECTORY,
+      targets: [
+        {
+          enabled: true,
+          repoDirectory: process.env.REPO_DIRECTORY,
+        },
+      ],
+    },
+    // Opt-in: needs a GitLab instance and token in addition to the GitHub setup
+    gitlab: {
+      enabled: process.env.GITLAB_ENABLED === 'true',
+      targets: [
+        {
+          enabled: true,
+          baseUrl: process.env.GITLAB_URL,
+          project: process.env.GITLAB_PROJECT,
+        },
+      ],
+    },
+    jira: {
+      enabled: process.env.JIRA_ENABLED === 'true',
+      targets: [
+        {
+          enabled: true,
+          baseUrl: process.env.JIRA_URL,
+          project: process.env.JIRA_PROJECT,
+          jql: process.env.JIRA_JQL,
+        },
+      ],
+    },
+    // Opt-in: only needed for DORA metrics
+    deployments: {
+      enabled: process.env.DEPLOYMENTS_ENABLED === 'true',
+      targets: [
+        {
+          enabled: true,
+          owner: process.env.GITHUB_OWNER,
+          repo: process.env.GITHUB_REPO,
+          repoDirectory: process.env.REPO_DIRECTORY,
+          environment: process.env.DEPLOYMENT_ENVIRONMENT,
+          tagPattern: process.env.DEPLOYMENT_TAG_PATTERN,
+        },
+      ],
     },
   };
 }
@@ -52,7 +184,11 @@ export function getEnabledConnectors(config: ConnectorsConfig): string[] {
   const enabled: string[] = [];
   if (config.issues?.enabled) enabled.push('issues');
   if (config.prs?.enabled) enabled.push('prs');
+  if (config.repoIssues?.enabled) enabled.push('repo-issues');
   if (config.commits?.enabled) enabled.push('commits');
+  if (config.gitlab?.enabled) enabled.push('gitlab');
+  if (config.jira?.enabled) enabled.push('jira');
+  if (config.deployments?.enabled) enabled.push('deployments');
   return enabled;
 }
 
@@ -77,11 +213,35 @@ export function filterConfigByConnectors(
     filtered.prs = { ...config.prs, enabled: false };
   }
 
+  if (enabledConnectors.includes('repo-issues') && config.repoIssues) {
+    filtered.repoIssues = config.repoIssues;
+  } else if (config.repoIssues) {
+    filtered.repoIssues = { ...config.repoIssues, enabled: false };
+  }
+
   if (enabledConnectors.includes('commits') && config.commits) {
     filtered.commits = config.commits;
   } else if (config.commits) {
     filtered.commits = { ...config.commits, enabled: false };
   }
 
+  if (enabledConnectors.includes('gitlab') && config.gitlab) {
+    filtered.gitlab = config.gitlab;
+  } else if (config.gitlab) {
+    filtered.gitlab = { ...config.gitlab, enabled: false };
+  }
+
+  if (enabledConnectors.includes('jira') && config.jira) {
+    filtered.jira = config.jira;
+  } else if (config.jira) {
+    filtered.jira = { ...config.jira, enabled: false };
+  }
+
+  if (enabledConnectors.includes('deployments') && config.deployments) {
+    filtered.deployments = config.deployments;
+  } else if (config.deployments) {
+    filtered.deployments = { ...config.deployments, enabled: false };
+  }
+
   return filtered;
 }
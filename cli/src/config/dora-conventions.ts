@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ConfigValidationError } from './config-file.js';
+import { DEFAULT_DORA_CONVENTIONS, type DoraConventions } from '../core/dora-report.js';
+
+const PATTERN_KEYS = ['revertPattern', 'hotfixPattern'] as const;
+
+/**
+ * Load the conventions that mark remediations of failed deployments (YAML or JSON)
+ *
+ * Example (YAML):
+ *   failureLabels: [incident, hotfix, sev1]
+ *   revertPattern: ^Revert\b
+ *   hotfixPattern: ^(hotfix|fix\(prod\))
+ *
+ * A missing key keeps its default. Without a file the defaults are used.
+ *
+ * @param filePath - Conventions file (default: DORA_CONVENTIONS)
+ * @throws ConfigValidationError when the file is unreadable or invalid
+ */
+export function loadDoraConventions(
+  filePath: string | undefined = process.env.DORA_CONVENTIONS
+): DoraConventions {
+  if (!filePath) return DEFAULT_DORA_CONVENTIONS;
+
+  const resolved = path.resolve(filePath);
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(resolved, 'utf8');
+    raw =
+      path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigValidationError(filePath, [`cannot read file: ${reason}`]);
+  }
+
+  const problems: string[] = [];
+  const conventions: DoraConventions = { ...DEFAULT_DORA_CONVENTIONS };
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    problems.push('(root): must be a mapping with failureLabels, revertPattern or hotfixPattern');
+  } else {
+    for (const [key, value] of Object.entries(raw)) {
+      if (key === 'failureLabels') {
+        if (!Array.isArray(value) || !value.every((v) => typeof v === 'string' && v.trim())) {
+          problems.push(`${key}: must be a list of label names`);
+        } else {
+          conventions.failureLabels = value;
+        }
+      } else if ((PATTERN_KEYS as readonly string[]).includes(key)) {
+        if (typeof value !== 'string' || value.trim() === '') {
+          problems.push(`${key}: must be a non-empty regular expression`);
+        } else {
+          try {
+            new RegExp(value, 'i');
+            conventions[key as (typeof PATTERN_KEYS)[number]] = value;
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            problems.push(`${key}: invalid regular expression: ${reason}`);
+          }
+        }
+      } else {
+        problems.push(
+          `${key}: unknown key (expected one of: failureLabels, ${PATTERN_KEYS.join(', ')})`
+        );
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigValidationError(filePath, problems);
+  }
+  return conventions;
+}
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ConfigValidationError } from './config-file.js';
+import {
+  CHANNEL_TYPES,
+  type ChannelType,
+  type NotificationChannel,
+} from '../notifications/notifier.js';
+
+type RawObject = Record<string, unknown>;
+
+const INLINE_CHANNEL = new RegExp(`^(${CHANNEL_TYPES.join('|')}):(https?://.+)$`);
+
+/**
+ * Resolve `--notify` values into channels
+ *
+ * Each value is either a channel name from the notifications file, or an inline
+ * `<type>:<url>` such as `slack:https://hooks.slack.com/services/...`.
+ *
+ * @param specs - Channel names or inline channels
+ * @param configPath - Notifications file (default: NOTIFICATIONS_CONFIG)
+ * @throws Error for unknown channels, ConfigValidationError for an invalid notifications file
+ */
+export function resolveNotificationChannels(
+  specs: string[],
+  configPath: string | undefined = process.env.NOTIFICATIONS_CONFIG
+): NotificationChannel[] {
+  let configured: Record<string, NotificationChannel> | undefined;
+
+  return specs.map((spec) => {
+    const inline = spec.match(INLINE_CHANNEL);
+    if (inline) {
+      return { name: spec.split(':')[0], type: inline[1] as ChannelType, url: inline[2] };
+    }
+
+    if (!configPath) {
+      throw new Error(
+        `Unknown notification channel "${spec}": use <type>:<url> or set NOTIFICATIONS_CONFIG`
+      );
+    }
+    configured ??= loadNotificationChannels(configPath);
+    const channel = configured[spec];
+    if (!channel) {
+      throw new ConfigValidationError(configPath, [
+        `channels.${spec}: not defined (known: ${Object.keys(configured).join(', ') || 'none'})`,
+      ]);
+    }
+    return channel;
+  });
+}
+
+/**
+ * Load named channels from a notifications file (YAML or JSON)
+ *
+ * Example (YAML):
+ *   channels:
+ *     team-slack:
+ *       type: slack
+ *       urlEnv: SLACK_WEBHOOK_URL
+ *       template: "{{body}}\n_{{command}} for {{from}} – {{to}}_"
+ *     ops-hook:
+ *       type: webhook
+ *       url: https://ops.example.com/hooks/activity
+ *       headers:
+ *         Authorization: Bearer secret
+ *
+ * `urlEnv` names an environment variable holding the URL, keeping webhook secrets out of the file.
+ *
+ * @throws ConfigValidationError when the file is unreadable or invalid
+ */
+export function loadNotificationChannels(filePath: string): Record<string, NotificationChannel> {
+  const resolved = path.resolve(filePath);
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(resolved, 'utf8');
+    raw =
+      path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigValidationError(filePath, [`cannot read file: ${reason}`]);
+  }
+
+  const problems: string[] = [];
+  const channels: Record<string, NotificationChannel> = {};
+
+  if (!isObject(raw) || !isObject(raw.channels)) {
+    problems.push('channels: must be a mapping of channel names to channels');
+  } else {
+    for (const key of Object.keys(raw).filter((k) => k !== 'channels')) {
+      problems.push(`${key}: unknown key (expected: channels)`);
+    }
+    for (const [name, item] of Object.entries(raw.channels)) {
+      const channel = readChannel(name, item, `channels.${name}`, problems);
+      if (channel) channels[name] = channel;
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigValidationError(filePath, problems);
+  }
+  return channels;
+}
+
+function readChannel(
+  name: string,
+  item: unknown,
+  at: string,
+  problems: string[]
+): NotificationChannel | undefined {
+  if (!isObject(item)) {
+    problems.push(`${at}: must be a mapping`);
+    return undefined;
+  }
+
+  const allowed = ['type', 'url', 'urlEnv', 'template', 'headers'];
+  for (const key of Object.keys(item).filter((k) => !allowed.includes(k))) {
+    problems.push(`${at}.${key}: unknown key (expected one of: ${allowed.join(', ')})`);
+  }
+
+  const type = item.type;
+  if (typeof type !== 'string' || !(CHANNEL_TYPES as readonly string[]).includes(type)) {
+    problems.push(`${at}.type: must be one of ${CHANNEL_TYPES.join(', ')}`);
+  }
+
+  let url: unknown = item.url;
+  if (item.urlEnv !== undefined) {
+    if (url !== undefined) problems.push(`${at}: set either url or urlEnv, not both`);
+    url = typeof item.urlEnv === 'string' ? process.env[item.urlEnv] : undefined;
+    if (!url) problems.push(`${at}.urlEnv: environment variable ${String(item.urlEnv)} is not set`);
+  }
+  if (typeof url !== 'string' || !/^https?:\/\/[^/]+/.test(url)) {
+    if (url !== undefined || item.urlEnv === undefined) {
+      problems.push(`${at}.url: must be an http(s) URL`);
+    }
+  }
+
+  if (item.template !== undefined && typeof item.template !== 'string') {
+    problems.push(`${at}.template: must be a string`);
+  }
+
+  const headers = item.headers;
+  if (
+    headers !== undefined &&
+    (!isObject(headers) || !Object.values(headers).every((v) => typeof v === 'string'))
+  ) {
+    problems.push(`${at}.headers: must be a mapping of header names to strings`);
+  }
+
+  return {
+    name,
+    type: type as ChannelType,
+    url: url as string,
+    template: item.template as string | undefined,
+    headers: headers as Record<string, string> | undefined,
+  };
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
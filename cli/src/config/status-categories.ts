@@ -0,0 +1,69 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ConfigValidationError } from './config-file.js';
+import { DEFAULT_STATUS_CATEGORIES, type StatusCategories } from '../core/cycle-time-report.js';
+
+const CATEGORY_KEYS: (keyof StatusCategories)[] = ['started', 'done'];
+
+/**
+ * Load the status category mapping used by flow metrics (YAML or JSON)
+ *
+ * Example (YAML):
+ *   started: [In Progress, In Review, QA]
+ *   done: [Done, Released]
+ *
+ * A missing list keeps its default. Without a file the defaults are used.
+ *
+ * @param filePath - Mapping file (default: STATUS_CATEGORIES)
+ * @throws ConfigValidationError when the file is unreadable or invalid
+ */
+export function loadStatusCategories(
+  filePath: string | undefined = process.env.STATUS_CATEGORIES
+): StatusCategories {
+  if (!filePath) return DEFAULT_STATUS_CATEGORIES;
+
+  const resolved = path.resolve(filePath);
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(resolved, 'utf8');
+    raw =
+      path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigValidationError(filePath, [`cannot read file: ${reason}`]);
+  }
+
+  const problems: string[] = [];
+  const categories: StatusCategories = { ...DEFAULT_STATUS_CATEGORIES };
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    problems.push('(root): must be a mapping with started and done status lists');
+  } else {
+    for (const [key, value] of Object.entries(raw)) {
+      if (!(CATEGORY_KEYS as string[]).includes(key)) {
+        problems.push(`${key}: unknown key (expected one of: ${CATEGORY_KEYS.join(', ')})`);
+      } else if (
+        !Array.isArray(value) ||
+        value.length === 0 ||
+        !value.every((v) => typeof v === 'string' && v.trim() !== '')
+      ) {
+        problems.push(`${key}: must be a non-empty list of status names`);
+      } else {
+        categories[key as keyof StatusCategories] = value;
+      }
+    }
+
+    const overlap = categories.started.filter((s) =>
+      categories.done.some((d) => d.toLowerCase() === s.toLowerCase())
+    );
+    if (overlap.length > 0) {
+      problems.push(`started, done: ${overlap.join(', ')} cannot be both started and done`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigValidationError(filePath, problems);
+  }
+  return categories;
+}
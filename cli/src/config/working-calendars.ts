@@ -0,0 +1,417 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { parse as parseYaml } from 'yaml';
+import { ConfigValidationError } from './config-file.js';
+import {
+  getDefaultWorkingCalendars,
+  getWorkingTimeConfig,
+  resolveWorkingCalendar,
+  type CustomWorkingHours,
+  type PersonCalendar,
+  type TeamCalendar,
+  type WorkingCalendarOverrides,
+  type WorkingCalendars,
+} from '../core/working-time.js';
+import { icsTimeOff, parseIcsEvents } from '../core/ics.js';
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * ICS files of a calendar layer, read once the whole file is validated
+ */
+interface HolidayFiles {
+  at: string;
+  layer: WorkingCalendarOverrides;
+  sources: string[]; // Resolved paths or http(s) URLs
+  timezone: () => string | undefined; // Timezone of the layer's floating times
+}
+
+const CALENDAR_KEYS = [
+  'timezone',
+  'workingDays',
+  'startHour',
+  'endHour',
+  'lunchStartHour',
+  'lunchEndHour',
+  'holidays',
+  'holidayFiles',
+  'customHours',
+];
+
+/**
+ * Load working calendars from a file, or the single calendar configured in the environment
+ *
+ * Example (YAML):
+ *   default:
+ *     timezone: Europe/Berlin
+ *     lunchStartHour: 12
+ *     lunchEndHour: 13
+ *     region: de-by
+ *     customHours:
+ *       - date: '2026-12-24'
+ *         endHour: 12
+ *   regions:
+ *     de-by:
+ *       holidayFiles: [holidays/de-by.ics]
+ *     us-ny:
+ *       holidayFiles: [https://example.com/us-holidays.ics]
+ *   teams:
+ *     platform:
+ *       timezone: America/New_York
+ *       region: us-ny
+ *       members: [alice, bob]
+ *   people:
+ *     carol:
+ *       timezone: Asia/Kolkata
+ *       startHour: 10
+ *       endHour: 18.5
+ *       workingDays: [0, 1, 2, 3, 4]
+ *       holidayFiles: [leave/carol.ics]
+ *       aliases: [carol@example.com, Carol Smith]
+ *
+ * Settings missing from `default` come from the WORKING_* environment variables. All-day
+ * events of `holidayFiles` are days off, timed events partial days off. Relative paths are
+ * resolved against the calendar file location.
+ *
+ * @param filePath - YAML/JSON calendar file (default: WORKING_CALENDARS)
+ * @throws ConfigValidationError when the file, or one of its ICS files, is unreadable or invalid
+ */
+export async function loadWorkingCalendars(
+  filePath: string | undefined = process.env.WORKING_CALENDARS
+): Promise<WorkingCalendars> {
+  if (!filePath) {
+    const calendars = getDefaultWorkingCalendars();
+    const sources = (process.env.HOLIDAY_FILES || '')
+      .split(',')
+      .map((v) => v.trim())
+      .filter(Boolean)
+      .map((source) => resolveSource(source, process.cwd()));
+    const problems: string[] = [];
+    const layer = calendars.default;
+    await readHolidayFiles(
+      [{ at: 'HOLIDAY_FILES', layer, sources, timezone: (): string | undefined => layer.timezone }],
+      problems
+    );
+    if (problems.length > 0) {
+      throw new ConfigValidationError('HOLIDAY_FILES', problems);
+    }
+    return calendars;
+  }
+
+  const resolved = path.resolve(filePath);
+  let raw: unknown;
+  try {
+    const content = fs.readFileSync(resolved, 'utf8');
+    raw =
+      path.extname(resolved).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigValidationError(filePath, [`cannot read file: ${reason}`]);
+  }
+
+  const problems: string[] = [];
+  const holidayFiles: HolidayFiles[] = [];
+  const calendars = validateCalendars(raw, path.dirname(resolved), holidayFiles, problems);
+  if (problems.length === 0) {
+    await readHolidayFiles(holidayFiles, problems);
+  }
+  if (problems.length > 0) {
+    throw new ConfigValidationError(filePath, problems);
+  }
+  return calendars;
+}
+
+function validateCalendars(
+  raw: unknown,
+  baseDir: string,
+  holidayFiles: HolidayFiles[],
+  problems: string[]
+): WorkingCalendars {
+  const calendars = getDefaultWorkingCalendars();
+  if (!isObject(raw)) {
+    problems.push('root: must be a mapping with "default", "regions", "teams" and/or "people"');
+    return calendars;
+  }
+  checkKeys(raw, '', ['default', 'regions', 'teams', 'people'], problems);
+
+  const readLayer = (
+    item: RawObject,
+    at: string,
+    timezone?: () => string | undefined
+  ): WorkingCalendarOverrides => {
+    const layer = readOverrides(item, at, problems);
+    const sources = readStrings(item, 'holidayFiles', at, problems);
+    if (sources) {
+      holidayFiles.push({
+        at,
+        layer,
+        sources: sources.map((s) => resolveSource(s, baseDir)),
+        timezone:
+          timezone ?? ((): string | undefined => layer.timezone ?? calendars.default.timezone),
+      });
+    }
+    return layer;
+  };
+
+  const regionNames = isObject(raw.regions) ? Object.keys(raw.regions) : [];
+  const readRegion = (item: RawObject, at: string): string | undefined => {
+    const region = item.region;
+    if (region === undefined) return undefined;
+    if (typeof region !== 'string' || !regionNames.includes(region)) {
+      problems.push(`${at}.region: must name a region under "regions"`);
+      return undefined;
+    }
+    return region;
+  };
+
+  if (raw.default !== undefined) {
+    if (isObject(raw.default)) {
+      checkKeys(raw.default, 'default', [...CALENDAR_KEYS, 'region'], problems);
+      // ICS files of the default calendar are merged into the final object
+      const layer = readLayer(raw.default, 'default');
+      calendars.default = Object.assign(layer, {
+        ...getWorkingTimeConfig(),
+        ...layer,
+        holidays: [...getWorkingTimeConfig().holidays, ...(layer.holidays ?? [])],
+      });
+      calendars.defaultRegion = readRegion(raw.default, 'default');
+    } else {
+      problems.push('default: must be a mapping');
+    }
+  }
+
+  for (const { name, item, at } of readEntries(raw, 'regions', problems)) {
+    checkKeys(item, at, CALENDAR_KEYS, problems);
+    calendars.regions[name] = readLayer(item, at);
+  }
+
+  for (const { name, item, at } of readEntries(raw, 'teams', problems)) {
+    checkKeys(item, at, [...CALENDAR_KEYS, 'region', 'members'], problems);
+    const team: TeamCalendar = Object.assign(readLayer(item, at), {
+      region: readRegion(item, at),
+      members: readStrings(item, 'members', at, problems) ?? [],
+    });
+    calendars.teams[name] = team;
+  }
+
+  for (const { name, item, at } of readEntries(raw, 'people', problems)) {
+    checkKeys(item, at, [...CALENDAR_KEYS, 'region', 'team', 'aliases'], problems);
+    const team = item.team;
+    if (team !== undefined && (typeof team !== 'string' || !calendars.teams[team])) {
+      problems.push(`${at}.team: must name a team under "teams"`);
+    }
+    const timezone = (): string | undefined => resolveWorkingCalendar(calendars, name).timezone;
+    const person: PersonCalendar = Object.assign(readLayer(item, at, timezone), {
+      region: readRegion(item, at),
+      team: typeof team === 'string' ? team : undefined,
+      aliases: readStrings(item, 'aliases', at, problems) ?? [],
+    });
+    calendars.people[name] = person;
+  }
+
+  return calendars;
+}
+
+/**
+ * Add the days and periods off of each layer's ICS files to the layer
+ * Times without a timezone are read in the timezone the layer's calendar ends up in
+ */
+async function readHolidayFiles(holidayFiles: HolidayFiles[], problems: string[]): Promise<void> {
+  for (const { at, layer, sources, timezone } of holidayFiles) {
+    for (const source of sources) {
+      let content: string;
+      try {
+        content = await readSource(source);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        problems.push(`${at}.holidayFiles: cannot read ${source}: ${reason}`);
+        continue;
+      }
+
+      const warnings: string[] = [];
+      const { holidays, timeOff } = icsTimeOff(
+        parseIcsEvents(content, timezone(), undefined, warnings)
+      );
+      for (const warning of warnings) {
+        console.warn(chalk.yellow(`Warning: ${at}.holidayFiles: ${source}: ${warning}`));
+      }
+      layer.holidays = [...(layer.holidays ?? []), ...holidays];
+      layer.timeOff = [...(layer.timeOff ?? []), ...timeOff];
+    }
+  }
+}
+
+function resolveSource(source: string, baseDir: string): string {
+  return /^https?:\/\//i.test(source) ? source : path.resolve(baseDir, source);
+}
+
+async function readSource(source: string): Promise<string> {
+  if (!/^https?:\/\//i.test(source)) {
+    return fs.promises.readFile(source, 'utf8');
+  }
+  const response = await fetch(source);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+function readEntries(
+  raw: RawObject,
+  key: string,
+  problems: string[]
+): { name: string; item: RawObject; at: string }[] {
+  const section = raw[key];
+  if (section === undefined) return [];
+  if (!isObject(section)) {
+    problems.push(`${key}: must be a mapping of names to calendars`);
+    return [];
+  }
+
+  const entries: { name: string; item: RawObject; at: string }[] = [];
+  for (const [name, item] of Object.entries(section)) {
+    const at = `${key}.${name}`;
+    if (isObject(item)) {
+      entries.push({ name, item, at });
+    } else {
+      problems.push(`${at}: must be a mapping`);
+    }
+  }
+  return entries;
+}
+
+function readOverrides(item: RawObject, at: string, problems: string[]): WorkingCalendarOverrides {
+  const overrides: WorkingCalendarOverrides = {};
+
+  if (item.timezone !== undefined) {
+    if (typeof item.timezone === 'string' && isTimezone(item.timezone)) {
+      overrides.timezone = item.timezone;
+    } else {
+      problems.push(`${at}.timezone: must be an IANA timezone such as Europe/Berlin`);
+    }
+  }
+
+  for (const key of ['startHour', 'endHour', 'lunchStartHour', 'lunchEndHour'] as const) {
+    const value = item[key];
+    if (value === undefined) continue;
+    if (typeof value === 'number' && value >= 0 && value <= 24) {
+      overrides[key] = value;
+    } else {
+      problems.push(`${at}.${key}: must be an hour between 0 and 24`);
+    }
+  }
+
+  const start = overrides.startHour;
+  const end = overrides.endHour;
+  if (start !== undefined && end !== undefined && start >= end) {
+    problems.push(`${at}.endHour: must be after startHour`);
+  }
+  if ((overrides.lunchStartHour === undefined) !== (overrides.lunchEndHour === undefined)) {
+    problems.push(`${at}: lunchStartHour and lunchEndHour must be set together`);
+  } else if (
+    overrides.lunchStartHour !== undefined &&
+    overrides.lunchEndHour !== undefined &&
+    overrides.lunchStartHour >= overrides.lunchEndHour
+  ) {
+    problems.push(`${at}.lunchEndHour: must be after lunchStartHour`);
+  }
+
+  if (item.workingDays !== undefined) {
+    const days = item.workingDays;
+    if (Array.isArray(days) && days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+      overrides.workingDays = days as number[];
+    } else {
+      problems.push(`${at}.workingDays: must be a list of weekdays from 0 (Sunday) to 6`);
+    }
+  }
+
+  const holidays = readStrings(item, 'holidays', at, problems);
+  if (holidays) {
+    const invalid = holidays.find((h) => !isDate(h));
+    if (invalid) {
+      problems.push(`${at}.holidays: "${invalid}" is not a YYYY-MM-DD date`);
+    }
+    overrides.holidays = holidays;
+  }
+
+  if (item.customHours !== undefined) {
+    if (Array.isArray(item.customHours)) {
+      overrides.customHours = item.customHours.map((entry, index) =>
+        readCustomHours(entry, `${at}.customHours[${index}]`, problems)
+      );
+    } else {
+      problems.push(`${at}.customHours: must be a list of { date, startHour, endHour }`);
+    }
+  }
+
+  return overrides;
+}
+
+function readCustomHours(entry: unknown, at: string, problems: string[]): CustomWorkingHours {
+  if (!isObject(entry)) {
+    problems.push(`${at}: must be a mapping with date, startHour and/or endHour`);
+    return { date: '' };
+  }
+  checkKeys(entry, at, ['date', 'startHour', 'endHour'], problems);
+
+  if (typeof entry.date !== 'string' || !isDate(entry.date)) {
+    problems.push(`${at}.date: must be a YYYY-MM-DD date`);
+  }
+  const custom: CustomWorkingHours = { date: String(entry.date) };
+  for (const key of ['startHour', 'endHour'] as const) {
+    const value = entry[key];
+    if (value === undefined) continue;
+    if (typeof value === 'number' && value >= 0 && value <= 24) {
+      custom[key] = value;
+    } else {
+      problems.push(`${at}.${key}: must be an hour between 0 and 24`);
+    }
+  }
+  if (custom.startHour === undefined && custom.endHour === undefined) {
+    problems.push(`${at}: needs startHour and/or endHour (use holidays for whole days off)`);
+  }
+  return custom;
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function readStrings(
+  item: RawObject,
+  key: string,
+  at: string,
+  problems: string[]
+): string[] | undefined {
+  const value = item[key];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string' && v.trim() !== '')) {
+    problems.push(`${at}.${key}: must be a list of non-empty strings`);
+    return undefined;
+  }
+  return value.map((v: string) => v.trim());
+}
+
+function isTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(obj: RawObject, at: string, allowed: string[], problems: string[]): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) {
+      problems.push(
+        `${at ? `${at}.` : ''}${key}: unknown key (expected one of: ${allowed.join(', ')})`
+      );
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { generateActivityKey } from '../infrastructure/activity-repository.js';
+import type { ActivityConnector } from '../core/activity-connector.js';
+import type { UserActivity } from '../types.js';
+import { IssuesConnector } from './issues-connector.js';
+import { PRsConnector } from './prs-connector.js';
+import { RepoIssuesConnector } from './repo-issues-connector.js';
+import { CommitsConnector } from './commits-connector.js';
+import { GitLabConnector } from './gitlab-connector.js';
+import { JiraConnector } from './jira-connector.js';
+import { DeploymentsConnector } from './deployments-connector.js';
+
+/**
+ * Unique key generator that keys each activity like the connector producing its type
+ * Used for activities that do not come from a connector run (migrations, webhooks)
+ */
+export function createActivityKeyGenerator(): (activity: UserActivity) => string {
+  const issues = new IssuesConnector();
+  const prs = new PRsConnector();
+  const repoIssues = new RepoIssuesConnector();
+  const commits = new CommitsConnector();
+  const gitlab = new GitLabConnector();
+  const jira = new JiraConnector();
+  const deployments = new DeploymentsConnector();
+
+  const connectorFor = (activity: UserActivity): ActivityConnector | undefined => {
+    if (activity.meta?.source === 'gitlab') return gitlab;
+    if (activity.meta?.source === 'jira') return jira;
+    if (activity.type === 'commit') return commits;
+    if (activity.type === 'deployment') return deployments;
+    if (activity.type.startsWith('pr_')) return prs;
+    if (activity.type === 'issue_created' || activity.type === 'issue_comment') return repoIssues;
+    if (activity.type.startsWith('issue_')) return issues;
+    return undefined;
+  };
+
+  return (activity) =>
+    connectorFor(activity)?.generateActivityKey(activity) ?? generateActivityKey(activity);
+}
@@ -0,0 +1,239 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import dayjs from 'dayjs';
+import { CommitsConnector } from './commits-connector.js';
+import type { UserActivity } from '../types.js';
+
+const WINDOW = {
+  enabled: true,
+  from: dayjs('2026-03-01T00:00:00Z'),
+  to: dayjs('2026-03-31T00:00:00Z'),
+};
+
+// Keep the fixture independent of the user's git configuration
+const GIT_ENV = {
+  ...process.env,
+  GIT_CONFIG_GLOBAL: '/dev/null',
+  GIT_CONFIG_NOSYSTEM: '1',
+  GIT_COMMITTER_NAME: 'CI',
+  GIT_COMMITTER_EMAIL: 'ci@example.com',
+};
+
+function git(cwd: string, args: string[], input?: string, env: NodeJS.ProcessEnv = {}): string {
+  return execFileSync('git', args, {
+    cwd,
+    input,
+    env: { ...GIT_ENV, ...env },
+    encoding: 'utf8',
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+}
+
+/**
+ * Commit everything staged in `cwd` as `author` at `date`
+ */
+function commit(cwd: string, message: string, date: string, author: string): void {
+  git(cwd, ['add', '-A']);
+  git(cwd, ['commit', '-q', '-m', message, `--author=${author}`], undefined, {
+    GIT_AUTHOR_DATE: date,
+    GIT_COMMITTER_DATE: date,
+  });
+}
+
+/**
+ * A bare `origin` and a clone of it, the clone being the directory the connector reads
+ */
+function createRepository(root: string, name: string): { origin: string; work: string } {
+  const origin = path.join(root, `${name}.git`);
+  const work = path.join(root, name);
+  git(root, ['init', '-q', '--bare', '-b', 'main', origin]);
+  git(root, ['clone', '-q', origin, work]);
+  return { origin, work };
+}
+
+const lines = (count: number, prefix: string): string =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i}\n`).join('');
+
+const ALICE = 'Alice Martin <alice@example.com>';
+const BOB = 'Bob Chen <bob@example.com>';
+const CAROL = 'Carol Diaz <carol@example.com>';
+
+describe('CommitsConnector', () => {
+  let root: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'commits-connector-'));
+  });
+
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('reads renames, binaries, excluded lockfiles and first-parent merges', async () => {
+    const { work } = createRepository(root, 'api');
+    const write = (file: string, content: string | Buffer): void => {
+      fs.mkdirSync(path.dirname(path.join(work, file)), { recursive: true });
+      fs.writeFileSync(path.join(work, file), content);
+    };
+
+    write('src/app.ts', lines(3, 'export const line'));
+    write('package-lock.json', lines(50, 'lock'));
+    write('assets/logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1, 2, 0, 3]));
+    commit(work, 'Add app', '2026-03-02T09:00:00Z', ALICE);
+
+    git(work, ['checkout', '-q', '-b', 'feature/rename']);
+    git(work, ['mv', 'src/app.ts', 'src/main.ts']);
+    write('src/main.ts', lines(3, 'export const line') + 'export const added = 1;\n');
+    write('package-lock.json', lines(40, 'lock') + lines(10, 'relock'));
+    commit(work, 'Rename app to main', '2026-03-03T09:00:00Z', BOB);
+
+    git(work, ['checkout', '-q', 'main']);
+    write('README.md', lines(2, 'readme'));
+    commit(work, 'Add readme', '2026-03-04T09:00:00Z', ALICE);
+    git(
+      work,
+      ['merge', '-q', '--no-ff', '-m', 'Merge feature/rename', 'feature/rename'],
+      undefined,
+      {
+        GIT_AUTHOR_NAME: 'Alice Martin',
+        GIT_AUTHOR_EMAIL: 'alice@example.com',
+        GIT_AUTHOR_DATE: '2026-03-05T09:00:00Z',
+        GIT_COMMITTER_DATE: '2026-03-05T09:00:00Z',
+      }
+    );
+
+    git(work, ['checkout', '-q', '-b', 'experiment']);
+    write('notes.txt', lines(1, 'note'));
+    commit(work, 'Add notes', '2026-03-06T09:00:00Z', CAROL);
+
+    git(work, ['checkout', '-q', 'main']);
+    write('README.md', lines(3, 'readme'));
+    commit(work, 'Update readme after the window', '2026-04-10T09:00:00Z', ALICE);
+
+    git(work, ['push', '-q', 'origin', 'main', 'feature/rename', 'experiment']);
+
+    const activities = await new CommitsConnector().fetch({ ...WINDOW, repoDirectory: work });
+    const byTitle = (title: string): UserActivity => {
+      const activity = activities.find((a) => a.title === title);
+      assert.ok(activity, `no commit "${title}"`);
+      return activity;
+    };
+
+    assert.deepEqual(
+      activities.map((a) => `${a.date} ${a.author} ${a.title} ${a.meta?.sourceBranch}`),
+      [
+        '2026-03-02T09:00:00.000Z Alice Martin Add app origin/main',
+        '2026-03-03T09:00:00.000Z Bob Chen Rename app to main origin/main',
+        '2026-03-04T09:00:00.000Z Alice Martin Add readme origin/main',
+        '2026-03-05T09:00:00.000Z Alice Martin Merge feature/rename origin/main',
+        '2026-03-06T09:00:00.000Z Carol Diaz Add notes origin/experiment',
+      ]
+    );
+
+    const added = byTitle('Add app').meta!;
+    assert.deepEqual(added.files, [
+      { path: 'assets/logo.png', status: 'added', insertions: 0, deletions: 0, binary: true },
+      {
+        path: 'package-lock.json',
+        status: 'added',
+        insertions: 50,
+        deletions: 0,
+        language: 'JSON',
+        excluded: true,
+      },
+      { path: 'src/app.ts', status: 'added', insertions: 3, deletions: 0, language: 'TypeScript' },
+    ]);
+    // The lockfile is listed but not counted
+    assert.deepEqual([added.linesAdded, added.linesRemoved], [3, 0]);
+
+    const renamed = byTitle('Rename app to main').meta!;
+    const renameFiles = [
+      {
+        path: 'package-lock.json',
+        status: 'modified',
+        insertions: 10,
+        deletions: 10,
+        language: 'JSON',
+        excluded: true,
+      },
+      {
+        path: 'src/main.ts',
+        status: 'renamed',
+        previousPath: 'src/app.ts',
+        insertions: 1,
+        deletions: 0,
+        language: 'TypeScript',
+      },
+    ];
+    assert.deepEqual(renamed.files, renameFiles);
+    assert.deepEqual([renamed.linesAdded, renamed.linesRemoved], [1, 0]);
+
+    // A merge shows what it brought into the branch it was merged into
+    const merge = byTitle('Merge feature/rename').meta!;
+    assert.deepEqual(merge.files, renameFiles);
+    assert.deepEqual([merge.linesAdded, merge.linesRemoved], [1, 0]);
+    assert.equal(merge.hash, git(work, ['rev-parse', 'main~1']).trim());
+  });
+
+  it('reports a repository git cannot read in full as incomplete', async () => {
+    const { work } = createRepository(root, 'broken');
+    fs.writeFileSync(path.join(work, 'app.ts'), lines(3, 'export const line'));
+    commit(work, 'Add app', '2026-03-02T09:00:00Z', ALICE);
+    fs.writeFileSync(path.join(work, 'app.ts'), lines(4, 'export const line'));
+    commit(work, 'Extend app', '2026-03-03T09:00:00Z', BOB);
+    git(work, ['push', '-q', 'origin', 'main']);
+    // Lose the blob git log needs to count the lines of the latest change
+    const blob = git(work, ['rev-parse', 'origin/main:app.ts']).trim();
+    fs.rmSync(path.join(work, '.git', 'objects', blob.slice(0, 2), blob.slice(2)));
+
+    const result = await new CommitsConnector().execute({ ...WINDOW, repoDirectory: work });
+
+    assert.equal(result.success, true);
+    assert.equal(result.incomplete, true);
+    assert.match(
+      result.warnings?.[0] ?? '',
+      /^broken: git log exited with 128: .*\(read \d commits\)$/s
+    );
+  });
+
+  it('scans a few thousand commits in one pass', { timeout: 120_000 }, async () => {
+    const { origin, work } = createRepository(root, 'large');
+
+    const COMMITS = 3000;
+    const start = dayjs('2026-03-01T00:00:00Z').unix();
+    const stream: string[] = [];
+    for (let i = 1; i <= COMMITS; i++) {
+      const message = `Change ${i}\n`;
+      const content = lines(5, `export const v${i} =`);
+      const time = `${start + i * 600} +0000`;
+      stream.push(
+        'commit refs/heads/main',
+        `mark :${i}`,
+        `author Dev ${i % 7} <dev${i % 7}@example.com> ${time}`,
+        `committer CI <ci@example.com> ${time}`,
+        `data ${Buffer.byteLength(message)}`,
+        message.trimEnd(),
+        ...(i > 1 ? [`from :${i - 1}`] : []),
+        `M 100644 inline src/module${i % 40}.ts`,
+        `data ${Buffer.byteLength(content)}`,
+        content.trimEnd(),
+        ''
+      );
+    }
+    git(origin, ['fast-import', '--quiet'], stream.join('\n') + '\n');
+
+    const started = Date.now();
+    const activities = await new CommitsConnector().fetch({ ...WINDOW, repoDirectory: work });
+    const elapsed = Date.now() - started;
+
+    assert.equal(activities.length, COMMITS);
+    assert.ok(
+      activities.every((a) => (a.meta?.files as unknown[]).length === 1),
+      'every commit lists its file'
+    );
+    // About 2s here; a git process per commit took over a minute
+    assert.ok(elapsed < 20_000, `took ${elapsed}ms`);
+  });
+});
@@ -1,10 +1,18 @@
 import { ActivityConnector, type ConnectorConfig } from '../core/activity-connector.js';
 import type { UserActivity } from '../types.js';
 import dayjs from 'dayjs';
-import type { SimpleGit, LogResult, DiffResult } from 'simple-git';
+import type { SimpleGit } from 'simple-git';
 import { simpleGit } from 'simple-git';
+import { spawn } from 'child_process';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import {
+  DEFAULT_EXCLUDE_GLOBS,
+  capFileChanges,
+  createPathMatcher,
+  parseFileChanges,
+  type FileChange,
+} from '../core/file-changes.js';
 
 interface CommitAnalysis {
   author: string;
@@ -16,9 +24,13 @@ interface CommitAnalysis {
   sourceBranch: string;
   linesAdded: number;
   linesRemoved: number;
+  files: FileChange[];
   repository: string;
 }
 
+// Starts each commit header in `git log -z` output; diff tokens follow until the next one
+const COMMIT_MARKER = '\x1e';
+
 interface RepositoryInfo {
   name: string;
   path: string;
@@ -71,6 +83,10 @@ export class CommitsConnector extends ActivityConnector {
       : dayjs();
 
     const repoDirectoryPath = path.resolve(repoDirectory);
+    const isExcluded = createPathMatcher([
+      ...DEFAULT_EXCLUDE_GLOBS,
+      ...(config.excludeGlobs ?? parseGlobList(process.env.COMMITS_EXCLUDE)),
+    ]);
 
     // Verify directory exists
     try {
@@ -95,7 +111,7 @@ export class CommitsConnector extends ActivityConnector {
     const allCommits: CommitAnalysis[] = [];
 
     for (const repo of repositories) {
-      const commits = await this.analyzeRepository(repo, fromDate, toDate);
+      const commits = await this.analyzeRepository(repo, fromDate, toDate, isExcluded);
       allCommits.push(...commits);
     }
 
@@ -103,26 +119,36 @@ export class CommitsConnector extends ActivityConnector {
     allCommits.sort((a, b) => dayjs(a.date).diff(dayjs(b.date)));
 
     // Map to UserActivity
-    const activities: UserActivity[] = allCommits.map((commit) => ({
-      type: 'commit',
-      author: commit.author,
-      date: dayjs(commit.date).toISOString(),
-      repository: commit.repository,
-      title: commit.message.split('\n')[0],
-      description: commit.message,
-      meta: {
-        hash: commit.hash,
-        email: commit.email,
-        isFork: commit.isFork,
-        sourceBranch: commit.sourceBranch,
-        linesAdded: commit.linesAdded,
-        linesRemoved: commit.linesRemoved,
-      },
-    }));
+    const activities: UserActivity[] = allCommits.map((commit) => {
+      const { files, omitted } = capFileChanges(commit.files);
+      return {
+        type: 'commit',
+        author: commit.author,
+        date: dayjs(commit.date).toISOString(),
+        repository: commit.repository,
+        title: commit.message.split('\n')[0],
+        description: commit.message,
+        meta: {
+          hash: commit.hash,
+          email: commit.email,
+          isFork: commit.isFork,
+          sourceBranch: commit.sourceBranch,
+          linesAdded: commit.linesAdded,
+          linesRemoved: commit.linesRemoved,
+          files,
+          ...(omitted > 0 && { filesTruncated: omitted }),
+        },
+      };
+    });
 
     return activities;
   }
 
+  getTarget(config: ConnectorConfig): string {
+    const repoDirectory = config.repoDirectory || process.env.REPO_DIRECTORY || '';
+    return path.resolve(repoDirectory);
+  }
+
   /**
    * Override to use commit hash as unique identifier
    */
@@ -228,101 +254,108 @@ export class CommitsConnector extends ActivityConnector {
     return repositories;
   }
 
+  /**
+   * Read the commits of a repository's remote branches in one `git log` pass
+   *
+   * Each commit is printed once with its files (`--raw --numstat`, merges against their first
+   * parent) and the remote branch it was reached from (`--source`). Commits on the default
+   * branch are attributed to it rather than to a feature branch that also contains them.
+   */
   private async analyzeRepository(
     repo: RepositoryInfo,
     fromDate: dayjs.Dayjs,
-    toDate: dayjs.Dayjs
+    toDate: dayjs.Dayjs,
+    isExcluded: (filePath: string) => boolean
   ): Promise<CommitAnalysis[]> {
     const git: SimpleGit = simpleGit(repo.path);
+    const remoteName = repo.remoteName || 'origin';
+    // Full timestamps: git reads a bare date as that day at the current time of day
+    const since = `--since=${fromDate.toISOString()}`;
+    const until = `--until=${toDate.toISOString()}`;
     const commits: CommitAnalysis[] = [];
+    const seen = new Set<string>();
 
     try {
-      const logOptions: {
-        '--since': string;
-        '--until': string;
-        '--remotes'?: string;
-      } = {
-        '--since': fromDate.format('YYYY-MM-DD'),
-        '--until': toDate.format('YYYY-MM-DD'),
-      };
-
-      if (repo.isFork && repo.remoteName) {
-        logOptions['--remotes'] = `${repo.remoteName}/*`;
-      } else {
-        logOptions['--remotes'] = `${repo.remoteName || 'origin'}/*`;
+      const defaultBranch = await this.findDefaultBranch(git, remoteName);
+      const onDefaultBranch = new Set<string>();
+      if (defaultBranch) {
+        const hashes = await git.raw(['rev-list', since, until, defaultBranch]);
+        for (const hash of hashes.split('\n')) {
+          if (hash) onDefaultBranch.add(hash);
+        }
       }
 
-      const log: LogResult = await git.log(logOptions);
-
-      for (const commit of log.all) {
-        const commitDate = dayjs(commit.date);
-
-        if (
-          (commitDate.isAfter(fromDate) || commitDate.isSame(fromDate)) &&
-          (commitDate.isBefore(toDate) || commitDate.isSame(toDate))
-        ) {
-          let linesAdded = 0;
-          let linesRemoved = 0;
-
-          try {
-            const diffResult: DiffResult = await git.diffSummary([`${commit.hash}^`, commit.hash]);
-            linesAdded = diffResult.insertions || 0;
-            linesRemoved = diffResult.deletions || 0;
-          } catch {
-            try {
-              const diffResult: DiffResult = await git.diffSummary([commit.hash]);
-              linesAdded = diffResult.insertions || 0;
-              linesRemoved = diffResult.deletions || 0;
-            } catch {
-              // If still fails, leave as 0
-            }
-          }
-
-          const existing = commits.find((c) => c.hash === commit.hash);
-          if (!existing) {
-            let sourceBranch = 'unknown';
-            try {
-              const branchesWithCommit = await git.raw(['branch', '-r', '--contains', commit.hash]);
-              const branchList = branchesWithCommit
-                .split('\n')
-                .map((b) => b.trim().replace('* ', ''))
-                .filter((b) => b);
-
-              if (branchList.length > 0) {
-                const remoteName = repo.remoteName || 'origin';
-                const ownRemoteBranches = branchList.filter((b) => b.startsWith(`${remoteName}/`));
-                if (ownRemoteBranches.length > 0) {
-                  sourceBranch = ownRemoteBranches[0];
-                } else {
-                  sourceBranch = branchList[0];
-                }
-              }
-            } catch {
-              // Use unknown if we can't determine
-            }
-
-            commits.push({
-              author: commit.author_name,
-              email: commit.author_email,
-              date: commit.date,
-              hash: commit.hash,
-              message: commit.message,
-              isFork: repo.isFork,
-              sourceBranch,
-              linesAdded,
-              linesRemoved,
-              repository: repo.name,
-            });
-          }
-        }
+      const args = [
+        'log',
+        since,
+        until,
+        `--exclude=refs/remotes/${remoteName}/HEAD`,
+        `--remotes=${remoteName}/*`,
+        '--source',
+        '--date-order',
+        '-z',
+        '--raw',
+        '--numstat',
+        '-M',
+        '--diff-merges=first-parent',
+        `--format=${COMMIT_MARKER}%H%x1f%S%x1f%an%x1f%ae%x1f%aI%x1f%s`,
+      ];
+
+      for await (const entry of streamLog(repo.path, args)) {
+        const [hash, source, author, email, date, message] = entry.header.split('\x1f');
+        if (seen.has(hash)) continue;
+        seen.add(hash);
+
+        const commitDate = dayjs(date);
+        if (commitDate.isBefore(fromDate) || commitDate.isAfter(toDate)) continue;
+
+        const files = parseFileChanges(entry.tokens, isExcluded);
+        const counted = files.filter((f) => !f.excluded);
+
+        commits.push({
+          author,
+          email,
+          date,
+          hash,
+          message,
+          isFork: repo.isFork,
+          sourceBranch: onDefaultBranch.has(hash) && defaultBranch ? defaultBranch : source,
+          linesAdded: counted.reduce((sum, f) => sum + f.insertions, 0),
+          linesRemoved: counted.reduce((sum, f) => sum + f.deletions, 0),
+          files,
+          repository: repo.name,
+        });
       }
-    } catch {
-      // Could not fully analyze repository
+    } catch (error) {
+      // Keep what was read, but have the window fetched again
+      const message = error instanceof Error ? error.message : String(error);
+      this.warnIncomplete(`${repo.name}: ${message} (read ${commits.length} commits)`);
     }
 
     return commits;
   }
 
+  /**
+   * The remote's default branch (e.g. origin/main), from its HEAD or the usual branch names
+   */
+  private async findDefaultBranch(git: SimpleGit, remoteName: string): Promise<string | undefined> {
+    try {
+      const head = await git.raw(['symbolic-ref', '--short', `refs/remotes/${remoteName}/HEAD`]);
+      if (head.trim()) return head.trim();
+    } catch {
+      // No remote HEAD, e.g. a fork remote added by hand
+    }
+    for (const name of ['main', 'master']) {
+      try {
+        await git.raw(['rev-parse', '--verify', '--quiet', `refs/remotes/${remoteName}/${name}`]);
+        return `${remoteName}/${name}`;
+      } catch {
+        // Try the next name
+      }
+    }
+    return undefined;
+  }
+
   private async fetchRemotes(repo: RepositoryInfo): Promise<void> {
     const git = simpleGit(repo.path);
     try {
@@ -332,3 +365,65 @@ export class CommitsConnector extends ActivityConnector {
     }
   }
 }
+
+/**
+ * Comma-separated globs, e.g. from COMMITS_EXCLUDE
+ */
+function parseGlobList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter((glob) => glob);
+}
+
+/**
+ * Stream `git log -z` output as commits: the `--format` header (without the marker) and the
+ * NUL-separated `--raw --numstat` tokens that follow it
+ *
+ * @throws Error when git exits with a non-zero status
+ */
+async function* streamLog(
+  cwd: string,
+  args: string[]
+): AsyncGenerator<{ header: string; tokens: string[] }> {
+  const child = spawn('git', args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+  let stderr = '';
+  child.stderr.setEncoding('utf8');
+  child.stderr.on('data', (chunk: string) => (stderr += chunk));
+  child.stdout.setEncoding('utf8');
+
+  let current: { header: string; tokens: string[] } | undefined;
+  let pending = '';
+  let completed = false;
+  try {
+    for await (const chunk of child.stdout as AsyncIterable<string>) {
+      const tokens = (pending + chunk).split('\0');
+      pending = tokens.pop() ?? '';
+      for (const token of tokens) {
+        if (token.startsWith(COMMIT_MARKER)) {
+          if (current) yield current;
+          // The header ends with the newline git prints after --format
+          current = { header: token.slice(1).replace(/\n$/, ''), tokens: [] };
+        } else {
+          current?.tokens.push(token);
+        }
+      }
+    }
+    completed = true;
+  } finally {
+    // Stop git when the consumer gives up early
+    if (!completed) child.kill();
+  }
+
+  if (pending) current?.tokens.push(pending);
+  if (current) yield current;
+
+  const code = await exited;
+  if (code !== 0) {
+    throw new Error(`git log exited with ${code}: ${stderr.trim()}`);
+  }
+}
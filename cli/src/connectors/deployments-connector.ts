@@ -0,0 +1,278 @@
+import {
+  ActivityConnector,
+  nodeActivityKey,
+  type ConnectorConfig,
+} from '../core/activity-connector.js';
+import { GitHubClient } from '../github.js';
+import type { DeploymentNode, ReleaseNode, UserActivity } from '../types.js';
+import dayjs from 'dayjs';
+import { simpleGit } from 'simple-git';
+import * as path from 'path';
+import { getGitHubToken } from '../auth.js';
+
+// Deployment states reached once the deployment went live (INACTIVE: superseded by a newer one)
+const DEPLOYED_STATES = ['SUCCESS', 'ACTIVE', 'INACTIVE'];
+
+// Deployed commits stored per deployment; larger ranges are usually a first or re-based release
+const MAX_DEPLOYED_COMMITS = 1000;
+
+/**
+ * A shipped commit, before it is mapped to an activity
+ */
+interface ShippedCommit {
+  kind: 'deployment' | 'release' | 'tag';
+  nodeId?: string;
+  sha: string;
+  date: string;
+  author: string;
+  title: string;
+  url?: string;
+  tag?: string;
+  environment?: string;
+}
+
+/**
+ * Connector recording what was shipped to production, one activity per deployment
+ *
+ * Sources, in order of preference:
+ * 1. GitHub Deployments that went live in the configured environment
+ * 2. Published GitHub releases (drafts and prereleases are skipped)
+ * 3. Tags of a local clone, optionally filtered by a pattern
+ *
+ * With a local clone, each deployment also lists the commits it shipped since the previous
+ * deployment (meta.commits), which `report dora` uses to link changes to deployments.
+ */
+export class DeploymentsConnector extends ActivityConnector {
+  readonly name = 'deployments';
+
+  async fetch(config: ConnectorConfig): Promise<UserActivity[]> {
+    const owner = config.owner || process.env.GITHUB_OWNER;
+    const repo = config.repo || process.env.GITHUB_REPO;
+    const repoDirectory = config.repoDirectory;
+
+    if ((!owner || !repo) && !repoDirectory) {
+      throw new Error('Owner and repo or a repository directory are required for deployments');
+    }
+
+    const fromDate = config.from ?? dayjs().subtract(7, 'day');
+    const toDate = config.to ?? dayjs();
+
+    let shipped: ShippedCommit[] = [];
+    if (owner && repo) {
+      shipped = await this.fetchFromGitHub(owner, repo, fromDate, config.environment);
+    }
+    if (shipped.length === 0 && repoDirectory) {
+      shipped = await this.readTags(repoDirectory, config.tagPattern);
+    }
+
+    shipped.sort((a, b) => dayjs(a.date).diff(dayjs(b.date)));
+    const repository = owner && repo ? `${owner}/${repo}` : path.basename(repoDirectory || '');
+
+    const activities: UserActivity[] = [];
+    for (let i = 0; i < shipped.length; i++) {
+      const deployment = shipped[i];
+      const date = dayjs(deployment.date);
+      if (date.isBefore(fromDate) || date.isAfter(toDate)) continue;
+
+      // The previous deployment may be older than the sync window; it only bounds the commit range
+      const previous = shipped
+        .slice(0, i)
+        .reverse()
+        .find((d) => d.environment === deployment.environment);
+      const commits =
+        repoDirectory && previous
+          ? await this.listDeployedCommits(repoDirectory, previous, deployment)
+          : undefined;
+
+      activities.push({
+        type: 'deployment',
+        author: deployment.author,
+        date: date.toISOString(),
+        repository,
+        title: deployment.title,
+        url: deployment.url,
+        description: describeDeployment(deployment),
+        meta: {
+          kind: deployment.kind,
+          ...(deployment.nodeId && { nodeId: deployment.nodeId }),
+          sha: deployment.sha,
+          ...(deployment.tag && { tag: deployment.tag }),
+          ...(deployment.environment && { environment: deployment.environment }),
+          ...(previous && { previousSha: previous.sha }),
+          ...(commits && { commits }),
+        },
+      });
+    }
+
+    return activities;
+  }
+
+  getTarget(config: ConnectorConfig): string {
+    const owner = config.owner || process.env.GITHUB_OWNER;
+    const repo = config.repo || process.env.GITHUB_REPO;
+    const target = owner && repo ? `${owner}/${repo}` : path.resolve(config.repoDirectory || '');
+    return config.environment ? `${target}@${config.environment}` : target;
+  }
+
+  /**
+   * Override to use the GraphQL node ID of the deployment or release, or the tag name
+   */
+  generateActivityKey(activity: UserActivity): string {
+    const nodeKey = nodeActivityKey(activity);
+    if (nodeKey) return nodeKey;
+
+    const id = activity.meta?.tag || activity.meta?.sha;
+    if (!id) return super.generateActivityKey(activity);
+    return `${activity.type}:${activity.repository}:${activity.meta?.kind}:${id}`;
+  }
+
+  /**
+   * Live deployments in the environment, or published releases when there are none
+   */
+  private async fetchFromGitHub(
+    owner: string,
+    repo: string,
+    fromDate: dayjs.Dayjs,
+    environment?: string
+  ): Promise<ShippedCommit[]> {
+    const authResult = await getGitHubToken();
+    if (!authResult) {
+      throw new Error('GITHUB_TOKEN or GitHub App credentials are required');
+    }
+    const client = new GitHubClient(authResult.token);
+
+    // Pages reaching past 'from' also carry the deployment before it, which bounds its commits
+    const deployments = await client.fetchDeployments({
+      owner,
+      repo,
+      from: fromDate.toISOString(),
+      environments: environment ? [environment] : undefined,
+    });
+    const live = deployments.nodes
+      .map((node) => fromDeployment(node, owner, repo))
+      .filter((d): d is ShippedCommit => d !== undefined);
+    if (live.length > 0 || deployments.nodes.length > 0) {
+      return live;
+    }
+
+    const releases = await client.fetchReleases({ owner, repo, from: fromDate.toISOString() });
+    return releases.nodes
+      .filter((release) => !release.isDraft && !release.isPrerelease && release.tagCommit)
+      .map(fromRelease);
+  }
+
+  private async readTags(repoDirectory: string, tagPattern?: string): Promise<ShippedCommit[]> {
+    const git = simpleGit(path.resolve(repoDirectory));
+    try {
+      await git.fetch(['--tags', '--quiet']);
+    } catch {
+      // Offline or no remote: use the tags already in the clone
+    }
+
+    // Annotated tags point at a tag object; the peeled object (*objectname) is the commit
+    const output = await git.raw([
+      'for-each-ref',
+      '--sort=creatordate',
+      '--format=%(refname:short)%09%(objectname)%09%(*objectname)%09%(creatordate:iso-strict)%09%(taggername)%09%(authorname)',
+      'refs/tags',
+    ]);
+
+    const pattern = tagPattern ? new RegExp(tagPattern) : undefined;
+    const tags: ShippedCommit[] = [];
+    for (const line of output.split('\n').filter((l) => l.trim())) {
+      const [tag, object, peeled, date, tagger, author] = line.split('\t');
+      if (pattern && !pattern.test(tag)) continue;
+      tags.push({
+        kind: 'tag',
+        sha: peeled || object,
+        date,
+        author: tagger || author || 'unknown',
+        title: tag,
+        tag,
+      });
+    }
+    return tags;
+  }
+
+  /**
+   * Commits reachable from the deployment but not from the previous one, newest first
+   */
+  private async listDeployedCommits(
+    repoDirectory: string,
+    previous: ShippedCommit,
+    deployment: ShippedCommit
+  ): Promise<string[] | undefined> {
+    const git = simpleGit(path.resolve(repoDirectory));
+    try {
+      const output = await git.raw([
+        'rev-list',
+        `--max-count=${MAX_DEPLOYED_COMMITS + 1}`,
+        `${previous.sha}..${deployment.sha}`,
+      ]);
+      const commits = output.split('\n').filter((sha) => sha.trim());
+      if (commits.length > MAX_DEPLOYED_COMMITS) {
+        this.warn(
+          `${deployment.title}: more than ${MAX_DEPLOYED_COMMITS} commits since ${previous.title}, kept the newest ${MAX_DEPLOYED_COMMITS}`
+        );
+        return commits.slice(0, MAX_DEPLOYED_COMMITS);
+      }
+      return commits;
+    } catch {
+      this.warn(
+        `${deployment.title}: commits ${previous.sha.slice(0, 7)}..${deployment.sha.slice(0, 7)} not found in ${repoDirectory}`
+      );
+      return undefined;
+    }
+  }
+}
+
+/**
+ * A deployment went live with its first successful status
+ */
+function fromDeployment(
+  node: DeploymentNode,
+  owner: string,
+  repo: string
+): ShippedCommit | undefined {
+  const liveAt = (node.statuses?.nodes || [])
+    .filter((status) => DEPLOYED_STATES.includes(status.state))
+    .map((status) => status.createdAt)
+    .sort()[0];
+  if (!liveAt) return undefined;
+
+  const environment = node.environment || undefined;
+  return {
+    kind: 'deployment',
+    nodeId: node.id,
+    sha: node.commitOid,
+    date: liveAt,
+    author: node.creator?.login || 'unknown',
+    title: `${environment || 'deployment'} ${node.ref?.name || node.commitOid.slice(0, 7)}`,
+    url: `https://github.com/${owner}/${repo}/deployments`,
+    environment,
+  };
+}
+
+function fromRelease(release: ReleaseNode): ShippedCommit {
+  return {
+    kind: 'release',
+    nodeId: release.id,
+    sha: release.tagCommit?.oid || '',
+    date: release.publishedAt || release.createdAt,
+    author: release.author?.login || 'unknown',
+    title: release.name || release.tagName,
+    url: release.url,
+    tag: release.tagName,
+  };
+}
+
+function describeDeployment(deployment: ShippedCommit): string {
+  switch (deployment.kind) {
+    case 'deployment':
+      return `Deployed ${deployment.sha.slice(0, 7)} to ${deployment.environment || 'an environment'}`;
+    case 'release':
+      return `Released ${deployment.tag}`;
+    case 'tag':
+      return `Tagged ${deployment.tag} at ${deployment.sha.slice(0, 7)}`;
+  }
+}
@@ -0,0 +1,121 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import dayjs from 'dayjs';
+import { GitLabConnector } from './gitlab-connector.js';
+import { GitLabApiError } from '../gitlab.js';
+import { startStubServer, type StubResponse, type StubServer } from '../testing/stub-server.js';
+import type { UserActivity } from '../types.js';
+
+// Recorded API responses keyed by path and page, replayed in order (the last one repeats)
+const recorded: Record<string, StubResponse[]> = JSON.parse(
+  fs.readFileSync(new URL('./fixtures/gitlab-api.json', import.meta.url), 'utf8')
+);
+
+const WINDOW = {
+  enabled: true,
+  from: dayjs('2026-03-01T00:00:00Z'),
+  to: dayjs('2026-03-31T00:00:00Z'),
+};
+
+describe('GitLabConnector', () => {
+  let server: StubServer;
+  const served = new Map<string, number>();
+
+  before(async () => {
+    process.env.GITLAB_TOKEN = 'glpat-test';
+    server = await startStubServer((request) => {
+      const key = `${request.url.pathname}?page=${request.url.searchParams.get('page')}`;
+      const responses = recorded[key];
+      if (!responses) {
+        return { status: 404, body: { message: '404 Project Not Found' } };
+      }
+      const count = served.get(key) ?? 0;
+      served.set(key, count + 1);
+      return responses[Math.min(count, responses.length - 1)];
+    });
+  });
+
+  after(async () => {
+    await server.close();
+    delete process.env.GITLAB_TOKEN;
+  });
+
+  it('maps merge requests, notes, commits and issue events inside the window', async () => {
+    const warn = mock.method(console, 'warn', () => undefined);
+    const connector = new GitLabConnector();
+    const activities = await connector.fetch({
+      baseUrl: server.url,
+      project: 'platform/api',
+      ...WINDOW,
+    });
+    warn.mock.restore();
+
+    const summary = (a: UserActivity): string => `${a.date} ${a.type} ${a.author}`;
+    assert.deepEqual(activities.map(summary), [
+      '2026-03-01T08:30:00.000Z issue_created dave',
+      '2026-03-01T08:30:30.000Z issue_labeling dave',
+      '2026-03-01T08:31:00.000Z issue_assignment dave',
+      '2026-03-02T09:10:00.000Z pr_commit Alice Martin',
+      '2026-03-02T09:15:00.000Z pr_created alice',
+      '2026-03-02T09:16:00.000Z pr_review_requested alice',
+      '2026-03-02T09:16:00.000Z pr_review_requested alice',
+      '2026-03-02T10:00:00.000Z pr_comment bob',
+      '2026-03-03T08:00:00.000Z pr_ready_for_review alice',
+      '2026-03-03T10:05:00.000Z pr_closed carol',
+      '2026-03-05T16:30:00.000Z pr_review bob',
+      '2026-03-05T16:40:11.000Z pr_merged bob',
+      '2026-03-06T08:59:00.000Z issue_comment alice',
+      '2026-03-06T09:00:00.000Z issue_state_change alice',
+    ]);
+
+    const merged = activities.find((a) => a.type === 'pr_merged');
+    assert.deepEqual(merged?.meta, {
+      source: 'gitlab',
+      host: new URL(server.url).host,
+      prNumber: 12,
+      state: 'MERGED',
+      merged: true,
+      mergedBy: 'bob',
+      baseBranch: 'main',
+      headBranch: 'feature/rate-limit',
+      sourceId: 'mr-4012-merged',
+    });
+    assert.equal(
+      connector.generateActivityKey(merged!),
+      `gitlab:${new URL(server.url).host}:pr_merged:mr-4012-merged`
+    );
+
+    const requested = activities.filter((a) => a.type === 'pr_review_requested');
+    assert.deepEqual(
+      requested.map((a) => a.meta?.requestedReviewer),
+      ['bob', 'carol']
+    );
+    assert.equal(activities.find((a) => a.type === 'pr_review')?.meta?.reviewState, 'approved');
+    assert.equal(activities.find((a) => a.type === 'issue_assignment')?.meta?.value, 'alice');
+    assert.equal(
+      activities.find((a) => a.type === 'pr_commit')?.meta?.hash,
+      '3f9a2c1d8e7b6a5f4e3d2c1b0a9f8e7d6c5b4a39'
+    );
+
+    // The 502 on the first page was retried once, then pagination followed x-next-page
+    assert.equal(warn.mock.callCount(), 1);
+    assert.equal(served.get('/api/v4/projects/platform%2Fapi/merge_requests?page=1'), 2);
+    assert.equal(served.get('/api/v4/projects/platform%2Fapi/merge_requests?page=2'), 1);
+
+    const list = server.requests.find((r) => r.url.pathname.endsWith('/merge_requests'));
+    assert.equal(list?.headers['private-token'], 'glpat-test');
+    assert.equal(list?.url.searchParams.get('updated_after'), '2026-03-01T00:00:00.000Z');
+    assert.equal(list?.url.searchParams.get('updated_before'), '2026-03-31T00:00:00.000Z');
+    assert.equal(list?.url.searchParams.get('per_page'), '100');
+  });
+
+  it('fails without retrying when the project does not exist', async () => {
+    const sent = server.requests.length;
+    await assert.rejects(
+      new GitLabConnector().fetch({ baseUrl: server.url, project: 'platform/missing', ...WINDOW }),
+      (error: unknown) => error instanceof GitLabApiError && error.status === 404
+    );
+    assert.equal(server.requests.length - sent, 1);
+  });
+});
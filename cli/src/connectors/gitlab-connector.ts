@@ -0,0 +1,353 @@
+import { ActivityConnector, type ConnectorConfig } from '../core/activity-connector.js';
+import { DEFAULT_GITLAB_URL, GitLabClient } from '../gitlab.js';
+import type {
+  GitLabIssue,
+  GitLabMergeRequest,
+  GitLabNote,
+  GitLabUser,
+  UserActivity,
+} from '../types.js';
+import dayjs from 'dayjs';
+
+// System notes GitLab writes for review actions and assignments
+const APPROVED_NOTE = /^approved this merge request/i;
+const CHANGES_REQUESTED_NOTE = /^requested changes/i;
+const REVIEW_REQUESTED_NOTE = /^requested review from (.+)$/i;
+const READY_NOTE = /^marked this merge request as \*\*ready\*\*/i;
+const ASSIGNMENT_NOTE = /\b(assigned to|unassigned) ((?:@[\w.-]+(?:,\s*|\s+and\s+)?)+)/gi;
+
+/**
+ * Connector for merge requests, approvals, notes and issue events of a GitLab project
+ * Maps them onto the same activity types as the GitHub connectors (pr_*, issue_*)
+ * Implements ActivityConnector interface following SOLID principles
+ */
+export class GitLabConnector extends ActivityConnector {
+  readonly name = 'gitlab';
+
+  async fetch(config: ConnectorConfig): Promise<UserActivity[]> {
+    const baseUrl = config.baseUrl || process.env.GITLAB_URL || DEFAULT_GITLAB_URL;
+    const project = config.project || process.env.GITLAB_PROJECT;
+
+    if (!project) {
+      throw new Error('Project is required for gitlab connector');
+    }
+
+    const token = process.env.GITLAB_TOKEN;
+    if (!token) {
+      throw new Error('GITLAB_TOKEN is required for gitlab connector');
+    }
+
+    const client = new GitLabClient(baseUrl, token);
+
+    const fromDate = config.from
+      ? dayjs(config.from as string | dayjs.Dayjs)
+      : dayjs().subtract(7, 'day');
+    const toDate = config.to ? dayjs(config.to as string | dayjs.Dayjs) : dayjs();
+    const range = { updatedAfter: fromDate.toISOString(), updatedBefore: toDate.toISOString() };
+
+    const context: ActivityContext = { repository: project, host: new URL(baseUrl).host };
+    const candidates: UserActivity[] = [];
+
+    const mergeRequests = await client.fetchMergeRequests(project, range);
+    for (const mr of mergeRequests) {
+      const [notes, commits] = await Promise.all([
+        client.fetchMergeRequestNotes(project, mr.iid),
+        client.fetchMergeRequestCommits(project, mr.iid),
+      ]);
+      candidates.push(...mergeRequestActivities(mr, notes, context));
+
+      for (const commit of commits) {
+        candidates.push(
+          mrActivity(mr, context, {
+            type: 'pr_commit',
+            author: commit.author_name,
+            date: commit.created_at,
+            description: commit.title,
+            meta: {
+              sourceId: `mr-${mr.id}-commit-${commit.id}`,
+              hash: commit.id,
+              email: commit.author_email,
+            },
+          })
+        );
+      }
+    }
+
+    const issues = await client.fetchIssues(project, range);
+    for (const issue of issues) {
+      const [notes, labelEvents, stateEvents] = await Promise.all([
+        client.fetchIssueNotes(project, issue.iid),
+        client.fetchIssueLabelEvents(project, issue.iid),
+        client.fetchIssueStateEvents(project, issue.iid),
+      ]);
+
+      candidates.push(
+        issueActivity(issue, context, {
+          type: 'issue_created',
+          author: username(issue.author),
+          date: issue.created_at,
+          description: `Created issue #${issue.iid}`,
+          meta: {
+            sourceId: `issue-${issue.id}`,
+            action: 'created',
+            state: issue.state,
+            labels: issue.labels ?? [],
+          },
+        })
+      );
+
+      for (const event of labelEvents) {
+        const action = event.action === 'add' ? 'labeled' : 'unlabeled';
+        candidates.push(
+          issueActivity(issue, context, {
+            type: 'issue_labeling',
+            author: username(event.user),
+            date: event.created_at,
+            description: `${action} ${event.label?.name || ''}`.trim(),
+            meta: { sourceId: `label-${event.id}`, action, value: event.label?.name },
+          })
+        );
+      }
+
+      for (const event of stateEvents) {
+        candidates.push(
+          issueActivity(issue, context, {
+            type: 'issue_state_change',
+            author: username(event.user),
+            date: event.created_at,
+            description: event.state,
+            meta: { sourceId: `state-${event.id}`, action: event.state },
+          })
+        );
+      }
+
+      for (const note of notes) {
+        candidates.push(...issueNoteActivities(issue, note, context));
+      }
+    }
+
+    const activities = candidates.filter(
+      (activity) => dayjs(activity.date).isAfter(fromDate) && dayjs(activity.date).isBefore(toDate)
+    );
+
+    // Sort by date
+    activities.sort((a, b) => dayjs(a.date).diff(dayjs(b.date)));
+
+    return activities;
+  }
+
+  getTarget(config: ConnectorConfig): string {
+    const baseUrl = config.baseUrl || process.env.GITLAB_URL || DEFAULT_GITLAB_URL;
+    const project = config.project || process.env.GITLAB_PROJECT;
+    return `${new URL(baseUrl).host}/${project}`;
+  }
+
+  /**
+   * Override to key activities by instance host and GitLab object ID (note, event, MR, commit)
+   */
+  generateActivityKey(activity: UserActivity): string {
+    const sourceId = activity.meta?.sourceId;
+    if (typeof sourceId === 'string' && sourceId) {
+      return `gitlab:${activity.meta.host}:${activity.type}:${sourceId}`;
+    }
+    return super.generateActivityKey(activity);
+  }
+}
+
+interface ActivityContext {
+  repository: string; // Project path
+  host: string; // Instance host, part of the unique key
+}
+
+type ActivityFields = Pick<UserActivity, 'type' | 'author' | 'date' | 'description' | 'meta'>;
+
+function mrActivity(
+  mr: GitLabMergeRequest,
+  context: ActivityContext,
+  fields: ActivityFields
+): UserActivity {
+  return {
+    ...fields,
+    repository: context.repository,
+    title: mr.title,
+    url: mr.web_url,
+    meta: {
+      source: 'gitlab',
+      host: context.host,
+      prNumber: mr.iid,
+      state: mergeRequestState(mr),
+      merged: mr.state === 'merged',
+      mergedBy: mr.merged_by?.username ?? mr.merge_user?.username,
+      baseBranch: mr.target_branch,
+      headBranch: mr.source_branch,
+      ...fields.meta,
+    },
+  };
+}
+
+function issueActivity(
+  issue: GitLabIssue,
+  context: ActivityContext,
+  fields: ActivityFields
+): UserActivity {
+  return {
+    ...fields,
+    repository: context.repository,
+    title: issue.title,
+    url: issue.web_url,
+    meta: {
+      source: 'gitlab',
+      host: context.host,
+      issueNumber: issue.iid,
+      ...fields.meta,
+    },
+  };
+}
+
+/**
+ * Creation, merge/close, approvals, review requests, ready-for-review and comments of one MR
+ */
+function mergeRequestActivities(
+  mr: GitLabMergeRequest,
+  notes: GitLabNote[],
+  context: ActivityContext
+): UserActivity[] {
+  const activities: UserActivity[] = [
+    mrActivity(mr, context, {
+      type: 'pr_created',
+      author: username(mr.author),
+      date: mr.created_at,
+      description: `Created MR !${mr.iid}`,
+      meta: { sourceId: `mr-${mr.id}`, isDraft: mr.draft ?? false },
+    }),
+  ];
+
+  if (mr.state === 'merged' && mr.merged_at) {
+    activities.push(
+      mrActivity(mr, context, {
+        type: 'pr_merged',
+        author: username(mr.merged_by ?? mr.merge_user),
+        date: mr.merged_at,
+        description: `Merged MR !${mr.iid} into ${mr.target_branch}`,
+        meta: { sourceId: `mr-${mr.id}-merged` },
+      })
+    );
+  } else if (mr.state === 'closed' && mr.closed_at) {
+    activities.push(
+      mrActivity(mr, context, {
+        type: 'pr_closed',
+        author: username(mr.closed_by),
+        date: mr.closed_at,
+        description: `Closed MR !${mr.iid} without merging`,
+        meta: { sourceId: `mr-${mr.id}-closed-${mr.closed_at}` },
+      })
+    );
+  }
+
+  for (const note of notes) {
+    const base = { author: username(note.author), date: note.created_at };
+    const sourceId = `note-${note.id}`;
+
+    if (!note.system) {
+      activities.push(
+        mrActivity(mr, context, {
+          ...base,
+          type: 'pr_comment',
+          description: note.body,
+          meta: { sourceId, commentId: String(note.id) },
+        })
+      );
+    } else if (APPROVED_NOTE.test(note.body) || CHANGES_REQUESTED_NOTE.test(note.body)) {
+      const reviewState = APPROVED_NOTE.test(note.body) ? 'approved' : 'changes_requested';
+      activities.push(
+        mrActivity(mr, context, {
+          ...base,
+          type: 'pr_review',
+          description: reviewState,
+          meta: { sourceId, reviewState, reviewId: String(note.id) },
+        })
+      );
+    } else if (READY_NOTE.test(note.body)) {
+      activities.push(
+        mrActivity(mr, context, {
+          ...base,
+          type: 'pr_ready_for_review',
+          description: `Marked MR !${mr.iid} ready for review`,
+          meta: { sourceId },
+        })
+      );
+    } else {
+      const requested = note.body.match(REVIEW_REQUESTED_NOTE);
+      for (const reviewer of requested ? mentions(requested[1]) : []) {
+        activities.push(
+          mrActivity(mr, context, {
+            ...base,
+            type: 'pr_review_requested',
+            description: `Requested review from ${reviewer} on MR !${mr.iid}`,
+            meta: { sourceId: `${sourceId}-${reviewer}`, requestedReviewer: reviewer },
+          })
+        );
+      }
+    }
+  }
+
+  return activities;
+}
+
+/**
+ * Comments and (un)assignments recorded as notes on an issue
+ */
+function issueNoteActivities(
+  issue: GitLabIssue,
+  note: GitLabNote,
+  context: ActivityContext
+): UserActivity[] {
+  const base = { author: username(note.author), date: note.created_at };
+
+  if (!note.system) {
+    return [
+      issueActivity(issue, context, {
+        ...base,
+        type: 'issue_comment',
+        description: note.body,
+        meta: { sourceId: `note-${note.id}`, action: 'commented', commentId: String(note.id) },
+      }),
+    ];
+  }
+
+  const activities: UserActivity[] = [];
+  for (const [, verb, users] of note.body.matchAll(ASSIGNMENT_NOTE)) {
+    const action = verb.toLowerCase() === 'unassigned' ? 'unassigned' : 'assigned';
+    for (const assignee of mentions(users)) {
+      activities.push(
+        issueActivity(issue, context, {
+          ...base,
+          type: 'issue_assignment',
+          description: `${action} ${assignee}`,
+          meta: { sourceId: `note-${note.id}-${action}-${assignee}`, action, value: assignee },
+        })
+      );
+    }
+  }
+  return activities;
+}
+
+/**
+ * Usernames mentioned in a system note fragment ("@jane and @bob" -> ["jane", "bob"])
+ */
+function mentions(text: string): string[] {
+  return Array.from(text.matchAll(/@([\w.-]+)/g), (match) => match[1]);
+}
+
+function username(user: GitLabUser | null | undefined): string {
+  return user?.username || 'unknown';
+}
+
+/**
+ * MR state in the GitHub vocabulary used by pr_* activities (OPEN, CLOSED, MERGED)
+ */
+function mergeRequestState(mr: GitLabMergeRequest): string {
+  if (mr.state === 'merged') return 'MERGED';
+  if (mr.state === 'closed') return 'CLOSED';
+  return 'OPEN';
+}
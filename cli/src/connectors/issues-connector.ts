@@ -1,4 +1,8 @@
-import { ActivityConnector, type ConnectorConfig } from '../core/activity-connector.js';
+import {
+  ActivityConnector,
+  nodeActivityKey,
+  type ConnectorConfig,
+} from '../core/activity-connector.js';
 import { GitHubClient } from '../github.js';
 import type { ProcessedIssue, ActivityType } from '../types.js';
 import dayjs from 'dayjs';
@@ -60,9 +64,10 @@ export class IssuesConnector extends ActivityConnector {
       projectNumber,
       filter,
     });
+    items.warnings.forEach((warning) => this.warnIncomplete(warning));
 
-    const processedItems: ProcessedIssue[] = items
-      .map((item) => processItem(item, toDate))
+    const processedItems: ProcessedIssue[] = items.nodes
+      .map((item) => processItem(item, toDate, projectNumber))
       .filter((item) => {
         const updated = dayjs(item.updatedAt);
         return updated.isAfter(fromDate) && updated.isBefore(toDate);
@@ -83,6 +88,8 @@ export class IssuesConnector extends ActivityConnector {
         else if (event.type === 'state_change') type = 'issue_state_change';
         else if (event.type === 'assignment') type = 'issue_assignment';
 
+        const isStatusChange = type === 'issue_status_change';
+
         activities.push({
           type,
           author: event.who,
@@ -90,12 +97,23 @@ export class IssuesConnector extends ActivityConnector {
           repository: `${owner}/Project-${projectNumber}`,
           title: item.title,
           url: item.url,
-          description: `${event.action} ${event.value || ''}`.trim(),
+          description: isStatusChange
+            ? `moved from ${event.previousValue || 'none'} to ${event.value || 'none'}`
+            : `${event.action} ${event.value || ''}`.trim(),
           meta: {
+            nodeId: event.id,
+            itemId: item.id,
             issueNumber: item.number,
             action: event.action,
             value: event.value,
             durationMs: event.durationMs,
+            // For status moves, durationMs is the time spent in fromStatus
+            ...(isStatusChange && {
+              fromStatus: event.previousValue,
+              toStatus: event.value,
+              currentStatus: item.status,
+              statusDurations: item.statusDurations,
+            }),
           },
         });
       }
@@ -107,13 +125,23 @@ export class IssuesConnector extends ActivityConnector {
     return activities;
   }
 
+  getTarget(config: ConnectorConfig): string {
+    const owner = config.owner || process.env.GITHUB_OWNER;
+    const projectNumber = config.projectNumber || process.env.PROJECT_NUMBER;
+    return `${owner}/Project-${projectNumber}`;
+  }
+
   /**
-   * Override to use issue number as unique identifier
+   * Override to use the GraphQL node ID of the timeline event as unique identifier
+   * Falls back to issue number, action and exact timestamp when no node ID is known
    */
   generateActivityKey(activity: import('../types.js').UserActivity): string {
+    const nodeKey = nodeActivityKey(activity);
+    if (nodeKey) return nodeKey;
+
     const issueNumber = activity.meta?.issueNumber;
     const action = activity.meta?.action || 'unknown';
-    const dateStr = dayjs(activity.date).format('YYYY-MM-DD HH:mm');
+    const dateStr = new Date(activity.date).toISOString();
     return `${activity.type}:${activity.author}:${dateStr}:${activity.repository}:${issueNumber}:${action}`;
   }
 }
@@ -0,0 +1,170 @@
+import { ActivityConnector, type ConnectorConfig } from '../core/activity-connector.js';
+import { JiraClient } from '../jira.js';
+import { jiraUserName, processJiraIssue } from '../core/jira-issue-processor.js';
+import type {
+  ActivityType,
+  JiraChangelogHistory,
+  JiraComment,
+  JiraIssue,
+  UserActivity,
+} from '../types.js';
+import dayjs from 'dayjs';
+
+const HISTORY_ACTIVITY_TYPES: Record<string, ActivityType> = {
+  status: 'issue_status_change',
+  assignment: 'issue_assignment',
+  label: 'issue_labeling',
+  state_change: 'issue_state_change',
+};
+
+/**
+ * Connector for issue changelogs and comments of a Jira project
+ * Produces the same issue_* activities (with statusDurations) as the ProjectV2 connector
+ * Implements ActivityConnector interface following SOLID principles
+ */
+export class JiraConnector extends ActivityConnector {
+  readonly name = 'jira';
+
+  async fetch(config: ConnectorConfig): Promise<UserActivity[]> {
+    const baseUrl = config.baseUrl || process.env.JIRA_URL;
+    const project = config.project || process.env.JIRA_PROJECT;
+    const extraJql = config.jql || process.env.JIRA_JQL;
+
+    if (!baseUrl || !project) {
+      throw new Error('Base URL and project key are required for jira connector');
+    }
+
+    const token = process.env.JIRA_TOKEN;
+    if (!token) {
+      throw new Error('JIRA_TOKEN is required for jira connector');
+    }
+
+    const client = new JiraClient(baseUrl, token, { email: process.env.JIRA_EMAIL });
+
+    const fromDate = config.from
+      ? dayjs(config.from as string | dayjs.Dayjs)
+      : dayjs().subtract(7, 'day');
+    const toDate = config.to ? dayjs(config.to as string | dayjs.Dayjs) : dayjs();
+
+    // JQL dates are in the Jira user's timezone: widen by a day, events are filtered exactly below
+    const clauses = [
+      `project = "${project}"`,
+      `updated >= "${fromDate.subtract(1, 'day').format('YYYY-MM-DD')}"`,
+    ];
+    if (extraJql) clauses.push(`(${extraJql})`);
+    const issues = await client.searchIssues(`${clauses.join(' AND ')} ORDER BY updated ASC`);
+
+    const inWindow = (date: string): boolean =>
+      dayjs(date).isAfter(fromDate) && dayjs(date).isBefore(toDate);
+    const activities: UserActivity[] = [];
+
+    for (const issue of issues) {
+      const histories = await this.fetchChangelog(client, issue);
+      const item = processJiraIssue(issue, histories, toDate, baseUrl);
+      const common = {
+        repository: project,
+        title: item.title,
+        url: item.url,
+      };
+      const issueMeta = {
+        source: 'jira',
+        host: new URL(baseUrl).host,
+        issueKey: issue.key,
+        issueNumber: item.number,
+      };
+
+      for (const event of item.history.filter((e) => inWindow(e.when))) {
+        const type = HISTORY_ACTIVITY_TYPES[event.type] ?? 'unknown';
+        const isStatusChange = type === 'issue_status_change';
+
+        activities.push({
+          ...common,
+          type,
+          author: event.who,
+          date: event.when,
+          description: isStatusChange
+            ? `moved from ${event.previousValue || 'none'} to ${event.value || 'none'}`
+            : `${event.action} ${event.value || ''}`.trim(),
+          meta: {
+            ...issueMeta,
+            sourceId: event.id,
+            action: event.action,
+            value: event.value,
+            durationMs: event.durationMs,
+            // For status moves, durationMs is the time spent in fromStatus
+            ...(isStatusChange && {
+              fromStatus: event.previousValue,
+              toStatus: event.value,
+              currentStatus: item.status,
+              currentStatusCategory: issue.fields.status?.statusCategory?.key,
+              statusDurations: item.statusDurations,
+            }),
+          },
+        });
+      }
+
+      const comments = await this.fetchComments(client, issue);
+      for (const comment of comments.filter((c) => inWindow(c.created))) {
+        activities.push({
+          ...common,
+          type: 'issue_comment',
+          author: jiraUserName(comment.author),
+          date: comment.created,
+          description: comment.body,
+          meta: {
+            ...issueMeta,
+            sourceId: `comment-${comment.id}`,
+            action: 'commented',
+            commentId: comment.id,
+          },
+        });
+      }
+    }
+
+    // Sort by date
+    activities.sort((a, b) => dayjs(a.date).diff(dayjs(b.date)));
+
+    return activities;
+  }
+
+  getTarget(config: ConnectorConfig): string {
+    const baseUrl = config.baseUrl || process.env.JIRA_URL || '';
+    const project = config.project || process.env.JIRA_PROJECT;
+    const host = URL.canParse(baseUrl) ? new URL(baseUrl).host : baseUrl;
+    const jql = config.jql || process.env.JIRA_JQL;
+    return jql ? `${host}/${project} (${jql})` : `${host}/${project}`;
+  }
+
+  /**
+   * Override to key activities by site host and changelog/comment ID
+   */
+  generateActivityKey(activity: UserActivity): string {
+    const sourceId = activity.meta?.sourceId;
+    if (typeof sourceId === 'string' && sourceId) {
+      return `jira:${activity.meta.host}:${activity.type}:${sourceId}`;
+    }
+    return super.generateActivityKey(activity);
+  }
+
+  /**
+   * Complete changelog of an issue; search results embed at most one page of it
+   */
+  private async fetchChangelog(
+    client: JiraClient,
+    issue: JiraIssue
+  ): Promise<JiraChangelogHistory[]> {
+    const changelog = issue.changelog;
+    if (changelog && changelog.histories.length >= changelog.total) {
+      return changelog.histories;
+    }
+    return client.fetchChangelog(issue.key);
+  }
+
+  private async fetchComments(client: JiraClient, issue: JiraIssue): Promise<JiraComment[]> {
+    const comment = issue.fields.comment;
+    if (comment && comment.comments.length >= comment.total) {
+      return comment.comments;
+    }
+    return client.fetchComments(issue.key);
+  }
+}
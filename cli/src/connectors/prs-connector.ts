@@ -1,10 +1,27 @@
-import { ActivityConnector, type ConnectorConfig } from '../core/activity-connector.js';
+import {
+  ActivityConnector,
+  nodeActivityKey,
+  type ConnectorConfig,
+} from '../core/activity-connector.js';
 import { GitHubClient } from '../github.js';
-import type { PullRequestInfo, PullRequestNode, UserActivity } from '../types.js';
+import type {
+  ActivityType,
+  PullRequestEventInfo,
+  PullRequestInfo,
+  UserActivity,
+} from '../types.js';
 import dayjs from 'dayjs';
 import { getGitHubToken } from '../auth.js';
 import { processPR } from '../core/pr-processor.js';
 
+const EVENT_ACTIVITY_TYPES: Record<PullRequestEventInfo['type'], ActivityType> = {
+  merged: 'pr_merged',
+  closed: 'pr_closed',
+  ready_for_review: 'pr_ready_for_review',
+  review_requested: 'pr_review_requested',
+  commit: 'pr_commit',
+};
+
 /**
  * Connector for fetching PR activities from GitHub
  * Implements ActivityConnector interface following SOLID principles
@@ -54,18 +71,28 @@ export class PRsConnector extends ActivityConnector {
       from: fromDate.toISOString(),
       to: toDate.toISOString(),
     });
+    rawPRs.warnings.forEach((warning) => this.warnIncomplete(warning));
 
-    const processedPRs: PullRequestInfo[] = rawPRs
-      .filter((pr: any) => {
-        const created = dayjs(pr.createdAt);
-        return created.isAfter(fromDate) && created.isBefore(toDate);
-      })
-      .map((pr: any) => processPR(pr, toDate));
+    // PRs updated since 'from' may have been opened long before; each activity below is kept
+    // by its own timestamp, so merges and reviews of older PRs are not lost
+    const processedPRs: PullRequestInfo[] = rawPRs.nodes.map((pr) => processPR(pr, toDate));
 
     const activities: UserActivity[] = [];
     const repoName = `${owner}/${repo}`;
 
     for (const pr of processedPRs) {
+      // Merge state shared by every activity of the PR
+      const prMeta = {
+        prNumber: pr.number,
+        state: pr.state,
+        merged: pr.merged,
+        mergedBy: pr.mergedBy,
+        baseBranch: pr.baseBranch,
+        headBranch: pr.headBranch,
+        ...(pr.mergeCommit && { mergeCommit: pr.mergeCommit }),
+        labels: pr.labels,
+      };
+
       // PR Created Activity
       if (dayjs(pr.createdAt).isAfter(fromDate) && dayjs(pr.createdAt).isBefore(toDate)) {
         activities.push({
@@ -77,13 +104,39 @@ export class PRsConnector extends ActivityConnector {
           url: pr.url,
           description: `Created PR #${pr.number}`,
           meta: {
-            prNumber: pr.number,
+            ...prMeta,
+            nodeId: pr.id,
+            isDraft: pr.isDraft,
             changedFiles: pr.changedFiles,
             lifetimeMs: pr.lifetimeMs,
           },
         });
       }
 
+      // Lifecycle events and commits
+      for (const event of pr.events) {
+        if (dayjs(event.when).isAfter(fromDate) && dayjs(event.when).isBefore(toDate)) {
+          activities.push({
+            type: EVENT_ACTIVITY_TYPES[event.type],
+            author: event.who,
+            date: event.when,
+            repository: repoName,
+            title: pr.title,
+            url: pr.url,
+            description: describePREvent(pr, event),
+            meta: {
+              ...prMeta,
+              nodeId: event.id,
+              ...(event.requestedReviewer && { requestedReviewer: event.requestedReviewer }),
+              ...(event.commit && {
+                hash: event.commit.oid,
+                email: event.commit.authorEmail,
+              }),
+            },
+          });
+        }
+      }
+
       // Comments
       for (const comment of pr.comments) {
         if (dayjs(comment.when).isAfter(fromDate) && dayjs(comment.when).isBefore(toDate)) {
@@ -96,8 +149,9 @@ export class PRsConnector extends ActivityConnector {
             url: pr.url,
             description: comment.text,
             meta: {
-              prNumber: pr.number,
-              commentId: `${pr.number}-${comment.when}`, // Simple unique ID for comment
+              ...prMeta,
+              nodeId: comment.id,
+              commentId: comment.id || `${pr.number}-${comment.when}`,
             },
           });
         }
@@ -115,9 +169,10 @@ export class PRsConnector extends ActivityConnector {
             url: pr.url,
             description: review.body || review.state,
             meta: {
-              prNumber: pr.number,
-              state: review.state,
-              reviewId: `${pr.number}-${review.who}-${review.when}`, // Unique ID for review
+              ...prMeta,
+              nodeId: review.id,
+              reviewState: review.state,
+              reviewId: review.id || `${pr.number}-${review.who}-${review.when}`,
             },
           });
         }
@@ -130,13 +185,38 @@ export class PRsConnector extends ActivityConnector {
     return activities;
   }
 
+  getTarget(config: ConnectorConfig): string {
+    const owner = config.owner || process.env.GITHUB_OWNER;
+    const repo = config.repo || process.env.GITHUB_REPO;
+    return `${owner}/${repo}`;
+  }
+
   /**
-   * Override to use PR number and action type as unique identifier
+   * Override to use the GraphQL node ID of the PR, comment or review as unique identifier
+   * Falls back to PR number, action and exact timestamp when no node ID is known
    */
   generateActivityKey(activity: UserActivity): string {
+    const nodeKey = nodeActivityKey(activity);
+    if (nodeKey) return nodeKey;
+
     const prNumber = activity.meta?.prNumber;
     const actionId = activity.meta?.commentId || activity.meta?.reviewId || 'created';
-    const dateStr = dayjs(activity.date).format('YYYY-MM-DD HH:mm');
+    const dateStr = new Date(activity.date).toISOString();
     return `${activity.type}:${activity.author}:${dateStr}:${activity.repository}:${prNumber}:${actionId}`;
   }
 }
+
+function describePREvent(pr: PullRequestInfo, event: PullRequestEventInfo): string {
+  switch (event.type) {
+    case 'merged':
+      return `Merged PR #${pr.number} into ${pr.baseBranch || 'base branch'}`;
+    case 'closed':
+      return `Closed PR #${pr.number} without merging`;
+    case 'ready_for_review':
+      return `Marked PR #${pr.number} ready for review`;
+    case 'review_requested':
+      return `Requested review from ${event.requestedReviewer || 'unknown'} on PR #${pr.number}`;
+    case 'commit':
+      return event.commit?.message || `Pushed commit to PR #${pr.number}`;
+  }
+}
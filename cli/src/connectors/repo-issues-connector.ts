@@ -0,0 +1,147 @@
+import {
+  ActivityConnector,
+  nodeActivityKey,
+  type ConnectorConfig,
+} from '../core/activity-connector.js';
+import { GitHubClient } from '../github.js';
+import type { ActivityType, RepositoryIssueNode, TimelineEvent, UserActivity } from '../types.js';
+import dayjs from 'dayjs';
+import { getGitHubToken } from '../auth.js';
+
+/**
+ * Timeline event types mapped to activity types, with the action stored in meta
+ */
+const TIMELINE_ACTIVITIES: Record<string, { type: ActivityType; action: string }> = {
+  ClosedEvent: { type: 'issue_state_change', action: 'closed' },
+  ReopenedEvent: { type: 'issue_state_change', action: 'reopened' },
+  LabeledEvent: { type: 'issue_labeling', action: 'labeled' },
+  UnlabeledEvent: { type: 'issue_labeling', action: 'unlabeled' },
+  AssignedEvent: { type: 'issue_assignment', action: 'assigned' },
+  UnassignedEvent: { type: 'issue_assignment', action: 'unassigned' },
+  IssueComment: { type: 'issue_comment', action: 'commented' },
+};
+
+/**
+ * Connector for fetching issue activities directly from GitHub repositories
+ * Unlike IssuesConnector it does not need a ProjectV2 board, so it has no status moves
+ * Implements ActivityConnector interface following SOLID principles
+ */
+export class RepoIssuesConnector extends ActivityConnector {
+  readonly name = 'repo-issues';
+
+  async fetch(config: ConnectorConfig): Promise<UserActivity[]> {
+    const owner = (config.owner as string) || process.env.GITHUB_OWNER;
+    const repo = (config.repo as string) || process.env.GITHUB_REPO;
+
+    if (!owner || !repo) {
+      throw new Error('Owner and repo are required for repo-issues connector');
+    }
+
+    const authResult = await getGitHubToken();
+    if (!authResult) {
+      throw new Error('GITHUB_TOKEN or GitHub App credentials are required');
+    }
+
+    const client = new GitHubClient(authResult.token);
+
+    const fromDate = config.from
+      ? dayjs(config.from as string | dayjs.Dayjs)
+      : dayjs().subtract(7, 'day');
+    const toDate = config.to ? dayjs(config.to as string | dayjs.Dayjs) : dayjs();
+
+    const issues = await client.fetchRepositoryIssues({
+      owner,
+      repo,
+      since: fromDate.toISOString(),
+    });
+    issues.warnings.forEach((warning) => this.warnIncomplete(warning));
+
+    const inRange = (date: string): boolean =>
+      dayjs(date).isAfter(fromDate) && dayjs(date).isBefore(toDate);
+
+    const activities: UserActivity[] = [];
+    const repoName = `${owner}/${repo}`;
+
+    for (const issue of issues.nodes) {
+      if (inRange(issue.createdAt)) {
+        activities.push({
+          type: 'issue_created',
+          author: issue.author?.login || 'unknown',
+          date: issue.createdAt,
+          repository: repoName,
+          title: issue.title,
+          url: issue.url,
+          description: `Created issue #${issue.number}`,
+          meta: {
+            nodeId: issue.id,
+            issueNumber: issue.number,
+            action: 'created',
+            state: issue.state,
+            labels: issue.labels?.nodes.map((label) => label.name) ?? [],
+          },
+        });
+      }
+
+      for (const event of issue.timelineItems.nodes) {
+        if (event.createdAt && inRange(event.createdAt)) {
+          const activity = toTimelineActivity(issue, event, repoName);
+          if (activity) activities.push(activity);
+        }
+      }
+    }
+
+    // Sort by date
+    activities.sort((a, b) => dayjs(a.date).diff(dayjs(b.date)));
+
+    return activities;
+  }
+
+  getTarget(config: ConnectorConfig): string {
+    const owner = config.owner || process.env.GITHUB_OWNER;
+    const repo = config.repo || process.env.GITHUB_REPO;
+    return `${owner}/${repo}`;
+  }
+
+  /**
+   * Override to use the GraphQL node ID of the issue, comment or timeline event as unique identifier
+   * Falls back to issue number, action and exact timestamp when no node ID is known
+   */
+  generateActivityKey(activity: UserActivity): string {
+    const nodeKey = nodeActivityKey(activity);
+    if (nodeKey) return nodeKey;
+
+    const issueNumber = activity.meta?.issueNumber;
+    const action = activity.meta?.action || 'unknown';
+    const dateStr = new Date(activity.date).toISOString();
+    return `${activity.type}:${activity.author}:${dateStr}:${activity.repository}:${issueNumber}:${action}`;
+  }
+}
+
+function toTimelineActivity(
+  issue: RepositoryIssueNode,
+  event: TimelineEvent,
+  repository: string
+): UserActivity | undefined {
+  const mapping = TIMELINE_ACTIVITIES[event.__typename];
+  if (!mapping) return undefined;
+
+  const isComment = mapping.type === 'issue_comment';
+  const value = event.label?.name ?? event.assignee?.login;
+
+  return {
+    type: mapping.type,
+    author: (isComment ? event.author?.login : event.actor?.login) || 'unknown',
+    date: event.createdAt,
+    repository,
+    title: issue.title,
+    url: (isComment && event.url) || issue.url,
+    description: isComment ? event.body : `${mapping.action} ${value || ''}`.trim(),
+    meta: {
+      nodeId: event.id,
+      issueNumber: issue.number,
+      action: mapping.action,
+      value,
+      ...(isComment && { commentId: event.id }),
+    },
+  };
+}
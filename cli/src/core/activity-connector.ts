@@ -12,6 +12,12 @@ export interface ConnectorConfig {
   repo?: string;
   projectNumber?: number;
   repoDirectory?: string;
+  baseUrl?: string; // Instance root (GitLab, Jira)
+  project?: string; // GitLab project path or numeric ID, Jira project key
+  jql?: string; // Extra Jira filter, e.g. a board's JQL
+  environment?: string; // GitHub deployment environment, e.g. production
+  tagPattern?: string; // Regular expression selecting release tags in a local clone
+  excludeGlobs?: string[]; // Extra files left out of commit line counts (lockfiles etc. always are)
 }
 
 /**
@@ -23,6 +29,20 @@ export interface ConnectorResult {
   success: boolean;
   error?: string;
   count: number;
+  cursor?: string; // Date of the newest activity fetched, recorded with the sync watermark
+  warnings?: string[]; // Non-fatal problems, e.g. data the source truncated
+  incomplete?: boolean; // Some source data was missed, so the sync watermark is not advanced
+}
+
+/**
+ * Unique key for activities that carry a GitHub GraphQL node ID (meta.nodeId)
+ * Node IDs are stable across syncs, unlike timestamps or titles
+ *
+ * @returns The key, or undefined when the activity has no node ID
+ */
+export function nodeActivityKey(activity: UserActivity): string | undefined {
+  const nodeId = activity.meta?.nodeId;
+  return typeof nodeId === 'string' && nodeId ? `github:${activity.type}:${nodeId}` : undefined;
 }
 
 /**
@@ -42,6 +62,9 @@ export abstract class ActivityConnector {
    */
   abstract readonly name: string;
 
+  private warnings: string[] = [];
+  private incomplete = false;
+
   /**
    * Fetch activities from the data source
    * @param config - Connector configuration including date range and source-specific options
@@ -49,6 +72,15 @@ export abstract class ActivityConnector {
    */
   abstract fetch(config: ConnectorConfig): Promise<UserActivity[]>;
 
+  /**
+   * Identify the target this connector reads (repository, project, directory)
+   * Together with the connector name it keys the sync watermark
+   *
+   * @param config - Connector configuration
+   * @returns Stable target identifier
+   */
+  abstract getTarget(config: ConnectorConfig): string;
+
   /**
    * Generate a unique key for an activity to prevent duplicates
    * Default implementation uses type:author:date:repository pattern
@@ -74,6 +106,22 @@ export abstract class ActivityConnector {
     return `${activity.type}:${activity.author}:${dateStr}T${timeStr}:${activity.repository}:${uniqueId}`;
   }
 
+  /**
+   * Record a non-fatal problem (e.g. truncated source data) to report with the result
+   */
+  protected warn(message: string): void {
+    this.warnings.push(message);
+  }
+
+  /**
+   * Record source data that could not be fetched: reported as a warning, and the sync watermark
+   * stays put so the next run fetches the window again
+   */
+  protected warnIncomplete(message: string): void {
+    this.warnings.push(message);
+    this.incomplete = true;
+  }
+
   /**
    * Execute the connector and return a standardized result
    * This method wraps the fetch() method with error handling and result formatting
@@ -82,13 +130,25 @@ export abstract class ActivityConnector {
    * @returns Promise resolving to ConnectorResult with success/error information
    */
   async execute(config: ConnectorConfig): Promise<ConnectorResult> {
+    this.warnings = [];
+    this.incomplete = false;
     try {
       const activities = await this.fetch(config);
+      const newest = activities.reduce<string | undefined>(
+        (latest, activity) =>
+          !latest || new Date(activity.date).getTime() > new Date(latest).getTime()
+            ? activity.date
+            : latest,
+        undefined
+      );
       return {
         activities,
         connectorName: this.name,
         success: true,
         count: activities.length,
+        cursor: newest ? new Date(newest).toISOString() : undefined,
+        warnings: this.warnings.length > 0 ? this.warnings : undefined,
+        incomplete: this.incomplete || undefined,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,148 @@
+import type { StoredActivity } from '../infrastructure/activity-repository.js';
+import { toCsvRow } from './csv.js';
+
+export type ExportFormat = 'json' | 'ndjson' | 'csv' | 'markdown';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'ndjson', 'csv', 'markdown'];
+
+/**
+ * Top-level activity fields that can be selected with --fields
+ * Nested meta values are selected with `meta.<key>` (dots descend into objects)
+ */
+export const ACTIVITY_FIELDS = [
+  'id',
+  'uniqueKey',
+  'type',
+  'author',
+  'date',
+  'repository',
+  'url',
+  'title',
+  'description',
+  'meta',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+/**
+ * Columns used by tabular formats (csv, markdown) when --fields is not given
+ */
+export const DEFAULT_EXPORT_FIELDS = ['date', 'type', 'author', 'repository', 'title', 'url'];
+
+/**
+ * Serializes a stream of activities: `begin()`, then `row()` per activity, then `end()`
+ * Each call returns the text to write (possibly empty)
+ */
+export interface ActivityWriter {
+  begin(): string;
+  row(activity: StoredActivity): string;
+  end(): string;
+}
+
+/**
+ * Parse a comma-separated --fields value
+ * @throws Error listing unknown fields
+ */
+export function parseFields(value: string): string[] {
+  const fields = value
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+  const unknown = fields.filter(
+    (field) =>
+      !(ACTIVITY_FIELDS as readonly string[]).includes(field) &&
+      !(field.startsWith('meta.') && field.length > 'meta.'.length)
+  );
+  if (fields.length === 0 || unknown.length > 0) {
+    const problem = unknown.length > 0 ? `unknown field(s) ${unknown.join(', ')}` : 'no fields';
+    throw new Error(
+      `Invalid --fields: ${problem} (expected ${ACTIVITY_FIELDS.join(', ')} or meta.<key>)`
+    );
+  }
+  return fields;
+}
+
+/**
+ * Read a field, descending into meta for `meta.<key>` paths
+ */
+export function getFieldValue(activity: StoredActivity, field: string): unknown {
+  if (!field.startsWith('meta.')) {
+    const value = activity[field as keyof StoredActivity];
+    return value instanceof Date ? value.toISOString() : value;
+  }
+
+  let value: unknown = activity.meta;
+  for (const key of field.slice('meta.'.length).split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Create a writer for an export format
+ *
+ * - json: a pretty-printed array, emitted element by element
+ * - ndjson: one JSON object per line
+ * - csv / markdown: a header row then one row per activity
+ *
+ * @param fields - Selected fields; json/ndjson emit whole activities when omitted
+ */
+export function createActivityWriter(format: ExportFormat, fields?: string[]): ActivityWriter {
+  const project = (activity: StoredActivity): unknown =>
+    fields
+      ? Object.fromEntries(fields.map((field) => [field, getFieldValue(activity, field) ?? null]))
+      : activity;
+  const columns = fields ?? DEFAULT_EXPORT_FIELDS;
+
+  switch (format) {
+    case 'json': {
+      let first = true;
+      return {
+        begin: () => '[',
+        row: (activity): string => {
+          const prefix = first ? '\n' : ',\n';
+          first = false;
+          return prefix + indent(JSON.stringify(project(activity), null, 2));
+        },
+        end: () => (first ? ']\n' : '\n]\n'),
+      };
+    }
+    case 'ndjson':
+      return {
+        begin: () => '',
+        row: (activity) => JSON.stringify(project(activity)) + '\n',
+        end: () => '',
+      };
+    case 'csv':
+      return {
+        begin: () => toCsvRow(columns) + '\n',
+        row: (activity) => toCsvRow(columns.map((field) => getFieldValue(activity, field))) + '\n',
+        end: () => '',
+      };
+    case 'markdown':
+      return {
+        begin: () => toMarkdownRow(columns) + '\n' + toMarkdownRow(columns.map(() => '---')) + '\n',
+        row: (activity) =>
+          toMarkdownRow(columns.map((field) => getFieldValue(activity, field))) + '\n',
+        end: () => '',
+      };
+  }
+}
+
+function indent(text: string): string {
+  return text.replace(/^/gm, '  ');
+}
+
+/**
+ * Format one Markdown table row, escaping pipes and line breaks inside cells
+ */
+export function toMarkdownRow(values: unknown[]): string {
+  const cells = values.map((value) => {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  });
+  return `| ${cells.join(' | ')} |`;
+}
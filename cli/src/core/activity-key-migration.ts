@@ -0,0 +1,97 @@
+import type { UserActivity } from '../types.js';
+import type { ActivityKeyChanges, StoredActivity } from '../infrastructure/activity-repository.js';
+
+/**
+ * Changes needed to move stored activities to the current unique keys
+ */
+export interface KeyMigrationPlan extends ActivityKeyChanges {
+  unchanged: number;
+  legacyDuplicates: number; // Rows without a node ID that a node-keyed row replaces
+  keyCollisions: number; // Rows whose new key is already taken by a preferred row
+}
+
+/**
+ * Plan re-keying and de-duplication of stored activities
+ *
+ * - Every row gets the key its connector generates today (node IDs where known)
+ * - Rows synced before node IDs were fetched are dropped when a row with a node ID
+ *   describes the same event (same type, author, timestamp, repository, item and description)
+ * - When several rows end up with the same key, the one with a node ID and the most
+ *   recent update is kept
+ *
+ * @param rows - All stored activities
+ * @param keyFor - Current unique key generator for an activity
+ */
+export function planKeyMigration(
+  rows: StoredActivity[],
+  keyFor: (activity: UserActivity) => string
+): KeyMigrationPlan {
+  const deletedIds: string[] = [];
+
+  const withNodeId = new Set(rows.filter(hasNodeId).map(naturalKey));
+  const survivors = rows.filter((row) => {
+    if (!hasNodeId(row) && withNodeId.has(naturalKey(row))) {
+      deletedIds.push(row.id);
+      return false;
+    }
+    return true;
+  });
+  const legacyDuplicates = deletedIds.length;
+
+  const byKey = new Map<string, StoredActivity[]>();
+  for (const row of survivors) {
+    const key = keyFor(row);
+    const group = byKey.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      byKey.set(key, [row]);
+    }
+  }
+
+  const rekeyed: { id: string; uniqueKey: string }[] = [];
+  let unchanged = 0;
+
+  for (const [uniqueKey, group] of byKey) {
+    const [kept, ...duplicates] = group.sort(preferredFirst);
+    deletedIds.push(...duplicates.map((row) => row.id));
+
+    if (kept.uniqueKey === uniqueKey) {
+      unchanged++;
+    } else {
+      rekeyed.push({ id: kept.id, uniqueKey });
+    }
+  }
+
+  return {
+    rekeyed,
+    deletedIds,
+    unchanged,
+    legacyDuplicates,
+    keyCollisions: deletedIds.length - legacyDuplicates,
+  };
+}
+
+function hasNodeId(activity: UserActivity): boolean {
+  return typeof activity.meta?.nodeId === 'string' && activity.meta.nodeId !== '';
+}
+
+/**
+ * Identity of an event independent of how it was keyed
+ */
+function naturalKey(activity: UserActivity): string {
+  const item = activity.meta?.prNumber ?? activity.meta?.issueNumber ?? activity.meta?.hash ?? '';
+  return [
+    activity.type,
+    activity.author,
+    new Date(activity.date).toISOString(),
+    activity.repository,
+    item,
+    activity.description || '',
+  ].join('|');
+}
+
+function preferredFirst(a: StoredActivity, b: StoredActivity): number {
+  const nodeOrder = Number(hasNodeId(b)) - Number(hasNodeId(a));
+  return nodeOrder || new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+}
@@ -1,9 +1,9 @@
 import type { UserActivity } from '../types.js';
-import {
-  saveActivities,
-  findActivities,
-  countActivities,
-  type ActivityQueryOptions
+import type {
+  ActivityGroupField,
+  ActivityInterval,
+  ActivityRepository,
+  ActivityQueryOptions,
 } from '../infrastructure/activity-repository.js';
 import { logInfo } from '../logger.js';
 import chalk from 'chalk';
@@ -16,6 +16,18 @@ export interface SaveActivitiesResult {
   errors: string[];
 }
 
+/**
+ * Grouped activity counts, largest groups first
+ */
+export interface ActivityStats {
+  totalActivities: number;
+  activitiesByType: Record<string, number>;
+  activitiesByAuthor: Record<string, number>;
+  activitiesByRepository: Record<string, number>;
+  interval: ActivityInterval;
+  activitiesByPeriod: Record<string, number>; // Bucket key to count, chronological, empty buckets omitted
+}
+
 /**
  * Service for managing developer activities
  * 
@@ -32,15 +44,20 @@ export interface SaveActivitiesResult {
  * - Dependency Inversion: Depends on ActivityRepository abstraction
  */
 export class ActivityService {
+  constructor(private readonly repository: ActivityRepository) {}
 
   /**
    * Save multiple activities to the database
    * Uses upsert logic to handle duplicates based on unique keys
    * 
    * @param activities - Array of activities to save
+   * @param generateKey - Unique key generator, usually the producing connector's generateActivityKey
    * @returns Promise resolving to save result with count and errors
    */
-  async saveActivities(activities: UserActivity[]): Promise<SaveActivitiesResult> {
+  async saveActivities(
+    activities: UserActivity[],
+    generateKey?: (activity: UserActivity) => string
+  ): Promise<SaveActivitiesResult> {
     if (activities.length === 0) {
       return { saved: 0, errors: [] };
     }
@@ -62,7 +79,7 @@ export class ActivityService {
       logInfo(chalk.gray(`  Processing batch ${i + 1}/${totalBatches} (${batch.length} activities)...`));
 
       try {
-        const batchResult = await this.saveBatch(batch);
+        const batchResult = await this.saveBatch(batch, generateKey);
         saved += batchResult.saved;
         errors.push(...batchResult.errors);
       } catch (error) {
@@ -84,15 +101,19 @@ export class ActivityService {
    * Save a batch of activities
    * 
    * @param batch - Array of activities to save in this batch
+   * @param generateKey - Unique key generator passed to the repository
    * @returns Promise resolving to save result for this batch
    */
-  private async saveBatch(batch: UserActivity[]): Promise<SaveActivitiesResult> {
+  private async saveBatch(
+    batch: UserActivity[],
+    generateKey?: (activity: UserActivity) => string
+  ): Promise<SaveActivitiesResult> {
     const errors: string[] = [];
     let saved = 0;
 
     // Use the repository's bulk save function for better performance
     try {
-      const savedIds = await saveActivities(batch);
+      const savedIds = await this.repository.saveActivities(batch, generateKey);
       saved = savedIds.length;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -104,26 +125,28 @@ export class ActivityService {
 
   /**
    * Get activity statistics for reporting
+   * Every count is computed by the repository with a grouped query, so no rows are loaded
    * 
-   * @param fromDate - Start date for statistics
-   * @param toDate - End date for statistics
+   * @param filters - Activities to count (dates, repository, type, author)
+   * @param interval - Date bucket size for activitiesByPeriod
    * @returns Promise resolving to activity statistics
    */
-  async getActivityStats(fromDate?: Date, toDate?: Date): Promise<{
-    totalActivities: number;
-    activitiesByType: Record<string, number>;
-    activitiesByAuthor: Record<string, number>;
-    activitiesByRepository: Record<string, number>;
-  }> {
-    const total = await countActivities();
-
-    // For now, return basic stats
-    // TODO: Implement detailed stats queries in the repository
+  async getActivityStats(
+    filters: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {},
+    interval: ActivityInterval = 'week'
+  ): Promise<ActivityStats> {
+    const countBy = async (field: ActivityGroupField): Promise<Record<string, number>> =>
+      Object.fromEntries(
+        (await this.repository.countActivitiesBy(field, filters)).map((g) => [g.key, g.count])
+      );
+
     return {
-      totalActivities: total,
-      activitiesByType: {},
-      activitiesByAuthor: {},
-      activitiesByRepository: {},
+      totalActivities: await this.repository.countActivities(filters),
+      activitiesByType: await countBy('type'),
+      activitiesByAuthor: await countBy('author'),
+      activitiesByRepository: await countBy('repository'),
+      interval,
+      activitiesByPeriod: await countBy(interval),
     };
   }
 
@@ -141,7 +164,7 @@ export class ActivityService {
       offset: 0,
     };
     
-    const activities = await findActivities(queryOptions);
+    const activities = await this.repository.findActivities(queryOptions);
     return activities;
   }
 
@@ -166,7 +189,7 @@ export class ActivityService {
       offset: 0,
     };
     
-    const activities = await findActivities(queryOptions);
+    const activities = await this.repository.findActivities(queryOptions);
     return activities;
   }
 }
@@ -0,0 +1,21 @@
+/**
+ * Escape a single CSV value (RFC 4180)
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Format one CSV line from a list of values
+ */
+export function toCsvRow(values: unknown[]): string {
+  return values.map(escapeCsvValue).join(',');
+}
@@ -0,0 +1,240 @@
+import dayjs, { type Dayjs } from 'dayjs';
+import type { ProjectV2Item } from '../types.js';
+import { extractStatusHistory, processItem } from './issue-processor.js';
+import type { DurationPair } from './pr-metrics-report.js';
+import { summarizePercentiles, toSeconds, type PercentileSummary } from './statistics.js';
+import {
+  calculateWorkingTime,
+  resolveWorkingCalendar,
+  type WorkingCalendars,
+} from './working-time.js';
+
+/**
+ * Which board statuses mean work has started and which mean it is done
+ *
+ * Names match case-insensitively. Statuses in neither list are waiting time before the first
+ * started status and part of the cycle after it (e.g. Blocked).
+ */
+export interface StatusCategories {
+  started: string[];
+  done: string[];
+}
+
+export const DEFAULT_STATUS_CATEGORIES: StatusCategories = {
+  started: ['In Progress', 'In Review', 'Review', 'Doing', 'Testing', 'QA'],
+  done: ['Done', 'Closed', 'Completed', 'Released', 'Shipped'],
+};
+
+// Status of the time between issue creation and its first status on the board
+const NO_STATUS = 'No Status';
+
+/**
+ * Time an issue spent in one status, summed over repeated visits
+ */
+export interface StatusTime extends DurationPair {
+  status: string;
+}
+
+/**
+ * Flow metrics of a single issue
+ */
+export interface IssueFlowRow {
+  repository: string;
+  number: number;
+  title: string;
+  url: string;
+  status: string; // Current status
+  assignees: string[];
+  labels: string[];
+  createdAt: string;
+  startedAt?: string; // First move into a started (or done) status
+  doneAt?: string; // Move into the done status the issue is still in
+  leadTime: DurationPair; // Created to done
+  cycleTime: DurationPair; // Started to done
+  statusTimes: StatusTime[]; // Until done (or the report end), in order of first visit
+}
+
+/**
+ * Distribution of a flow duration across a group of issues
+ */
+export interface FlowDurationSummary {
+  wallClock: PercentileSummary;
+  working: PercentileSummary;
+}
+
+/**
+ * Aggregated flow metrics for a group of issues (an assignee, a label or all issues)
+ */
+export interface IssueFlowGroup {
+  key: string;
+  issueCount: number;
+  leadTime: FlowDurationSummary;
+  cycleTime: FlowDurationSummary;
+  statusTimes: Record<string, FlowDurationSummary>; // Over the issues that visited the status
+}
+
+/**
+ * Build the flow metrics row of a project item
+ *
+ * Working time uses the calendar of the issue's first assignee.
+ *
+ * @param item - ProjectV2 item with its status change timeline
+ * @param options.projectNumber - Only status changes on this project are used
+ * @param options.toDate - End of the time in the current status for issues not done
+ * @returns undefined for items that are not issues (draft issues, pull requests)
+ */
+export function buildIssueFlowRow(
+  item: ProjectV2Item,
+  options: {
+    projectNumber?: number;
+    categories: StatusCategories;
+    calendars: WorkingCalendars;
+    toDate: Dayjs;
+  }
+): IssueFlowRow | undefined {
+  const createdAt = item.content.createdAt;
+  if (item.content.__typename !== 'Issue' || !createdAt) return undefined;
+
+  const issue = processItem(item, options.toDate, options.projectNumber);
+  const calendar = resolveWorkingCalendar(options.calendars, issue.assignees[0]);
+  const isStarted = matcher(options.categories.started);
+  const isDone = matcher(options.categories.done);
+
+  const moves: { status: string; when: string }[] = extractStatusHistory(
+    item,
+    options.projectNumber
+  );
+  if (moves.length === 0 || moves[0].when !== createdAt) {
+    moves.unshift({ status: NO_STATUS, when: createdAt });
+  }
+
+  // Done when the latest status is done; the issue got there when that run of done statuses began
+  let doneIndex: number | undefined;
+  for (let i = moves.length - 1; i >= 0 && isDone(moves[i].status); i--) {
+    doneIndex = i;
+  }
+  const doneAt = doneIndex !== undefined ? moves[doneIndex].when : undefined;
+  const startedAt = moves.find(
+    (move, i) =>
+      (doneIndex === undefined || i <= doneIndex) && (isStarted(move.status) || isDone(move.status))
+  )?.when;
+
+  const pair = (from: string | undefined, to: string | undefined): DurationPair => {
+    if (!from || !to) return {};
+    return {
+      wallClockSeconds: toSeconds(dayjs(to).diff(dayjs(from))),
+      workingSeconds: toSeconds(calculateWorkingTime(from, to, calendar)),
+    };
+  };
+
+  const end = doneAt ?? options.toDate.toISOString();
+  const statusTimes: StatusTime[] = [];
+  for (let i = 0; i < moves.length && (doneIndex === undefined || i < doneIndex); i++) {
+    const until = moves[i + 1]?.when ?? end;
+    const time = pair(moves[i].when, until);
+    const existing = statusTimes.find((s) => s.status === moves[i].status);
+    if (existing) {
+      existing.wallClockSeconds = (existing.wallClockSeconds ?? 0) + (time.wallClockSeconds ?? 0);
+      existing.workingSeconds = (existing.workingSeconds ?? 0) + (time.workingSeconds ?? 0);
+    } else {
+      statusTimes.push({ status: moves[i].status, ...time });
+    }
+  }
+
+  return {
+    repository: repositoryOf(issue.url),
+    number: issue.number,
+    title: issue.title,
+    url: issue.url,
+    status: issue.status !== 'unknown' ? issue.status : moves[moves.length - 1].status,
+    assignees: issue.assignees,
+    labels: issue.labels,
+    createdAt,
+    startedAt,
+    doneAt,
+    leadTime: pair(createdAt, doneAt),
+    cycleTime: pair(startedAt, doneAt),
+    statusTimes,
+  };
+}
+
+/**
+ * Group issue rows and compute percentiles of lead, cycle and per-status time per group
+ *
+ * @param rows - Per-issue flow metrics
+ * @param keysOf - Grouping keys of a row; an issue with several assignees or labels is in each group
+ * @param percentiles - Percentiles to compute, e.g. [50, 85, 95]
+ * @returns Groups sorted by issue count, largest first
+ */
+export function summarizeIssueFlow(
+  rows: IssueFlowRow[],
+  keysOf: (row: IssueFlowRow) => string[],
+  percentiles: number[]
+): IssueFlowGroup[] {
+  const groups = new Map<string, IssueFlowRow[]>();
+  for (const row of rows) {
+    for (const key of keysOf(row)) {
+      const group = groups.get(key);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(key, [row]);
+      }
+    }
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, groupRows]) => summarizeIssueGroup(key, groupRows, percentiles))
+    .sort((a, b) => b.issueCount - a.issueCount || a.key.localeCompare(b.key));
+}
+
+/**
+ * Percentiles of lead, cycle and per-status time of one group of issues
+ */
+export function summarizeIssueGroup(
+  key: string,
+  rows: IssueFlowRow[],
+  percentiles: number[]
+): IssueFlowGroup {
+  const summarize = (pairs: DurationPair[]): FlowDurationSummary => ({
+    wallClock: summarizePercentiles(
+      pairs.map((p) => secondsToMs(p.wallClockSeconds)),
+      percentiles
+    ),
+    working: summarizePercentiles(
+      pairs.map((p) => secondsToMs(p.workingSeconds)),
+      percentiles
+    ),
+  });
+  const statuses = Array.from(new Set(rows.flatMap((r) => r.statusTimes.map((s) => s.status))));
+
+  return {
+    key,
+    issueCount: rows.length,
+    leadTime: summarize(rows.map((r) => r.leadTime)),
+    cycleTime: summarize(rows.map((r) => r.cycleTime)),
+    statusTimes: Object.fromEntries(
+      statuses.map((status) => [
+        status,
+        summarize(rows.flatMap((r) => r.statusTimes.filter((s) => s.status === status))),
+      ])
+    ),
+  };
+}
+
+function matcher(statuses: string[]): (status: string) => boolean {
+  const wanted = new Set(statuses.map((s) => s.trim().toLowerCase()));
+  return (status) => wanted.has(status.trim().toLowerCase());
+}
+
+/**
+ * owner/name from an issue URL such as https://github.com/acme/api/issues/12
+ */
+function repositoryOf(url: string): string {
+  const match = url.match(/^https?:\/\/[^/]+\/([^/]+\/[^/]+)\/issues\//);
+  return match ? match[1] : 'unknown';
+}
+
+function secondsToMs(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * 1000;
+}
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import dayjs from 'dayjs';
+import { parseDateOption } from './date-utils.js';
+
+describe('parseDateOption', () => {
+  it('covers the whole day of a plain date', () => {
+    const from = parseDateOption('2026-10-01', 'from');
+    const to = parseDateOption('2026-10-01', 'to');
+
+    assert.equal(dayjs(from).format('YYYY-MM-DD HH:mm:ss.SSS'), '2026-10-01 00:00:00.000');
+    assert.equal(dayjs(to).format('YYYY-MM-DD HH:mm:ss.SSS'), '2026-10-01 23:59:59.999');
+  });
+
+  it('reads "now" and natural language through chrono', () => {
+    const before = Date.now();
+    const now = parseDateOption('now', 'to');
+    assert.ok(now && now.getTime() >= before && now.getTime() <= Date.now());
+
+    const weekAgo = parseDateOption('7 days ago', 'from');
+    assert.equal(
+      dayjs(weekAgo).format('YYYY-MM-DD'),
+      dayjs().subtract(7, 'day').format('YYYY-MM-DD')
+    );
+  });
+
+  it('rejects values that are not dates', () => {
+    assert.equal(parseDateOption('someday', 'from'), null);
+    assert.equal(parseDateOption('2026-13-45', 'to'), null);
+  });
+});
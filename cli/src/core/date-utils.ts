@@ -1,4 +1,5 @@
 import dayjs from 'dayjs';
+import * as chrono from 'chrono-node';
 import relativeTime from 'dayjs/plugin/relativeTime.js';
 import duration from 'dayjs/plugin/duration.js';
 
@@ -17,3 +18,21 @@ export const parseDateInput = (input?: string): dayjs.Dayjs => {
   if (!input) return dayjs();
   return dayjs(input);
 };
+
+/**
+ * Parse a --from/--to command option: YYYY-MM-DD, "now" or natural language such as "7 days ago"
+ *
+ * chrono reads a plain date as noon; here it covers the whole day instead, from local midnight
+ * for `from` and up to the last millisecond for `to`.
+ *
+ * @returns null when the value is not a date
+ */
+export const parseDateOption = (value: string, bound: 'from' | 'to'): Date | null => {
+  if (value === 'now') return new Date();
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return chrono.parseDate(value);
+
+  const day = dayjs(value);
+  // dayjs rolls 2026-02-30 over into March
+  if (day.format('YYYY-MM-DD') !== value) return null;
+  return (bound === 'from' ? day.startOf('day') : day.endOf('day')).toDate();
+};
@@ -0,0 +1,322 @@
+import dayjs from 'dayjs';
+import type { StoredActivity } from '../infrastructure/activity-repository.js';
+import { toMarkdownRow } from './activity-export.js';
+
+export type DigestFormat = 'markdown' | 'text';
+
+export const DIGEST_FORMATS: DigestFormat[] = ['markdown', 'text'];
+
+/**
+ * A PR or issue mentioned in a digest
+ */
+export interface DigestItem {
+  title: string;
+  url?: string;
+  reference: string; // e.g. acme/api#12
+  detail?: string; // Review states, or the status move of an issue
+}
+
+/**
+ * What one developer did during the period
+ */
+export interface DeveloperDigest {
+  person: string;
+  commits: number;
+  commitRepositories: string[];
+  prsOpened: DigestItem[];
+  prsMerged: DigestItem[]; // PRs this developer merged
+  reviews: DigestItem[]; // One item per reviewed PR
+  comments: number; // PR and issue comments
+  issueMoves: DigestItem[]; // Board moves, closes and reopens
+  activityCount: number;
+}
+
+/**
+ * Throughput of one repository during the period
+ */
+export interface RepositoryDigest {
+  repository: string;
+  commits: number;
+  prsOpened: number;
+  prsMerged: number;
+  prsClosed: number; // Closed without merging
+  reviews: number;
+  issuesOpened: number;
+  issuesClosed: number;
+  contributors: number;
+}
+
+export interface Digest {
+  from: string;
+  to: string;
+  developers: DeveloperDigest[];
+  repositories: RepositoryDigest[];
+}
+
+export interface DigestRenderOptions {
+  maxItems: number; // PRs/issues listed per section; the rest are counted
+  sections: ('developers' | 'repositories')[];
+}
+
+/**
+ * Summarize activities into per-developer and per-repository digests
+ *
+ * @param activities - Activities of the period, e.g. from streamActivities
+ * @param personOf - Maps an activity to the person credited with it
+ * @param period - Reported period
+ * @returns Developers sorted by activity count, repositories by commits and PRs
+ */
+export async function summarizeActivities(
+  activities: Iterable<StoredActivity> | AsyncIterable<StoredActivity>,
+  personOf: (activity: StoredActivity) => string,
+  period: { from: Date; to: Date }
+): Promise<Digest> {
+  const developers = new Map<string, DeveloperDigest & { reviewed: Map<string, Set<string>> }>();
+  const repositories = new Map<string, RepositoryDigest & { people: Set<string> }>();
+
+  for await (const activity of activities) {
+    const person = personOf(activity);
+
+    let developer = developers.get(person);
+    if (!developer) {
+      developer = {
+        person,
+        commits: 0,
+        commitRepositories: [],
+        prsOpened: [],
+        prsMerged: [],
+        reviews: [],
+        comments: 0,
+        issueMoves: [],
+        activityCount: 0,
+        reviewed: new Map(),
+      };
+      developers.set(person, developer);
+    }
+
+    let repository = repositories.get(activity.repository);
+    if (!repository) {
+      repository = {
+        repository: activity.repository,
+        commits: 0,
+        prsOpened: 0,
+        prsMerged: 0,
+        prsClosed: 0,
+        reviews: 0,
+        issuesOpened: 0,
+        issuesClosed: 0,
+        contributors: 0,
+        people: new Set(),
+      };
+      repositories.set(activity.repository, repository);
+    }
+
+    developer.activityCount++;
+    repository.people.add(person);
+
+    switch (activity.type) {
+      case 'commit':
+        developer.commits++;
+        repository.commits++;
+        if (!developer.commitRepositories.includes(activity.repository)) {
+          developer.commitRepositories.push(activity.repository);
+        }
+        break;
+      case 'pr_created':
+        developer.prsOpened.push(toItem(activity));
+        repository.prsOpened++;
+        break;
+      case 'pr_merged':
+        developer.prsMerged.push(toItem(activity));
+        repository.prsMerged++;
+        break;
+      case 'pr_closed':
+        repository.prsClosed++;
+        break;
+      case 'pr_review': {
+        repository.reviews++;
+        // Several reviews of the same PR are listed once, with each distinct state
+        const item = toItem(activity);
+        const states = developer.reviewed.get(item.reference);
+        const state = String(activity.meta?.reviewState || 'reviewed').toLowerCase();
+        if (states) {
+          states.add(state);
+        } else {
+          developer.reviewed.set(item.reference, new Set([state]));
+          developer.reviews.push(item);
+        }
+        break;
+      }
+      case 'pr_comment':
+      case 'issue_comment':
+        developer.comments++;
+        break;
+      case 'issue_created':
+        repository.issuesOpened++;
+        break;
+      case 'issue_status_change':
+        developer.issueMoves.push({
+          ...toItem(activity),
+          detail: `${activity.meta?.fromStatus || 'none'} → ${activity.meta?.toStatus || activity.meta?.value || 'none'}`,
+        });
+        break;
+      case 'issue_state_change':
+        if (activity.meta?.action === 'closed') repository.issuesClosed++;
+        developer.issueMoves.push({ ...toItem(activity), detail: String(activity.meta?.action) });
+        break;
+    }
+  }
+
+  return {
+    from: period.from.toISOString(),
+    to: period.to.toISOString(),
+    developers: Array.from(developers.values())
+      .map(({ reviewed, ...developer }) => ({
+        ...developer,
+        reviews: developer.reviews.map((item) => ({
+          ...item,
+          detail: Array.from(reviewed.get(item.reference) ?? []).join(', '),
+        })),
+      }))
+      .sort((a, b) => b.activityCount - a.activityCount || a.person.localeCompare(b.person)),
+    repositories: Array.from(repositories.values())
+      .map(({ people, ...repository }) => ({ ...repository, contributors: people.size }))
+      .sort(
+        (a, b) =>
+          b.commits + b.prsOpened - (a.commits + a.prsOpened) ||
+          a.repository.localeCompare(b.repository)
+      ),
+  };
+}
+
+function toItem(activity: StoredActivity): DigestItem {
+  const number = activity.meta?.prNumber ?? activity.meta?.issueNumber;
+  return {
+    title: activity.title || activity.description || activity.type,
+    url: activity.url,
+    reference: number !== undefined ? `${activity.repository}#${number}` : activity.repository,
+  };
+}
+
+/**
+ * Render a digest for pasting into a weekly update
+ *
+ * - markdown: headings, linked PR/issue lists and a repository table
+ * - text: indented plain text with URLs after each item
+ */
+export function renderDigest(
+  digest: Digest,
+  format: DigestFormat,
+  options: DigestRenderOptions
+): string {
+  const markdown = format === 'markdown';
+  const period = `${dayjs(digest.from).format('YYYY-MM-DD')} – ${dayjs(digest.to).format('YYYY-MM-DD')}`;
+  const lines: string[] = [markdown ? `# Activity digest ${period}` : `Activity digest ${period}`];
+
+  const renderItems = (items: DigestItem[]): void => {
+    for (const item of items.slice(0, options.maxItems)) {
+      const title =
+        markdown && item.url ? `[${escapeMarkdown(item.title)}](${item.url})` : item.title;
+      const detail = item.detail ? ` — ${item.detail}` : '';
+      const url = !markdown && item.url ? ` ${item.url}` : '';
+      lines.push(`  - ${title} (${item.reference})${detail}${url}`);
+    }
+    if (items.length > options.maxItems) {
+      lines.push(`  - …and ${items.length - options.maxItems} more`);
+    }
+  };
+
+  if (options.sections.includes('developers')) {
+    lines.push('', markdown ? '## Developers' : 'DEVELOPERS');
+    if (digest.developers.length === 0) lines.push('', 'No activity in this period.');
+
+    for (const developer of digest.developers) {
+      lines.push('', markdown ? `### ${developer.person}` : developer.person);
+      const headingIndex = lines.length;
+      if (developer.commits > 0) {
+        lines.push(
+          `- ${plural(developer.commits, 'commit')} in ${developer.commitRepositories.join(', ')}`
+        );
+      }
+      if (developer.prsOpened.length > 0) {
+        lines.push(`- ${plural(developer.prsOpened.length, 'PR')} opened`);
+        renderItems(developer.prsOpened);
+      }
+      if (developer.prsMerged.length > 0) {
+        lines.push(`- ${plural(developer.prsMerged.length, 'PR')} merged`);
+        renderItems(developer.prsMerged);
+      }
+      if (developer.reviews.length > 0) {
+        lines.push(`- Reviewed ${plural(developer.reviews.length, 'PR')}`);
+        renderItems(developer.reviews);
+      }
+      if (developer.comments > 0) {
+        lines.push(`- ${plural(developer.comments, 'comment')}`);
+      }
+      if (developer.issueMoves.length > 0) {
+        lines.push(`- ${plural(developer.issueMoves.length, 'issue update')}`);
+        renderItems(developer.issueMoves);
+      }
+      if (lines.length === headingIndex) {
+        // Only activity types the digest does not itemize (review requests, PR commits, ...)
+        lines.push(`- ${plural(developer.activityCount, 'other activity')}`);
+      }
+    }
+  }
+
+  if (options.sections.includes('repositories')) {
+    lines.push('', markdown ? '## Repositories' : 'REPOSITORIES', '');
+    if (digest.repositories.length === 0) lines.push('No activity in this period.');
+
+    const header = [
+      'Repository',
+      'Commits',
+      'PRs opened',
+      'PRs merged',
+      'PRs closed',
+      'Reviews',
+      'Issues opened',
+      'Issues closed',
+      'Contributors',
+    ];
+    const rows = digest.repositories.map((r) => [
+      r.repository,
+      r.commits,
+      r.prsOpened,
+      r.prsMerged,
+      r.prsClosed,
+      r.reviews,
+      r.issuesOpened,
+      r.issuesClosed,
+      r.contributors,
+    ]);
+
+    if (digest.repositories.length > 0 && markdown) {
+      lines.push(toMarkdownRow(header), toMarkdownRow(header.map(() => '---')));
+      lines.push(...rows.map((row) => toMarkdownRow(row)));
+    } else if (digest.repositories.length > 0) {
+      const widths = header.map((title, i) =>
+        Math.max(title.length, ...rows.map((row) => String(row[i]).length))
+      );
+      const pad = (cells: (string | number)[]): string =>
+        cells
+          .map((cell, i) =>
+            i === 0 ? String(cell).padEnd(widths[i]) : String(cell).padStart(widths[i])
+          )
+          .join('  ')
+          .trimEnd();
+      lines.push(pad(header), ...rows.map(pad));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function plural(count: number, noun: string): string {
+  if (count === 1) return `${count} ${noun}`;
+  return noun.endsWith('y') ? `${count} ${noun.slice(0, -1)}ies` : `${count} ${noun}s`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\[\]*_`])/g, '\\$1');
+}
@@ -0,0 +1,373 @@
+import dayjs, { type Dayjs } from 'dayjs';
+import type { UserActivity } from '../types.js';
+import { summarizePercentiles, toSeconds, type PercentileSummary } from './statistics.js';
+
+/**
+ * How the team marks changes that remediate a failed deployment
+ *
+ * A merged PR or direct commit is a remediation when its title matches revertPattern, its title
+ * or head branch matches hotfixPattern, or it carries one of failureLabels. Patterns are
+ * case-insensitive regular expressions; labels match case-insensitively.
+ */
+export interface DoraConventions {
+  failureLabels: string[];
+  revertPattern: string;
+  hotfixPattern: string;
+}
+
+export const DEFAULT_DORA_CONVENTIONS: DoraConventions = {
+  failureLabels: ['incident', 'hotfix'],
+  revertPattern: '^Revert\\b',
+  hotfixPattern: '^hotfix\\b',
+};
+
+/**
+ * A PR or direct commit shipped by a deployment
+ */
+export interface DeployedChange {
+  kind: 'pr' | 'commit';
+  reference: string; // #12 for PRs, short SHA for commits
+  title: string;
+  author: string;
+  url?: string;
+  firstCommitAt?: string; // Earliest commit of the PR (PR creation when no commit is stored)
+  leadTimeSeconds?: number; // First commit to deployment
+  remediation?: 'revert' | 'hotfix' | 'label';
+}
+
+/**
+ * A deployment with the changes it shipped and whether it had to be remediated
+ */
+export interface DeploymentRow {
+  repository: string;
+  environment?: string;
+  kind: string; // deployment, release or tag
+  title: string;
+  sha: string;
+  deployedAt: string;
+  url?: string;
+  linkedBy: 'commits' | 'time'; // Deployed commit list, or PRs merged since the previous one
+  changes: DeployedChange[];
+  failed: boolean;
+  failureFixedBy?: string; // Reference of the first remediation found
+  recoveredAt?: string; // Deployment that shipped the first remediation
+  recoverySeconds?: number;
+}
+
+/**
+ * The four DORA metrics for a group of deployments
+ */
+export interface DoraGroup {
+  key: string;
+  deployments: number;
+  deploymentsPerWeek: number;
+  deploymentDays: number; // Distinct days with at least one deployment
+  changes: number;
+  leadTime: PercentileSummary; // Over every change shipped
+  failedDeployments: number;
+  changeFailureRate?: number; // Share of deployments needing remediation, 0-1
+  timeToRestore: PercentileSummary; // Over failed deployments that were remediated
+}
+
+interface PRRecord {
+  repository: string;
+  number: number;
+  title: string;
+  author: string;
+  url?: string;
+  createdAt?: string;
+  mergedAt?: string;
+  mergeCommit?: string;
+  headBranch?: string;
+  labels: string[];
+  commitDates: string[];
+}
+
+interface CommitRecord {
+  date: string;
+  title: string;
+  author: string;
+}
+
+/**
+ * Link deployments to the PRs and commits they shipped and find the failed ones
+ *
+ * Deployments carrying their deployed commits (meta.commits) are linked by SHA: a PR belongs
+ * to the first deployment that contains its merge commit or one of its commits, and other
+ * known commits count as direct pushes. Deployments without a commit list get the PRs of the
+ * same repository merged since the previous deployment.
+ *
+ * A deployment failed when a later deployment ships a remediation for it: the deployment of
+ * the change a revert names (`Revert "<title>"`), otherwise the last deployment before the
+ * remediation's first commit. It recovered when the first such remediation was deployed.
+ *
+ * @param activities - Stored deployment, pr_created, pr_commit, pr_merged and commit activities
+ * @returns One row per deployment, oldest first
+ */
+export function buildDeploymentRows(
+  activities: UserActivity[],
+  conventions: DoraConventions
+): DeploymentRow[] {
+  const prs = new Map<string, PRRecord>();
+  const commits = new Map<string, CommitRecord>();
+  const deployments: UserActivity[] = [];
+
+  for (const activity of activities) {
+    if (activity.type === 'deployment') {
+      deployments.push(activity);
+      continue;
+    }
+
+    const hash = activity.meta?.hash;
+    if ((activity.type === 'commit' || activity.type === 'pr_commit') && hash) {
+      commits.set(hash, {
+        date: activity.date,
+        title: (activity.type === 'commit' ? activity.title : activity.description) || hash,
+        author: activity.author,
+      });
+    }
+
+    const prNumber = activity.meta?.prNumber;
+    if (!activity.type.startsWith('pr_') || prNumber === undefined) continue;
+    const key = `${activity.repository}#${prNumber}`;
+    let pr = prs.get(key);
+    if (!pr) {
+      pr = {
+        repository: activity.repository,
+        number: prNumber,
+        title: activity.title || `PR #${prNumber}`,
+        author: activity.author,
+        url: activity.url,
+        labels: [],
+        commitDates: [],
+      };
+      prs.set(key, pr);
+    }
+    pr.headBranch ??= activity.meta?.headBranch;
+    if (Array.isArray(activity.meta?.labels) && activity.meta.labels.length > 0) {
+      pr.labels = activity.meta.labels;
+    }
+    if (activity.type === 'pr_created') {
+      pr.createdAt = activity.date;
+      pr.author = activity.author;
+    } else if (activity.type === 'pr_merged') {
+      pr.mergedAt = activity.date;
+      pr.mergeCommit ??= activity.meta?.mergeCommit;
+    } else if (activity.type === 'pr_commit') {
+      pr.commitDates.push(activity.date);
+    }
+  }
+
+  const prByCommit = new Map<string, PRRecord>();
+  for (const pr of prs.values()) {
+    if (pr.mergeCommit) prByCommit.set(pr.mergeCommit, pr);
+  }
+  for (const activity of activities) {
+    const pr = prs.get(`${activity.repository}#${activity.meta?.prNumber}`);
+    if (activity.type === 'pr_commit' && activity.meta?.hash && pr) {
+      if (!prByCommit.has(activity.meta.hash)) prByCommit.set(activity.meta.hash, pr);
+    }
+  }
+
+  const classify = remediationClassifier(conventions);
+
+  // Deployments to different environments are separate pipelines
+  const streams = new Map<string, UserActivity[]>();
+  for (const deployment of deployments) {
+    const key = `${deployment.repository}|${deployment.meta?.environment ?? ''}`;
+    streams.set(key, [...(streams.get(key) || []), deployment]);
+  }
+
+  const rows: DeploymentRow[] = [];
+  for (const stream of streams.values()) {
+    stream.sort((a, b) => dayjs(a.date).diff(dayjs(b.date)));
+    const shipped = new Set<PRRecord>();
+    const streamRows: DeploymentRow[] = stream.map((deployment, i) => {
+      const deployedAt = dayjs(deployment.date);
+      const deployedCommits: string[] | undefined = Array.isArray(deployment.meta?.commits)
+        ? deployment.meta.commits
+        : undefined;
+      const changes: DeployedChange[] = [];
+
+      const addPR = (pr: PRRecord): void => {
+        if (shipped.has(pr)) return;
+        shipped.add(pr);
+        const firstCommitAt = [...pr.commitDates].sort()[0] ?? pr.createdAt;
+        changes.push({
+          kind: 'pr',
+          reference: `#${pr.number}`,
+          title: pr.title,
+          author: pr.author,
+          url: pr.url,
+          firstCommitAt,
+          leadTimeSeconds: leadTime(firstCommitAt, deployedAt),
+          remediation: classify(pr.title, pr.headBranch, pr.labels),
+        });
+      };
+
+      if (deployedCommits) {
+        for (const sha of deployedCommits) {
+          const pr = prByCommit.get(sha);
+          const commit = commits.get(sha);
+          if (pr) {
+            addPR(pr);
+          } else if (commit) {
+            changes.push({
+              kind: 'commit',
+              reference: sha.slice(0, 7),
+              title: commit.title.split('\n')[0],
+              author: commit.author,
+              firstCommitAt: commit.date,
+              leadTimeSeconds: leadTime(commit.date, deployedAt),
+              remediation: classify(commit.title),
+            });
+          }
+        }
+      } else if (i > 0) {
+        const previousAt = dayjs(stream[i - 1].date);
+        for (const pr of prs.values()) {
+          if (pr.repository !== deployment.repository || !pr.mergedAt) continue;
+          const mergedAt = dayjs(pr.mergedAt);
+          if (mergedAt.isAfter(previousAt) && !mergedAt.isAfter(deployedAt)) addPR(pr);
+        }
+      }
+
+      return {
+        repository: deployment.repository,
+        environment: deployment.meta?.environment,
+        kind: deployment.meta?.kind || 'deployment',
+        title: deployment.title || String(deployment.meta?.sha || '').slice(0, 7),
+        sha: deployment.meta?.sha || '',
+        deployedAt: deployedAt.toISOString(),
+        url: deployment.url,
+        linkedBy: deployedCommits ? 'commits' : 'time',
+        changes,
+        failed: false,
+      };
+    });
+
+    streamRows.forEach((row, j) => {
+      for (const change of row.changes.filter((c) => c.remediation)) {
+        const failedIndex = findFailedDeployment(streamRows, j, change);
+        if (failedIndex === undefined) continue;
+        const failed = streamRows[failedIndex];
+        failed.failed = true;
+        if (!failed.recoveredAt) {
+          failed.failureFixedBy = change.reference;
+          failed.recoveredAt = row.deployedAt;
+          failed.recoverySeconds = leadTime(failed.deployedAt, dayjs(row.deployedAt));
+        }
+      }
+    });
+    rows.push(...streamRows);
+  }
+
+  return rows.sort((a, b) => dayjs(a.deployedAt).diff(dayjs(b.deployedAt)));
+}
+
+/**
+ * Deployment frequency, lead time, change failure rate and time to restore of a group
+ *
+ * @param rows - Deployments of the group within [from, to]
+ * @param percentiles - Percentiles of lead time and time to restore, e.g. [50, 90]
+ */
+export function summarizeDora(
+  key: string,
+  rows: DeploymentRow[],
+  range: { from: Dayjs; to: Dayjs },
+  percentiles: number[]
+): DoraGroup {
+  const weeks = Math.max(range.to.diff(range.from, 'day', true) / 7, 1 / 7);
+  const failed = rows.filter((r) => r.failed);
+  const changes = rows.flatMap((r) => r.changes);
+
+  return {
+    key,
+    deployments: rows.length,
+    deploymentsPerWeek: Math.round((rows.length / weeks) * 100) / 100,
+    deploymentDays: new Set(rows.map((r) => r.deployedAt.slice(0, 10))).size,
+    changes: changes.length,
+    leadTime: summarizePercentiles(
+      changes.map((c) => secondsToMs(c.leadTimeSeconds)),
+      percentiles
+    ),
+    failedDeployments: failed.length,
+    changeFailureRate:
+      rows.length > 0 ? Math.round((failed.length / rows.length) * 1000) / 1000 : undefined,
+    timeToRestore: summarizePercentiles(
+      failed.map((r) => secondsToMs(r.recoverySeconds)),
+      percentiles
+    ),
+  };
+}
+
+/**
+ * Group deployment rows and summarize each group
+ *
+ * @returns Groups sorted by deployment count, largest first
+ */
+export function summarizeDoraBy(
+  rows: DeploymentRow[],
+  keyOf: (row: DeploymentRow) => string,
+  range: { from: Dayjs; to: Dayjs },
+  percentiles: number[]
+): DoraGroup[] {
+  const groups = new Map<string, DeploymentRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, groupRows]) => summarizeDora(key, groupRows, range, percentiles))
+    .sort((a, b) => b.deployments - a.deployments || a.key.localeCompare(b.key));
+}
+
+function remediationClassifier(
+  conventions: DoraConventions
+): (title: string, branch?: string, labels?: string[]) => DeployedChange['remediation'] {
+  const revert = new RegExp(conventions.revertPattern, 'i');
+  const hotfix = new RegExp(conventions.hotfixPattern, 'i');
+  const failureLabels = new Set(conventions.failureLabels.map((l) => l.toLowerCase()));
+
+  return (title, branch, labels = []) => {
+    if (revert.test(title)) return 'revert';
+    if (labels.some((label) => failureLabels.has(label.toLowerCase()))) return 'label';
+    if (hotfix.test(title) || (branch && hotfix.test(branch))) return 'hotfix';
+    return undefined;
+  };
+}
+
+/**
+ * Index of the deployment a remediation shipped at index `fixedIn` repairs
+ */
+function findFailedDeployment(
+  rows: DeploymentRow[],
+  fixedIn: number,
+  change: DeployedChange
+): number | undefined {
+  // GitHub and git name reverts `Revert "<original title>"`
+  const reverted = change.title.match(/^Revert "(.+)"$/)?.[1];
+  if (reverted) {
+    for (let i = fixedIn - 1; i >= 0; i--) {
+      if (rows[i].changes.some((c) => c.title === reverted)) return i;
+    }
+  }
+
+  // Otherwise the fix targets what was live when work on it began
+  const startedAt = change.firstCommitAt ? dayjs(change.firstCommitAt) : undefined;
+  for (let i = fixedIn - 1; i >= 0; i--) {
+    if (!startedAt || dayjs(rows[i].deployedAt).isBefore(startedAt)) return i;
+  }
+  return undefined;
+}
+
+function leadTime(from: string | undefined, to: Dayjs): number | undefined {
+  if (!from) return undefined;
+  const ms = to.diff(dayjs(from));
+  return ms >= 0 ? toSeconds(ms) : undefined;
+}
+
+function secondsToMs(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * 1000;
+}
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { capFileChanges, type FileChange } from './file-changes.js';
+
+const change = (path: string, excluded = false): FileChange => ({
+  path,
+  status: 'modified',
+  insertions: 1,
+  deletions: 0,
+  ...(excluded && { excluded: true }),
+});
+
+describe('capFileChanges', () => {
+  it('lists every file up to the limit', () => {
+    const files = [change('a.ts'), change('b.ts')];
+
+    assert.deepEqual(capFileChanges(files, 2), { files, omitted: 0 });
+  });
+
+  it('keeps counted files ahead of excluded ones, in their order', () => {
+    const files = [
+      change('package-lock.json', true),
+      change('src/a.ts'),
+      change('vendor/lib.js', true),
+      change('src/b.ts'),
+    ];
+
+    const { files: kept, omitted } = capFileChanges(files, 3);
+
+    assert.deepEqual(
+      kept.map((f) => f.path),
+      ['package-lock.json', 'src/a.ts', 'src/b.ts']
+    );
+    assert.equal(omitted, 1);
+  });
+});
@@ -0,0 +1,270 @@
+import * as path from 'path';
+
+/**
+ * How a commit changed a file, from git's raw status letter
+ */
+export type FileChangeStatus =
+  | 'added'
+  | 'modified'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'type_changed';
+
+/**
+ * Lines a commit changed in one file
+ */
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  previousPath?: string; // Source of a rename or copy
+  insertions: number;
+  deletions: number;
+  binary?: boolean; // Line counts are 0
+  language?: string; // From the extension or file name
+  excluded?: boolean; // Matched an exclude glob; not counted in linesAdded/linesRemoved
+}
+
+/**
+ * Files always left out of commit line counts: lockfiles, generated and minified output,
+ * and vendored dependencies. They are still listed, flagged `excluded`
+ */
+export const DEFAULT_EXCLUDE_GLOBS = [
+  // Lockfiles
+  '*.lock',
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  'go.sum',
+  // Generated
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+  '*.generated.*',
+  '*.pb.go',
+  '*_pb2.py',
+  'dist',
+  // Vendored
+  'vendor',
+  'node_modules',
+  'third_party',
+];
+
+// Files listed per commit; a vendoring or generated commit can touch tens of thousands
+export const MAX_RECORDED_FILES = 1000;
+
+const STATUSES: Record<string, FileChangeStatus> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type_changed',
+};
+
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.mts': 'TypeScript',
+  '.cts': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.kts': 'Kotlin',
+  '.scala': 'Scala',
+  '.rb': 'Ruby',
+  '.php': 'PHP',
+  '.cs': 'C#',
+  '.c': 'C',
+  '.h': 'C',
+  '.cc': 'C++',
+  '.cpp': 'C++',
+  '.cxx': 'C++',
+  '.hpp': 'C++',
+  '.m': 'Objective-C',
+  '.swift': 'Swift',
+  '.dart': 'Dart',
+  '.ex': 'Elixir',
+  '.exs': 'Elixir',
+  '.erl': 'Erlang',
+  '.hs': 'Haskell',
+  '.lua': 'Lua',
+  '.r': 'R',
+  '.sh': 'Shell',
+  '.bash': 'Shell',
+  '.zsh': 'Shell',
+  '.ps1': 'PowerShell',
+  '.sql': 'SQL',
+  '.html': 'HTML',
+  '.css': 'CSS',
+  '.scss': 'SCSS',
+  '.sass': 'Sass',
+  '.less': 'Less',
+  '.vue': 'Vue',
+  '.svelte': 'Svelte',
+  '.md': 'Markdown',
+  '.mdx': 'Markdown',
+  '.json': 'JSON',
+  '.yaml': 'YAML',
+  '.yml': 'YAML',
+  '.toml': 'TOML',
+  '.xml': 'XML',
+  '.tf': 'HCL',
+  '.proto': 'Protocol Buffers',
+  '.graphql': 'GraphQL',
+};
+
+const LANGUAGES_BY_NAME: Record<string, string> = {
+  dockerfile: 'Dockerfile',
+  makefile: 'Makefile',
+  jenkinsfile: 'Groovy',
+};
+
+/**
+ * Language of a file by its extension or well-known name
+ *
+ * @returns undefined for unknown extensions
+ */
+export function languageOf(filePath: string): string | undefined {
+  const name = path.posix.basename(filePath).toLowerCase();
+  return LANGUAGES_BY_NAME[name] ?? LANGUAGES_BY_EXTENSION[path.posix.extname(name)];
+}
+
+/**
+ * Compile exclude globs into a single path test
+ *
+ * Globs follow .gitignore conventions: `*` and `?` stay within a path segment, `**` spans
+ * segments and `{a,b}` lists alternatives. A glob without a slash matches a file or directory
+ * name at any depth; one with a slash is anchored at the repository root. A matching directory
+ * excludes everything below it.
+ */
+export function createPathMatcher(globs: string[]): (filePath: string) => boolean {
+  if (globs.length === 0) return () => false;
+  const patterns = globs.map((glob) => {
+    const trimmed = glob.trim().replace(/\/+$/, '');
+    const anchored = trimmed.includes('/');
+    const body = globToRegExpSource(trimmed.replace(/^\//, ''));
+    return anchored ? `${body}(?:/.*)?` : `(?:.*/)?${body}(?:/.*)?`;
+  });
+  const regex = new RegExp(`^(?:${patterns.join('|')})$`);
+  return (filePath) => regex.test(filePath);
+}
+
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  let inBraces = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches zero or more directories, a trailing or inner `**` anything
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      inBraces = true;
+    } else if (char === '}' && inBraces) {
+      source += ')';
+      inBraces = false;
+    } else if (char === ',' && inBraces) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$|()[\]\\{}]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Parse `git diff-tree -z --raw --numstat` output (also `git log -z --raw --numstat` per commit)
+ *
+ * Raw entries give each file's status and rename source; numstat entries, in the same order,
+ * give its line counts (`-` for binary files).
+ *
+ * @param tokens - Output split on NUL
+ * @param isExcluded - Exclude glob test; matching files are flagged, not dropped
+ */
+export function parseFileChanges(
+  tokens: string[],
+  isExcluded: (filePath: string) => boolean = () => false
+): FileChange[] {
+  const changes: FileChange[] = [];
+  const counts: { insertions: number; deletions: number; binary: boolean }[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].replace(/^\n+/, '');
+    if (token.startsWith(':')) {
+      // :<old mode> <new mode> <old sha> <new sha> <status letter + similarity>, then 1 or 2 paths
+      const letter = token.split(' ')[4]?.charAt(0) ?? 'M';
+      const twoPaths = letter === 'R' || letter === 'C';
+      const previousPath = twoPaths ? tokens[++i] : undefined;
+      const filePath = tokens[++i];
+      if (filePath === undefined) break;
+      changes.push({
+        path: filePath,
+        status: STATUSES[letter] ?? 'modified',
+        ...(previousPath !== undefined && { previousPath }),
+        insertions: 0,
+        deletions: 0,
+      });
+      continue;
+    }
+
+    const numstat = token.match(/^(\d+|-)\t(\d+|-)\t(.*)$/s);
+    if (numstat) {
+      // Renames and copies leave the path empty and list both paths in the next tokens
+      if (numstat[3] === '') i += 2;
+      counts.push({
+        insertions: numstat[1] === '-' ? 0 : parseInt(numstat[1], 10),
+        deletions: numstat[2] === '-' ? 0 : parseInt(numstat[2], 10),
+        binary: numstat[1] === '-',
+      });
+    }
+  }
+
+  return changes.map((change, index) => {
+    const count = counts[index];
+    const language = languageOf(change.path);
+    return {
+      ...change,
+      insertions: count?.insertions ?? 0,
+      deletions: count?.deletions ?? 0,
+      ...(count?.binary && { binary: true }),
+      ...(language && { language }),
+      ...(isExcluded(change.path) && { excluded: true }),
+    };
+  });
+}
+
+/**
+ * Limit the files listed for one commit, keeping counted files ahead of excluded ones
+ * Line counts are taken from all files beforehand; the order of the kept files is unchanged
+ *
+ * @returns The files to list and how many were left out
+ */
+export function capFileChanges(
+  files: FileChange[],
+  max = MAX_RECORDED_FILES
+): { files: FileChange[]; omitted: number } {
+  if (files.length <= max) return { files, omitted: 0 };
+
+  const kept = new Set(
+    [...files.filter((f) => !f.excluded), ...files.filter((f) => f.excluded)].slice(0, max)
+  );
+  return { files: files.filter((f) => kept.has(f)), omitted: files.length - max };
+}
@@ -0,0 +1,277 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  mapWebhookEvent,
+  resolveWebhookActivities,
+  type TimelineEventFetcher,
+} from './github-webhook.js';
+import dayjs from 'dayjs';
+import { createActivityKeyGenerator } from '../connectors/activity-keys.js';
+import { PRsConnector } from '../connectors/prs-connector.js';
+import { GitHubClient } from '../github.js';
+import type {
+  GitHubWebhookPayload,
+  PaginatedResult,
+  PullRequestNode,
+  TimelineEvent,
+  WebhookPullRequest,
+} from '../types.js';
+
+const repository = { name: 'api', full_name: 'acme/api' };
+
+const pullRequest: WebhookPullRequest = {
+  node_id: 'PR_kwDOA1',
+  number: 42,
+  title: 'Add rate limiting',
+  html_url: 'https://github.com/acme/api/pull/42',
+  state: 'open',
+  merged: false,
+  merged_at: null,
+  closed_at: null,
+  created_at: '2026-03-02T09:00:00Z',
+  updated_at: '2026-03-04T10:00:07Z',
+  user: { login: 'alice' },
+  base: { ref: 'main' },
+  head: { ref: 'feature/rate-limit' },
+};
+
+/**
+ * Fetcher answering from fixed timeline events and recording its lookups
+ */
+function timeline(events: Record<string, TimelineEvent[]>): {
+  fetch: TimelineEventFetcher;
+  lookups: string[];
+} {
+  const lookups: string[] = [];
+  return {
+    lookups,
+    fetch: async (subjectId, itemType): Promise<TimelineEvent[]> => {
+      lookups.push(`${subjectId} ${itemType}`);
+      return events[itemType] ?? [];
+    },
+  };
+}
+
+describe('resolveWebhookActivities', () => {
+  const keyFor = createActivityKeyGenerator();
+
+  it('keys a merge by its timeline event, like the prs connector', async () => {
+    const payload: GitHubWebhookPayload = {
+      action: 'closed',
+      sender: { login: 'bob' },
+      repository,
+      pull_request: {
+        ...pullRequest,
+        state: 'closed',
+        merged: true,
+        merged_at: '2026-03-05T16:40:11Z',
+        closed_at: '2026-03-05T16:40:11Z',
+        merged_by: { login: 'bob' },
+      },
+    };
+    const { fetch, lookups } = timeline({
+      MERGED_EVENT: [
+        {
+          __typename: 'MergedEvent',
+          id: 'ME_1',
+          createdAt: '2026-03-05T16:40:11Z',
+          actor: { login: 'bob' },
+        },
+      ],
+    });
+
+    const { activities, deferred } = await resolveWebhookActivities(
+      mapWebhookEvent('pull_request', payload),
+      fetch
+    );
+
+    assert.deepEqual(lookups, ['PR_kwDOA1 MERGED_EVENT']);
+    assert.equal(deferred, 0);
+    assert.equal(activities.length, 1);
+    assert.equal(keyFor(activities[0]), 'github:pr_merged:ME_1');
+  });
+
+  it('dates a review request by its event and picks the requested reviewer', async () => {
+    const payload: GitHubWebhookPayload = {
+      action: 'review_requested',
+      sender: { login: 'alice' },
+      repository,
+      pull_request: pullRequest,
+      requested_reviewer: { login: 'carol' },
+    };
+    const { fetch } = timeline({
+      REVIEW_REQUESTED_EVENT: [
+        {
+          __typename: 'ReviewRequestedEvent',
+          id: 'RRE_1',
+          createdAt: '2026-03-04T10:00:05Z',
+          actor: { login: 'alice' },
+          requestedReviewer: { login: 'carol' },
+        },
+        {
+          __typename: 'ReviewRequestedEvent',
+          id: 'RRE_2',
+          createdAt: '2026-03-04T10:00:06Z',
+          actor: { login: 'alice' },
+          requestedReviewer: { login: 'dave' },
+        },
+      ],
+    });
+
+    const { activities } = await resolveWebhookActivities(
+      mapWebhookEvent('pull_request', payload),
+      fetch
+    );
+
+    assert.equal(activities[0].date, '2026-03-04T10:00:05Z');
+    assert.equal(activities[0].meta?.requestedReviewer, 'carol');
+    assert.equal(keyFor(activities[0]), 'github:pr_review_requested:RRE_1');
+  });
+
+  it('keys a label change by the event for that label', async () => {
+    const payload: GitHubWebhookPayload = {
+      action: 'labeled',
+      sender: { login: 'dave' },
+      repository,
+      label: { name: 'bug' },
+      issue: {
+        node_id: 'I_kwDOA7',
+        number: 7,
+        title: 'Clients get 500 instead of 429',
+        html_url: 'https://github.com/acme/api/issues/7',
+        state: 'open',
+        created_at: '2026-03-01T08:30:00Z',
+        updated_at: '2026-03-01T08:31:00Z',
+        closed_at: null,
+        user: { login: 'dave' },
+      },
+    };
+    const { fetch } = timeline({
+      LABELED_EVENT: [
+        {
+          __typename: 'LabeledEvent',
+          id: 'LE_1',
+          createdAt: '2026-03-01T08:30:30Z',
+          label: { name: 'bug' },
+        },
+        {
+          __typename: 'LabeledEvent',
+          id: 'LE_2',
+          createdAt: '2026-03-01T08:30:40Z',
+          label: { name: 'api' },
+        },
+      ],
+    });
+
+    const { activities } = await resolveWebhookActivities(
+      mapWebhookEvent('issues', payload),
+      fetch
+    );
+
+    assert.equal(keyFor(activities[0]), 'github:issue_labeling:LE_1');
+    assert.equal(activities[0].date, '2026-03-01T08:30:30Z');
+  });
+
+  it('leaves lifecycle events to the next sync when their event cannot be looked up', async () => {
+    const payload: GitHubWebhookPayload = {
+      action: 'ready_for_review',
+      sender: { login: 'alice' },
+      repository,
+      pull_request: pullRequest,
+    };
+    const mapped = mapWebhookEvent('pull_request', payload);
+
+    assert.deepEqual(await resolveWebhookActivities(mapped), { activities: [], deferred: 1 });
+    assert.deepEqual(await resolveWebhookActivities(mapped, timeline({}).fetch), {
+      activities: [],
+      deferred: 1,
+    });
+  });
+
+  it('passes activities that carry node IDs through without a lookup', async () => {
+    const payload: GitHubWebhookPayload = {
+      action: 'opened',
+      repository,
+      pull_request: pullRequest,
+    };
+    const { fetch, lookups } = timeline({});
+
+    const { activities } = await resolveWebhookActivities(
+      mapWebhookEvent('pull_request', payload),
+      fetch
+    );
+
+    assert.deepEqual(lookups, []);
+    assert.equal(keyFor(activities[0]), 'github:pr_created:PR_kwDOA1');
+  });
+});
+
+describe('mapWebhookEvent', () => {
+  it('maps a submitted review like the prs connector does', async () => {
+    const payload: GitHubWebhookPayload = {
+      action: 'submitted',
+      repository,
+      pull_request: pullRequest,
+      review: {
+        node_id: 'PRR_kwDOA9',
+        body: null,
+        state: 'APPROVED',
+        submitted_at: '2026-03-04T11:00:00Z',
+        html_url: 'https://github.com/acme/api/pull/42#pullrequestreview-9',
+        user: { login: 'bob' },
+      },
+    };
+    const [{ activity: delivered }] = mapWebhookEvent('pull_request_review', payload);
+
+    const synced: PullRequestNode = {
+      id: pullRequest.node_id,
+      number: pullRequest.number,
+      title: pullRequest.title,
+      url: pullRequest.html_url,
+      createdAt: pullRequest.created_at,
+      state: 'OPEN',
+      changedFiles: 3,
+      author: { login: 'alice' },
+      reviews: {
+        nodes: [
+          {
+            id: 'PRR_kwDOA9',
+            author: { login: 'bob' },
+            createdAt: '2026-03-04T11:00:00Z',
+            state: 'APPROVED',
+            body: '',
+          },
+        ],
+      },
+    };
+    const fetchPullRequests = mock.method(
+      GitHubClient.prototype,
+      'fetchPullRequests',
+      async (): Promise<PaginatedResult<PullRequestNode>> => ({
+        nodes: [synced],
+        pages: 1,
+        warnings: [],
+      })
+    );
+    process.env.GITHUB_TOKEN = 'ghp_test';
+    const polled = await new PRsConnector().fetch({
+      enabled: true,
+      owner: 'acme',
+      repo: 'api',
+      from: dayjs('2026-03-01T00:00:00Z'),
+      to: dayjs('2026-03-31T00:00:00Z'),
+    });
+    fetchPullRequests.mock.restore();
+    delete process.env.GITHUB_TOKEN;
+
+    const review = polled.find((a) => a.type === 'pr_review')!;
+    const keyFor = createActivityKeyGenerator();
+    assert.equal(keyFor(delivered), keyFor(review));
+    assert.equal(delivered.description, review.description);
+    assert.equal(delivered.meta?.reviewState, review.meta?.reviewState);
+    assert.equal(delivered.meta?.reviewState, 'approved');
+    // `state` stays the state of the pull request
+    assert.equal(delivered.meta?.state, 'OPEN');
+    assert.equal(review.meta?.state, 'OPEN');
+  });
+});
@@ -0,0 +1,479 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type {
+  ActivityType,
+  GitHubWebhookPayload,
+  TimelineEvent,
+  UserActivity,
+  WebhookIssue,
+  WebhookPullRequest,
+} from '../types.js';
+
+/**
+ * Webhook events the receiver turns into activities
+ */
+export const SUPPORTED_WEBHOOK_EVENTS = [
+  'pull_request',
+  'pull_request_review',
+  'issue_comment',
+  'issues',
+  'push',
+  'projects_v2_item',
+];
+
+/**
+ * Issue actions mapped to activity types, as the repo-issues connector maps timeline events,
+ * with the timeline item type recording the action
+ */
+const ISSUE_ACTIONS: Record<string, { type: ActivityType; itemType: string }> = {
+  closed: { type: 'issue_state_change', itemType: 'CLOSED_EVENT' },
+  reopened: { type: 'issue_state_change', itemType: 'REOPENED_EVENT' },
+  labeled: { type: 'issue_labeling', itemType: 'LABELED_EVENT' },
+  unlabeled: { type: 'issue_labeling', itemType: 'UNLABELED_EVENT' },
+  assigned: { type: 'issue_assignment', itemType: 'ASSIGNED_EVENT' },
+  unassigned: { type: 'issue_assignment', itemType: 'UNASSIGNED_EVENT' },
+};
+
+/**
+ * Timeline event behind a lifecycle delivery, whose node ID keys the activity
+ */
+export interface TimelineEventLookup {
+  subjectId: string; // Node ID of the issue or pull request
+  itemType: string; // GraphQL timeline item type, e.g. MERGED_EVENT
+  matches: (event: TimelineEvent) => boolean;
+}
+
+/**
+ * An activity mapped from a delivery; lifecycle activities also name their timeline event
+ */
+export interface WebhookActivity {
+  activity: UserActivity;
+  timelineEvent?: TimelineEventLookup;
+}
+
+/**
+ * Reads the latest timeline events of one type, oldest first (GitHubClient.fetchTimelineEvents)
+ */
+export type TimelineEventFetcher = (
+  subjectId: string,
+  itemType: string
+) => Promise<TimelineEvent[]>;
+
+/**
+ * Check the X-Hub-Signature-256 header (`sha256=<hex HMAC of the raw body>`)
+ *
+ * @param secret - Webhook secret configured on GitHub
+ * @param body - Raw request body, exactly as received
+ * @param signature - Header value
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: Buffer,
+  signature: string | undefined
+): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(body).digest('hex'));
+  const received = Buffer.from(signature.slice('sha256='.length));
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Map a webhook delivery to activities shaped like the polling connectors' output
+ *
+ * PRs, reviews, comments and new issues carry the node IDs the connectors key by, so a
+ * delivery and a later sync update the same row. Lifecycle events (merge, close, ready for
+ * review, review requests, labels, assignments, board moves) carry neither their event node ID
+ * nor their time; they name the timeline event for `resolveWebhookActivities` to look up.
+ *
+ * @param event - X-GitHub-Event header
+ * @param payload - Parsed delivery body
+ * @returns Activities to upsert; empty for actions that are not tracked
+ */
+export function mapWebhookEvent(event: string, payload: GitHubWebhookPayload): WebhookActivity[] {
+  switch (event) {
+    case 'pull_request':
+      return mapPullRequestEvent(payload);
+    case 'pull_request_review':
+      return mapReviewEvent(payload);
+    case 'issue_comment':
+      return mapIssueCommentEvent(payload);
+    case 'issues':
+      return mapIssuesEvent(payload);
+    case 'push':
+      return mapPushEvent(payload);
+    case 'projects_v2_item':
+      return mapProjectItemEvent(payload);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Give lifecycle activities the node ID, time and actor of their timeline event, as a sync
+ * stores them
+ *
+ * An activity whose event is not found (or without a fetcher) is left out rather than stored
+ * under a second key; the next sync records it.
+ *
+ * @returns Activities to upsert and the number left to the next sync
+ */
+export async function resolveWebhookActivities(
+  mapped: WebhookActivity[],
+  fetchTimeline?: TimelineEventFetcher
+): Promise<{ activities: UserActivity[]; deferred: number }> {
+  const activities: UserActivity[] = [];
+  let deferred = 0;
+
+  for (const { activity, timelineEvent: lookup } of mapped) {
+    if (!lookup) {
+      activities.push(activity);
+      continue;
+    }
+
+    const events = fetchTimeline ? await fetchTimeline(lookup.subjectId, lookup.itemType) : [];
+    const event = events.filter(lookup.matches).pop();
+    if (!event?.id) {
+      deferred++;
+      continue;
+    }
+
+    activities.push({
+      ...activity,
+      author: event.actor?.login || activity.author,
+      date: event.createdAt,
+      meta: { ...activity.meta, nodeId: event.id },
+    });
+  }
+
+  return { activities, deferred };
+}
+
+function mapPullRequestEvent(payload: GitHubWebhookPayload): WebhookActivity[] {
+  const pr = payload.pull_request;
+  if (!pr || !payload.repository) return [];
+
+  const sender = payload.sender?.login || 'unknown';
+  const fields = {
+    ...prFields(pr, payload.repository.full_name),
+    meta: prMeta(pr),
+  };
+
+  switch (payload.action) {
+    case 'opened':
+      return [
+        {
+          activity: {
+            ...fields,
+            type: 'pr_created',
+            author: pr.user?.login || 'unknown',
+            date: pr.created_at,
+            description: `Created PR #${pr.number}`,
+            meta: {
+              ...fields.meta,
+              nodeId: pr.node_id,
+              isDraft: pr.draft ?? false,
+              changedFiles: pr.changed_files,
+            },
+          },
+        },
+      ];
+
+    case 'closed':
+      if (pr.merged && pr.merged_at) {
+        return [
+          {
+            activity: {
+              ...fields,
+              type: 'pr_merged',
+              author: pr.merged_by?.login || sender,
+              date: pr.merged_at,
+              description: `Merged PR #${pr.number} into ${pr.base.ref || 'base branch'}`,
+            },
+            timelineEvent: atTime(pr.node_id, 'MERGED_EVENT', pr.merged_at),
+          },
+        ];
+      }
+      return [
+        {
+          activity: {
+            ...fields,
+            type: 'pr_closed',
+            author: sender,
+            date: pr.closed_at || pr.updated_at,
+            description: `Closed PR #${pr.number} without merging`,
+          },
+          timelineEvent: atTime(pr.node_id, 'CLOSED_EVENT', pr.closed_at),
+        },
+      ];
+
+    case 'ready_for_review':
+      return [
+        {
+          activity: {
+            ...fields,
+            type: 'pr_ready_for_review',
+            author: sender,
+            date: pr.updated_at,
+            description: `Marked PR #${pr.number} ready for review`,
+          },
+          timelineEvent: {
+            subjectId: pr.node_id,
+            itemType: 'READY_FOR_REVIEW_EVENT',
+            matches: () => true,
+          },
+        },
+      ];
+
+    case 'review_requested': {
+      const reviewer = payload.requested_reviewer?.login || payload.requested_team?.name;
+      return [
+        {
+          activity: {
+            ...fields,
+            type: 'pr_review_requested',
+            author: sender,
+            date: pr.updated_at,
+            description: `Requested review from ${reviewer || 'unknown'} on PR #${pr.number}`,
+            meta: { ...fields.meta, ...(reviewer && { requestedReviewer: reviewer }) },
+          },
+          timelineEvent: {
+            subjectId: pr.node_id,
+            itemType: 'REVIEW_REQUESTED_EVENT',
+            matches: (event) =>
+              (event.requestedReviewer?.login || event.requestedReviewer?.name) === reviewer,
+          },
+        },
+      ];
+    }
+
+    default:
+      return [];
+  }
+}
+
+function mapReviewEvent(payload: GitHubWebhookPayload): WebhookActivity[] {
+  const { pull_request: pr, review, repository } = payload;
+  if (payload.action !== 'submitted' || !pr || !review || !repository) return [];
+
+  const reviewState = review.state.toLowerCase();
+  return [
+    {
+      activity: {
+        ...prFields(pr, repository.full_name),
+        type: 'pr_review',
+        author: review.user?.login || 'unknown',
+        date: review.submitted_at,
+        description: review.body || reviewState,
+        meta: { ...prMeta(pr), nodeId: review.node_id, reviewState, reviewId: review.node_id },
+      },
+    },
+  ];
+}
+
+function mapIssueCommentEvent(payload: GitHubWebhookPayload): WebhookActivity[] {
+  const { issue, comment, repository } = payload;
+  const isTracked = payload.action === 'created' || payload.action === 'edited';
+  if (!isTracked || !issue || !comment || !repository) return [];
+
+  const common = {
+    author: comment.user?.login || 'unknown',
+    date: comment.created_at,
+    repository: repository.full_name,
+    title: issue.title,
+    description: comment.body,
+  };
+
+  if (issue.pull_request) {
+    return [
+      {
+        activity: {
+          ...common,
+          type: 'pr_comment',
+          url: issue.html_url,
+          meta: { prNumber: issue.number, nodeId: comment.node_id, commentId: comment.node_id },
+        },
+      },
+    ];
+  }
+  return [
+    {
+      activity: {
+        ...common,
+        type: 'issue_comment',
+        url: comment.html_url,
+        meta: {
+          nodeId: comment.node_id,
+          issueNumber: issue.number,
+          action: 'commented',
+          commentId: comment.node_id,
+        },
+      },
+    },
+  ];
+}
+
+function mapIssuesEvent(payload: GitHubWebhookPayload): WebhookActivity[] {
+  const { issue, repository } = payload;
+  if (!issue || !repository || !payload.action) return [];
+
+  if (payload.action === 'opened') {
+    return [
+      {
+        activity: {
+          ...issueFields(issue, repository.full_name),
+          type: 'issue_created',
+          author: issue.user?.login || 'unknown',
+          date: issue.created_at,
+          description: `Created issue #${issue.number}`,
+          meta: {
+            nodeId: issue.node_id,
+            issueNumber: issue.number,
+            action: 'created',
+            state: issue.state.toUpperCase(),
+            labels: issue.labels?.map((label) => label.name) ?? [],
+          },
+        },
+      },
+    ];
+  }
+
+  const mapping = ISSUE_ACTIONS[payload.action];
+  if (!mapping) return [];
+
+  const { type, itemType } = mapping;
+  const value =
+    type === 'issue_labeling'
+      ? payload.label?.name
+      : type === 'issue_assignment'
+        ? payload.assignee?.login
+        : undefined;
+  const date = payload.action === 'closed' && issue.closed_at ? issue.closed_at : issue.updated_at;
+  const timelineEvent: TimelineEventLookup =
+    payload.action === 'closed'
+      ? atTime(issue.node_id, itemType, issue.closed_at)
+      : {
+          subjectId: issue.node_id,
+          itemType,
+          matches: (event) =>
+            value === undefined || (event.label?.name ?? event.assignee?.login) === value,
+        };
+  return [
+    {
+      activity: {
+        ...issueFields(issue, repository.full_name),
+        type,
+        author: payload.sender?.login || 'unknown',
+        date,
+        description: `${payload.action} ${value || ''}`.trim(),
+        meta: { issueNumber: issue.number, action: payload.action, value },
+      },
+      timelineEvent,
+    },
+  ];
+}
+
+function mapPushEvent(payload: GitHubWebhookPayload): WebhookActivity[] {
+  if (payload.deleted || !payload.repository || !payload.commits) return [];
+
+  const branch = payload.ref?.replace(/^refs\/heads\//, '');
+  return payload.commits.map((commit) => ({
+    activity: {
+      type: 'commit',
+      author: commit.author.name,
+      date: new Date(commit.timestamp).toISOString(),
+      // The commits connector names repositories after their directory, usually the repo name
+      repository: payload.repository!.name,
+      title: commit.message.split('\n')[0],
+      description: commit.message,
+      meta: {
+        hash: commit.id,
+        email: commit.author.email,
+        sourceBranch: branch,
+      },
+    },
+  }));
+}
+
+function mapProjectItemEvent(payload: GitHubWebhookPayload): WebhookActivity[] {
+  const item = payload.projects_v2_item;
+  const change = payload.changes?.field_value;
+  const owner = payload.organization?.login;
+  const isStatusChange = change?.field_name?.toLowerCase() === 'status';
+  if (payload.action !== 'edited' || !item || !isStatusChange || !owner) return [];
+  // Older payloads only carry the project node ID, which the issues connector does not key by
+  if (!change.project_number || !item.content_node_id) return [];
+
+  const projectNumber = change.project_number;
+  const fromStatus = change.from?.name;
+  const toStatus = change.to?.name;
+  return [
+    {
+      activity: {
+        type: 'issue_status_change',
+        author: payload.sender?.login || 'unknown',
+        date: item.updated_at,
+        repository: `${owner}/Project-${projectNumber}`,
+        description: `moved from ${fromStatus || 'none'} to ${toStatus || 'none'}`,
+        meta: {
+          itemId: item.node_id,
+          contentNodeId: item.content_node_id,
+          action: 'moved',
+          value: toStatus,
+          fromStatus,
+          toStatus,
+        },
+      },
+      // The issues connector keys moves by the status change event on the issue's timeline
+      timelineEvent: {
+        subjectId: item.content_node_id,
+        itemType: 'PROJECT_V2_ITEM_STATUS_CHANGED_EVENT',
+        matches: (event) => event.project?.number === projectNumber && event.status === toStatus,
+      },
+    },
+  ];
+}
+
+/**
+ * The event of a type that happened at a known time (the latest one when the time is unknown)
+ */
+function atTime(
+  subjectId: string,
+  itemType: string,
+  time: string | null | undefined
+): TimelineEventLookup {
+  return {
+    subjectId,
+    itemType,
+    matches: (event) => !time || Date.parse(event.createdAt) === Date.parse(time),
+  };
+}
+
+function prFields(
+  pr: WebhookPullRequest,
+  repository: string
+): Pick<UserActivity, 'repository' | 'title' | 'url'> {
+  return { repository, title: pr.title, url: pr.html_url };
+}
+
+/**
+ * Merge state shared by every activity of the PR, as stored by the prs connector
+ */
+function prMeta(pr: WebhookPullRequest): Record<string, unknown> {
+  return {
+    prNumber: pr.number,
+    state: pr.merged ? 'MERGED' : pr.state.toUpperCase(),
+    merged: pr.merged ?? false,
+    mergedBy: pr.merged_by?.login,
+    baseBranch: pr.base.ref,
+    headBranch: pr.head.ref,
+    ...(pr.merge_commit_sha && pr.merged && { mergeCommit: pr.merge_commit_sha }),
+    labels: (pr.labels || []).map((label) => label.name),
+  };
+}
+
+function issueFields(
+  issue: WebhookIssue,
+  repository: string
+): Pick<UserActivity, 'repository' | 'title' | 'url'> {
+  return { repository, title: issue.title, url: issue.html_url };
+}
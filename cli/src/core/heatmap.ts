@@ -0,0 +1,88 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import { toCsvRow } from './csv.js';
+import { isWorkingTime, workingPeriods, type WorkingTimeConfig } from './working-time.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * Heatmap rows, Monday first; index 0 is Monday, unlike dayjs's day() where 0 is Sunday
+ */
+export const HEATMAP_WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Activity counts per weekday and hour of day in one timezone
+ */
+export interface Heatmap {
+  timezone: string;
+  total: number;
+  offHours: number; // Activities outside working time (weekends, holidays, lunch, time off)
+  counts: number[][]; // [weekday][hour], weekdays as in HEATMAP_WEEKDAYS
+  workingSlots: boolean[][]; // [weekday][hour], true when the hour is a regular working hour
+}
+
+/**
+ * Count activities per weekday and hour of day
+ *
+ * Each activity's off-hours status is decided from its exact time with the full calendar,
+ * so holidays and time off count as off-hours even though the weekly grid cannot show them.
+ *
+ * @param activities - Activities to count, e.g. from streamActivities
+ * @param config - Working calendar; its timezone is the heatmap's
+ */
+export async function buildHeatmap(
+  activities: Iterable<{ date: string | Date }> | AsyncIterable<{ date: string | Date }>,
+  config: WorkingTimeConfig & { timezone: string }
+): Promise<Heatmap> {
+  const counts = HEATMAP_WEEKDAYS.map(() => new Array<number>(24).fill(0));
+  let total = 0;
+  let offHours = 0;
+
+  for await (const activity of activities) {
+    const local = dayjs(activity.date).tz(config.timezone);
+    counts[(local.day() + 6) % 7][local.hour()]++;
+    total++;
+    if (!isWorkingTime(local, config)) offHours++;
+  }
+
+  return {
+    timezone: config.timezone,
+    total,
+    offHours,
+    counts,
+    workingSlots: workingSlots(config),
+  };
+}
+
+/**
+ * Regular working hours as a weekday × hour grid
+ * An hour counts as working when its midpoint is within a working period, so 08:30 starts
+ * mark 08:00-09:00 as working and 17:30 ends do not mark 17:00-18:00.
+ */
+function workingSlots(config: WorkingTimeConfig): boolean[][] {
+  const periods = workingPeriods(config);
+  return HEATMAP_WEEKDAYS.map((_, index) => {
+    const working = config.workingDays.includes((index + 1) % 7);
+    return Array.from(
+      { length: 24 },
+      (_, hour) => working && periods.some(([from, to]) => hour + 0.5 >= from && hour + 0.5 < to)
+    );
+  });
+}
+
+/**
+ * One CSV row per weekday and hour: weekday,hour,count,working_hours
+ */
+export function heatmapToCsv(heatmap: Heatmap): string {
+  const lines = [toCsvRow(['weekday', 'hour', 'count', 'working_hours'])];
+  heatmap.counts.forEach((hours, weekday) => {
+    hours.forEach((count, hour) => {
+      lines.push(
+        toCsvRow([HEATMAP_WEEKDAYS[weekday], hour, count, heatmap.workingSlots[weekday][hour]])
+      );
+    });
+  });
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import dayjs from 'dayjs';
+import { icsTimeOff, parseIcsEvents } from './ics.js';
+
+const UNTIL = dayjs('2027-12-31');
+
+function calendar(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+function holidays(rrule: string, dtstart: string, ...extra: string[]): string[] {
+  const content = calendar([`DTSTART;VALUE=DATE:${dtstart}`, `RRULE:${rrule}`, ...extra]);
+  return icsTimeOff(parseIcsEvents(content, 'UTC', UNTIL)).holidays;
+}
+
+describe('parseIcsEvents', () => {
+  it('repeats fixed-date holidays every year', () => {
+    assert.deepEqual(holidays('FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25', '20251225'), [
+      '2025-12-25',
+      '2026-12-25',
+      '2027-12-25',
+    ]);
+  });
+
+  it('picks the nth weekday of a month', () => {
+    // Thanksgiving and Memorial Day
+    assert.deepEqual(holidays('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH', '20251127'), [
+      '2025-11-27',
+      '2026-11-26',
+      '2027-11-25',
+    ]);
+    assert.deepEqual(holidays('FREQ=YEARLY;BYMONTH=5;BYDAY=-1MO;COUNT=2', '20260525'), [
+      '2026-05-25',
+      '2027-05-31',
+    ]);
+  });
+
+  it('expands weekly and monthly leave within UNTIL, minus EXDATE', () => {
+    assert.deepEqual(
+      holidays(
+        'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20260320',
+        '20260302',
+        'EXDATE;VALUE=DATE:20260306'
+      ),
+      ['2026-03-02', '2026-03-16', '2026-03-20']
+    );
+    assert.deepEqual(holidays('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3', '20260131'), [
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+    ]);
+    // Months without a 31st are skipped
+    assert.deepEqual(holidays('FREQ=MONTHLY;COUNT=3', '20260131'), [
+      '2026-01-31',
+      '2026-03-31',
+      '2026-05-31',
+    ]);
+  });
+
+  it('keeps the time and length of timed occurrences in their timezone', () => {
+    const content = calendar([
+      'SUMMARY:Physio',
+      'DTSTART;TZID=Europe/Berlin:20260327T150000',
+      'DTEND;TZID=Europe/Berlin:20260327T170000',
+      'RRULE:FREQ=WEEKLY;COUNT=2',
+    ]);
+    assert.deepEqual(
+      parseIcsEvents(content, undefined, UNTIL).map((e) => [e.start, e.end]),
+      [
+        ['2026-03-27T14:00:00.000Z', '2026-03-27T16:00:00.000Z'],
+        // Summer time started on March 29
+        ['2026-04-03T13:00:00.000Z', '2026-04-03T15:00:00.000Z'],
+      ]
+    );
+  });
+
+  it('counts only the first occurrence of rules it cannot expand, with a warning', () => {
+    const warnings: string[] = [];
+    const content = calendar([
+      'SUMMARY:Company days',
+      'DTSTART;VALUE=DATE:20260105',
+      'RRULE:FREQ=MONTHLY;BYDAY=MO;BYSETPOS=1',
+    ]);
+    const events = parseIcsEvents(content, 'UTC', UNTIL, warnings);
+
+    assert.deepEqual(icsTimeOff(events).holidays, ['2026-01-05']);
+    assert.deepEqual(warnings, [
+      '"Company days" (RRULE:FREQ=MONTHLY;BYDAY=MO;BYSETPOS=1): BYSETPOS is not supported, only its first occurrence is counted',
+    ]);
+  });
+});
@@ -0,0 +1,395 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
+import type { TimeOff } from './working-time.js';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+/**
+ * A calendar event read from an iCalendar (RFC 5545) file
+ */
+export interface IcsEvent {
+  uid?: string;
+  summary?: string;
+  allDay: boolean;
+  start: string; // YYYY-MM-DD for all-day events, ISO timestamp otherwise
+  end: string; // Exclusive, same format as start
+}
+
+/**
+ * Days and periods off described by a calendar
+ */
+export interface IcsTimeOff {
+  holidays: string[]; // Whole days off (all-day events)
+  timeOff: TimeOff[]; // Partial days off (timed events)
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  byMonth: number[]; // 1-12
+  byMonthDay: number[]; // 1-31, negative counts from the end of the month
+  byDay: { weekday: number; nth: number }[]; // weekday 0 (Sunday) to 6, nth 0 for every one
+  weekStart: number;
+}
+
+const FREQUENCIES: RecurrenceRule['freq'][] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const PERIOD_UNITS = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' } as const;
+const RULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYMONTH', 'BYMONTHDAY', 'BYDAY', 'WKST'];
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Parse the events of an iCalendar file
+ *
+ * Supports all-day and timed events (UTC, TZID or floating times), DTEND or DURATION, and
+ * recurrences (RRULE with FREQ=DAILY/WEEKLY/MONTHLY/YEARLY, INTERVAL, COUNT, UNTIL, BYMONTH,
+ * BYMONTHDAY and BYDAY, minus EXDATE) such as public holidays and weekly leave. Other rules only
+ * count their first occurrence and add a warning. Cancelled events are skipped.
+ *
+ * @param content - File content
+ * @param floatingTimezone - Timezone of times without Z or TZID (default: the process timezone)
+ * @param until - Last date recurrences without UNTIL are expanded to
+ * @param warnings - Receives a message for each recurrence that could not be expanded
+ */
+export function parseIcsEvents(
+  content: string,
+  floatingTimezone?: string,
+  until: dayjs.Dayjs = dayjs().add(1, 'year').endOf('year'),
+  warnings: string[] = []
+): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of unfoldLines(content)) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = [];
+    } else if (upper === 'END:VEVENT') {
+      if (current) events.push(...toEvents(current, floatingTimezone, until, warnings));
+      current = null;
+    } else if (current) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Split events into whole days off and partial periods off
+ */
+export function icsTimeOff(events: IcsEvent[]): IcsTimeOff {
+  const holidays = new Set<string>();
+  const timeOff: TimeOff[] = [];
+
+  for (const event of events) {
+    if (event.allDay) {
+      for (let day = dayjs(event.start); day.isBefore(dayjs(event.end)); day = day.add(1, 'day')) {
+        holidays.add(day.format('YYYY-MM-DD'));
+      }
+    } else if (dayjs(event.end).isAfter(dayjs(event.start))) {
+      timeOff.push({ start: event.start, end: event.end, reason: event.summary });
+    }
+  }
+
+  return { holidays: Array.from(holidays).sort(), timeOff };
+}
+
+/**
+ * Join continuation lines (starting with a space or tab) to the line they continue
+ */
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .filter(Boolean);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const colon = line.indexOf(':');
+  if (colon <= 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, value = ''] = param.split('=');
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function toEvents(
+  properties: IcsProperty[],
+  floatingTimezone: string | undefined,
+  until: dayjs.Dayjs,
+  warnings: string[]
+): IcsEvent[] {
+  const get = (name: string): IcsProperty | undefined => properties.find((p) => p.name === name);
+
+  const dtstart = get('DTSTART');
+  if (!dtstart || get('STATUS')?.value.toUpperCase() === 'CANCELLED') return [];
+
+  const allDay = dtstart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtstart.value);
+  const start = parseIcsDate(dtstart, allDay, floatingTimezone);
+  if (!start) return [];
+
+  const dtend = get('DTEND');
+  const duration = get('DURATION');
+  let end = dtend ? parseIcsDate(dtend, allDay, floatingTimezone) : undefined;
+  if (!end && duration) end = addDuration(start, duration.value);
+  // Without an end, an all-day event lasts one day and a timed event is instantaneous
+  if (!end) end = allDay ? start.add(1, 'day') : start;
+
+  const event = {
+    uid: get('UID')?.value,
+    summary: get('SUMMARY') && unescapeText(get('SUMMARY')!.value),
+    allDay,
+  };
+  const format = (date: dayjs.Dayjs): string =>
+    allDay ? date.format('YYYY-MM-DD') : date.toISOString();
+
+  const first = dayjs.utc(dtstart.value.slice(0, 8)).format('YYYY-MM-DD');
+  let days = [first];
+  const rrule = get('RRULE')?.value;
+  if (rrule) {
+    const rule = parseRecurrenceRule(rrule);
+    if (typeof rule === 'string') {
+      const name = event.summary || event.uid || first;
+      warnings.push(`"${name}" (RRULE:${rrule}): ${rule}, only its first occurrence is counted`);
+    } else {
+      days = recurrenceDays(rule, first, until);
+    }
+  }
+
+  const excluded = new Set(
+    properties
+      .filter((p) => p.name === 'EXDATE')
+      .flatMap((p) => p.value.split(','))
+      .map((value) => dayjs.utc(value.slice(0, 8)).format('YYYY-MM-DD'))
+  );
+  // Whole days for all-day events, so that occurrences across a DST change keep their dates
+  const length = allDay ? end.diff(start, 'day') : end.diff(start);
+
+  return days
+    .filter((day) => !excluded.has(day))
+    .map((day) => {
+      const occurrence =
+        day === first ? start : parseIcsDate(dtstart, allDay, floatingTimezone, day)!;
+      return {
+        ...event,
+        start: format(occurrence),
+        end: format(occurrence.add(length, allDay ? 'day' : 'millisecond')),
+      };
+    });
+}
+
+/**
+ * Parse a DATE (YYYYMMDD) or DATE-TIME (YYYYMMDDTHHmmss[Z]) value
+ *
+ * @param onDate - YYYY-MM-DD date to use instead of the value's, keeping its time and timezone
+ */
+function parseIcsDate(
+  property: IcsProperty,
+  allDay: boolean,
+  floatingTimezone: string | undefined,
+  onDate?: string
+): dayjs.Dayjs | undefined {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', utcMark] = match;
+  const date = onDate ?? `${year}-${month}-${day}`;
+  if (allDay) return dayjs(date);
+
+  const time = `${date} ${hour}:${minute}:${second}`;
+  if (utcMark) return dayjs.utc(time);
+  const zone = property.params.TZID || floatingTimezone;
+  return zone ? dayjs.tz(time, zone) : dayjs(time);
+}
+
+/**
+ * Add an ISO 8601 duration such as P1D, PT4H or P1DT2H30M
+ */
+function addDuration(start: dayjs.Dayjs, value: string): dayjs.Dayjs | undefined {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+
+  const [, weeks, days, hours, minutes, seconds] = match.map((v) => parseInt(v || '0', 10));
+  return start
+    .add(weeks * 7 + days, 'day')
+    .add(hours, 'hour')
+    .add(minutes, 'minute')
+    .add(seconds, 'second');
+}
+
+/**
+ * Parse an RRULE value, or tell why it is not supported
+ */
+function parseRecurrenceRule(value: string): RecurrenceRule | string {
+  const parts = new Map(
+    value.split(';').map((part) => {
+      const [key, rest = ''] = part.split('=');
+      return [key.toUpperCase(), rest.toUpperCase()];
+    })
+  );
+
+  const freq = parts.get('FREQ') as RecurrenceRule['freq'];
+  if (!FREQUENCIES.includes(freq)) return `FREQ=${freq ?? ''} is not supported`;
+  const unsupported = [...parts.keys()].find((key) => !RULE_PARTS.includes(key));
+  if (unsupported) return `${unsupported} is not supported`;
+
+  const numbers = (key: string, min: number, max: number): number[] | undefined => {
+    const list = (parts.get(key) || '').split(',').filter(Boolean);
+    const values = list.map(Number);
+    const valid = values.every(
+      (n) => Number.isInteger(n) && Math.abs(n) >= min && Math.abs(n) <= max
+    );
+    return valid ? values : undefined;
+  };
+  const byMonth = numbers('BYMONTH', 1, 12);
+  const byMonthDay = numbers('BYMONTHDAY', 1, 31);
+  const [interval = 1] = numbers('INTERVAL', 1, Infinity) ?? [NaN];
+  const count = numbers('COUNT', 1, Infinity);
+  if (!byMonth || byMonth.some((n) => n < 0)) return 'invalid BYMONTH';
+  if (!byMonthDay) return 'invalid BYMONTHDAY';
+  if (!Number.isInteger(interval)) return 'invalid INTERVAL';
+  if (!count || count.length > 1) return 'invalid COUNT';
+
+  const byDay: RecurrenceRule['byDay'] = [];
+  for (const item of (parts.get('BYDAY') || '').split(',').filter(Boolean)) {
+    const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) return 'invalid BYDAY';
+    const nth = parseInt(match[1] || '0', 10);
+    // Ordinals such as 4TH (fourth Thursday) only make sense within a month or a year
+    if (nth !== 0 && (freq === 'DAILY' || freq === 'WEEKLY')) {
+      return `BYDAY=${item} needs FREQ=MONTHLY or YEARLY`;
+    }
+    byDay.push({ weekday: WEEKDAYS.indexOf(match[2]), nth });
+  }
+
+  const until = parts.get('UNTIL');
+  if (until !== undefined && !/^\d{8}/.test(until)) return 'invalid UNTIL';
+  const weekStart = WEEKDAYS.indexOf(parts.get('WKST') || 'MO');
+  if (weekStart < 0) return 'invalid WKST';
+
+  return {
+    freq,
+    interval,
+    count: count[0],
+    until: until && dayjs.utc(until.slice(0, 8)).format('YYYY-MM-DD'),
+    byMonth,
+    byMonthDay,
+    byDay,
+    weekStart,
+  };
+}
+
+/**
+ * YYYY-MM-DD dates of the occurrences of a rule, starting with the DTSTART date
+ *
+ * Periods (days, weeks, months or years) are stepped from the one holding DTSTART; the BY* parts
+ * pick the days of each period, as in RFC 5545 section 3.3.10.
+ */
+function recurrenceDays(rule: RecurrenceRule, first: string, until: dayjs.Dayjs): string[] {
+  const last = rule.until ?? until.format('YYYY-MM-DD');
+  const start = dayjs.utc(first);
+  const days = [first];
+
+  let period =
+    rule.freq === 'WEEKLY'
+      ? start.subtract((start.day() - rule.weekStart + 7) % 7, 'day')
+      : start.startOf(PERIOD_UNITS[rule.freq]);
+  for (
+    ;
+    period.format('YYYY-MM-DD') <= last;
+    period = period.add(rule.interval, PERIOD_UNITS[rule.freq])
+  ) {
+    for (const day of periodDays(period, rule, start)) {
+      if (day <= first) continue;
+      if (day > last || (rule.count !== undefined && days.length >= rule.count)) return days;
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+/**
+ * Sorted YYYY-MM-DD dates a rule picks in one period
+ */
+function periodDays(period: dayjs.Dayjs, rule: RecurrenceRule, start: dayjs.Dayjs): string[] {
+  let candidates: dayjs.Dayjs[];
+  if (rule.freq === 'DAILY') {
+    candidates = [period];
+  } else if (rule.freq === 'WEEKLY') {
+    const weekdays = rule.byDay.length ? rule.byDay.map((d) => d.weekday) : [start.day()];
+    candidates = daysFrom(period, 7).filter((day) => weekdays.includes(day.day()));
+  } else if (rule.freq === 'MONTHLY') {
+    candidates = monthDays(period, rule, start);
+  } else if (rule.byDay.length && !rule.byMonth.length && !rule.byMonthDay.length) {
+    // Ordinals count within the year, e.g. 20MO is the 20th Monday of the year
+    candidates = weekdaysIn(daysFrom(period, period.add(1, 'year').diff(period, 'day')), rule);
+  } else {
+    const everyMonth = rule.byMonthDay.length || rule.byDay.length;
+    const months = rule.byMonth.length
+      ? rule.byMonth
+      : everyMonth
+        ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]
+        : [start.month() + 1];
+    candidates = months.flatMap((month) => monthDays(period.month(month - 1), rule, start));
+  }
+
+  const matches = (day: dayjs.Dayjs): boolean =>
+    (!rule.byMonth.length || rule.byMonth.includes(day.month() + 1)) &&
+    (!rule.byMonthDay.length ||
+      rule.byMonthDay.some((n) => day.date() === (n > 0 ? n : day.daysInMonth() + n + 1))) &&
+    (!rule.byDay.length || rule.byDay.some((d) => d.weekday === day.day()));
+  return Array.from(
+    new Set(candidates.filter(matches).map((day) => day.format('YYYY-MM-DD')))
+  ).sort();
+}
+
+/**
+ * Days a rule picks in a month: its BYDAY weekdays, else its BYMONTHDAY days, else DTSTART's day
+ */
+function monthDays(month: dayjs.Dayjs, rule: RecurrenceRule, start: dayjs.Dayjs): dayjs.Dayjs[] {
+  const length = month.daysInMonth();
+  if (rule.byDay.length) return weekdaysIn(daysFrom(month, length), rule);
+
+  const dates = rule.byMonthDay.length
+    ? rule.byMonthDay.map((n) => (n > 0 ? n : length + n + 1))
+    : [start.date()];
+  // Months without the day (e.g. the 31st) are skipped, not moved to their last day
+  return dates.filter((date) => date >= 1 && date <= length).map((date) => month.date(date));
+}
+
+/**
+ * Days matching the BYDAY weekdays, the nth (or nth from last) one when an ordinal is given
+ */
+function weekdaysIn(days: dayjs.Dayjs[], rule: RecurrenceRule): dayjs.Dayjs[] {
+  return rule.byDay.flatMap(({ weekday, nth }) => {
+    const matching = days.filter((day) => day.day() === weekday);
+    if (nth === 0) return matching;
+    const day = nth > 0 ? matching[nth - 1] : matching[matching.length + nth];
+    return day ? [day] : [];
+  });
+}
+
+function daysFrom(first: dayjs.Dayjs, count: number): dayjs.Dayjs[] {
+  return Array.from({ length: count }, (_, i) => first.add(i, 'day'));
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
@@ -0,0 +1,168 @@
+import {
+  IDENTITY_KINDS,
+  normalizeIdentityValue,
+  type AuthorAlias,
+  type Identity,
+  type IdentityKind,
+  type IdentityRepository,
+} from '../infrastructure/identity-repository.js';
+import type { UserActivity } from '../types.js';
+
+/**
+ * A proposed identity with the reason it was suggested
+ */
+export interface IdentitySuggestion extends Identity {
+  reason: string;
+}
+
+/**
+ * Author filter expanded to every alias of a person
+ */
+export interface AuthorFilter {
+  person?: string;
+  authors: string[];
+  emails: string[];
+}
+
+// GitHub noreply addresses: "login@users.noreply.github.com" or "12345+login@users.noreply.github.com"
+const NOREPLY_EMAIL = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+/**
+ * Extract the GitHub login from a noreply commit email
+ */
+export function loginFromNoreplyEmail(email: string): string | undefined {
+  const match = email.trim().match(NOREPLY_EMAIL);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+/**
+ * Parse an alias argument such as "email:jane@example.com", "name:Jane Doe" or "login:jane"
+ * Without a prefix, values containing "@" are emails and anything else is a login
+ */
+export function parseAlias(input: string): { kind: IdentityKind; value: string } {
+  const separator = input.indexOf(':');
+  if (separator > 0) {
+    const kind = input.slice(0, separator) as IdentityKind;
+    if (IDENTITY_KINDS.includes(kind)) {
+      return { kind, value: normalizeIdentityValue(input.slice(separator + 1)) };
+    }
+  }
+
+  return {
+    kind: input.includes('@') ? 'email' : 'login',
+    value: normalizeIdentityValue(input),
+  };
+}
+
+/**
+ * Suggest identities linking git commit authors to GitHub logins
+ *
+ * - Commit emails on users.noreply.github.com carry the login directly
+ * - A commit author name equal to a login seen on PRs/issues is linked to it
+ * - A commit email whose local part equals a known login is linked to it
+ *
+ * Aliases that already have an identity are never re-suggested.
+ */
+export function suggestIdentities(
+  aliases: AuthorAlias[],
+  existing: Identity[]
+): IdentitySuggestion[] {
+  const known = new Set(existing.map((i) => `${i.kind}:${i.value}`));
+  const logins = new Set(
+    aliases.filter((a) => !a.isCommit).map((a) => normalizeIdentityValue(a.author))
+  );
+  const suggestions = new Map<string, IdentitySuggestion>();
+
+  const suggest = (kind: IdentityKind, rawValue: string, person: string, reason: string): void => {
+    const value = normalizeIdentityValue(rawValue);
+    const key = `${kind}:${value}`;
+    if (!value || known.has(key) || suggestions.has(key)) return;
+    suggestions.set(key, { kind, value, person, source: 'suggested', reason });
+  };
+
+  for (const alias of aliases.filter((a) => a.isCommit)) {
+    const name = normalizeIdentityValue(alias.author);
+    const email = alias.email ? normalizeIdentityValue(alias.email) : undefined;
+
+    let login: string | undefined;
+    let reason = '';
+
+    const noreplyLogin = email ? loginFromNoreplyEmail(email) : undefined;
+    if (noreplyLogin) {
+      login = noreplyLogin;
+      reason = `GitHub noreply email ${email}`;
+    } else if (logins.has(name)) {
+      login = name;
+      reason = `commit author name matches GitHub login`;
+    } else if (email && logins.has(email.split('@')[0])) {
+      login = email.split('@')[0];
+      reason = `email local part matches GitHub login`;
+    }
+
+    if (!login) continue;
+
+    suggest('login', login, login, 'canonical GitHub login');
+    suggest('name', name, login, reason);
+    if (email) suggest('email', email, login, reason);
+  }
+
+  return Array.from(suggestions.values());
+}
+
+/**
+ * Expand an --author value into all aliases of the person it belongs to
+ * The value may be a person, login, git author name or email
+ *
+ * @returns null when the value is not linked to any identity
+ */
+export async function resolveAuthorFilter(
+  repository: IdentityRepository,
+  author: string
+): Promise<AuthorFilter | null> {
+  const value = normalizeIdentityValue(author);
+
+  let person: string | undefined;
+  for (const kind of IDENTITY_KINDS) {
+    const identity = await repository.findIdentity(kind, value);
+    if (identity) {
+      person = identity.person;
+      break;
+    }
+  }
+
+  const personIdentities = await repository.listIdentities(person ?? value);
+  if (personIdentities.length === 0) {
+    return null;
+  }
+  person = personIdentities[0].person;
+
+  return {
+    person,
+    authors: Array.from(
+      new Set([person, ...personIdentities.filter((i) => i.kind !== 'email').map((i) => i.value)])
+    ),
+    emails: personIdentities.filter((i) => i.kind === 'email').map((i) => i.value),
+  };
+}
+
+/**
+ * Build a lookup from an activity to the person who performed it
+ *
+ * Commits are matched by author email, then by author name; other activities by login, then
+ * by name. Authors without an identity are their own person.
+ *
+ * @param identities - All stored identities
+ */
+export function createPersonLookup(identities: Identity[]): (activity: UserActivity) => string {
+  const persons = new Map(identities.map((i) => [`${i.kind}:${i.value}`, i.person]));
+  const find = (kind: IdentityKind, value: unknown): string | undefined =>
+    typeof value === 'string' ? persons.get(`${kind}:${normalizeIdentityValue(value)}`) : undefined;
+
+  return (activity) => {
+    const person =
+      activity.type === 'commit'
+        ? (find('email', activity.meta?.email) ?? find('name', activity.author))
+        : (find('login', activity.author) ?? find('name', activity.author));
+    return person ?? activity.author;
+  };
+}
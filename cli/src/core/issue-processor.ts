@@ -1,15 +1,32 @@
 import type { ProjectV2Item, ProcessedIssue, IssueHistoryItem, StatusDuration } from '../types.js';
 import dayjs, { type Dayjs } from 'dayjs';
 
+/**
+ * A single status transition on the project board
+ */
+export interface StatusChange {
+  id?: string; // Source ID of the status change event (GraphQL node ID on GitHub)
+  status: string;
+  previousStatus?: string;
+  when: string;
+  who: string;
+  initial?: boolean; // Synthetic entry for the status held since issue creation
+}
+
 /**
  * Process a ProjectV2 item into a ProcessedIssue with history tracking
  * This function analyzes the item's field changes and creates a timeline of activities
  * 
  * @param item - The ProjectV2 item from GitHub's GraphQL API
  * @param toDate - The end date for filtering activities
+ * @param projectNumber - Only status changes on this project are tracked (all projects if omitted)
  * @returns ProcessedIssue with normalized history and duration tracking
  */
-export function processItem(item: ProjectV2Item, toDate: Dayjs): ProcessedIssue {
+export function processItem(
+  item: ProjectV2Item,
+  toDate: Dayjs,
+  projectNumber?: number
+): ProcessedIssue {
   const issue = item.content;
   const fieldValues = item.fieldValues?.nodes || [];
   
@@ -32,9 +49,7 @@ export function processItem(item: ProjectV2Item, toDate: Dayjs): ProcessedIssue
     processedIssue.assignees = issue.assignees.nodes.map((assignee: any) => assignee.login);
   }
 
-  // Process field values and their history
-  const statusHistory: Array<{ status: string; when: string; who: string }> = [];
-  
+  // Process field values
   for (const fieldValue of fieldValues) {
     if (!fieldValue.field) continue;
     
@@ -53,34 +68,40 @@ export function processItem(item: ProjectV2Item, toDate: Dayjs): ProcessedIssue
   }
 
   // Process timeline events from the issue (if available)
-  if (issue.timelineItems?.nodes) {
-    for (const event of issue.timelineItems.nodes) {
-      const historyItem = processTimelineEvent(event, issue);
-      if (historyItem) {
-        processedIssue.history.push(historyItem);
-      }
+  for (const event of issue.timelineItems?.nodes || []) {
+    if (event.__typename === 'ProjectV2ItemStatusChangedEvent') continue;
+
+    const historyItem = processTimelineEvent(event, issue);
+    if (historyItem) {
+      processedIssue.history.push(historyItem);
     }
   }
 
-  // Add status changes from field values
+  const statusHistory = extractStatusHistory(item, projectNumber);
+
+  // Add status changes from the project timeline
   for (let i = 0; i < statusHistory.length; i++) {
     const current = statusHistory[i];
     const previous = i > 0 ? statusHistory[i - 1] : null;
-    
+
+    if (current.initial) continue;
+
     const historyItem: IssueHistoryItem = {
+      id: current.id,
       type: 'status',
       action: 'moved',
       value: current.status,
+      previousValue: current.previousStatus ?? previous?.status,
       who: current.who,
       when: current.when,
     };
-    
-    // Calculate duration if we have a previous status
+
+    // Time spent in the previous status before this move
     if (previous) {
       const duration = dayjs(current.when).diff(dayjs(previous.when));
       historyItem.durationMs = duration;
     }
-    
+
     processedIssue.history.push(historyItem);
   }
 
@@ -93,6 +114,51 @@ export function processItem(item: ProjectV2Item, toDate: Dayjs): ProcessedIssue
   return processedIssue;
 }
 
+/**
+ * Status moves of a project item, oldest first
+ * Starts with a synthetic `initial` entry for the status held since the issue was created,
+ * when the first move tells what that status was.
+ *
+ * @param item - The ProjectV2 item from GitHub's GraphQL API
+ * @param projectNumber - Only status changes on this project are returned (all projects if omitted)
+ */
+export function extractStatusHistory(item: ProjectV2Item, projectNumber?: number): StatusChange[] {
+  const issue = item.content;
+  const statusHistory: StatusChange[] = [];
+
+  for (const event of issue.timelineItems?.nodes || []) {
+    if (event.__typename !== 'ProjectV2ItemStatusChangedEvent') continue;
+
+    const isOtherProject =
+      projectNumber !== undefined &&
+      event.project?.number !== undefined &&
+      event.project.number !== projectNumber;
+    if (!isOtherProject && event.createdAt && event.status) {
+      statusHistory.push({
+        id: event.id,
+        status: event.status,
+        previousStatus: event.previousStatus || undefined,
+        when: event.createdAt,
+        who: event.actor?.login || 'unknown',
+      });
+    }
+  }
+
+  statusHistory.sort((a, b) => dayjs(a.when).diff(dayjs(b.when)));
+
+  // The status an item had before its first recorded move started when the issue was created
+  if (statusHistory.length > 0 && statusHistory[0].previousStatus && issue.createdAt) {
+    statusHistory.unshift({
+      status: statusHistory[0].previousStatus,
+      when: issue.createdAt,
+      who: issue.author?.login || 'unknown',
+      initial: true,
+    });
+  }
+
+  return statusHistory;
+}
+
 /**
  * Process a timeline event into a history item
  * 
@@ -106,6 +172,7 @@ function processTimelineEvent(event: any, issue: any): IssueHistoryItem | null {
   }
 
   const baseItem = {
+    id: event.id,
     who: event.actor?.login || 'unknown',
     when: event.createdAt,
   };
@@ -168,12 +235,12 @@ function processTimelineEvent(event: any, issue: any): IssueHistoryItem | null {
 /**
  * Calculate how long the issue spent in each status
  * 
- * @param statusHistory - Array of status changes with timestamps
+ * @param statusHistory - Array of status changes with timestamps, sorted by date
  * @param toDate - End date for calculating current status duration
- * @returns Array of status durations
+ * @returns Array of status durations, one entry per status
  */
-function calculateStatusDurations(
-  statusHistory: Array<{ status: string; when: string; who: string }>,
+export function calculateStatusDurations(
+  statusHistory: StatusChange[],
   toDate: Dayjs
 ): StatusDuration[] {
   if (statusHistory.length === 0) {
@@ -196,12 +263,17 @@ function calculateStatusDurations(
       durationMs = toDate.diff(dayjs(current.when));
     }
     
-    // Only add positive durations
+    // Only add positive durations, summing repeated visits to the same status
     if (durationMs > 0) {
-      durations.push({
-        status: current.status,
-        durationMs,
-      });
+      const existing = durations.find((d) => d.status === current.status);
+      if (existing) {
+        existing.durationMs += durationMs;
+      } else {
+        durations.push({
+          status: current.status,
+          durationMs,
+        });
+      }
     }
   }
 
@@ -0,0 +1,189 @@
+import type {
+  IssueHistoryItem,
+  JiraChangelogHistory,
+  JiraChangelogItem,
+  JiraIssue,
+  JiraUser,
+  ProcessedIssue,
+} from '../types.js';
+import { calculateStatusDurations, type StatusChange } from './issue-processor.js';
+import dayjs, { type Dayjs } from 'dayjs';
+
+/**
+ * Process a Jira issue and its changelog into a ProcessedIssue with history tracking
+ * Status, assignee, labels and resolution changes become history items of the same
+ * types the ProjectV2 processor produces, so status durations are computed the same way
+ *
+ * @param issue - Issue from the Jira search API
+ * @param histories - Complete changelog of the issue (any order)
+ * @param toDate - End date for the duration of the current status
+ * @param baseUrl - Jira site root, used to build the issue URL
+ * @returns ProcessedIssue with normalized history and duration tracking
+ */
+export function processJiraIssue(
+  issue: JiraIssue,
+  histories: JiraChangelogHistory[],
+  toDate: Dayjs,
+  baseUrl: string
+): ProcessedIssue {
+  const processedIssue: ProcessedIssue = {
+    id: issue.id,
+    number: issueNumber(issue.key),
+    title: issue.fields.summary || 'Untitled',
+    url: `${baseUrl.replace(/\/+$/, '')}/browse/${issue.key}`,
+    status: issue.fields.status?.name || 'unknown',
+    assignees: issue.fields.assignee ? [jiraUserName(issue.fields.assignee)] : [],
+    labels: issue.fields.labels || [],
+    updatedAt: issue.fields.updated,
+    history: [],
+    statusDurations: [],
+  };
+
+  const statusHistory: StatusChange[] = [];
+  const sorted = [...histories].sort((a, b) => dayjs(a.created).diff(dayjs(b.created)));
+
+  for (const history of sorted) {
+    const base = { who: jiraUserName(history.author), when: history.created };
+
+    history.items.forEach((item, index) => {
+      const id = `${history.id}-${index}`;
+      const field = item.field.toLowerCase();
+
+      if (field === 'status') {
+        statusHistory.push({
+          id,
+          status: item.toString || 'unknown',
+          previousStatus: item.fromString || undefined,
+          ...base,
+        });
+      } else {
+        processedIssue.history.push(...processChangelogItem(item, id, base));
+      }
+    });
+  }
+
+  // The status held before the first recorded move (or still held) started at creation
+  const initialStatus = statusHistory[0]?.previousStatus ?? issue.fields.status?.name;
+  if (initialStatus) {
+    statusHistory.unshift({
+      status: initialStatus,
+      when: issue.fields.created,
+      who: jiraUserName(issue.fields.reporter),
+      initial: true,
+    });
+  }
+
+  for (let i = 1; i < statusHistory.length; i++) {
+    const current = statusHistory[i];
+    const previous = statusHistory[i - 1];
+
+    processedIssue.history.push({
+      id: current.id,
+      type: 'status',
+      action: 'moved',
+      value: current.status,
+      previousValue: current.previousStatus ?? previous.status,
+      who: current.who,
+      when: current.when,
+      // Time spent in the previous status before this move
+      durationMs: dayjs(current.when).diff(dayjs(previous.when)),
+    });
+  }
+
+  processedIssue.statusDurations = calculateStatusDurations(statusHistory, toDate);
+
+  // Sort history by date
+  processedIssue.history.sort((a, b) => dayjs(a.when).diff(dayjs(b.when)));
+
+  return processedIssue;
+}
+
+/**
+ * Convert one non-status changelog item into history items
+ * A reassignment yields an unassignment and an assignment, a label edit one item per label
+ */
+function processChangelogItem(
+  item: JiraChangelogItem,
+  id: string,
+  base: { who: string; when: string }
+): IssueHistoryItem[] {
+  switch (item.field.toLowerCase()) {
+    case 'assignee': {
+      const items: IssueHistoryItem[] = [];
+      if (item.fromString) {
+        items.push({
+          ...base,
+          id: `${id}-unassigned`,
+          type: 'assignment',
+          action: 'unassigned',
+          value: item.fromString,
+        });
+      }
+      if (item.toString) {
+        items.push({
+          ...base,
+          id: `${id}-assigned`,
+          type: 'assignment',
+          action: 'assigned',
+          value: item.toString,
+        });
+      }
+      return items;
+    }
+
+    case 'labels': {
+      // Labels are recorded as space-separated before/after lists
+      const before = splitLabels(item.fromString);
+      const after = splitLabels(item.toString);
+      return [
+        ...after
+          .filter((label) => !before.includes(label))
+          .map((label) => ({
+            ...base,
+            id: `${id}-labeled-${label}`,
+            type: 'label',
+            action: 'labeled',
+            value: label,
+          })),
+        ...before
+          .filter((label) => !after.includes(label))
+          .map((label) => ({
+            ...base,
+            id: `${id}-unlabeled-${label}`,
+            type: 'label',
+            action: 'unlabeled',
+            value: label,
+          })),
+      ];
+    }
+
+    case 'resolution':
+      // Setting a resolution closes the issue, clearing it reopens it
+      return [
+        item.toString
+          ? { ...base, id, type: 'state_change', action: 'closed', value: item.toString }
+          : { ...base, id, type: 'state_change', action: 'reopened', value: 'open' },
+      ];
+
+    default:
+      return [];
+  }
+}
+
+function splitLabels(value: string | null): string[] {
+  return value ? value.split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Name used as activity author for a Jira user (display name, as used in changelog values)
+ */
+export function jiraUserName(user: JiraUser | null | undefined): string {
+  return user?.displayName || user?.name || user?.accountId || 'unknown';
+}
+
+/**
+ * Numeric part of an issue key (PROJ-123 -> 123)
+ */
+function issueNumber(key: string): number {
+  return parseInt(key.slice(key.lastIndexOf('-') + 1), 10) || 0;
+}
@@ -0,0 +1,181 @@
+import type { PullRequestInfo } from '../types.js';
+import {
+  analyzePRReviewPatterns,
+  calculatePRMetrics,
+  calculatePRWorkingTimeMetrics,
+} from './pr-processor.js';
+import { median, summarizeDurations, toSeconds, type DurationSummary } from './statistics.js';
+import type { WorkingCalendars } from './working-time.js';
+
+/**
+ * A wait measured both on the wall clock and in working time, in seconds
+ */
+export interface DurationPair {
+  wallClockSeconds?: number;
+  workingSeconds?: number;
+}
+
+/**
+ * Review activity of a single reviewer
+ */
+export interface ReviewerEngagement {
+  reviewCount: number;
+  commentCount: number;
+}
+
+/**
+ * Metrics for a single pull request
+ */
+export interface PRMetricsRow {
+  repository: string;
+  number: number;
+  title: string;
+  url: string;
+  author: string;
+  createdAt: string;
+  closedAt?: string;
+  timeToFirstReview: DurationPair;
+  timeToApproval: DurationPair;
+  timeToMerge: DurationPair;
+  reviewCycles: number;
+  totalComments: number;
+  uniqueReviewers: number;
+  hasBackAndForth: boolean;
+  reviewerEngagement: Record<string, ReviewerEngagement>;
+}
+
+/**
+ * Distribution of a wait across a group of pull requests
+ */
+export interface DurationPairSummary {
+  wallClock: DurationSummary;
+  working: DurationSummary;
+}
+
+/**
+ * Aggregated metrics for a group of pull requests (an author or a repository)
+ */
+export interface PRMetricsGroup {
+  key: string;
+  prCount: number;
+  timeToFirstReview: DurationPairSummary;
+  timeToApproval: DurationPairSummary;
+  timeToMerge: DurationPairSummary;
+  reviewCycles: { total: number; median?: number };
+  totalComments: number;
+  reviewerEngagement: Record<string, ReviewerEngagement>;
+}
+
+/**
+ * Build the metrics row for a processed pull request
+ *
+ * @param pr - The processed pull request info
+ * @param repository - Repository identifier (owner/name)
+ * @param calendars - Working calendars of the reviewers and authors
+ */
+export function buildPRMetricsRow(
+  pr: PullRequestInfo,
+  repository: string,
+  calendars: WorkingCalendars
+): PRMetricsRow {
+  const metrics = calculatePRMetrics(pr);
+  const working = calculatePRWorkingTimeMetrics(pr, calendars);
+  const patterns = analyzePRReviewPatterns(pr);
+
+  const reviewerEngagement: Record<string, ReviewerEngagement> = {};
+  for (const [reviewer, stats] of Object.entries(patterns.reviewerEngagement)) {
+    reviewerEngagement[reviewer] = {
+      reviewCount: stats.reviewCount,
+      commentCount: stats.commentCount,
+    };
+  }
+
+  return {
+    repository,
+    number: pr.number,
+    title: pr.title,
+    url: pr.url,
+    author: pr.author,
+    createdAt: pr.createdAt,
+    closedAt: pr.closedAt,
+    timeToFirstReview: {
+      wallClockSeconds: toSeconds(metrics.timeToFirstReview),
+      workingSeconds: toSeconds(working.timeToFirstReview),
+    },
+    timeToApproval: {
+      wallClockSeconds: toSeconds(metrics.timeToApproval),
+      workingSeconds: toSeconds(working.timeToApproval),
+    },
+    timeToMerge: {
+      wallClockSeconds: toSeconds(metrics.timeToMerge),
+      workingSeconds: toSeconds(working.timeToMerge),
+    },
+    reviewCycles: metrics.reviewCycles,
+    totalComments: metrics.totalComments,
+    uniqueReviewers: metrics.uniqueReviewers,
+    hasBackAndForth: patterns.hasBackAndForth,
+    reviewerEngagement,
+  };
+}
+
+/**
+ * Group PR metrics rows and compute medians and p90s per group
+ *
+ * @param rows - Per-PR metrics
+ * @param keyOf - Grouping key (e.g. author or repository)
+ * @returns Groups sorted by PR count, largest first
+ */
+export function summarizePRMetrics(
+  rows: PRMetricsRow[],
+  keyOf: (row: PRMetricsRow) => string
+): PRMetricsGroup[] {
+  const groups = new Map<string, PRMetricsRow[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, groupRows]) => ({
+      key,
+      prCount: groupRows.length,
+      timeToFirstReview: summarizePair(groupRows.map((r) => r.timeToFirstReview)),
+      timeToApproval: summarizePair(groupRows.map((r) => r.timeToApproval)),
+      timeToMerge: summarizePair(groupRows.map((r) => r.timeToMerge)),
+      reviewCycles: {
+        total: groupRows.reduce((sum, r) => sum + r.reviewCycles, 0),
+        median: median(groupRows.map((r) => r.reviewCycles)),
+      },
+      totalComments: groupRows.reduce((sum, r) => sum + r.totalComments, 0),
+      reviewerEngagement: mergeEngagement(groupRows),
+    }))
+    .sort((a, b) => b.prCount - a.prCount || a.key.localeCompare(b.key));
+}
+
+function summarizePair(pairs: DurationPair[]): DurationPairSummary {
+  return {
+    wallClock: summarizeDurations(pairs.map((p) => secondsToMs(p.wallClockSeconds))),
+    working: summarizeDurations(pairs.map((p) => secondsToMs(p.workingSeconds))),
+  };
+}
+
+function secondsToMs(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * 1000;
+}
+
+function mergeEngagement(rows: PRMetricsRow[]): Record<string, ReviewerEngagement> {
+  const merged: Record<string, ReviewerEngagement> = {};
+  for (const row of rows) {
+    for (const [reviewer, stats] of Object.entries(row.reviewerEngagement)) {
+      merged[reviewer] = merged[reviewer] || { reviewCount: 0, commentCount: 0 };
+      merged[reviewer].reviewCount += stats.reviewCount;
+      merged[reviewer].commentCount += stats.commentCount;
+    }
+  }
+  return merged;
+}
@@ -1,5 +1,20 @@
-import type { PullRequestNode, PullRequestInfo, ReviewInfo, CommentInfo } from '../types.js';
+import type {
+  PullRequestNode,
+  PullRequestInfo,
+  PullRequestEventInfo,
+  ReviewInfo,
+  CommentInfo,
+} from '../types.js';
 import dayjs, { type Dayjs } from 'dayjs';
+import {
+  calculateWorkingTime,
+  getDefaultWorkingCalendars,
+  resolveWorkingCalendar,
+  type WorkingCalendars,
+} from './working-time.js';
+
+// GitHub records a ClosedEvent alongside the MergedEvent of a merge
+const MERGE_CLOSE_TOLERANCE_MS = 5000;
 
 /**
  * Process a PullRequestNode from GitHub GraphQL API into a normalized PullRequestInfo
@@ -23,6 +38,7 @@ export function processPR(pr: PullRequestNode, toDate: Dayjs): PullRequestInfo {
     for (const review of pr.reviews.nodes) {
       if (review.author?.login) {
         reviews.push({
+          id: review.id,
           who: review.author.login,
           when: review.createdAt,
           state: review.state.toLowerCase(),
@@ -40,6 +56,7 @@ export function processPR(pr: PullRequestNode, toDate: Dayjs): PullRequestInfo {
     for (const comment of pr.comments.nodes) {
       if (comment.author?.login) {
         comments.push({
+          id: comment.id,
           who: comment.author.login,
           when: comment.createdAt,
           text: comment.body || '',
@@ -55,6 +72,7 @@ export function processPR(pr: PullRequestNode, toDate: Dayjs): PullRequestInfo {
         for (const comment of thread.comments.nodes) {
           if (comment.author?.login) {
             comments.push({
+              id: comment.id,
               who: comment.author.login,
               when: comment.createdAt,
               text: comment.body || '',
@@ -70,6 +88,8 @@ export function processPR(pr: PullRequestNode, toDate: Dayjs): PullRequestInfo {
   
   // Sort reviews by date
   reviews.sort((a, b) => dayjs(a.when).diff(dayjs(b.when)));
+
+  const events = processPREvents(pr);
   
   // Check if there are any "changes requested" reviews
   const requestChangesReviews = reviews.filter(r => 
@@ -83,21 +103,90 @@ export function processPR(pr: PullRequestNode, toDate: Dayjs): PullRequestInfo {
   } : undefined;
   
   return {
+    id: pr.id,
     number: pr.number,
     title: pr.title,
     url: pr.url,
     createdAt: pr.createdAt,
     closedAt: pr.closedAt,
+    state: pr.state || (pr.merged ? 'MERGED' : pr.closedAt ? 'CLOSED' : 'OPEN'),
+    merged: pr.merged ?? false,
+    mergedAt: pr.mergedAt || undefined,
+    mergedBy: pr.mergedBy?.login,
+    isDraft: pr.isDraft ?? false,
+    baseBranch: pr.baseRefName,
+    headBranch: pr.headRefName,
+    mergeCommit: pr.mergeCommit?.oid,
+    labels: pr.labels?.nodes.map((label) => label.name) || [],
     changedFiles: pr.changedFiles,
     author: pr.author?.login || 'unknown',
     reviews,
     comments,
+    events,
     isRequestChanges,
     requestedChangesBy,
     lifetimeMs,
   };
 }
 
+/**
+ * Extract lifecycle events (merge, close without merge, ready for review, review requests)
+ * and commits from a PullRequestNode, oldest first
+ *
+ * @param pr - The PullRequestNode from GitHub's GraphQL API
+ * @returns Normalized events; the ClosedEvent that accompanies a merge is dropped
+ */
+export function processPREvents(pr: PullRequestNode): PullRequestEventInfo[] {
+  const events: PullRequestEventInfo[] = [];
+  const mergedAt = pr.mergedAt ? dayjs(pr.mergedAt) : null;
+
+  for (const event of pr.timelineItems?.nodes || []) {
+    const base = { id: event.id, who: event.actor?.login || 'unknown', when: event.createdAt };
+
+    switch (event.__typename) {
+      case 'MergedEvent':
+        events.push({ ...base, type: 'merged' });
+        break;
+      case 'ClosedEvent':
+        if (
+          mergedAt &&
+          Math.abs(dayjs(event.createdAt).diff(mergedAt)) <= MERGE_CLOSE_TOLERANCE_MS
+        ) {
+          break;
+        }
+        events.push({ ...base, type: 'closed' });
+        break;
+      case 'ReadyForReviewEvent':
+        events.push({ ...base, type: 'ready_for_review' });
+        break;
+      case 'ReviewRequestedEvent':
+        events.push({
+          ...base,
+          type: 'review_requested',
+          requestedReviewer: event.requestedReviewer?.login || event.requestedReviewer?.name,
+        });
+        break;
+    }
+  }
+
+  for (const node of pr.commits?.nodes || []) {
+    const { commit } = node;
+    events.push({
+      id: node.id,
+      type: 'commit',
+      who: commit.author?.user?.login || commit.author?.name || 'unknown',
+      when: commit.committedDate,
+      commit: {
+        oid: commit.oid,
+        message: commit.messageHeadline,
+        authorEmail: commit.author?.email,
+      },
+    });
+  }
+
+  return events.sort((a, b) => dayjs(a.when).diff(dayjs(b.when)));
+}
+
 /**
  * Calculate PR metrics for analysis
  * 
@@ -113,7 +202,6 @@ export function calculatePRMetrics(pr: PullRequestInfo): {
   uniqueReviewers: number;
 } {
   const createdAt = dayjs(pr.createdAt);
-  const closedAt = pr.closedAt ? dayjs(pr.closedAt) : null;
   
   // Time to first review
   const firstReview = pr.reviews.length > 0 ? dayjs(pr.reviews[0].when) : null;
@@ -123,8 +211,9 @@ export function calculatePRMetrics(pr: PullRequestInfo): {
   const firstApproval = pr.reviews.find(r => r.state === 'approved');
   const timeToApproval = firstApproval ? dayjs(firstApproval.when).diff(createdAt) : undefined;
   
-  // Time to merge/close
-  const timeToMerge = closedAt ? closedAt.diff(createdAt) : undefined;
+  // Time to merge (PRs closed without merging have none)
+  const mergedAt = pr.mergedAt ? dayjs(pr.mergedAt) : null;
+  const timeToMerge = mergedAt ? mergedAt.diff(createdAt) : undefined;
   
   // Count review cycles (changes requested followed by new commits/reviews)
   let reviewCycles = 0;
@@ -156,6 +245,37 @@ export function calculatePRMetrics(pr: PullRequestInfo): {
   };
 }
 
+/**
+ * Calculate the waits from calculatePRMetrics counted in working time only
+ *
+ * Each wait is counted in the calendar of whoever it is waiting on: time to first review
+ * in the first reviewer's, time to approval in the approver's, and time to merge in the
+ * author's.
+ *
+ * @param pr - The processed pull request info
+ * @param calendars - Working calendars used to discount nights, weekends and holidays
+ * @returns Object containing working-time durations in milliseconds
+ */
+export function calculatePRWorkingTimeMetrics(
+  pr: PullRequestInfo,
+  calendars: WorkingCalendars = getDefaultWorkingCalendars()
+): {
+  timeToFirstReview?: number;
+  timeToApproval?: number;
+  timeToMerge?: number;
+} {
+  const firstReview = pr.reviews[0];
+  const firstApproval = pr.reviews.find((r) => r.state === 'approved');
+  const waitFor = (end: string, person: string): number =>
+    calculateWorkingTime(pr.createdAt, end, resolveWorkingCalendar(calendars, person));
+
+  return {
+    timeToFirstReview: firstReview ? waitFor(firstReview.when, firstReview.who) : undefined,
+    timeToApproval: firstApproval ? waitFor(firstApproval.when, firstApproval.who) : undefined,
+    timeToMerge: pr.mergedAt ? waitFor(pr.mergedAt, pr.author) : undefined,
+  };
+}
+
 /**
  * Analyze PR review patterns for insights
  * 
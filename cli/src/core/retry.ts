@@ -0,0 +1,68 @@
+/**
+ * Retry policy for transient failures
+ */
+export interface RetryOptions {
+  retries: number; // Retries after the first attempt
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /**
+   * Whether the error is transient and the call should be retried
+   */
+  shouldRetry: (error: unknown) => boolean;
+  /**
+   * Server-requested delay (e.g. Retry-After), used instead of the backoff when present
+   */
+  retryAfterMs?: (error: unknown) => number | undefined;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Omit<RetryOptions, 'shouldRetry'> = {
+  retries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * min(maxDelayMs, baseDelayMs * 2^attempt), so concurrent clients spread out
+ *
+ * @param attempt - Zero-based retry number
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Run an async operation, retrying transient failures with backoff
+ *
+ * @param operation - The call to run; receives the zero-based attempt number
+ * @param options - Retry policy; shouldRetry is required, the rest defaults to DEFAULT_RETRY_OPTIONS
+ * @throws The last error when it is not retryable or retries are exhausted
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: Partial<RetryOptions> & Pick<RetryOptions, 'shouldRetry'>
+): Promise<T> {
+  const policy: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.retries || !policy.shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs =
+        policy.retryAfterMs?.(error) ??
+        backoffDelay(attempt, policy.baseDelayMs, policy.maxDelayMs);
+      policy.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
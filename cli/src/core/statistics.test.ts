@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  median,
+  percentile,
+  summarizeDurations,
+  summarizePercentiles,
+  toSeconds,
+} from './statistics.js';
+
+describe('percentile', () => {
+  it('interpolates linearly between the closest ranks', () => {
+    // Ranks 0..3; p25 falls at rank 0.75, p90 at rank 2.7
+    const values = [40, 10, 30, 20];
+
+    assert.equal(percentile(values, 25), 17.5);
+    assert.equal(percentile(values, 90), 37);
+  });
+
+  it('returns the extremes at p0 and p100 and clamps beyond them', () => {
+    const values = [7, 3, 9, 1];
+
+    assert.equal(percentile(values, 0), 1);
+    assert.equal(percentile(values, 100), 9);
+    assert.equal(percentile(values, -5), 1);
+    assert.equal(percentile(values, 150), 9);
+  });
+
+  it('returns the only value of a single sample at any percentile', () => {
+    assert.equal(percentile([42], 0), 42);
+    assert.equal(percentile([42], 90), 42);
+  });
+
+  it('returns undefined for an empty sample', () => {
+    assert.equal(percentile([], 50), undefined);
+  });
+
+  it('leaves the input unsorted', () => {
+    const values = [3, 1, 2];
+    percentile(values, 50);
+
+    assert.deepEqual(values, [3, 1, 2]);
+  });
+});
+
+describe('median', () => {
+  it('takes the middle value of an odd-length sample', () => {
+    assert.equal(median([5, 1, 3]), 3);
+  });
+
+  it('averages the two middle values of an even-length sample', () => {
+    assert.equal(median([4, 1, 3, 2]), 2.5);
+  });
+
+  it('returns undefined for an empty sample', () => {
+    assert.equal(median([]), undefined);
+  });
+});
+
+describe('summarizeDurations', () => {
+  it('reports whole seconds and ignores missing and negative durations', () => {
+    const summary = summarizeDurations([1000, undefined, 3000, -500, 2000, 10_000]);
+
+    // Seconds 1, 2, 3, 10: median at rank 1.5, p90 at rank 2.7
+    assert.deepEqual(summary, { count: 4, medianSeconds: 3, p90Seconds: 8 });
+  });
+
+  it('counts nothing for an empty sample', () => {
+    assert.deepEqual(summarizeDurations([undefined]), {
+      count: 0,
+      medianSeconds: undefined,
+      p90Seconds: undefined,
+    });
+  });
+});
+
+describe('summarizePercentiles', () => {
+  it('keys each requested percentile by name', () => {
+    const summary = summarizePercentiles([0, 60_000, 120_000, undefined], [0, 50, 85, 100]);
+
+    assert.deepEqual(summary, {
+      count: 3,
+      percentiles: { p0: 0, p50: 60, p85: 102, p100: 120 },
+    });
+  });
+
+  it('leaves percentiles of an empty sample undefined', () => {
+    assert.deepEqual(summarizePercentiles([], [50]), {
+      count: 0,
+      percentiles: { p50: undefined },
+    });
+  });
+});
+
+describe('toSeconds', () => {
+  it('rounds milliseconds to whole seconds and keeps undefined', () => {
+    assert.equal(toSeconds(1499), 1);
+    assert.equal(toSeconds(1500), 2);
+    assert.equal(toSeconds(undefined), undefined);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Percentile of a list of numbers using linear interpolation between closest ranks
+ *
+ * @param values - Sample values (need not be sorted)
+ * @param p - Percentile between 0 and 100
+ * @returns The percentile value, or undefined for an empty sample
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) {
+    return undefined;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number | undefined {
+  return percentile(values, 50);
+}
+
+/**
+ * Summary of a sample of durations, in seconds
+ */
+export interface DurationSummary {
+  count: number;
+  medianSeconds?: number;
+  p90Seconds?: number;
+}
+
+/**
+ * Summarize durations given in milliseconds, ignoring missing values
+ */
+export function summarizeDurations(durationsMs: (number | undefined)[]): DurationSummary {
+  const seconds = durationsMs
+    .filter((ms): ms is number => typeof ms === 'number' && ms >= 0)
+    .map((ms) => ms / 1000);
+
+  return {
+    count: seconds.length,
+    medianSeconds: roundSeconds(median(seconds)),
+    p90Seconds: roundSeconds(percentile(seconds, 90)),
+  };
+}
+
+/**
+ * Chosen percentiles of a sample of durations, in seconds
+ */
+export interface PercentileSummary {
+  count: number;
+  percentiles: Record<string, number | undefined>; // Keyed p50, p85, ...
+}
+
+/**
+ * Summarize durations given in milliseconds at the given percentiles, ignoring missing values
+ */
+export function summarizePercentiles(
+  durationsMs: (number | undefined)[],
+  percentiles: number[]
+): PercentileSummary {
+  const seconds = durationsMs
+    .filter((ms): ms is number => typeof ms === 'number' && ms >= 0)
+    .map((ms) => ms / 1000);
+
+  return {
+    count: seconds.length,
+    percentiles: Object.fromEntries(
+      percentiles.map((p) => [`p${p}`, roundSeconds(percentile(seconds, p))])
+    ),
+  };
+}
+
+/**
+ * Convert milliseconds to whole seconds, keeping undefined
+ */
+export function toSeconds(ms: number | undefined): number | undefined {
+  return ms === undefined ? undefined : Math.round(ms / 1000);
+}
+
+function roundSeconds(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : Math.round(seconds);
+}
@@ -1,21 +1,78 @@
 import dayjs from 'dayjs';
 import isBetween from 'dayjs/plugin/isBetween.js';
 import weekOfYear from 'dayjs/plugin/weekOfYear.js';
+import utc from 'dayjs/plugin/utc.js';
+import timezone from 'dayjs/plugin/timezone.js';
 
 dayjs.extend(isBetween);
 dayjs.extend(weekOfYear);
+dayjs.extend(utc);
+dayjs.extend(timezone);
 
 export interface WorkingTimeConfig {
-  startHour: number; // e.g. 9
+  startHour: number; // e.g. 9 (fractions allowed, 8.5 = 08:30)
   endHour: number; // e.g. 17
   workingDays: number[]; // e.g. [1, 2, 3, 4, 5] (Mon-Fri)
   holidays: string[]; // e.g. ['2026-01-01']
+  timezone?: string; // IANA name, e.g. 'Europe/Berlin'; the process timezone when unset
+  lunchStartHour?: number; // e.g. 12; no break when unset
+  lunchEndHour?: number; // e.g. 13
+  customHours?: CustomWorkingHours[]; // Half days and other dates with their own hours
+  timeOff?: TimeOff[]; // Partial days off, e.g. timed leave from an ICS file
+}
+
+/**
+ * Hours of a single date that differ from the regular ones
+ * Takes precedence over holidays and working days, so it can also make a weekend a working day
+ */
+export interface CustomWorkingHours {
+  date: string; // YYYY-MM-DD
+  startHour?: number; // Regular startHour when unset
+  endHour?: number; // Regular endHour when unset, e.g. 13 for a half day
+}
+
+/**
+ * A period not worked, as absolute instants
+ */
+export interface TimeOff {
+  start: string; // ISO timestamp
+  end: string; // ISO timestamp, exclusive
+  reason?: string;
+}
+
+/**
+ * Working calendar settings a region, team or person overrides
+ * Days off (holidays, customHours, timeOff) add up across layers, other settings replace
+ */
+export type WorkingCalendarOverrides = Partial<WorkingTimeConfig>;
+
+export interface TeamCalendar extends WorkingCalendarOverrides {
+  region?: string; // Region whose public holidays the team observes
+  members: string[]; // Logins, git author names or emails
+}
+
+export interface PersonCalendar extends WorkingCalendarOverrides {
+  region?: string; // Overrides the team's region
+  team?: string; // Team whose calendar this person's settings override
+  aliases: string[]; // Other logins, names or emails of the same person
+}
+
+/**
+ * Working calendars of a whole organization
+ * A person's calendar is the default, overridden by their region's, their team's and their own
+ */
+export interface WorkingCalendars {
+  default: WorkingTimeConfig;
+  defaultRegion?: string; // Region of people whose team and entry name none
+  regions: Record<string, WorkingCalendarOverrides>;
+  teams: Record<string, TeamCalendar>;
+  people: Record<string, PersonCalendar>;
 }
 
 export const getWorkingTimeConfig = (): WorkingTimeConfig => {
   return {
-    startHour: parseInt(process.env.WORKING_START_HOUR || '9', 10),
-    endHour: parseInt(process.env.WORKING_END_HOUR || '17', 10),
+    startHour: parseFloat(process.env.WORKING_START_HOUR || '9'),
+    endHour: parseFloat(process.env.WORKING_END_HOUR || '17'),
     workingDays: (process.env.WORKING_DAYS || '1,2,3,4,5')
       .split(',')
       .map((v) => parseInt(v.trim(), 10)),
@@ -23,12 +80,90 @@ export const getWorkingTimeConfig = (): WorkingTimeConfig => {
       .split(',')
       .map((v) => v.trim())
       .filter(Boolean),
+    timezone: process.env.WORKING_TIMEZONE || undefined,
+    lunchStartHour: process.env.WORKING_LUNCH_START_HOUR
+      ? parseFloat(process.env.WORKING_LUNCH_START_HOUR)
+      : undefined,
+    lunchEndHour: process.env.WORKING_LUNCH_END_HOUR
+      ? parseFloat(process.env.WORKING_LUNCH_END_HOUR)
+      : undefined,
   };
 };
 
+/**
+ * Calendars where everyone works the hours configured in the environment
+ */
+export function getDefaultWorkingCalendars(): WorkingCalendars {
+  return { default: getWorkingTimeConfig(), regions: {}, teams: {}, people: {} };
+}
+
+/**
+ * Resolve the working calendar of a person
+ *
+ * The person is matched case-insensitively by name or alias, their team by the person's
+ * `team` or by team membership. Unknown people get the default calendar (and region).
+ *
+ * @param calendars - Organization calendars
+ * @param person - Login, git author name or email
+ */
+export function resolveWorkingCalendar(
+  calendars: WorkingCalendars,
+  person: string | undefined
+): WorkingTimeConfig {
+  if (!person) return calendars.default;
+
+  const wanted = person.trim().toLowerCase();
+  const matches = (names: string[]): boolean => names.some((n) => n.toLowerCase() === wanted);
+
+  const personEntry = Object.entries(calendars.people).find(([name, entry]) =>
+    matches([name, ...entry.aliases])
+  );
+  const names = (personEntry ? [personEntry[0], ...personEntry[1].aliases] : [wanted]).map((n) =>
+    n.toLowerCase()
+  );
+  const teamName =
+    personEntry?.[1].team ??
+    Object.keys(calendars.teams).find((name) =>
+      calendars.teams[name].members.some((m) => names.includes(m.toLowerCase()))
+    );
+  const team = teamName ? calendars.teams[teamName] : undefined;
+  const regionName = personEntry?.[1].region ?? team?.region ?? calendars.defaultRegion;
+  const region = regionName ? calendars.regions[regionName] : undefined;
+
+  const layers = [region, team, personEntry?.[1]].filter(
+    (layer): layer is WorkingCalendarOverrides => layer !== undefined
+  );
+  return layers.reduce<WorkingTimeConfig>(
+    (config, layer) => ({
+      ...config,
+      ...calendarOverrides(layer),
+      holidays: [...config.holidays, ...(layer.holidays ?? [])],
+      customHours: [...(config.customHours ?? []), ...(layer.customHours ?? [])],
+      timeOff: [...(config.timeOff ?? []), ...(layer.timeOff ?? [])],
+    }),
+    calendars.default
+  );
+}
+
+const CALENDAR_KEYS: (keyof WorkingTimeConfig)[] = [
+  'startHour',
+  'endHour',
+  'workingDays',
+  'timezone',
+  'lunchStartHour',
+  'lunchEndHour',
+];
+
+function calendarOverrides(entry: WorkingCalendarOverrides): WorkingCalendarOverrides {
+  return Object.fromEntries(
+    CALENDAR_KEYS.filter((key) => entry[key] !== undefined).map((key) => [key, entry[key]])
+  );
+}
+
 /**
  * Calculates working time between two dates in milliseconds.
- * Iterates through days and calculates overlaps with working hours.
+ * Iterates through calendar days in the config's timezone and sums the overlap with its
+ * working hours (or the date's custom hours), minus the lunch break and time off.
  */
 export function calculateWorkingTime(
   start: string | Date | dayjs.Dayjs,
@@ -40,37 +175,131 @@ export function calculateWorkingTime(
 
   if (endDate.isBefore(startDate)) return 0;
 
+  const lastDay = localDate(endDate, config.timezone);
+  const timeOff = mergeTimeOff(config.timeOff ?? [], startDate, endDate);
   let totalMs = 0;
-  let current = startDate;
+  let day = localDate(startDate, config.timezone);
 
-  // Iterate day by day
-  while (current.isBefore(endDate) || current.isSame(endDate, 'day')) {
+  // Iterate day by day; dates are compared as YYYY-MM-DD strings
+  while (day <= lastDay) {
+    const custom = config.customHours?.find((c) => c.date === day);
     const isWorkingDay =
-      config.workingDays.includes(current.day()) &&
-      !config.holidays.includes(current.format('YYYY-MM-DD'));
+      custom !== undefined ||
+      (config.workingDays.includes(dayjs(day).day()) && !config.holidays.includes(day));
 
     if (isWorkingDay) {
-      const dayStart = current.startOf('day').add(config.startHour, 'hour');
-      const dayEnd = current.startOf('day').add(config.endHour, 'hour');
+      const hours = {
+        ...config,
+        startHour: custom?.startHour ?? config.startHour,
+        endHour: custom?.endHour ?? config.endHour,
+      };
+      for (const [from, to] of workingPeriods(hours)) {
+        const periodStart = atHour(day, from, config.timezone);
+        const periodEnd = atHour(day, to, config.timezone);
 
-      const overlapStart = current.isAfter(dayStart) ? current : dayStart;
-      const overlapEnd = endDate.isBefore(dayEnd) ? endDate : dayEnd;
+        const overlapStart = startDate.isAfter(periodStart) ? startDate : periodStart;
+        const overlapEnd = endDate.isBefore(periodEnd) ? endDate : periodEnd;
 
-      if (overlapStart.isBefore(overlapEnd)) {
-        totalMs += overlapEnd.diff(overlapStart);
+        if (overlapStart.isBefore(overlapEnd)) {
+          totalMs += overlapEnd.diff(overlapStart) - overlapMs(timeOff, overlapStart, overlapEnd);
+        }
       }
     }
 
-    // Move to next day start
-    const nextDay = current.add(1, 'day').startOf('day');
+    day = dayjs(day).add(1, 'day').format('YYYY-MM-DD');
+  }
+
+  return totalMs;
+}
 
-    // If we are already at the end date's day, and we've processed it, we can stop
-    if (current.isSame(endDate, 'day')) break;
+/**
+ * Whether an instant falls within working time: a working day's hours (or the date's custom
+ * hours) in the config's timezone, outside the lunch break, holidays and time off
+ */
+export function isWorkingTime(
+  instant: string | Date | dayjs.Dayjs,
+  config: WorkingTimeConfig = getWorkingTimeConfig()
+): boolean {
+  const start = dayjs(instant);
+  return calculateWorkingTime(start, start.add(1, 'second'), config) > 0;
+}
 
-    current = nextDay;
+/**
+ * Working hours of a day as [from, to] hour pairs, split around the lunch break
+ */
+export function workingPeriods(config: WorkingTimeConfig): [number, number][] {
+  const { startHour, endHour, lunchStartHour, lunchEndHour } = config;
+  if (
+    lunchStartHour === undefined ||
+    lunchEndHour === undefined ||
+    lunchEndHour <= lunchStartHour
+  ) {
+    return [[startHour, endHour]];
   }
+  return [
+    [startHour, Math.min(lunchStartHour, endHour)],
+    [Math.max(lunchEndHour, startHour), endHour],
+  ];
+}
 
-  return totalMs;
+/**
+ * Time off overlapping [start, end], sorted and with overlapping periods merged
+ */
+function mergeTimeOff(
+  timeOff: TimeOff[],
+  start: dayjs.Dayjs,
+  end: dayjs.Dayjs
+): [dayjs.Dayjs, dayjs.Dayjs][] {
+  const periods = timeOff
+    .map((t): [dayjs.Dayjs, dayjs.Dayjs] => [dayjs(t.start), dayjs(t.end)])
+    .filter(([from, to]) => from.isBefore(end) && to.isAfter(start))
+    .sort(([a], [b]) => a.diff(b));
+
+  const merged: [dayjs.Dayjs, dayjs.Dayjs][] = [];
+  for (const [from, to] of periods) {
+    const last = merged[merged.length - 1];
+    if (last && !from.isAfter(last[1])) {
+      if (to.isAfter(last[1])) last[1] = to;
+    } else {
+      merged.push([from, to]);
+    }
+  }
+  return merged;
+}
+
+function overlapMs(
+  periods: [dayjs.Dayjs, dayjs.Dayjs][],
+  start: dayjs.Dayjs,
+  end: dayjs.Dayjs
+): number {
+  let total = 0;
+  for (const [from, to] of periods) {
+    const overlapStart = from.isAfter(start) ? from : start;
+    const overlapEnd = to.isBefore(end) ? to : end;
+    if (overlapStart.isBefore(overlapEnd)) total += overlapEnd.diff(overlapStart);
+  }
+  return total;
+}
+
+function localDate(date: dayjs.Dayjs, timezone: string | undefined): string {
+  return (timezone ? date.tz(timezone) : date).format('YYYY-MM-DD');
+}
+
+/**
+ * The instant a wall-clock hour of a date occurs in a timezone (DST-aware)
+ */
+function atHour(date: string, hour: number, timezone: string | undefined): dayjs.Dayjs {
+  const minutes = Math.round(hour * 60);
+  if (minutes >= 24 * 60) {
+    // An end hour of 24 is midnight of the next day
+    return atHour(dayjs(date).add(1, 'day').format('YYYY-MM-DD'), hour - 24, timezone);
+  }
+  const time = `${date} ${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+  return timezone ? dayjs.tz(time, timezone) : dayjs(time);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
 }
 
 export function formatWorkingDuration(ms: number): string {
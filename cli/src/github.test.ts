@@ -0,0 +1,102 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GitHubClient } from './github.js';
+import { startStubServer, type StubServer } from './testing/stub-server.js';
+
+const review = (n: number): Record<string, unknown> => ({
+  id: `PRR_${n}`,
+  author: { login: 'bob' },
+  createdAt: `2026-03-0${n}T10:00:00Z`,
+  state: 'COMMENTED',
+  body: `Review ${n}`,
+});
+
+const commit = (n: number): Record<string, unknown> => ({
+  id: `PRC_${n}`,
+  commit: {
+    oid: `${n}`.repeat(40),
+    messageHeadline: `Change ${n}`,
+    committedDate: `2026-03-0${n}T09:00:00Z`,
+    author: { name: 'Alice', email: 'alice@example.com', user: { login: 'alice' } },
+  },
+});
+
+const PULL_REQUEST = {
+  id: 'PR_kwDOA1',
+  number: 42,
+  title: 'Add rate limiting',
+  url: 'https://github.com/acme/api/pull/42',
+  createdAt: '2026-03-01T08:00:00Z',
+  updatedAt: '2026-03-05T10:00:00Z',
+  state: 'OPEN',
+  changedFiles: 3,
+  author: { login: 'alice' },
+  // First reviews and last commits, each with one more page
+  reviews: {
+    totalCount: 3,
+    pageInfo: { hasNextPage: true, endCursor: 'R2' },
+    nodes: [review(1), review(2)],
+  },
+  commits: {
+    totalCount: 3,
+    pageInfo: { hasPreviousPage: true, startCursor: 'C2' },
+    nodes: [commit(2), commit(3)],
+  },
+  comments: { totalCount: 0, pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] },
+};
+
+describe('GitHubClient.fetchPullRequests', () => {
+  let server: StubServer;
+
+  before(async () => {
+    server = await startStubServer((request) => {
+      const { query, variables } = JSON.parse(request.body);
+      if (query.includes('pullRequests(')) {
+        return {
+          body: {
+            data: {
+              repository: {
+                pullRequests: {
+                  pageInfo: { hasNextPage: false, endCursor: 'P1' },
+                  nodes: [structuredClone(PULL_REQUEST)],
+                },
+              },
+            },
+          },
+        };
+      }
+      if (query.includes('reviews(first: 100, after: $cursor')) {
+        assert.deepEqual(variables, { id: 'PR_kwDOA1', cursor: 'R2' });
+        const page = { hasNextPage: false, endCursor: 'R3', hasPreviousPage: true };
+        return { body: { data: { node: { reviews: { pageInfo: page, nodes: [review(3)] } } } } };
+      }
+      if (query.includes('commits(last: 100, before: $cursor')) {
+        assert.deepEqual(variables, { id: 'PR_kwDOA1', cursor: 'C2' });
+        const page = { hasNextPage: true, hasPreviousPage: false, startCursor: 'C1' };
+        return { body: { data: { node: { commits: { pageInfo: page, nodes: [commit(1)] } } } } };
+      }
+      return { status: 400, body: { message: `unexpected query ${query}` } };
+    });
+  });
+
+  after(() => server.close());
+
+  it('pages nested connections the first query cut short, in their order', async () => {
+    const client = new GitHubClient('ghp_test', { baseUrl: server.url, maxRetries: 0 });
+
+    const result = await client.fetchPullRequests({ owner: 'acme', repo: 'api' });
+
+    const [pr] = result.nodes;
+    assert.deepEqual(
+      pr.reviews?.nodes.map((r) => r.id),
+      ['PRR_1', 'PRR_2', 'PRR_3']
+    );
+    assert.deepEqual(
+      pr.commits?.nodes.map((c) => c.id),
+      ['PRC_1', 'PRC_2', 'PRC_3']
+    );
+    assert.deepEqual(result.warnings, []);
+    // One query for the page, one per connection continued
+    assert.equal(server.requests.length, 3);
+  });
+});
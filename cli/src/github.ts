@@ -1,20 +1,221 @@
 import { graphql } from '@octokit/graphql';
 import type {
+  DeploymentNode,
+  DeploymentsResponse,
+  FetchDeploymentsOptions,
   FetchIssuesOptions,
   FetchPRsOptions,
+  FetchRepoIssuesOptions,
+  GitHubRateLimit,
+  NestedConnection,
+  NestedConnectionResponse,
+  PaginatedResult,
   ProjectV2Item,
+  PullRequestNode,
+  ReleaseNode,
+  ReleasesResponse,
+  RepositoryIssueNode,
+  RepositoryIssuesResponse,
+  TimelineEvent,
+  TimelineItemsResponse,
   ViewerResponse,
-  PullRequestsResponse
+  PullRequestsResponse,
 } from './types.js';
 import dayjs from 'dayjs';
+import { sleep, withRetry } from './core/retry.js';
+
+export interface GitHubClientOptions {
+  baseUrl?: string; // GraphQL API root, e.g. for GitHub Enterprise (default https://api.github.com)
+  maxRetries?: number; // Retries per request for transient failures (default 5)
+  rateLimitReserve?: number; // Pause until reset when fewer points remain (default 50)
+}
+
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_RATE_LIMIT_RESERVE = 50;
+
+// GitHub asks clients hitting a secondary rate limit without Retry-After to wait at least a minute
+const SECONDARY_RATE_LIMIT_DELAY_MS = 60_000;
+
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+
+// Node fields of the nested connections, shared by the first query and the follow-up pages
+const PR_TIMELINE_ITEM_TYPES =
+  'MERGED_EVENT, CLOSED_EVENT, READY_FOR_REVIEW_EVENT, REVIEW_REQUESTED_EVENT';
+
+const PR_TIMELINE_EVENT_FIELDS = `
+  __typename
+  ... on Node { id }
+  ... on MergedEvent {
+    createdAt
+    actor { login }
+  }
+  ... on ClosedEvent {
+    createdAt
+    actor { login }
+  }
+  ... on ReadyForReviewEvent {
+    createdAt
+    actor { login }
+  }
+  ... on ReviewRequestedEvent {
+    createdAt
+    actor { login }
+    requestedReviewer {
+      ... on User { login }
+      ... on Mannequin { login }
+      ... on Team { name }
+    }
+  }
+`;
+
+const PR_COMMIT_FIELDS = `
+  id
+  commit {
+    oid
+    messageHeadline
+    committedDate
+    author {
+      name
+      email
+      user { login }
+    }
+  }
+`;
+
+const PR_REVIEW_FIELDS = `
+  id
+  author { login }
+  createdAt
+  state
+  body
+`;
+
+const PR_COMMENT_FIELDS = `
+  id
+  author { login }
+  createdAt
+  body
+`;
+
+const PR_REVIEW_THREAD_FIELDS = `
+  id
+  comments(first: 30) {
+    totalCount
+    pageInfo { hasNextPage endCursor }
+    nodes { ${PR_COMMENT_FIELDS} }
+  }
+`;
+
+const PROJECT_ISSUE_EVENT_FIELDS = `
+  __typename
+  ... on Node { id }
+  ... on LabeledEvent {
+    createdAt
+    actor { login }
+    label { name }
+  }
+  ... on MovedColumnsInProjectEvent {
+    createdAt
+    actor { login }
+    projectColumnName
+  }
+  ... on ClosedEvent {
+    createdAt
+    actor { login }
+  }
+  ... on ReopenedEvent {
+    createdAt
+    actor { login }
+  }
+  ... on AssignedEvent {
+    createdAt
+    actor { login }
+    assignee { ... on User { login } }
+  }
+  ... on UnassignedEvent {
+    createdAt
+    actor { login }
+    assignee { ... on User { login } }
+  }
+  ... on ProjectV2ItemStatusChangedEvent {
+    createdAt
+    actor { login }
+    previousStatus
+    status
+    project { number }
+  }
+`;
+
+const REPOSITORY_ISSUE_ITEM_TYPES =
+  'ISSUE_COMMENT, CLOSED_EVENT, REOPENED_EVENT, LABELED_EVENT, UNLABELED_EVENT, ASSIGNED_EVENT, UNASSIGNED_EVENT';
+
+const REPOSITORY_ISSUE_EVENT_FIELDS = `
+  __typename
+  ... on Node { id }
+  ... on IssueComment {
+    createdAt
+    author { login }
+    body
+    url
+  }
+  ... on ClosedEvent {
+    createdAt
+    actor { login }
+  }
+  ... on ReopenedEvent {
+    createdAt
+    actor { login }
+  }
+  ... on LabeledEvent {
+    createdAt
+    actor { login }
+    label { name }
+  }
+  ... on UnlabeledEvent {
+    createdAt
+    actor { login }
+    label { name }
+  }
+  ... on AssignedEvent {
+    createdAt
+    actor { login }
+    assignee { ... on User { login } }
+  }
+  ... on UnassignedEvent {
+    createdAt
+    actor { login }
+    assignee { ... on User { login } }
+  }
+`;
+
+/**
+ * Raised when pagination fails part-way after retries are exhausted
+ * The message names the last fetched cursor; nothing fetched so far is returned
+ */
+export class GitHubPaginationError extends Error {
+  constructor(
+    message: string,
+    readonly fetched: number,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'GitHubPaginationError';
+  }
+}
 
 export class GitHubClient {
   private token: string;
   private graphqlWithAuth: typeof graphql;
+  private maxRetries: number;
+  private rateLimitReserve: number;
+  private rateLimit?: GitHubRateLimit;
 
-  constructor(token: string) {
+  constructor(token: string, options: GitHubClientOptions = {}) {
     this.token = token;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.rateLimitReserve = options.rateLimitReserve ?? DEFAULT_RATE_LIMIT_RESERVE;
     this.graphqlWithAuth = graphql.defaults({
+      ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
       headers: {
         authorization: `token ${this.token}`,
         'GraphQL-Features': 'projects_v2_api',
@@ -22,9 +223,59 @@ export class GitHubClient {
     });
   }
 
+  /**
+   * Rate limit state reported by the most recent query, if any
+   */
+  getRateLimit(): GitHubRateLimit | undefined {
+    return this.rateLimit;
+  }
+
+  /**
+   * Run a GraphQL query, waiting out an exhausted rate limit first and
+   * retrying transient failures (5xx, secondary rate limits, timeouts) with jittered backoff
+   */
+  private async query<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    await this.waitForRateLimit();
+
+    const response = await withRetry(
+      () => this.graphqlWithAuth<T & { rateLimit?: GitHubRateLimit }>(query, variables),
+      {
+        retries: this.maxRetries,
+        shouldRetry: isRetryableGitHubError,
+        retryAfterMs: githubRetryAfterMs,
+        onRetry: (error, attempt, delayMs) => {
+          console.warn(
+            `GitHub request failed (${describeGitHubError(error)}), retry ${attempt}/${this.maxRetries} in ${Math.ceil(delayMs / 1000)}s`
+          );
+        },
+      }
+    );
+
+    if (response.rateLimit) {
+      this.rateLimit = response.rateLimit;
+    }
+    return response;
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    if (!this.rateLimit) return;
+
+    const { remaining, cost, resetAt } = this.rateLimit;
+    if (remaining >= Math.max(cost, this.rateLimitReserve)) return;
+
+    const waitMs = new Date(resetAt).getTime() - Date.now() + 1000;
+    if (waitMs > 0) {
+      console.warn(
+        `GitHub rate limit nearly exhausted (${remaining} points left), waiting ${Math.ceil(waitMs / 1000)}s until ${resetAt}`
+      );
+      await sleep(waitMs);
+    }
+    this.rateLimit = undefined;
+  }
+
   async getAuthenticatedUser(): Promise<string> {
     try {
-      const response: ViewerResponse = await this.graphqlWithAuth(`
+      const response = await this.query<ViewerResponse>(`
                 query {
                     viewer {
                         login
@@ -39,7 +290,7 @@ export class GitHubClient {
     }
   }
 
-  async fetchProjectItems(options: FetchIssuesOptions): Promise<ProjectV2Item[]> {
+  async fetchProjectItems(options: FetchIssuesOptions): Promise<PaginatedResult<ProjectV2Item>> {
     const { owner, projectNumber } = options;
 
     // We need to fetch the Organization or User first to get the ProjectV2 ID,
@@ -79,6 +330,7 @@ export class GitHubClient {
                 content {
                     ... on Issue {
                         __typename
+                        id
                         number
                         title
                         url
@@ -92,43 +344,9 @@ export class GitHubClient {
                             nodes { name color }
                         }
                         timelineItems(last: 100) {
-                             nodes {
-                                __typename
-                                ... on LabeledEvent {
-                                    createdAt
-                                    actor { login }
-                                    label { name }
-                                }
-                                ... on MovedColumnsInProjectEvent {
-                                    createdAt
-                                    actor { login }
-                                    projectColumnName
-                                }
-                                ... on ClosedEvent {
-                                    createdAt
-                                    actor { login }
-                                }
-                                ... on ReopenedEvent {
-                                    createdAt
-                                    actor { login }
-                                }
-                                ... on AssignedEvent {
-                                    createdAt
-                                    actor { login }
-                                    assignee { ... on User { login } }
-                                }
-                                ... on UnassignedEvent {
-                                    createdAt
-                                    actor { login }
-                                    assignee { ... on User { login } }
-                                }
-                                ... on ProjectV2ItemStatusChangedEvent {
-                                    createdAt
-                                    actor { login }
-                                    previousStatus
-                                    status
-                                }
-                             }
+                             totalCount
+                             pageInfo { hasPreviousPage startCursor }
+                             nodes { ${PROJECT_ISSUE_EVENT_FIELDS} }
                         }
                     }
                     ... on PullRequest {
@@ -158,6 +376,7 @@ export class GitHubClient {
                 ${itemsFragment}
               }
             }
+            rateLimit { cost limit remaining resetAt }
           }
         `;
 
@@ -168,151 +387,199 @@ export class GitHubClient {
                 ${itemsFragment}
               }
             }
+            rateLimit { cost limit remaining resetAt }
           }
         `;
 
     const allItems: ProjectV2Item[] = [];
+    const warnings: string[] = [];
     let hasNextPage = true;
     let cursor: string | null = null;
     let activeQuery = orgQuery;
-
-    // Initial check to determine query type and fetch first batch
-    // We do this loop structure to support pagination + retries/fallback logic
-
-    let loopCount = 0;
+    let pages = 0;
     let checkedUserFallback = false;
 
-    while (hasNextPage && loopCount < 100) {
-      loopCount++;
-
+    // Pages are fetched until GitHub reports no next page.
+    // Each request is retried on transient failures, so a page is never skipped.
+    while (hasNextPage) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let response: any;
       try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let response: any;
-        try {
-          response = await this.graphqlWithAuth(activeQuery, {
-            owner,
-            number: parseInt(String(projectNumber), 10),
-            cursor,
-            filterQuery: options.filter,
-          });
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        } catch (error: any) {
-          // Fallback logic: if Org query fails, and we haven't tried User yet, switch to User.
-          if (activeQuery === orgQuery && !checkedUserFallback) {
-            activeQuery = userQuery;
-            checkedUserFallback = true;
-            // Retry immediately
-            loopCount--; // Don't count this as a loop iteration
-            continue;
-          }
-          throw error;
-        }
-
-        // Extract project
-        let project;
-        if (response.organization) {
-          project = response.organization.projectV2;
-        } else if (response.user) {
-          project = response.user.projectV2;
-        }
-
-        // If query returned but field is null (e.g. Organization not found -> null)
-        // If using orgQuery and result is null/empty for organization?
-        if (activeQuery === orgQuery && !response.organization && !checkedUserFallback) {
+        response = await this.query(activeQuery, {
+          owner,
+          number: parseInt(String(projectNumber), 10),
+          cursor,
+          filterQuery: options.filter,
+        });
+      } catch (error: unknown) {
+        // Fallback logic: if Org query fails, and we haven't tried User yet, switch to User.
+        if (activeQuery === orgQuery && !checkedUserFallback && !isRetryableGitHubError(error)) {
           activeQuery = userQuery;
           checkedUserFallback = true;
-          loopCount--;
           continue;
         }
+        throw paginationError('project items', error, cursor, allItems.length, pages);
+      }
 
-        if (!project) {
-          throw new Error(`ProjectV2 not found for owner ${owner} and number ${projectNumber}`);
-        }
+      // If query returned but field is null (e.g. Organization not found -> null)
+      if (activeQuery === orgQuery && !response.organization && !checkedUserFallback) {
+        activeQuery = userQuery;
+        checkedUserFallback = true;
+        continue;
+      }
+
+      // Extract project
+      let project;
+      if (response.organization) {
+        project = response.organization.projectV2;
+      } else if (response.user) {
+        project = response.user.projectV2;
+      }
 
-        const items = project.items.nodes;
-        allItems.push(...items);
+      if (!project) {
+        throw new Error(`ProjectV2 not found for owner ${owner} and number ${projectNumber}`);
+      }
 
-        if (options.onProgress) {
-          options.onProgress(allItems.length);
+      const items: ProjectV2Item[] = project.items.nodes;
+      try {
+        for (const item of items) {
+          await this.completeConnection(item.content?.timelineItems, {
+            id: item.content?.id,
+            type: 'Issue',
+            field: 'timelineItems',
+            fields: PROJECT_ISSUE_EVENT_FIELDS,
+          });
         }
+      } catch (error: unknown) {
+        throw paginationError('project items', error, cursor, allItems.length, pages);
+      }
+      allItems.push(...items);
+      warnings.push(...items.flatMap(describeTruncatedItemConnections));
+      pages++;
 
-        hasNextPage = project.items.pageInfo.hasNextPage;
-        cursor = project.items.pageInfo.endCursor;
-      } catch (error) {
-        console.error('Error fetching project items:', error);
-        throw error;
+      if (options.onProgress) {
+        options.onProgress(allItems.length);
       }
+
+      hasNextPage = project.items.pageInfo.hasNextPage;
+      cursor = project.items.pageInfo.endCursor;
     }
 
-    return allItems;
+    return { nodes: allItems, pages, warnings };
   }
 
-  async fetchPullRequests(
-    options: FetchPRsOptions
-  ): Promise<PullRequestsResponse['repository']['pullRequests']['nodes']> {
+  /**
+   * Fetch pull requests by last update, newest first, stopping once a page reaches past `from`
+   * An old PR updated since then is included, so its merge or new reviews are not missed
+   */
+  async fetchPullRequests(options: FetchPRsOptions): Promise<PaginatedResult<PullRequestNode>> {
     const { owner, repo } = options;
 
     const query = `
           query($owner: String!, $repo: String!, $cursor: String) {
             repository(owner: $owner, name: $repo) {
-              pullRequests(first: 20, after: $cursor, orderBy: {field: CREATED_AT, direction: DESC}) {
+              pullRequests(first: 20, after: $cursor, orderBy: {field: UPDATED_AT, direction: DESC}) {
                 pageInfo {
                   hasNextPage
                   endCursor
                 }
                 nodes {
+                  id
                   number
                   title
                   url
                   createdAt
+                  updatedAt
                   closedAt
+                  state
+                  isDraft
+                  merged
+                  mergedAt
+                  mergedBy { login }
+                  baseRefName
+                  headRefName
+                  mergeCommit { oid }
                   changedFiles
                   author { login }
+                  labels(first: 20) {
+                    nodes { name }
+                  }
+                  timelineItems(last: 50, itemTypes: [${PR_TIMELINE_ITEM_TYPES}]) {
+                    totalCount
+                    pageInfo { hasPreviousPage startCursor }
+                    nodes { ${PR_TIMELINE_EVENT_FIELDS} }
+                  }
+                  commits(last: 100) {
+                    totalCount
+                    pageInfo { hasPreviousPage startCursor }
+                    nodes { ${PR_COMMIT_FIELDS} }
+                  }
                   reviews(first: 50) {
-                    nodes {
-                      author { login }
-                      createdAt
-                      state
-                      body
-                    }
+                    totalCount
+                    pageInfo { hasNextPage endCursor }
+                    nodes { ${PR_REVIEW_FIELDS} }
                   }
                   comments(first: 50) {
-                    nodes {
-                      author { login }
-                      createdAt
-                      body
-                    }
+                    totalCount
+                    pageInfo { hasNextPage endCursor }
+                    nodes { ${PR_COMMENT_FIELDS} }
                   }
                   reviewThreads(first: 30) {
-                    nodes {
-                      comments(first: 30) {
-                        nodes {
-                          author { login }
-                          createdAt
-                          body
-                        }
-                      }
-                    }
+                    totalCount
+                    pageInfo { hasNextPage endCursor }
+                    nodes { ${PR_REVIEW_THREAD_FIELDS} }
                   }
                 }
               }
             }
+            rateLimit { cost limit remaining resetAt }
           }
         `;
 
-    const allPRs: PullRequestsResponse['repository']['pullRequests']['nodes'] = [];
+    const allPRs: PullRequestNode[] = [];
+    const warnings: string[] = [];
     let hasNextPage = true;
     let cursor: string | null = null;
+    let pages = 0;
 
-    while (hasNextPage && allPRs.length < 500) {
-      const response: PullRequestsResponse = await this.graphqlWithAuth(query, {
-        owner,
-        repo,
-        cursor,
-      });
+    while (hasNextPage) {
+      let response: PullRequestsResponse;
+      try {
+        response = await this.query<PullRequestsResponse>(query, {
+          owner,
+          repo,
+          cursor,
+        });
+      } catch (error: unknown) {
+        throw paginationError(
+          `pull requests of ${owner}/${repo}`,
+          error,
+          cursor,
+          allPRs.length,
+          pages
+        );
+      }
 
       const prs = response.repository.pullRequests.nodes;
+      try {
+        for (const pr of prs) {
+          // PRs last updated before 'from' hold no activity to complete
+          if (!options.from || !dayjs(pr.updatedAt ?? pr.createdAt).isBefore(dayjs(options.from))) {
+            await this.completePullRequest(pr);
+          }
+        }
+      } catch (error: unknown) {
+        throw paginationError(
+          `pull requests of ${owner}/${repo}`,
+          error,
+          cursor,
+          allPRs.length,
+          pages
+        );
+      }
       allPRs.push(...prs);
+      warnings.push(...prs.flatMap(describeTruncatedPRConnections));
+      pages++;
 
       if (options.onProgress) {
         options.onProgress(allPRs.length);
@@ -321,15 +588,562 @@ export class GitHubClient {
       hasNextPage = response.repository.pullRequests.pageInfo.hasNextPage;
       cursor = response.repository.pullRequests.pageInfo.endCursor;
 
-      // Optional: Break early if PRs are older than 'from' date if specified
+      // PRs are ordered by last update, so later pages hold no activity since 'from'
       if (options.from && prs.length > 0) {
         const lastPR = prs[prs.length - 1];
-        if (dayjs(lastPR.createdAt).isBefore(dayjs(options.from))) {
-          hasNextPage = false;
+        if (dayjs(lastPR.updatedAt ?? lastPR.createdAt).isBefore(dayjs(options.from))) {
+          return { nodes: allPRs, pages, warnings };
         }
       }
     }
 
-    return allPRs;
+    return { nodes: allPRs, pages, warnings };
   }
+
+  /**
+   * Fetch issues of a repository directly, independent of any ProjectV2 board
+   * With `since`, only issues updated since then are returned, each with its timeline events
+   * (comments, closes, reopens, labels, assignments) since then
+   */
+  async fetchRepositoryIssues(
+    options: FetchRepoIssuesOptions
+  ): Promise<PaginatedResult<RepositoryIssueNode>> {
+    const { owner, repo } = options;
+
+    const query = `
+          query($owner: String!, $repo: String!, $cursor: String, $since: DateTime) {
+            repository(owner: $owner, name: $repo) {
+              issues(first: 50, after: $cursor, orderBy: {field: UPDATED_AT, direction: DESC}, filterBy: {since: $since}) {
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+                nodes {
+                  id
+                  number
+                  title
+                  url
+                  state
+                  createdAt
+                  updatedAt
+                  author { login }
+                  labels(first: 20) {
+                    nodes { name }
+                  }
+                  timelineItems(first: 100, since: $since, itemTypes: [${REPOSITORY_ISSUE_ITEM_TYPES}]) {
+                    pageInfo { hasNextPage endCursor }
+                    nodes { ${REPOSITORY_ISSUE_EVENT_FIELDS} }
+                  }
+                }
+              }
+            }
+            rateLimit { cost limit remaining resetAt }
+          }
+        `;
+
+    const allIssues: RepositoryIssueNode[] = [];
+    const warnings: string[] = [];
+    let hasNextPage = true;
+    let cursor: string | null = null;
+    let pages = 0;
+
+    while (hasNextPage) {
+      let response: RepositoryIssuesResponse;
+      try {
+        response = await this.query<RepositoryIssuesResponse>(query, {
+          owner,
+          repo,
+          cursor,
+          since: options.since ?? null,
+        });
+      } catch (error: unknown) {
+        throw paginationError(`issues of ${owner}/${repo}`, error, cursor, allIssues.length, pages);
+      }
+
+      if (!response.repository) {
+        throw new Error(`Repository ${owner}/${repo} not found`);
+      }
+
+      const issues = response.repository.issues.nodes;
+      try {
+        for (const issue of issues) {
+          await this.completeConnection(issue.timelineItems, {
+            id: issue.id,
+            type: 'Issue',
+            field: 'timelineItems',
+            args: [
+              ...(options.since ? [`since: ${JSON.stringify(options.since)}`] : []),
+              `itemTypes: [${REPOSITORY_ISSUE_ITEM_TYPES}]`,
+            ].join(', '),
+            fields: REPOSITORY_ISSUE_EVENT_FIELDS,
+          });
+        }
+      } catch (error: unknown) {
+        throw paginationError(`issues of ${owner}/${repo}`, error, cursor, allIssues.length, pages);
+      }
+      allIssues.push(...issues);
+      warnings.push(
+        ...issues
+          .filter((issue) => issue.timelineItems.pageInfo.hasNextPage)
+          .map(
+            (issue) =>
+              `Issue #${issue.number}: fetched only the first ${issue.timelineItems.nodes.length} timeline events`
+          )
+      );
+      pages++;
+
+      if (options.onProgress) {
+        options.onProgress(allIssues.length);
+      }
+
+      hasNextPage = response.repository.issues.pageInfo.hasNextPage;
+      cursor = response.repository.issues.pageInfo.endCursor;
+    }
+
+    return { nodes: allIssues, pages, warnings };
+  }
+
+  /**
+   * Fetch releases of a repository, newest first, including drafts and prereleases
+   */
+  async fetchReleases(options: FetchDeploymentsOptions): Promise<PaginatedResult<ReleaseNode>> {
+    const { owner, repo } = options;
+
+    const query = `
+          query($owner: String!, $repo: String!, $cursor: String) {
+            repository(owner: $owner, name: $repo) {
+              releases(first: 50, after: $cursor, orderBy: {field: CREATED_AT, direction: DESC}) {
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+                nodes {
+                  id
+                  name
+                  tagName
+                  url
+                  isDraft
+                  isPrerelease
+                  createdAt
+                  publishedAt
+                  author { login }
+                  tagCommit { oid }
+                }
+              }
+            }
+            rateLimit { cost limit remaining resetAt }
+          }
+        `;
+
+    const allReleases: ReleaseNode[] = [];
+    let hasNextPage = true;
+    let cursor: string | null = null;
+    let pages = 0;
+
+    while (hasNextPage) {
+      let response: ReleasesResponse;
+      try {
+        response = await this.query<ReleasesResponse>(query, { owner, repo, cursor });
+      } catch (error: unknown) {
+        throw paginationError(
+          `releases of ${owner}/${repo}`,
+          error,
+          cursor,
+          allReleases.length,
+          pages
+        );
+      }
+
+      if (!response.repository) {
+        throw new Error(`Repository ${owner}/${repo} not found`);
+      }
+
+      const releases = response.repository.releases.nodes;
+      allReleases.push(...releases);
+      pages++;
+
+      hasNextPage = response.repository.releases.pageInfo.hasNextPage;
+      cursor = response.repository.releases.pageInfo.endCursor;
+
+      if (options.from && releases.length > 0) {
+        const last = releases[releases.length - 1];
+        if (dayjs(last.createdAt).isBefore(dayjs(options.from))) {
+          return { nodes: allReleases, pages, warnings: [] };
+        }
+      }
+    }
+
+    return { nodes: allReleases, pages, warnings: [] };
+  }
+
+  /**
+   * Fetch deployments of a repository, newest first, each with its most recent statuses
+   */
+  async fetchDeployments(
+    options: FetchDeploymentsOptions
+  ): Promise<PaginatedResult<DeploymentNode>> {
+    const { owner, repo } = options;
+
+    const query = `
+          query($owner: String!, $repo: String!, $cursor: String, $environments: [String!]) {
+            repository(owner: $owner, name: $repo) {
+              deployments(first: 50, after: $cursor, environments: $environments, orderBy: {field: CREATED_AT, direction: DESC}) {
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+                nodes {
+                  id
+                  environment
+                  createdAt
+                  commitOid
+                  creator { login }
+                  ref { name }
+                  statuses(first: 20) {
+                    nodes {
+                      state
+                      createdAt
+                    }
+                  }
+                }
+              }
+            }
+            rateLimit { cost limit remaining resetAt }
+          }
+        `;
+
+    const allDeployments: DeploymentNode[] = [];
+    let hasNextPage = true;
+    let cursor: string | null = null;
+    let pages = 0;
+
+    while (hasNextPage) {
+      let response: DeploymentsResponse;
+      try {
+        response = await this.query<DeploymentsResponse>(query, {
+          owner,
+          repo,
+          cursor,
+          environments: options.environments ?? null,
+        });
+      } catch (error: unknown) {
+        throw paginationError(
+          `deployments of ${owner}/${repo}`,
+          error,
+          cursor,
+          allDeployments.length,
+          pages
+        );
+      }
+
+      if (!response.repository) {
+        throw new Error(`Repository ${owner}/${repo} not found`);
+      }
+
+      const deployments = response.repository.deployments.nodes;
+      allDeployments.push(...deployments);
+      pages++;
+
+      hasNextPage = response.repository.deployments.pageInfo.hasNextPage;
+      cursor = response.repository.deployments.pageInfo.endCursor;
+
+      if (options.from && deployments.length > 0) {
+        const last = deployments[deployments.length - 1];
+        if (dayjs(last.createdAt).isBefore(dayjs(options.from))) {
+          return {
+            nodes: allDeployments,
+            pages,
+            warnings: [],
+          };
+        }
+      }
+    }
+
+    return {
+      nodes: allDeployments,
+      pages,
+      warnings: [],
+    };
+  }
+
+  /**
+   * Page the nested connections of a pull request that its first query cut short
+   */
+  private async completePullRequest(pr: PullRequestNode): Promise<void> {
+    const target = { id: pr.id, type: 'PullRequest' };
+    await this.completeConnection(pr.timelineItems, {
+      ...target,
+      field: 'timelineItems',
+      args: `itemTypes: [${PR_TIMELINE_ITEM_TYPES}]`,
+      fields: PR_TIMELINE_EVENT_FIELDS,
+    });
+    await this.completeConnection(pr.commits, {
+      ...target,
+      field: 'commits',
+      fields: PR_COMMIT_FIELDS,
+    });
+    await this.completeConnection(pr.reviews, {
+      ...target,
+      field: 'reviews',
+      fields: PR_REVIEW_FIELDS,
+    });
+    await this.completeConnection(pr.comments, {
+      ...target,
+      field: 'comments',
+      fields: PR_COMMENT_FIELDS,
+    });
+    await this.completeConnection(pr.reviewThreads, {
+      ...target,
+      field: 'reviewThreads',
+      fields: PR_REVIEW_THREAD_FIELDS,
+    });
+    for (const thread of pr.reviewThreads?.nodes ?? []) {
+      await this.completeConnection(thread.comments, {
+        id: thread.id,
+        type: 'PullRequestReviewThread',
+        field: 'comments',
+        fields: PR_COMMENT_FIELDS,
+      });
+    }
+  }
+
+  /**
+   * Fetch the rest of a nested connection, 100 nodes per request, into `connection`:
+   * after its nodes when it was read with `first:`, before them when read with `last:`
+   * A node deleted meanwhile leaves the connection short, as the truncation warnings then report
+   */
+  private async completeConnection<T>(
+    connection: NestedConnection<T> | undefined,
+    target: NestedConnectionTarget
+  ): Promise<void> {
+    const pageInfo = connection?.pageInfo;
+    if (!connection || !pageInfo || !target.id) return;
+
+    const query = (backward: boolean): string => `
+          query($id: ID!, $cursor: String) {
+            node(id: $id) {
+              ... on ${target.type} {
+                ${target.field}(${backward ? 'last: 100, before' : 'first: 100, after'}: $cursor${target.args ? `, ${target.args}` : ''}) {
+                  pageInfo { hasNextPage endCursor hasPreviousPage startCursor }
+                  nodes { ${target.fields} }
+                }
+              }
+            }
+            rateLimit { cost limit remaining resetAt }
+          }
+        `;
+
+    while (pageInfo.hasNextPage || pageInfo.hasPreviousPage) {
+      const backward = !pageInfo.hasNextPage;
+      const response = await this.query<NestedConnectionResponse<T>>(query(backward), {
+        id: target.id,
+        cursor: backward ? pageInfo.startCursor : pageInfo.endCursor,
+      });
+      const page = response.node?.[target.field];
+      if (!page?.pageInfo) return;
+
+      if (backward) {
+        connection.nodes.unshift(...page.nodes);
+        pageInfo.hasPreviousPage = page.pageInfo.hasPreviousPage;
+        pageInfo.startCursor = page.pageInfo.startCursor;
+      } else {
+        connection.nodes.push(...page.nodes);
+        pageInfo.hasNextPage = page.pageInfo.hasNextPage;
+        pageInfo.endCursor = page.pageInfo.endCursor;
+      }
+    }
+  }
+
+  /**
+   * Latest timeline events of one type on an issue or pull request, oldest first
+   * Used to find the node ID and time of an event a webhook delivery reports without them
+   *
+   * @param subjectId - Node ID of the issue or pull request
+   * @param itemType - Timeline item type, e.g. MERGED_EVENT or LABELED_EVENT
+   */
+  async fetchTimelineEvents(subjectId: string, itemType: string): Promise<TimelineEvent[]> {
+    const events = `
+          nodes {
+            __typename
+            ... on Node { id }
+            ... on MergedEvent { createdAt actor { login } }
+            ... on ClosedEvent { createdAt actor { login } }
+            ... on ReopenedEvent { createdAt actor { login } }
+            ... on ReadyForReviewEvent { createdAt actor { login } }
+            ... on ReviewRequestedEvent {
+              createdAt
+              actor { login }
+              requestedReviewer {
+                ... on User { login }
+                ... on Mannequin { login }
+                ... on Team { name }
+              }
+            }
+            ... on LabeledEvent { createdAt actor { login } label { name } }
+            ... on UnlabeledEvent { createdAt actor { login } label { name } }
+            ... on AssignedEvent { createdAt actor { login } assignee { ... on User { login } } }
+            ... on UnassignedEvent { createdAt actor { login } assignee { ... on User { login } } }
+            ... on ProjectV2ItemStatusChangedEvent {
+              createdAt
+              actor { login }
+              previousStatus
+              status
+              project { number }
+            }
+          }`;
+    const query = `
+          query($id: ID!, $issueTypes: [IssueTimelineItemsItemType!], $prTypes: [PullRequestTimelineItemsItemType!]) {
+            node(id: $id) {
+              ... on Issue {
+                timelineItems(last: 20, itemTypes: $issueTypes) { ${events} }
+              }
+              ... on PullRequest {
+                timelineItems(last: 20, itemTypes: $prTypes) { ${events} }
+              }
+            }
+            rateLimit { cost limit remaining resetAt }
+          }
+        `;
+
+    const response = await this.query<TimelineItemsResponse>(query, {
+      id: subjectId,
+      issueTypes: [itemType],
+      prTypes: [itemType],
+    });
+    return response.node?.timelineItems?.nodes ?? [];
+  }
+}
+
+/**
+ * Nested connection to continue: the field on the node with this ID and type, and its node fields
+ */
+interface NestedConnectionTarget {
+  id?: string;
+  type: string;
+  field: string;
+  args?: string; // Arguments besides the page size and cursor, e.g. itemTypes
+  fields: string;
+}
+
+function paginationError(
+  what: string,
+  error: unknown,
+  cursor: string | null,
+  fetched: number,
+  pages: number
+): GitHubPaginationError {
+  return new GitHubPaginationError(
+    `Failed to fetch ${what} after ${pages} pages (${fetched} nodes, cursor ${cursor ?? 'start'}): ${describeGitHubError(error)}`,
+    fetched,
+    error
+  );
+}
+
+/**
+ * Report nested connections that returned fewer nodes than they contain
+ */
+function describeTruncatedPRConnections(pr: PullRequestNode): string[] {
+  const warnings: string[] = [];
+  const check = (name: string, connection?: { totalCount?: number; nodes: unknown[] }): void => {
+    if (connection?.totalCount !== undefined && connection.totalCount > connection.nodes.length) {
+      warnings.push(
+        `PR #${pr.number}: fetched ${connection.nodes.length} of ${connection.totalCount} ${name}`
+      );
+    }
+  };
+
+  check('reviews', pr.reviews);
+  check('comments', pr.comments);
+  check('lifecycle events', pr.timelineItems);
+  check('commits', pr.commits);
+  check('review threads', pr.reviewThreads);
+  pr.reviewThreads?.nodes.forEach((thread) => check('review thread comments', thread.comments));
+  return warnings;
+}
+
+function describeTruncatedItemConnections(item: ProjectV2Item): string[] {
+  const timeline = item.content?.timelineItems;
+  if (timeline?.totalCount !== undefined && timeline.totalCount > timeline.nodes.length) {
+    return [
+      `Issue #${item.content.number}: fetched the last ${timeline.nodes.length} of ${timeline.totalCount} timeline events`,
+    ];
+  }
+  return [];
+}
+
+interface GitHubErrorLike {
+  status?: number;
+  message?: string;
+  code?: string;
+  headers?: Record<string, string | number | undefined>;
+  response?: { headers?: Record<string, string | number | undefined> };
+  errors?: { type?: string; message?: string }[];
+}
+
+function errorHeaders(error: GitHubErrorLike): Record<string, string | number | undefined> {
+  return error.response?.headers || error.headers || {};
+}
+
+function isSecondaryRateLimit(error: GitHubErrorLike): boolean {
+  return (
+    (error.status === 403 || error.status === 429) &&
+    /secondary rate limit|abuse/i.test(error.message || '')
+  );
+}
+
+function isPrimaryRateLimit(error: GitHubErrorLike): boolean {
+  return (
+    !!error.errors?.some((e) => e.type === 'RATE_LIMITED') ||
+    ((error.status === 403 || error.status === 429) &&
+      String(errorHeaders(error)['x-ratelimit-remaining']) === '0')
+  );
+}
+
+/**
+ * Whether a GitHub error is transient: server errors, timeouts, network failures or rate limits
+ */
+export function isRetryableGitHubError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const err = error as GitHubErrorLike;
+
+  if (isPrimaryRateLimit(err) || isSecondaryRateLimit(err)) return true;
+  if (err.status !== undefined && RETRYABLE_STATUSES.includes(err.status)) return true;
+  if (err.code && /^(ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|EPIPE|UND_ERR_)/.test(err.code)) {
+    return true;
+  }
+
+  // GraphQL resolver timeouts come back as errors without a type
+  return !!err.errors?.some(
+    (e) => !e.type && /timeout|something went wrong/i.test(e.message || '')
+  );
+}
+
+/**
+ * Delay requested by GitHub: Retry-After, the rate limit reset time, or a minute for secondary limits
+ */
+function githubRetryAfterMs(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined;
+  const err = error as GitHubErrorLike;
+  const headers = errorHeaders(err);
+
+  const retryAfter = Number(headers['retry-after']);
+  if (retryAfter > 0) {
+    return retryAfter * 1000;
+  }
+
+  if (isPrimaryRateLimit(err)) {
+    const reset = Number(headers['x-ratelimit-reset']);
+    if (reset > 0) {
+      return Math.max(reset * 1000 - Date.now(), 0) + 1000;
+    }
+  }
+
+  return isSecondaryRateLimit(err) ? SECONDARY_RATE_LIMIT_DELAY_MS : undefined;
+}
+
+function describeGitHubError(error: unknown): string {
+  if (typeof error !== 'object' || error === null) return String(error);
+  const err = error as GitHubErrorLike;
+  const message = err.message || 'Unknown error';
+  return err.status ? `${err.status} ${message}` : message;
 }
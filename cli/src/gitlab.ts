@@ -0,0 +1,208 @@
+import type {
+  GitLabCommit,
+  GitLabIssue,
+  GitLabLabelEvent,
+  GitLabMergeRequest,
+  GitLabNote,
+  GitLabStateEvent,
+} from './types.js';
+import { withRetry } from './core/retry.js';
+
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+export interface GitLabClientOptions {
+  maxRetries?: number; // Retries per request for transient failures (default 5)
+  perPage?: number; // Page size, up to 100 (default 100)
+}
+
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_PER_PAGE = 100;
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const MAX_ERROR_BODY_LENGTH = 300;
+
+/**
+ * Raised for non-2xx GitLab API responses
+ */
+export class GitLabApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'GitLabApiError';
+  }
+}
+
+/**
+ * Date window for list endpoints that filter on updated_at
+ */
+export interface GitLabUpdatedRange {
+  updatedAfter?: string;
+  updatedBefore?: string;
+}
+
+/**
+ * Minimal GitLab REST API (v4) client for merge requests, issues and their events
+ * Works with gitlab.com and self-hosted instances
+ */
+export class GitLabClient {
+  private apiUrl: string;
+  private maxRetries: number;
+  private perPage: number;
+
+  /**
+   * @param baseUrl - Instance root, e.g. https://gitlab.example.com (the /api/v4 suffix is optional)
+   * @param token - Personal, project or group access token with read_api scope
+   */
+  constructor(
+    baseUrl: string,
+    private readonly token: string,
+    options: GitLabClientOptions = {}
+  ) {
+    const root = baseUrl.replace(/\/+$/, '');
+    this.apiUrl = root.endsWith('/api/v4') ? root : `${root}/api/v4`;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.perPage = options.perPage ?? DEFAULT_PER_PAGE;
+  }
+
+  async fetchMergeRequests(
+    project: string,
+    range: GitLabUpdatedRange = {}
+  ): Promise<GitLabMergeRequest[]> {
+    return this.getAll(`${projectPath(project)}/merge_requests`, {
+      scope: 'all',
+      state: 'all',
+      order_by: 'updated_at',
+      sort: 'desc',
+      updated_after: range.updatedAfter,
+      updated_before: range.updatedBefore,
+    });
+  }
+
+  async fetchMergeRequestNotes(project: string, iid: number): Promise<GitLabNote[]> {
+    return this.getAll(`${projectPath(project)}/merge_requests/${iid}/notes`, {
+      sort: 'asc',
+      order_by: 'created_at',
+    });
+  }
+
+  async fetchMergeRequestCommits(project: string, iid: number): Promise<GitLabCommit[]> {
+    return this.getAll(`${projectPath(project)}/merge_requests/${iid}/commits`);
+  }
+
+  async fetchIssues(project: string, range: GitLabUpdatedRange = {}): Promise<GitLabIssue[]> {
+    return this.getAll(`${projectPath(project)}/issues`, {
+      scope: 'all',
+      state: 'all',
+      order_by: 'updated_at',
+      sort: 'desc',
+      updated_after: range.updatedAfter,
+      updated_before: range.updatedBefore,
+    });
+  }
+
+  async fetchIssueNotes(project: string, iid: number): Promise<GitLabNote[]> {
+    return this.getAll(`${projectPath(project)}/issues/${iid}/notes`, {
+      sort: 'asc',
+      order_by: 'created_at',
+    });
+  }
+
+  async fetchIssueLabelEvents(project: string, iid: number): Promise<GitLabLabelEvent[]> {
+    return this.getAll(`${projectPath(project)}/issues/${iid}/resource_label_events`);
+  }
+
+  async fetchIssueStateEvents(project: string, iid: number): Promise<GitLabStateEvent[]> {
+    return this.getAll(`${projectPath(project)}/issues/${iid}/resource_state_events`);
+  }
+
+  /**
+   * Fetch every page of a list endpoint, following the x-next-page header
+   */
+  private async getAll<T>(
+    path: string,
+    params: Record<string, string | undefined> = {}
+  ): Promise<T[]> {
+    const all: T[] = [];
+    let page: string | null = '1';
+
+    while (page) {
+      const response: { body: T[]; nextPage: string | null } = await this.get<T[]>(path, {
+        ...params,
+        per_page: String(this.perPage),
+        page,
+      });
+      all.push(...response.body);
+      page = response.nextPage;
+    }
+
+    return all;
+  }
+
+  /**
+   * GET a JSON resource, retrying rate limits (429) and server errors with jittered backoff
+   */
+  private async get<T>(
+    path: string,
+    params: Record<string, string | undefined>
+  ): Promise<{ body: T; nextPage: string | null }> {
+    const url = new URL(`${this.apiUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+
+    return withRetry(
+      async () => {
+        const response = await fetch(url, {
+          headers: { 'PRIVATE-TOKEN': this.token, Accept: 'application/json' },
+        });
+
+        if (!response.ok) {
+          const retryAfter = Number(response.headers.get('retry-after'));
+          const detail = (await response.text()).slice(0, MAX_ERROR_BODY_LENGTH);
+          throw new GitLabApiError(
+            response.status,
+            `GitLab API ${response.status} ${response.statusText} for ${url.pathname}: ${detail}`,
+            retryAfter > 0 ? retryAfter * 1000 : undefined
+          );
+        }
+
+        return {
+          body: (await response.json()) as T,
+          nextPage: response.headers.get('x-next-page') || null,
+        };
+      },
+      {
+        retries: this.maxRetries,
+        shouldRetry: isRetryableGitLabError,
+        retryAfterMs: (error) => (error instanceof GitLabApiError ? error.retryAfterMs : undefined),
+        onRetry: (error, attempt, delayMs) => {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.warn(
+            `GitLab request failed (${reason}), retry ${attempt}/${this.maxRetries} in ${Math.ceil(delayMs / 1000)}s`
+          );
+        },
+      }
+    );
+  }
+}
+
+/**
+ * Whether a GitLab request failure is transient: rate limits, server errors or network failures
+ */
+export function isRetryableGitLabError(error: unknown): boolean {
+  if (error instanceof GitLabApiError) {
+    return RETRYABLE_STATUSES.includes(error.status);
+  }
+  // fetch() rejects with a TypeError on network failures
+  return error instanceof TypeError;
+}
+
+/**
+ * API path of a project given its numeric ID or full path (group/subgroup/project)
+ */
+function projectPath(project: string): string {
+  return `/projects/${encodeURIComponent(project)}`;
+}
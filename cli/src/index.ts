@@ -3,8 +3,17 @@ import { Command } from 'commander';
 import dotenv from 'dotenv';
 import { queryActivitiesCommand } from './commands/query-activities.js';
 import { syncActivitiesCommand } from './commands/sync-activities.js';
-
-dotenv.config();
+import { reportCommand } from './commands/report.js';
+import { identitiesCommand } from './commands/identities.js';
+import { migrateActivityKeysCommand } from './commands/migrate-activity-keys.js';
+import { serveCommand } from './commands/serve.js';
+import { webhookServerCommand } from './commands/webhook-server.js';
+import { digestCommand } from './commands/digest.js';
+import { statsCommand } from './commands/stats.js';
+import { heatmapCommand } from './commands/heatmap.js';
+
+// quiet: dotenv logs to stdout, which would corrupt exported data
+dotenv.config({ quiet: true });
 
 const program = new Command();
 
@@ -12,6 +21,14 @@ program.name('cli').description('Developer Activity Monitor CLI').version('1.0.0
 
 program.addCommand(queryActivitiesCommand);
 program.addCommand(syncActivitiesCommand);
+program.addCommand(reportCommand);
+program.addCommand(identitiesCommand);
+program.addCommand(migrateActivityKeysCommand);
+program.addCommand(serveCommand);
+program.addCommand(webhookServerCommand);
+program.addCommand(digestCommand);
+program.addCommand(statsCommand);
+program.addCommand(heatmapCommand);
 
 // Initialize database and register handlers before running commands
 async function main() {
@@ -1,25 +1,182 @@
-import { eq, and, gte, lte, desc, count, sql } from 'drizzle-orm';
 import { createHash } from 'crypto';
 import type { UserActivity } from '../types.js';
-import { getDb, isConnected } from './database.js';
-import { activities, type Activity, type NewActivity } from './schema.js';
+import type { IdentityRepository } from './identity-repository.js';
+import type { WatermarkRepository } from './watermark-repository.js';
+import type { WebhookDeliveryRepository } from './webhook-delivery-repository.js';
 
 export interface StoredActivity extends UserActivity {
   id: string;
+  uniqueKey: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface ActivityQueryOptions {
   author?: string;
+  authors?: string[]; // Any of these authors (case-insensitive), e.g. all aliases of a person
+  authorEmails?: string[]; // Commits whose meta.email is any of these (case-insensitive)
   repository?: string;
   type?: string;
+  pathPrefix?: string; // Commits changing a file under this path (meta.files)
   fromDate?: Date;
   toDate?: Date;
   limit?: number;
   offset?: number;
 }
 
+/**
+ * Calendar buckets of the activity date, in UTC
+ * Keys: day `YYYY-MM-DD`, week `YYYY-MM-DD` of its Monday, month `YYYY-MM`
+ */
+export type ActivityInterval = 'day' | 'week' | 'month';
+
+export const ACTIVITY_INTERVALS: ActivityInterval[] = ['day', 'week', 'month'];
+
+/**
+ * Columns or date buckets activities can be grouped by for counts
+ */
+export type ActivityGroupField = 'type' | 'author' | 'repository' | ActivityInterval;
+
+export const ACTIVITY_GROUP_FIELDS: ActivityGroupField[] = [
+  'type',
+  'author',
+  'repository',
+  ...ACTIVITY_INTERVALS,
+];
+
+/**
+ * Number of activities sharing one value of a grouped column, or falling in one date bucket
+ */
+export interface ActivityGroupCount {
+  key: string;
+  count: number;
+}
+
+export function isActivityInterval(field: ActivityGroupField): field is ActivityInterval {
+  return (ACTIVITY_INTERVALS as string[]).includes(field);
+}
+
+/**
+ * Unique key changes produced by the activity key migration
+ */
+export interface ActivityKeyChanges {
+  rekeyed: { id: string; uniqueKey: string }[];
+  deletedIds: string[];
+}
+
+/**
+ * Storage backend identifier
+ */
+export type StorageBackend = 'postgres' | 'sqlite' | 'memory';
+
+/**
+ * Storage abstraction for activities
+ *
+ * ActivityService and the CLI commands depend on this interface only, so the
+ * same sync/query pipeline runs against PostgreSQL, an embedded SQLite file or
+ * a throwaway in-memory store. Sync bookkeeping (watermarks, webhook deliveries) and
+ * identities live in the same store so they stay consistent with the activities they describe.
+ */
+export interface ActivityRepository
+  extends WatermarkRepository, IdentityRepository, WebhookDeliveryRepository {
+  /**
+   * Backend identifier, used for logging
+   */
+  readonly backend: StorageBackend;
+
+  /**
+   * Open the underlying connection and verify it is usable
+   * @returns true when the store is ready for queries
+   */
+  connect(): Promise<boolean>;
+
+  /**
+   * Release the underlying connection
+   */
+  close(): Promise<void>;
+
+  /**
+   * Run a trivial query to check the store is reachable
+   * @returns true when the query succeeded
+   */
+  ping(): Promise<boolean>;
+
+  /**
+   * Find activity by id
+   */
+  findById(id: string): Promise<StoredActivity | null>;
+
+  /**
+   * Find activity by unique key
+   */
+  findByUniqueKey(uniqueKey: string): Promise<StoredActivity | null>;
+
+  /**
+   * Save a single activity (insert or update if the unique key exists)
+   * @returns id of the stored row
+   */
+  saveActivity(activity: UserActivity, uniqueKey?: string): Promise<string>;
+
+  /**
+   * Save multiple activities with upsert logic
+   * @returns ids of the stored rows
+   */
+  saveActivities(
+    activities: UserActivity[],
+    generateKey?: (activity: UserActivity) => string
+  ): Promise<string[]>;
+
+  /**
+   * Find activities by various criteria, newest first
+   */
+  findActivities(options?: ActivityQueryOptions): Promise<StoredActivity[]>;
+
+  /**
+   * Count activities matching criteria
+   */
+  countActivities(options?: Omit<ActivityQueryOptions, 'limit' | 'offset'>): Promise<number>;
+
+  /**
+   * Iterate over every activity matching criteria, in findActivities order, with a database cursor
+   * Rows are fetched in batches so exports never hold the full result in memory
+   *
+   * @param batchSize - Rows fetched per round trip
+   */
+  streamActivities(
+    options?: Omit<ActivityQueryOptions, 'limit' | 'offset'>,
+    batchSize?: number
+  ): AsyncIterable<StoredActivity>;
+
+  /**
+   * Count activities matching criteria per value of a column, largest groups first,
+   * or per date bucket in chronological order (empty buckets are omitted)
+   */
+  countActivitiesBy(
+    field: ActivityGroupField,
+    options?: Omit<ActivityQueryOptions, 'limit' | 'offset'>
+  ): Promise<ActivityGroupCount[]>;
+
+  /**
+   * Delete duplicate rows and replace unique keys in a single transaction
+   */
+  applyKeyChanges(changes: ActivityKeyChanges): Promise<void>;
+}
+
+/**
+ * Normalized column values shared by all storage backends
+ */
+export interface ActivityRow {
+  uniqueKey: string;
+  type: string;
+  author: string;
+  activityDate: Date;
+  repository: string;
+  url: string | null;
+  title: string | null;
+  description: string | null;
+  meta: Record<string, unknown>;
+}
+
 /**
  * Generate a unique key for an activity
  * This is used for deduplication and upsert logic
@@ -83,25 +240,28 @@ export function generateActivityKey(activity: UserActivity): string {
 }
 
 /**
- * Convert UserActivity to NewActivity for database insertion
+ * Convert UserActivity to an ActivityRow for insertion
  * Validates and normalizes data before insertion
  */
-function toNewActivity(activity: UserActivity, uniqueKey: string): NewActivity {
+export function toActivityRow(activity: UserActivity, uniqueKey: string): ActivityRow {
   // Validate required fields
   if (!activity.type || !activity.author || !activity.date || !activity.repository) {
-    throw new Error(`Invalid activity: missing required fields. Type: ${activity.type}, Author: ${activity.author}, Date: ${activity.date}, Repository: ${activity.repository}`);
+    throw new Error(
+      `Invalid activity: missing required fields. Type: ${activity.type}, Author: ${activity.author}, Date: ${activity.date}, Repository: ${activity.repository}`
+    );
   }
 
   // Ensure uniqueKey is within limit
   const finalKey = uniqueKey.length > 500 ? uniqueKey.substring(0, 500) : uniqueKey;
-  
+
   // Ensure meta is always an object (not null or undefined)
   const meta = activity.meta && typeof activity.meta === 'object' ? activity.meta : {};
-  
+
   // Validate string lengths match schema constraints
   const type = activity.type.length > 50 ? activity.type.substring(0, 50) : activity.type;
   const author = activity.author.length > 255 ? activity.author.substring(0, 255) : activity.author;
-  const repository = activity.repository.length > 500 ? activity.repository.substring(0, 500) : activity.repository;
+  const repository =
+    activity.repository.length > 500 ? activity.repository.substring(0, 500) : activity.repository;
 
   return {
     uniqueKey: finalKey,
@@ -117,333 +277,72 @@ function toNewActivity(activity: UserActivity, uniqueKey: string): NewActivity {
 }
 
 /**
- * Convert database Activity to StoredActivity
+ * Convert a batch of activities into rows, de-duplicated by unique key
+ * Keeps the last occurrence of each unique key (most recent data)
  */
-function toStoredActivity(row: Activity): StoredActivity {
-  return {
-    id: row.id,
-    type: row.type as UserActivity['type'],
-    author: row.author,
-    date: row.activityDate.toISOString(),
-    repository: row.repository,
-    url: row.url || undefined,
-    title: row.title || undefined,
-    description: row.description || undefined,
-    meta: (row.meta || {}) as Record<string, unknown>,
-    createdAt: row.createdAt!,
-    updatedAt: row.updatedAt!,
-  };
-}
-
-/**
- * Find activity by unique key
- */
-export async function findByUniqueKey(uniqueKey: string): Promise<StoredActivity | null> {
-  const db = getDb();
-  if (!db || !isConnected()) {
-    throw new Error('Database not connected');
-  }
-
-  const [result] = await db
-    .select()
-    .from(activities)
-    .where(eq(activities.uniqueKey, uniqueKey))
-    .limit(1);
-
-  return result ? toStoredActivity(result) : null;
-}
-
-/**
- * Save a single activity to the database (insert or update if exists)
- * Uses upsert logic based on uniqueKey
- */
-export async function saveActivity(activity: UserActivity, uniqueKey?: string): Promise<string> {
-  const db = getDb();
-  if (!db || !isConnected()) {
-    throw new Error('Database not connected');
-  }
-
-  const key = uniqueKey || generateActivityKey(activity);
-  const newActivity = toNewActivity(activity, key);
-
-  try {
-    // Use PostgreSQL ON CONFLICT for upsert
-    const results = await db
-      .insert(activities)
-      .values(newActivity)
-      .onConflictDoUpdate({
-        target: activities.uniqueKey,
-        set: {
-          type: sql`EXCLUDED.type`,
-          author: sql`EXCLUDED.author`,
-          activityDate: sql`EXCLUDED.activity_date`,
-          repository: sql`EXCLUDED.repository`,
-          url: sql`EXCLUDED.url`,
-          title: sql`EXCLUDED.title`,
-          description: sql`EXCLUDED.description`,
-          meta: sql`EXCLUDED.meta`,
-          updatedAt: sql`NOW()`,
-        },
-      })
-      .returning({ id: activities.id });
-
-    if (!results || results.length === 0) {
+export function prepareActivityRows(
+  batch: UserActivity[],
+  keyGenerator: (activity: UserActivity) => string
+): ActivityRow[] {
+  const activitiesWithKeys = batch.map((activity) => {
+    try {
+      const uniqueKey = keyGenerator(activity);
+      return { activity, row: toActivityRow(activity, uniqueKey) };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown validation error';
       throw new Error(
-        `No result returned from database insert. ` +
-        `Activity: type=${activity.type}, author=${activity.author}, date=${activity.date}, repo=${activity.repository}, uniqueKey=${key}`
+        `Failed to prepare activity for insertion: ${errorMsg}. Activity: ${JSON.stringify(activity)}`
       );
     }
+  });
 
-    return results[0].id;
-  } catch (error) {
-    // Drizzle wraps PostgreSQL errors - extract the actual cause
-    const cause = error instanceof Error && 'cause' in error ? (error as Error & { cause: unknown }).cause : error;
-    const pgError = cause as { code?: string; detail?: string; constraint?: string; message?: string };
-    const errorCode = pgError.code ? ` [Code: ${pgError.code}]` : '';
-    const errorDetail = pgError.detail ? ` Detail: ${pgError.detail}` : '';
-    const errorConstraint = pgError.constraint ? ` Constraint: ${pgError.constraint}` : '';
-    const baseMessage = pgError.message || (error instanceof Error ? error.message : 'Unknown database error');
+  const uniqueRows = new Map<string, ActivityRow>();
+  for (const item of activitiesWithKeys) {
+    uniqueRows.set(item.row.uniqueKey, item.row);
+  }
 
-    throw new Error(
-      `Database error saving activity${errorCode}${errorConstraint}: ${baseMessage}${errorDetail}. ` +
-      `Activity: type=${activity.type}, author=${activity.author}, date=${activity.date}, repo=${activity.repository}, uniqueKey=${key}`
+  if (uniqueRows.size < activitiesWithKeys.length) {
+    const duplicateCount = activitiesWithKeys.length - uniqueRows.size;
+    console.warn(
+      `Deduplicated ${duplicateCount} activities within batch (had duplicate unique keys)`
     );
+    debugDuplicateKeys(activitiesWithKeys);
   }
+
+  return Array.from(uniqueRows.values());
 }
 
 /**
  * Debug function to identify duplicate activities
  * Helps understand why multiple activities generate the same unique key
  */
-function debugDuplicateKeys(activitiesWithKeys: Array<{ activity: UserActivity; uniqueKey: string; newActivity: NewActivity }>) {
-  const keyCount = new Map<string, { count: number; activities: UserActivity[] }>();
+function debugDuplicateKeys(
+  activitiesWithKeys: { activity: UserActivity; row: ActivityRow }[]
+): void {
+  const keyCount = new Map<string, UserActivity[]>();
 
-  // Count occurrences of each unique key
   for (const item of activitiesWithKeys) {
-    const existing = keyCount.get(item.uniqueKey);
+    const existing = keyCount.get(item.row.uniqueKey);
     if (existing) {
-      existing.count++;
-      existing.activities.push(item.activity);
+      existing.push(item.activity);
     } else {
-      keyCount.set(item.uniqueKey, { count: 1, activities: [item.activity] });
+      keyCount.set(item.row.uniqueKey, [item.activity]);
     }
   }
 
-  // Log duplicates
-  for (const [uniqueKey, data] of keyCount) {
-    if (data.count > 1) {
+  for (const [uniqueKey, duplicates] of keyCount) {
+    if (duplicates.length > 1) {
       console.warn(`Duplicate unique key found: ${uniqueKey}`);
-      console.warn(`Activities sharing this key (${data.count} total):`);
-      data.activities.forEach((activity, index) => {
-        console.warn(`  ${index + 1}. Type: ${activity.type}, Author: ${activity.author}, Date: ${activity.date}`);
-        console.warn(`     Repository: ${activity.repository}, Title: ${activity.title?.substring(0, 50)}...`);
+      console.warn(`Activities sharing this key (${duplicates.length} total):`);
+      duplicates.forEach((activity, index) => {
+        console.warn(
+          `  ${index + 1}. Type: ${activity.type}, Author: ${activity.author}, Date: ${activity.date}`
+        );
+        console.warn(
+          `     Repository: ${activity.repository}, Title: ${activity.title?.substring(0, 50)}...`
+        );
         console.warn(`     Meta: ${JSON.stringify(activity.meta)}`);
       });
     }
   }
 }
-
-/**
- * Save multiple activities in a batch with upsert logic
- * Uses ON CONFLICT to update existing activities
- * Batches large inserts to avoid query size limits
- */
-export async function saveActivities(
-  activitiesList: UserActivity[],
-  generateKey?: (activity: UserActivity) => string
-): Promise<string[]> {
-  const db = getDb();
-  if (!db || !isConnected()) {
-    throw new Error('Database not connected');
-  }
-
-  if (activitiesList.length === 0) {
-    return [];
-  }
-
-  const keyGenerator = generateKey || generateActivityKey;
-  const BATCH_SIZE = 100; // Process in batches to avoid query size limits
-  const allIds: string[] = [];
-
-  // Process in batches
-  for (let i = 0; i < activitiesList.length; i += BATCH_SIZE) {
-    const batch = activitiesList.slice(i, i + BATCH_SIZE);
-    
-    try {
-      // First, convert activities to NewActivity objects with their unique keys
-      const activitiesWithKeys = batch.map((activity) => {
-        try {
-          const uniqueKey = keyGenerator(activity);
-          return {
-            activity,
-            uniqueKey,
-            newActivity: toNewActivity(activity, uniqueKey)
-          };
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : 'Unknown validation error';
-          throw new Error(`Failed to prepare activity for insertion: ${errorMsg}. Activity: ${JSON.stringify(activity)}`);
-        }
-      });
-
-      // Deduplicate within the batch by unique key
-      // Keep the last occurrence of each unique key (most recent data)
-      const uniqueActivitiesMap = new Map<string, typeof activitiesWithKeys[0]>();
-      for (const item of activitiesWithKeys) {
-        uniqueActivitiesMap.set(item.uniqueKey, item);
-      }
-
-      const deduplicatedActivities = Array.from(uniqueActivitiesMap.values());
-      const newActivities = deduplicatedActivities.map(item => item.newActivity);
-
-      // Log if we had duplicates within the batch
-      if (deduplicatedActivities.length < activitiesWithKeys.length) {
-        const duplicateCount = activitiesWithKeys.length - deduplicatedActivities.length;
-        console.warn(`Deduplicated ${duplicateCount} activities within batch ${Math.floor(i/BATCH_SIZE) + 1} (had duplicate unique keys)`);
-      }
-
-      // Debugging: Check for duplicate keys
-      debugDuplicateKeys(activitiesWithKeys);
-
-      // Skip empty batches after deduplication
-      if (newActivities.length === 0) {
-        continue;
-      }
-
-      // Use PostgreSQL ON CONFLICT for batch upsert
-      const results = await db
-        .insert(activities)
-        .values(newActivities)
-        .onConflictDoUpdate({
-          target: activities.uniqueKey,
-          set: {
-            type: sql`EXCLUDED.type`,
-            author: sql`EXCLUDED.author`,
-            activityDate: sql`EXCLUDED.activity_date`,
-            repository: sql`EXCLUDED.repository`,
-            url: sql`EXCLUDED.url`,
-            title: sql`EXCLUDED.title`,
-            description: sql`EXCLUDED.description`,
-            meta: sql`EXCLUDED.meta`,
-            updatedAt: sql`NOW()`,
-          },
-        })
-        .returning({ id: activities.id });
-
-      allIds.push(...results.map((r) => r.id));
-    } catch (error) {
-      // Drizzle wraps PostgreSQL errors - extract the actual cause
-      const cause = error instanceof Error && 'cause' in error ? (error as Error & { cause: unknown }).cause : error;
-      const pgError = cause as { code?: string; detail?: string; constraint?: string; hint?: string; message?: string };
-      const errorCode = pgError.code ? ` [Code: ${pgError.code}]` : '';
-      const errorDetail = pgError.detail ? ` Detail: ${pgError.detail}` : '';
-      const errorConstraint = pgError.constraint ? ` Constraint: ${pgError.constraint}` : '';
-      const errorHint = pgError.hint ? ` Hint: ${pgError.hint}` : '';
-      const baseMessage = pgError.message || (error instanceof Error ? error.message : 'Unknown error');
-
-      throw new Error(
-        `Failed to save activities batch (${i + 1}-${Math.min(i + BATCH_SIZE, activitiesList.length)} of ${activitiesList.length})${errorCode}${errorConstraint}: ${baseMessage}${errorDetail}${errorHint}`
-      );
-    }
-  }
-
-  return allIds;
-}
-
-
-/**
- * Build where conditions for activity queries
- */
-function buildWhereConditions(options: ActivityQueryOptions): ReturnType<typeof and> | undefined {
-  const conditions = [];
-
-  if (options.author) {
-    conditions.push(eq(activities.author, options.author));
-  }
-
-  if (options.repository) {
-    conditions.push(eq(activities.repository, options.repository));
-  }
-
-  if (options.type) {
-    conditions.push(eq(activities.type, options.type));
-  }
-
-  if (options.fromDate) {
-    conditions.push(gte(activities.activityDate, options.fromDate));
-  }
-
-  if (options.toDate) {
-    conditions.push(lte(activities.activityDate, options.toDate));
-  }
-
-  return conditions.length > 0 ? and(...conditions) : undefined;
-}
-
-/**
- * Find activities by various criteria
- */
-export async function findActivities(
-  options: ActivityQueryOptions = {}
-): Promise<StoredActivity[]> {
-  const db = getDb();
-  if (!db || !isConnected()) {
-    throw new Error('Database not connected');
-  }
-
-  const whereConditions = buildWhereConditions(options);
-  const limit = options.limit || 100;
-  const offset = options.offset || 0;
-
-  const results = await db
-    .select()
-    .from(activities)
-    .where(whereConditions)
-    .orderBy(desc(activities.activityDate))
-    .limit(limit)
-    .offset(offset);
-
-  return results.map(toStoredActivity);
-}
-
-/**
- * Find activities by author
- */
-export async function findByAuthor(author: string, limit = 100): Promise<StoredActivity[]> {
-  return findActivities({ author, limit });
-}
-
-/**
- * Find activities by repository
- */
-export async function findByRepository(repository: string, limit = 100): Promise<StoredActivity[]> {
-  return findActivities({ repository, limit });
-}
-
-/**
- * Find activities by date range
- */
-export async function findByDateRange(
-  fromDate: Date,
-  toDate: Date,
-  limit = 100
-): Promise<StoredActivity[]> {
-  return findActivities({ fromDate, toDate, limit });
-}
-
-/**
- * Count activities matching criteria
- */
-export async function countActivities(
-  options: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {}
-): Promise<number> {
-  const db = getDb();
-  if (!db || !isConnected()) {
-    throw new Error('Database not connected');
-  }
-
-  const whereConditions = buildWhereConditions(options);
-
-  const [result] = await db.select({ count: count() }).from(activities).where(whereConditions);
-
-  return result.count;
-}
@@ -48,6 +48,15 @@ export function getDb() {
     return db;
 }
 
+/**
+ * Check out a dedicated pool connection, e.g. for a server-side cursor
+ * The caller must release() it
+ */
+export async function getClient(): Promise<pg.PoolClient> {
+    getDb();
+    return pool!.connect();
+}
+
 export function isConnected(): boolean {
     return !!db;
 }
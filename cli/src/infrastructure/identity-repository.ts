@@ -0,0 +1,69 @@
+export type IdentityKind = 'email' | 'name' | 'login';
+
+export const IDENTITY_KINDS: IdentityKind[] = ['email', 'name', 'login'];
+
+/**
+ * An alias (email, git author name or GitHub login) belonging to a canonical person
+ * Values are stored lowercased so matching is case-insensitive
+ */
+export interface Identity {
+  kind: IdentityKind;
+  value: string;
+  person: string;
+  source: 'manual' | 'suggested';
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * A distinct author seen in stored activities
+ */
+export interface AuthorAlias {
+  author: string;
+  email?: string; // Commit author email (commits only)
+  isCommit: boolean;
+}
+
+/**
+ * Storage operations for identities
+ */
+export interface IdentityRepository {
+  /**
+   * List identities, optionally only those of one person
+   */
+  listIdentities(person?: string): Promise<Identity[]>;
+
+  /**
+   * Find the identity for an alias
+   */
+  findIdentity(kind: IdentityKind, value: string): Promise<Identity | null>;
+
+  /**
+   * Insert identities or move existing aliases to the given person
+   */
+  saveIdentities(identities: Identity[]): Promise<void>;
+
+  /**
+   * Detach aliases from their person
+   * @returns number of deleted identities
+   */
+  deleteIdentities(aliases: { kind: IdentityKind; value: string }[]): Promise<number>;
+
+  /**
+   * Move every alias of one person to another
+   * @returns number of updated identities
+   */
+  reassignPerson(fromPerson: string, toPerson: string): Promise<number>;
+
+  /**
+   * Distinct authors (and commit emails) found in stored activities
+   */
+  listAuthorAliases(): Promise<AuthorAlias[]>;
+}
+
+/**
+ * Normalize an alias value for storage and lookups
+ */
+export function normalizeIdentityValue(value: string): string {
+  return value.trim().toLowerCase();
+}
@@ -0,0 +1,92 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import pg from 'pg';
+import { PostgresActivityRepository } from './postgres-activity-repository.js';
+import { closeDatabase } from './database.js';
+
+const ROWS = Array.from({ length: 5 }, (_, i) => ({
+  id: `id-${i}`,
+  unique_key: `commit:acme/api:${i}`,
+  type: 'commit',
+  author: 'alice',
+  activity_date: new Date(Date.UTC(2026, 2, 10 - i)),
+  repository: 'acme/api',
+  url: null,
+  title: `Change ${i}`,
+  description: null,
+  meta: null,
+  created_at: null,
+  updated_at: null,
+}));
+
+/**
+ * The single pooled connection, enforcing what PostgreSQL would: one transaction at a time and
+ * cursor names unique within it
+ */
+class FakeConnection {
+  statements: string[] = [];
+  releases: (Error | boolean | undefined)[] = [];
+  private transaction = false;
+  private cursor: number | undefined;
+
+  async query(text: string): Promise<{ rows: unknown[] }> {
+    this.statements.push(text.split(' FOR ')[0]);
+    if (text.startsWith('BEGIN')) {
+      if (this.transaction) throw new Error('there is already a transaction in progress');
+      this.transaction = true;
+    } else if (text.startsWith('DECLARE')) {
+      if (this.cursor !== undefined) throw new Error('cursor "activity_cursor" already exists');
+      this.cursor = 0;
+    } else if (text.startsWith('FETCH')) {
+      const count = Number(text.match(/FORWARD (\d+)/)![1]);
+      const rows = ROWS.slice(this.cursor, this.cursor! + count);
+      this.cursor! += rows.length;
+      return { rows };
+    } else if (text === 'COMMIT' || text === 'ROLLBACK') {
+      this.transaction = false;
+      this.cursor = undefined;
+    }
+    return { rows: [] };
+  }
+
+  release(error?: Error | boolean): void {
+    this.releases.push(error);
+  }
+}
+
+describe('PostgresActivityRepository.streamActivities', () => {
+  const connection = new FakeConnection();
+  const repository = new PostgresActivityRepository();
+
+  before(async () => {
+    process.env.DATABASE_URL = 'postgres://test@127.0.0.1:5432/test';
+    // Pool.query (the connection check) and Pool.connect (cursors) both use the fake connection
+    mock.method(pg.Pool.prototype, 'query', async () => ({ rows: [{ '?column?': 1 }] }));
+    mock.method(pg.Pool.prototype, 'connect', async () => connection);
+    assert.equal(await repository.connect(), true);
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await closeDatabase();
+    delete process.env.DATABASE_URL;
+  });
+
+  it('ends the transaction when the consumer stops early, so the connection can stream again', async () => {
+    const first: string[] = [];
+    for await (const activity of repository.streamActivities({}, 2)) {
+      first.push(activity.id);
+      if (first.length === 3) break;
+    }
+    assert.deepEqual(first, ['id-0', 'id-1', 'id-2']);
+    assert.deepEqual(connection.statements.slice(-1), ['ROLLBACK']);
+
+    const second: string[] = [];
+    for await (const activity of repository.streamActivities({}, 2)) {
+      second.push(activity.id);
+    }
+    assert.deepEqual(second, ['id-0', 'id-1', 'id-2', 'id-3', 'id-4']);
+    assert.deepEqual(connection.statements.slice(-1), ['COMMIT']);
+    assert.deepEqual(connection.releases, [undefined, undefined]);
+  });
+});
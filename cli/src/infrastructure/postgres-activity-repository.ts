@@ -0,0 +1,671 @@
+import { eq, and, gte, lte, desc, asc, count, sql, inArray, or, type SQL } from 'drizzle-orm';
+import type { UserActivity } from '../types.js';
+import { closeDatabase, getClient, getDb, initDatabase, isConnected } from './database.js';
+import {
+  activities,
+  identities,
+  syncWatermarks,
+  webhookDeliveries,
+  type Activity,
+  type IdentityRow,
+  type SyncWatermarkRow,
+  type WebhookDeliveryRow,
+} from './schema.js';
+import {
+  generateActivityKey,
+  prepareActivityRows,
+  toActivityRow,
+  isActivityInterval,
+  type ActivityGroupCount,
+  type ActivityGroupField,
+  type ActivityInterval,
+  type ActivityKeyChanges,
+  type ActivityQueryOptions,
+  type ActivityRepository,
+  type StoredActivity,
+} from './activity-repository.js';
+import type { SyncWatermark } from './watermark-repository.js';
+import type { AuthorAlias, Identity, IdentityKind } from './identity-repository.js';
+import type { WebhookDelivery } from './webhook-delivery-repository.js';
+
+const STREAM_BATCH_SIZE = 1000;
+
+/**
+ * Columns refreshed when an existing activity is upserted
+ */
+const UPSERT_SET = {
+  type: sql`EXCLUDED.type`,
+  author: sql`EXCLUDED.author`,
+  activityDate: sql`EXCLUDED.activity_date`,
+  repository: sql`EXCLUDED.repository`,
+  url: sql`EXCLUDED.url`,
+  title: sql`EXCLUDED.title`,
+  description: sql`EXCLUDED.description`,
+  meta: sql`EXCLUDED.meta`,
+  updatedAt: sql`NOW()`,
+};
+
+/**
+ * PostgreSQL activity repository backed by Drizzle ORM
+ * Uses ON CONFLICT on unique_key for upserts
+ */
+export class PostgresActivityRepository implements ActivityRepository {
+  readonly backend = 'postgres' as const;
+
+  async connect(): Promise<boolean> {
+    return initDatabase();
+  }
+
+  async close(): Promise<void> {
+    await closeDatabase();
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      await this.getConnectedDb().execute(sql`SELECT 1`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async findById(id: string): Promise<StoredActivity | null> {
+    const db = this.getConnectedDb();
+
+    const [result] = await db.select().from(activities).where(eq(activities.id, id)).limit(1);
+
+    return result ? toStoredActivity(result) : null;
+  }
+
+  async findByUniqueKey(uniqueKey: string): Promise<StoredActivity | null> {
+    const db = this.getConnectedDb();
+
+    const [result] = await db
+      .select()
+      .from(activities)
+      .where(eq(activities.uniqueKey, uniqueKey))
+      .limit(1);
+
+    return result ? toStoredActivity(result) : null;
+  }
+
+  async saveActivity(activity: UserActivity, uniqueKey?: string): Promise<string> {
+    const db = this.getConnectedDb();
+
+    const key = uniqueKey || generateActivityKey(activity);
+    const newActivity = toActivityRow(activity, key);
+
+    try {
+      const results = await db
+        .insert(activities)
+        .values(newActivity)
+        .onConflictDoUpdate({ target: activities.uniqueKey, set: UPSERT_SET })
+        .returning({ id: activities.id });
+
+      if (!results || results.length === 0) {
+        throw new Error(
+          `No result returned from database insert. ` +
+            `Activity: type=${activity.type}, author=${activity.author}, date=${activity.date}, repo=${activity.repository}, uniqueKey=${key}`
+        );
+      }
+
+      return results[0].id;
+    } catch (error) {
+      throw new Error(
+        `Database error saving activity${describePgError(error)}. ` +
+          `Activity: type=${activity.type}, author=${activity.author}, date=${activity.date}, repo=${activity.repository}, uniqueKey=${key}`
+      );
+    }
+  }
+
+  /**
+   * Batches large inserts to avoid query size limits
+   */
+  async saveActivities(
+    activitiesList: UserActivity[],
+    generateKey?: (activity: UserActivity) => string
+  ): Promise<string[]> {
+    const db = this.getConnectedDb();
+
+    if (activitiesList.length === 0) {
+      return [];
+    }
+
+    const keyGenerator = generateKey || generateActivityKey;
+    const BATCH_SIZE = 100; // Process in batches to avoid query size limits
+    const allIds: string[] = [];
+
+    for (let i = 0; i < activitiesList.length; i += BATCH_SIZE) {
+      const batch = activitiesList.slice(i, i + BATCH_SIZE);
+
+      try {
+        const newActivities = prepareActivityRows(batch, keyGenerator);
+
+        if (newActivities.length === 0) {
+          continue;
+        }
+
+        const results = await db
+          .insert(activities)
+          .values(newActivities)
+          .onConflictDoUpdate({ target: activities.uniqueKey, set: UPSERT_SET })
+          .returning({ id: activities.id });
+
+        allIds.push(...results.map((r) => r.id));
+      } catch (error) {
+        throw new Error(
+          `Failed to save activities batch (${i + 1}-${Math.min(i + BATCH_SIZE, activitiesList.length)} of ${activitiesList.length})${describePgError(error)}`
+        );
+      }
+    }
+
+    return allIds;
+  }
+
+  async findActivities(options: ActivityQueryOptions = {}): Promise<StoredActivity[]> {
+    const db = this.getConnectedDb();
+
+    const whereConditions = buildWhereConditions(options);
+    const limit = options.limit || 100;
+    const offset = options.offset || 0;
+
+    const results = await db
+      .select()
+      .from(activities)
+      .where(whereConditions)
+      .orderBy(desc(activities.activityDate), asc(activities.id))
+      .limit(limit)
+      .offset(offset);
+
+    return results.map(toStoredActivity);
+  }
+
+  async *streamActivities(
+    options: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {},
+    batchSize = STREAM_BATCH_SIZE
+  ): AsyncGenerator<StoredActivity> {
+    const query = this.getConnectedDb()
+      .select()
+      .from(activities)
+      .where(buildWhereConditions(options))
+      .orderBy(desc(activities.activityDate), asc(activities.id))
+      .toSQL();
+
+    // Server-side cursors only live inside a transaction on one connection
+    const client = await getClient();
+    let inTransaction = false;
+    try {
+      await client.query('BEGIN READ ONLY');
+      inTransaction = true;
+      await client.query(`DECLARE activity_cursor NO SCROLL CURSOR FOR ${query.sql}`, query.params);
+
+      for (;;) {
+        const { rows } = await client.query<RawActivityRow>(
+          `FETCH FORWARD ${batchSize} FROM activity_cursor`
+        );
+        for (const row of rows) {
+          yield toStoredActivity(fromRawRow(row));
+        }
+        if (rows.length < batchSize) break;
+      }
+
+      await client.query('COMMIT');
+      inTransaction = false;
+    } finally {
+      // Also reached when the consumer stops early or a query fails: the connection must not go
+      // back to the pool inside the transaction, with the cursor still declared
+      let broken: Error | undefined;
+      if (inTransaction) {
+        await client.query('ROLLBACK').catch((error: Error) => (broken = error));
+      }
+      // A connection that could not roll back is discarded instead of reused
+      client.release(broken);
+    }
+  }
+
+  async countActivities(
+    options: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {}
+  ): Promise<number> {
+    const db = this.getConnectedDb();
+
+    const whereConditions = buildWhereConditions(options);
+
+    const [result] = await db.select({ count: count() }).from(activities).where(whereConditions);
+
+    return result.count;
+  }
+
+  async countActivitiesBy(
+    field: ActivityGroupField,
+    options: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {}
+  ): Promise<ActivityGroupCount[]> {
+    const db = this.getConnectedDb();
+
+    if (isActivityInterval(field)) {
+      const bucket = dateBucket(field);
+      return db
+        .select({ key: bucket, count: count() })
+        .from(activities)
+        .where(buildWhereConditions(options))
+        .groupBy(bucket)
+        .orderBy(asc(bucket));
+    }
+
+    const column = activities[field];
+    return db
+      .select({ key: column, count: count() })
+      .from(activities)
+      .where(buildWhereConditions(options))
+      .groupBy(column)
+      .orderBy(desc(count()), asc(column));
+  }
+
+  async getWatermark(connector: string, target: string): Promise<SyncWatermark | null> {
+    const db = this.getConnectedDb();
+
+    const [result] = await db
+      .select()
+      .from(syncWatermarks)
+      .where(and(eq(syncWatermarks.connector, connector), eq(syncWatermarks.target, target)))
+      .limit(1);
+
+    return result ? toSyncWatermark(result) : null;
+  }
+
+  async listWatermarks(): Promise<SyncWatermark[]> {
+    const db = this.getConnectedDb();
+
+    const results = await db
+      .select()
+      .from(syncWatermarks)
+      .orderBy(asc(syncWatermarks.connector), asc(syncWatermarks.target));
+
+    return results.map(toSyncWatermark);
+  }
+
+  async saveWatermark(watermark: SyncWatermark): Promise<void> {
+    const db = this.getConnectedDb();
+
+    const values = {
+      connector: watermark.connector,
+      target: watermark.target,
+      lastFrom: watermark.lastFrom,
+      lastTo: watermark.lastTo,
+      cursor: watermark.cursor ?? null,
+      activityCount: watermark.activityCount,
+    };
+
+    await db
+      .insert(syncWatermarks)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [syncWatermarks.connector, syncWatermarks.target],
+        set: { ...values, updatedAt: sql`NOW()` },
+      });
+  }
+
+  async resetWatermarks(connectors?: string[]): Promise<number> {
+    const db = this.getConnectedDb();
+
+    const deleted = await db
+      .delete(syncWatermarks)
+      .where(connectors ? inArray(syncWatermarks.connector, connectors) : undefined)
+      .returning({ id: syncWatermarks.id });
+
+    return deleted.length;
+  }
+
+  async listIdentities(person?: string): Promise<Identity[]> {
+    const db = this.getConnectedDb();
+
+    const results = await db
+      .select()
+      .from(identities)
+      .where(person ? eq(identities.person, person) : undefined)
+      .orderBy(asc(identities.person), asc(identities.kind), asc(identities.value));
+
+    return results.map(toIdentity);
+  }
+
+  async findIdentity(kind: IdentityKind, value: string): Promise<Identity | null> {
+    const db = this.getConnectedDb();
+
+    const [result] = await db
+      .select()
+      .from(identities)
+      .where(and(eq(identities.kind, kind), eq(identities.value, value)))
+      .limit(1);
+
+    return result ? toIdentity(result) : null;
+  }
+
+  async saveIdentities(identitiesList: Identity[]): Promise<void> {
+    const db = this.getConnectedDb();
+
+    if (identitiesList.length === 0) {
+      return;
+    }
+
+    await db
+      .insert(identities)
+      .values(
+        identitiesList.map((identity) => ({
+          kind: identity.kind,
+          value: identity.value,
+          person: identity.person,
+          source: identity.source,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [identities.kind, identities.value],
+        set: {
+          person: sql`EXCLUDED.person`,
+          source: sql`EXCLUDED.source`,
+          updatedAt: sql`NOW()`,
+        },
+      });
+  }
+
+  async deleteIdentities(aliases: { kind: IdentityKind; value: string }[]): Promise<number> {
+    const db = this.getConnectedDb();
+
+    let deleted = 0;
+    for (const alias of aliases) {
+      const rows = await db
+        .delete(identities)
+        .where(and(eq(identities.kind, alias.kind), eq(identities.value, alias.value)))
+        .returning({ id: identities.id });
+      deleted += rows.length;
+    }
+
+    return deleted;
+  }
+
+  async reassignPerson(fromPerson: string, toPerson: string): Promise<number> {
+    const db = this.getConnectedDb();
+
+    const rows = await db
+      .update(identities)
+      .set({ person: toPerson, updatedAt: sql`NOW()` })
+      .where(eq(identities.person, fromPerson))
+      .returning({ id: identities.id });
+
+    return rows.length;
+  }
+
+  async findDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const db = this.getConnectedDb();
+
+    const [result] = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.deliveryId, deliveryId))
+      .limit(1);
+
+    return result ? toWebhookDelivery(result) : null;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<boolean> {
+    const db = this.getConnectedDb();
+
+    const rows = await db
+      .insert(webhookDeliveries)
+      .values({
+        deliveryId: delivery.deliveryId,
+        event: delivery.event,
+        action: delivery.action ?? null,
+        activityCount: delivery.activityCount,
+      })
+      .onConflictDoNothing({ target: webhookDeliveries.deliveryId })
+      .returning({ id: webhookDeliveries.id });
+
+    return rows.length > 0;
+  }
+
+  async applyKeyChanges(changes: ActivityKeyChanges): Promise<void> {
+    const db = this.getConnectedDb();
+
+    await db.transaction(async (tx) => {
+      // Chunked to stay well below the bind parameter limit
+      for (let i = 0; i < changes.deletedIds.length; i += 1000) {
+        const ids = changes.deletedIds.slice(i, i + 1000);
+        await tx.delete(activities).where(inArray(activities.id, ids));
+      }
+      // Park rows on temporary keys first so swapped keys never collide
+      for (const { id } of changes.rekeyed) {
+        await tx
+          .update(activities)
+          .set({ uniqueKey: `rekey:${id}` })
+          .where(eq(activities.id, id));
+      }
+      for (const { id, uniqueKey } of changes.rekeyed) {
+        await tx
+          .update(activities)
+          .set({ uniqueKey, updatedAt: sql`NOW()` })
+          .where(eq(activities.id, id));
+      }
+    });
+  }
+
+  async listAuthorAliases(): Promise<AuthorAlias[]> {
+    const db = this.getConnectedDb();
+
+    const results = await db
+      .selectDistinct({
+        author: activities.author,
+        email: sql<string | null>`${activities.meta}->>'email'`,
+        isCommit: sql<boolean>`${activities.type} = 'commit'`,
+      })
+      .from(activities);
+
+    return results.map((row) => ({
+      author: row.author,
+      email: row.email || undefined,
+      isCommit: row.isCommit,
+    }));
+  }
+
+  private getConnectedDb(): ReturnType<typeof getDb> {
+    const db = getDb();
+    if (!db || !isConnected()) {
+      throw new Error('Database not connected');
+    }
+    return db;
+  }
+}
+
+/**
+ * Activity row as returned by node-postgres for a raw query (column names, parsed types)
+ */
+interface RawActivityRow {
+  id: string;
+  unique_key: string;
+  type: string;
+  author: string;
+  activity_date: Date;
+  repository: string;
+  url: string | null;
+  title: string | null;
+  description: string | null;
+  meta: Record<string, unknown> | null;
+  created_at: Date | null;
+  updated_at: Date | null;
+}
+
+function fromRawRow(row: RawActivityRow): Activity {
+  return {
+    id: row.id,
+    uniqueKey: row.unique_key,
+    type: row.type,
+    author: row.author,
+    activityDate: row.activity_date,
+    repository: row.repository,
+    url: row.url,
+    title: row.title,
+    description: row.description,
+    meta: row.meta,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Convert database Activity to StoredActivity
+ */
+function toStoredActivity(row: Activity): StoredActivity {
+  return {
+    id: row.id,
+    uniqueKey: row.uniqueKey,
+    type: row.type as UserActivity['type'],
+    author: row.author,
+    date: row.activityDate.toISOString(),
+    repository: row.repository,
+    url: row.url || undefined,
+    title: row.title || undefined,
+    description: row.description || undefined,
+    meta: (row.meta || {}) as Record<string, unknown>,
+    createdAt: row.createdAt!,
+    updatedAt: row.updatedAt!,
+  };
+}
+
+/**
+ * Convert database row to SyncWatermark
+ */
+function toSyncWatermark(row: SyncWatermarkRow): SyncWatermark {
+  return {
+    connector: row.connector,
+    target: row.target,
+    lastFrom: row.lastFrom,
+    lastTo: row.lastTo,
+    cursor: row.cursor || undefined,
+    activityCount: row.activityCount,
+    updatedAt: row.updatedAt || undefined,
+  };
+}
+
+/**
+ * Convert database row to Identity
+ */
+function toIdentity(row: IdentityRow): Identity {
+  return {
+    kind: row.kind as IdentityKind,
+    value: row.value,
+    person: row.person,
+    source: row.source as Identity['source'],
+    createdAt: row.createdAt || undefined,
+    updatedAt: row.updatedAt || undefined,
+  };
+}
+
+/**
+ * Convert database row to WebhookDelivery
+ */
+function toWebhookDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    deliveryId: row.deliveryId,
+    event: row.event,
+    action: row.action || undefined,
+    activityCount: row.activityCount,
+    receivedAt: row.receivedAt || undefined,
+  };
+}
+
+function lowercaseAll(values: string[]): string[] {
+  return values.map((v) => v.toLowerCase());
+}
+
+/**
+ * LIKE pattern matching strings that start with a literal prefix
+ */
+function likePrefix(prefix: string): string {
+  return `${prefix.replace(/^(\.\/|\/)+/, '').replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * UTC date bucket of an activity; date_trunc('week') starts weeks on Monday
+ */
+function dateBucket(interval: ActivityInterval): SQL<string> {
+  const utc = sql`(${activities.activityDate} AT TIME ZONE 'UTC')`;
+  switch (interval) {
+    case 'day':
+      return sql<string>`to_char(${utc}, 'YYYY-MM-DD')`;
+    case 'week':
+      return sql<string>`to_char(date_trunc('week', ${utc}), 'YYYY-MM-DD')`;
+    case 'month':
+      return sql<string>`to_char(${utc}, 'YYYY-MM')`;
+  }
+}
+
+/**
+ * Build where conditions for activity queries
+ */
+function buildWhereConditions(options: ActivityQueryOptions): ReturnType<typeof and> | undefined {
+  const conditions = [];
+
+  if (options.author) {
+    conditions.push(eq(activities.author, options.author));
+  }
+
+  const aliasConditions = [];
+  if (options.authors && options.authors.length > 0) {
+    aliasConditions.push(inArray(sql`lower(${activities.author})`, lowercaseAll(options.authors)));
+  }
+  if (options.authorEmails && options.authorEmails.length > 0) {
+    aliasConditions.push(
+      inArray(sql`lower(${activities.meta}->>'email')`, lowercaseAll(options.authorEmails))
+    );
+  }
+  if (aliasConditions.length > 0) {
+    conditions.push(or(...aliasConditions));
+  }
+
+  if (options.repository) {
+    conditions.push(eq(activities.repository, options.repository));
+  }
+
+  if (options.type) {
+    conditions.push(eq(activities.type, options.type));
+  }
+
+  if (options.pathPrefix) {
+    conditions.push(
+      sql`exists (select 1 from jsonb_array_elements(${activities.meta}->'files') as f where f->>'path' like ${likePrefix(options.pathPrefix)} escape '\\')`
+    );
+  }
+
+  if (options.fromDate) {
+    conditions.push(gte(activities.activityDate, options.fromDate));
+  }
+
+  if (options.toDate) {
+    conditions.push(lte(activities.activityDate, options.toDate));
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * Drizzle wraps PostgreSQL errors - extract the actual cause into a message suffix
+ */
+function describePgError(error: unknown): string {
+  const cause =
+    error instanceof Error && 'cause' in error
+      ? (error as Error & { cause: unknown }).cause
+      : error;
+  const pgError = cause as {
+    code?: string;
+    detail?: string;
+    constraint?: string;
+    hint?: string;
+    message?: string;
+  };
+  const errorCode = pgError.code ? ` [Code: ${pgError.code}]` : '';
+  const errorDetail = pgError.detail ? ` Detail: ${pgError.detail}` : '';
+  const errorConstraint = pgError.constraint ? ` Constraint: ${pgError.constraint}` : '';
+  const errorHint = pgError.hint ? ` Hint: ${pgError.hint}` : '';
+  const baseMessage =
+    pgError.message || (error instanceof Error ? error.message : 'Unknown database error');
+
+  return `${errorCode}${errorConstraint}: ${baseMessage}${errorDetail}${errorHint}`;
+}
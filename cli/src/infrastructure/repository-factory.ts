@@ -0,0 +1,48 @@
+import type { ActivityRepository, StorageBackend } from './activity-repository.js';
+import { isDatabaseConfigured } from './database.js';
+import { PostgresActivityRepository } from './postgres-activity-repository.js';
+import { IN_MEMORY_DATABASE, SqliteActivityRepository } from './sqlite-activity-repository.js';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['postgres', 'sqlite', 'memory'];
+
+export const DEFAULT_SQLITE_PATH = './data/activities.db';
+
+/**
+ * Resolve the storage backend from the environment
+ *
+ * STORAGE_BACKEND wins when set; otherwise PostgreSQL is used when DATABASE_URL
+ * is configured and the embedded SQLite file is used as a fallback.
+ */
+export function getStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+
+  if (configured) {
+    if (!STORAGE_BACKENDS.includes(configured as StorageBackend)) {
+      throw new Error(
+        `Unknown STORAGE_BACKEND "${configured}". Expected one of: ${STORAGE_BACKENDS.join(', ')}`
+      );
+    }
+    return configured as StorageBackend;
+  }
+
+  return isDatabaseConfigured() ? 'postgres' : 'sqlite';
+}
+
+/**
+ * Create the activity repository for the configured backend
+ */
+export function createActivityRepository(
+  backend: StorageBackend = getStorageBackend()
+): ActivityRepository {
+  switch (backend) {
+    case 'postgres':
+      if (!isDatabaseConfigured()) {
+        throw new Error('Database not configured. Set DATABASE_URL environment variable.');
+      }
+      return new PostgresActivityRepository();
+    case 'sqlite':
+      return new SqliteActivityRepository(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+    case 'memory':
+      return new SqliteActivityRepository(IN_MEMORY_DATABASE);
+  }
+}
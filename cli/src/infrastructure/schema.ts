@@ -1,4 +1,14 @@
-import { pgTable, uuid, varchar, text, jsonb, timestamp, index, unique } from 'drizzle-orm/pg-core';
+import {
+  pgTable,
+  uuid,
+  varchar,
+  text,
+  jsonb,
+  timestamp,
+  integer,
+  index,
+  unique,
+} from 'drizzle-orm/pg-core';
 
 // Activities table for storing all user activities from CLI commands
 export const activities = pgTable(
@@ -35,3 +45,60 @@ export type NewActivity = typeof activities.$inferInsert;
 
 // Type for selecting an activity
 export type Activity = typeof activities.$inferSelect;
+
+// Sync watermarks: last successfully synced window per connector and target
+export const syncWatermarks = pgTable(
+  'sync_watermarks',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    connector: varchar('connector', { length: 50 }).notNull(),
+    target: varchar('target', { length: 500 }).notNull(), // e.g. owner/repo, owner/Project-1, repo directory
+    lastFrom: timestamp('last_from', { withTimezone: true }).notNull(),
+    lastTo: timestamp('last_to', { withTimezone: true }).notNull(), // High-water mark
+    cursor: text('cursor'), // Newest activity date seen by the connector
+    activityCount: integer('activity_count').notNull().default(0),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => [unique('uq_sync_watermarks_connector_target').on(table.connector, table.target)]
+);
+
+export type SyncWatermarkRow = typeof syncWatermarks.$inferSelect;
+
+// Identities: aliases (emails, git author names, GitHub logins) mapped to a canonical person
+export const identities = pgTable(
+  'identities',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    kind: varchar('kind', { length: 20 }).notNull(), // email | name | login
+    value: varchar('value', { length: 500 }).notNull(), // Lowercased alias
+    person: varchar('person', { length: 255 }).notNull(), // Canonical person identifier
+    source: varchar('source', { length: 20 }).notNull().default('manual'), // manual | suggested
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    unique('uq_identities_kind_value').on(table.kind, table.value),
+    index('idx_identities_person').on(table.person),
+  ]
+);
+
+export type IdentityRow = typeof identities.$inferSelect;
+
+// Webhook deliveries already applied, so redeliveries are acknowledged without re-processing
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    deliveryId: varchar('delivery_id', { length: 100 }).notNull(), // X-GitHub-Delivery
+    event: varchar('event', { length: 50 }).notNull(),
+    action: varchar('action', { length: 50 }),
+    activityCount: integer('activity_count').notNull().default(0),
+    receivedAt: timestamp('received_at', { withTimezone: true }).defaultNow(),
+  },
+  (table) => [
+    unique('uq_webhook_deliveries_delivery_id').on(table.deliveryId),
+    index('idx_webhook_deliveries_received_at').on(table.receivedAt),
+  ]
+);
+
+export type WebhookDeliveryRow = typeof webhookDeliveries.$inferSelect;
@@ -0,0 +1,614 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { drizzle, type BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { eq, and, gte, lte, desc, asc, count, sql, inArray, or, type SQL } from 'drizzle-orm';
+import type { UserActivity } from '../types.js';
+import * as schema from './sqlite-schema.js';
+import {
+  activities,
+  identities,
+  syncWatermarks,
+  webhookDeliveries,
+  SQLITE_BOOTSTRAP,
+  type SqliteActivity,
+  type SqliteIdentity,
+  type SqliteSyncWatermark,
+  type SqliteWebhookDelivery,
+} from './sqlite-schema.js';
+import {
+  generateActivityKey,
+  prepareActivityRows,
+  toActivityRow,
+  isActivityInterval,
+  type ActivityGroupCount,
+  type ActivityGroupField,
+  type ActivityInterval,
+  type ActivityKeyChanges,
+  type ActivityQueryOptions,
+  type ActivityRepository,
+  type ActivityRow,
+  type StoredActivity,
+} from './activity-repository.js';
+import type { SyncWatermark } from './watermark-repository.js';
+import type { AuthorAlias, Identity, IdentityKind } from './identity-repository.js';
+import type { WebhookDelivery } from './webhook-delivery-repository.js';
+
+export const IN_MEMORY_DATABASE = ':memory:';
+
+/**
+ * Columns refreshed when an existing activity is upserted
+ */
+const UPSERT_SET = {
+  type: sql`excluded.type`,
+  author: sql`excluded.author`,
+  activityDate: sql`excluded.activity_date`,
+  repository: sql`excluded.repository`,
+  url: sql`excluded.url`,
+  title: sql`excluded.title`,
+  description: sql`excluded.description`,
+  meta: sql`excluded.meta`,
+  updatedAt: sql`excluded.updated_at`,
+};
+
+/**
+ * Embedded activity repository backed by SQLite
+ *
+ * Runs the full sync/query pipeline without a database server: pass a file
+ * path for a persistent store or IN_MEMORY_DATABASE for a throwaway one
+ * (useful for tests and dry runs).
+ */
+export class SqliteActivityRepository implements ActivityRepository {
+  readonly backend: 'sqlite' | 'memory';
+  private sqlite: Database.Database | undefined;
+  private db: BetterSQLite3Database<typeof schema> | undefined;
+
+  constructor(private readonly filename: string = IN_MEMORY_DATABASE) {
+    this.backend = filename === IN_MEMORY_DATABASE ? 'memory' : 'sqlite';
+  }
+
+  async connect(): Promise<boolean> {
+    if (this.db) {
+      return true;
+    }
+
+    try {
+      if (this.filename !== IN_MEMORY_DATABASE) {
+        fs.mkdirSync(path.dirname(path.resolve(this.filename)), { recursive: true });
+      }
+
+      this.sqlite = new Database(this.filename);
+      this.sqlite.pragma('journal_mode = WAL');
+      for (const statement of SQLITE_BOOTSTRAP) {
+        this.sqlite.exec(statement);
+      }
+
+      this.db = drizzle(this.sqlite, { schema });
+      return true;
+    } catch {
+      this.sqlite?.close();
+      this.sqlite = undefined;
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.sqlite?.close();
+    this.sqlite = undefined;
+    this.db = undefined;
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      this.getConnectedDb().get(sql`SELECT 1`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async findById(id: string): Promise<StoredActivity | null> {
+    const db = this.getConnectedDb();
+
+    const result = db.select().from(activities).where(eq(activities.id, id)).get();
+
+    return result ? toStoredActivity(result) : null;
+  }
+
+  async findByUniqueKey(uniqueKey: string): Promise<StoredActivity | null> {
+    const db = this.getConnectedDb();
+
+    const result = db
+      .select()
+      .from(activities)
+      .where(eq(activities.uniqueKey, uniqueKey))
+      .limit(1)
+      .get();
+
+    return result ? toStoredActivity(result) : null;
+  }
+
+  async saveActivity(activity: UserActivity, uniqueKey?: string): Promise<string> {
+    const key = uniqueKey || generateActivityKey(activity);
+    const [id] = this.upsertRows([toActivityRow(activity, key)]);
+    return id;
+  }
+
+  async saveActivities(
+    activitiesList: UserActivity[],
+    generateKey?: (activity: UserActivity) => string
+  ): Promise<string[]> {
+    this.getConnectedDb();
+
+    if (activitiesList.length === 0) {
+      return [];
+    }
+
+    const rows = prepareActivityRows(activitiesList, generateKey || generateActivityKey);
+    return this.upsertRows(rows);
+  }
+
+  async findActivities(options: ActivityQueryOptions = {}): Promise<StoredActivity[]> {
+    const db = this.getConnectedDb();
+
+    const results = db
+      .select()
+      .from(activities)
+      .where(buildWhereConditions(options))
+      .orderBy(desc(activities.activityDate), asc(activities.id))
+      .limit(options.limit || 100)
+      .offset(options.offset || 0)
+      .all();
+
+    return results.map(toStoredActivity);
+  }
+
+  async countActivities(
+    options: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {}
+  ): Promise<number> {
+    const db = this.getConnectedDb();
+
+    const result = db
+      .select({ count: count() })
+      .from(activities)
+      .where(buildWhereConditions(options))
+      .get();
+
+    return result?.count ?? 0;
+  }
+
+  async *streamActivities(
+    options: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {}
+  ): AsyncGenerator<StoredActivity> {
+    const query = this.getConnectedDb()
+      .select()
+      .from(activities)
+      .where(buildWhereConditions(options))
+      .orderBy(desc(activities.activityDate), asc(activities.id))
+      .toSQL();
+
+    // better-sqlite3 steps through the result one row at a time; the connection stays
+    // busy until the iterator finishes, so callers must not query in between
+    const rows = this.sqlite!.prepare(query.sql).iterate(...query.params) as IterableIterator<
+      Record<string, unknown>
+    >;
+    for (const row of rows) {
+      yield toStoredActivity(fromRawRow(row));
+    }
+  }
+
+  async countActivitiesBy(
+    field: ActivityGroupField,
+    options: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {}
+  ): Promise<ActivityGroupCount[]> {
+    const db = this.getConnectedDb();
+
+    if (isActivityInterval(field)) {
+      const bucket = dateBucket(field);
+      return db
+        .select({ key: bucket, count: count() })
+        .from(activities)
+        .where(buildWhereConditions(options))
+        .groupBy(bucket)
+        .orderBy(asc(bucket))
+        .all();
+    }
+
+    const column = activities[field];
+    return db
+      .select({ key: column, count: count() })
+      .from(activities)
+      .where(buildWhereConditions(options))
+      .groupBy(column)
+      .orderBy(desc(count()), asc(column))
+      .all();
+  }
+
+  async getWatermark(connector: string, target: string): Promise<SyncWatermark | null> {
+    const db = this.getConnectedDb();
+
+    const result = db
+      .select()
+      .from(syncWatermarks)
+      .where(and(eq(syncWatermarks.connector, connector), eq(syncWatermarks.target, target)))
+      .get();
+
+    return result ? toSyncWatermark(result) : null;
+  }
+
+  async listWatermarks(): Promise<SyncWatermark[]> {
+    const db = this.getConnectedDb();
+
+    return db
+      .select()
+      .from(syncWatermarks)
+      .orderBy(asc(syncWatermarks.connector), asc(syncWatermarks.target))
+      .all()
+      .map(toSyncWatermark);
+  }
+
+  async saveWatermark(watermark: SyncWatermark): Promise<void> {
+    const db = this.getConnectedDb();
+
+    const values = {
+      connector: watermark.connector,
+      target: watermark.target,
+      lastFrom: watermark.lastFrom,
+      lastTo: watermark.lastTo,
+      cursor: watermark.cursor ?? null,
+      activityCount: watermark.activityCount,
+      updatedAt: new Date(),
+    };
+
+    db.insert(syncWatermarks)
+      .values({ ...values, id: randomUUID() })
+      .onConflictDoUpdate({
+        target: [syncWatermarks.connector, syncWatermarks.target],
+        set: values,
+      })
+      .run();
+  }
+
+  async resetWatermarks(connectors?: string[]): Promise<number> {
+    const db = this.getConnectedDb();
+
+    const result = db
+      .delete(syncWatermarks)
+      .where(connectors ? inArray(syncWatermarks.connector, connectors) : undefined)
+      .run();
+
+    return result.changes;
+  }
+
+  async listIdentities(person?: string): Promise<Identity[]> {
+    const db = this.getConnectedDb();
+
+    return db
+      .select()
+      .from(identities)
+      .where(person ? eq(identities.person, person) : undefined)
+      .orderBy(asc(identities.person), asc(identities.kind), asc(identities.value))
+      .all()
+      .map(toIdentity);
+  }
+
+  async findIdentity(kind: IdentityKind, value: string): Promise<Identity | null> {
+    const db = this.getConnectedDb();
+
+    const result = db
+      .select()
+      .from(identities)
+      .where(and(eq(identities.kind, kind), eq(identities.value, value)))
+      .get();
+
+    return result ? toIdentity(result) : null;
+  }
+
+  async saveIdentities(identitiesList: Identity[]): Promise<void> {
+    const db = this.getConnectedDb();
+
+    db.transaction((tx) => {
+      for (const identity of identitiesList) {
+        const now = new Date();
+        tx.insert(identities)
+          .values({
+            id: randomUUID(),
+            kind: identity.kind,
+            value: identity.value,
+            person: identity.person,
+            source: identity.source,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .onConflictDoUpdate({
+            target: [identities.kind, identities.value],
+            set: { person: identity.person, source: identity.source, updatedAt: now },
+          })
+          .run();
+      }
+    });
+  }
+
+  async deleteIdentities(aliases: { kind: IdentityKind; value: string }[]): Promise<number> {
+    const db = this.getConnectedDb();
+
+    return db.transaction((tx) =>
+      aliases.reduce(
+        (deleted, alias) =>
+          deleted +
+          tx
+            .delete(identities)
+            .where(and(eq(identities.kind, alias.kind), eq(identities.value, alias.value)))
+            .run().changes,
+        0
+      )
+    );
+  }
+
+  async reassignPerson(fromPerson: string, toPerson: string): Promise<number> {
+    const db = this.getConnectedDb();
+
+    return db
+      .update(identities)
+      .set({ person: toPerson, updatedAt: new Date() })
+      .where(eq(identities.person, fromPerson))
+      .run().changes;
+  }
+
+  async listAuthorAliases(): Promise<AuthorAlias[]> {
+    const db = this.getConnectedDb();
+
+    return db
+      .selectDistinct({
+        author: activities.author,
+        email: sql<string | null>`json_extract(${activities.meta}, '$.email')`,
+        isCommit: sql<number>`${activities.type} = 'commit'`,
+      })
+      .from(activities)
+      .all()
+      .map((row) => ({
+        author: row.author,
+        email: row.email || undefined,
+        isCommit: row.isCommit === 1,
+      }));
+  }
+
+  async findDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const db = this.getConnectedDb();
+
+    const result = db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.deliveryId, deliveryId))
+      .get();
+
+    return result ? toWebhookDelivery(result) : null;
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<boolean> {
+    const db = this.getConnectedDb();
+
+    const result = db
+      .insert(webhookDeliveries)
+      .values({
+        id: randomUUID(),
+        deliveryId: delivery.deliveryId,
+        event: delivery.event,
+        action: delivery.action ?? null,
+        activityCount: delivery.activityCount,
+        receivedAt: delivery.receivedAt ?? new Date(),
+      })
+      .onConflictDoNothing({ target: webhookDeliveries.deliveryId })
+      .run();
+
+    return result.changes > 0;
+  }
+
+  async applyKeyChanges(changes: ActivityKeyChanges): Promise<void> {
+    const db = this.getConnectedDb();
+
+    db.transaction((tx) => {
+      for (const id of changes.deletedIds) {
+        tx.delete(activities).where(eq(activities.id, id)).run();
+      }
+      // Park rows on temporary keys first so swapped keys never collide
+      for (const { id } of changes.rekeyed) {
+        tx.update(activities)
+          .set({ uniqueKey: `rekey:${id}` })
+          .where(eq(activities.id, id))
+          .run();
+      }
+      for (const { id, uniqueKey } of changes.rekeyed) {
+        tx.update(activities).set({ uniqueKey }).where(eq(activities.id, id)).run();
+      }
+    });
+  }
+
+  /**
+   * Upsert rows in a single transaction and return their ids
+   */
+  private upsertRows(rows: ActivityRow[]): string[] {
+    const db = this.getConnectedDb();
+
+    return db.transaction((tx) =>
+      rows.map((row) => {
+        const now = new Date();
+        const result = tx
+          .insert(activities)
+          .values({ ...row, id: randomUUID(), createdAt: now, updatedAt: now })
+          .onConflictDoUpdate({ target: activities.uniqueKey, set: UPSERT_SET })
+          .returning({ id: activities.id })
+          .get();
+        return result.id;
+      })
+    );
+  }
+
+  private getConnectedDb(): BetterSQLite3Database<typeof schema> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Decode a row read with the raw better-sqlite3 driver (column names, stored encodings)
+ */
+function fromRawRow(row: Record<string, unknown>): SqliteActivity {
+  return {
+    id: row.id as string,
+    uniqueKey: row.unique_key as string,
+    type: row.type as string,
+    author: row.author as string,
+    activityDate: new Date(row.activity_date as number),
+    repository: row.repository as string,
+    url: row.url as string | null,
+    title: row.title as string | null,
+    description: row.description as string | null,
+    meta: row.meta ? JSON.parse(row.meta as string) : null,
+    createdAt: new Date(row.created_at as number),
+    updatedAt: new Date(row.updated_at as number),
+  };
+}
+
+/**
+ * Convert SQLite row to StoredActivity
+ */
+function toStoredActivity(row: SqliteActivity): StoredActivity {
+  return {
+    id: row.id,
+    uniqueKey: row.uniqueKey,
+    type: row.type as UserActivity['type'],
+    author: row.author,
+    date: row.activityDate.toISOString(),
+    repository: row.repository,
+    url: row.url || undefined,
+    title: row.title || undefined,
+    description: row.description || undefined,
+    meta: row.meta || {},
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Convert SQLite row to SyncWatermark
+ */
+function toSyncWatermark(row: SqliteSyncWatermark): SyncWatermark {
+  return {
+    connector: row.connector,
+    target: row.target,
+    lastFrom: row.lastFrom,
+    lastTo: row.lastTo,
+    cursor: row.cursor || undefined,
+    activityCount: row.activityCount,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Convert SQLite row to Identity
+ */
+function toIdentity(row: SqliteIdentity): Identity {
+  return {
+    kind: row.kind as IdentityKind,
+    value: row.value,
+    person: row.person,
+    source: row.source as Identity['source'],
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Convert SQLite row to WebhookDelivery
+ */
+function toWebhookDelivery(row: SqliteWebhookDelivery): WebhookDelivery {
+  return {
+    deliveryId: row.deliveryId,
+    event: row.event,
+    action: row.action || undefined,
+    activityCount: row.activityCount,
+    receivedAt: row.receivedAt,
+  };
+}
+
+function lowercaseAll(values: string[]): string[] {
+  return values.map((v) => v.toLowerCase());
+}
+
+/**
+ * LIKE pattern matching strings that start with a literal prefix
+ */
+function likePrefix(prefix: string): string {
+  return `${prefix.replace(/^(\.\/|\/)+/, '').replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * UTC date bucket of an activity; activity_date holds epoch milliseconds
+ */
+function dateBucket(interval: ActivityInterval): SQL<string> {
+  const seconds = sql`${activities.activityDate} / 1000`;
+  switch (interval) {
+    case 'day':
+      return sql<string>`strftime('%Y-%m-%d', ${seconds}, 'unixepoch')`;
+    case 'week':
+      // Forward to the week's Sunday (or stay on it), then back to its Monday
+      return sql<string>`date(${seconds}, 'unixepoch', 'weekday 0', '-6 days')`;
+    case 'month':
+      return sql<string>`strftime('%Y-%m', ${seconds}, 'unixepoch')`;
+  }
+}
+
+/**
+ * Build where conditions for activity queries
+ */
+function buildWhereConditions(options: ActivityQueryOptions): ReturnType<typeof and> | undefined {
+  const conditions = [];
+
+  if (options.author) {
+    conditions.push(eq(activities.author, options.author));
+  }
+
+  const aliasConditions = [];
+  if (options.authors && options.authors.length > 0) {
+    aliasConditions.push(inArray(sql`lower(${activities.author})`, lowercaseAll(options.authors)));
+  }
+  if (options.authorEmails && options.authorEmails.length > 0) {
+    aliasConditions.push(
+      inArray(
+        sql`lower(json_extract(${activities.meta}, '$.email'))`,
+        lowercaseAll(options.authorEmails)
+      )
+    );
+  }
+  if (aliasConditions.length > 0) {
+    conditions.push(or(...aliasConditions));
+  }
+
+  if (options.repository) {
+    conditions.push(eq(activities.repository, options.repository));
+  }
+
+  if (options.type) {
+    conditions.push(eq(activities.type, options.type));
+  }
+
+  if (options.pathPrefix) {
+    conditions.push(
+      sql`exists (select 1 from json_each(${activities.meta}, '$.files') as f where json_extract(f.value, '$.path') like ${likePrefix(options.pathPrefix)} escape '\\')`
+    );
+  }
+
+  if (options.fromDate) {
+    conditions.push(gte(activities.activityDate, options.fromDate));
+  }
+
+  if (options.toDate) {
+    conditions.push(lte(activities.activityDate, options.toDate));
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
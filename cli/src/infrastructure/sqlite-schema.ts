@@ -0,0 +1,148 @@
+import { sqliteTable, text, integer, index, unique } from 'drizzle-orm/sqlite-core';
+
+// SQLite mirror of the PostgreSQL activities table, used by the embedded backends
+export const activities = sqliteTable(
+  'activities',
+  {
+    id: text('id').primaryKey(),
+    uniqueKey: text('unique_key').notNull().unique('uq_activities_unique_key'), // Unique identifier for upsert logic
+    type: text('type').notNull(),
+    author: text('author').notNull(),
+    activityDate: integer('activity_date', { mode: 'timestamp_ms' }).notNull(),
+    repository: text('repository').notNull(),
+    url: text('url'),
+    title: text('title'),
+    description: text('description'),
+    meta: text('meta', { mode: 'json' }).default({}).$type<Record<string, unknown>>(),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [
+    index('idx_activities_type').on(table.type),
+    index('idx_activities_author').on(table.author),
+    index('idx_activities_date').on(table.activityDate),
+    index('idx_activities_repository').on(table.repository),
+    index('idx_activities_author_date').on(table.author, table.activityDate),
+    index('idx_activities_repo_date').on(table.repository, table.activityDate),
+  ]
+);
+
+// Type for selecting an activity
+export type SqliteActivity = typeof activities.$inferSelect;
+
+// Sync watermarks: last successfully synced window per connector and target
+export const syncWatermarks = sqliteTable(
+  'sync_watermarks',
+  {
+    id: text('id').primaryKey(),
+    connector: text('connector').notNull(),
+    target: text('target').notNull(),
+    lastFrom: integer('last_from', { mode: 'timestamp_ms' }).notNull(),
+    lastTo: integer('last_to', { mode: 'timestamp_ms' }).notNull(),
+    cursor: text('cursor'),
+    activityCount: integer('activity_count').notNull().default(0),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [unique('uq_sync_watermarks_connector_target').on(table.connector, table.target)]
+);
+
+export type SqliteSyncWatermark = typeof syncWatermarks.$inferSelect;
+
+// Identities: aliases (emails, git author names, GitHub logins) mapped to a canonical person
+export const identities = sqliteTable(
+  'identities',
+  {
+    id: text('id').primaryKey(),
+    kind: text('kind').notNull(),
+    value: text('value').notNull(),
+    person: text('person').notNull(),
+    source: text('source').notNull().default('manual'),
+    createdAt: integer('created_at', { mode: 'timestamp_ms' }).notNull(),
+    updatedAt: integer('updated_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [
+    unique('uq_identities_kind_value').on(table.kind, table.value),
+    index('idx_identities_person').on(table.person),
+  ]
+);
+
+export type SqliteIdentity = typeof identities.$inferSelect;
+
+// Webhook deliveries already applied, so redeliveries are acknowledged without re-processing
+export const webhookDeliveries = sqliteTable(
+  'webhook_deliveries',
+  {
+    id: text('id').primaryKey(),
+    deliveryId: text('delivery_id').notNull(),
+    event: text('event').notNull(),
+    action: text('action'),
+    activityCount: integer('activity_count').notNull().default(0),
+    receivedAt: integer('received_at', { mode: 'timestamp_ms' }).notNull(),
+  },
+  (table) => [
+    unique('uq_webhook_deliveries_delivery_id').on(table.deliveryId),
+    index('idx_webhook_deliveries_received_at').on(table.receivedAt),
+  ]
+);
+
+export type SqliteWebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+/**
+ * DDL applied when an embedded database is opened
+ * SQLite files are created on demand, so there is no separate migration step
+ */
+export const SQLITE_BOOTSTRAP: string[] = [
+  `CREATE TABLE IF NOT EXISTS activities (
+    id TEXT PRIMARY KEY NOT NULL,
+    unique_key TEXT NOT NULL,
+    type TEXT NOT NULL,
+    author TEXT NOT NULL,
+    activity_date INTEGER NOT NULL,
+    repository TEXT NOT NULL,
+    url TEXT,
+    title TEXT,
+    description TEXT,
+    meta TEXT DEFAULT '{}',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    CONSTRAINT uq_activities_unique_key UNIQUE (unique_key)
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_activities_type ON activities (type)',
+  'CREATE INDEX IF NOT EXISTS idx_activities_author ON activities (author)',
+  'CREATE INDEX IF NOT EXISTS idx_activities_date ON activities (activity_date)',
+  'CREATE INDEX IF NOT EXISTS idx_activities_repository ON activities (repository)',
+  'CREATE INDEX IF NOT EXISTS idx_activities_author_date ON activities (author, activity_date)',
+  'CREATE INDEX IF NOT EXISTS idx_activities_repo_date ON activities (repository, activity_date)',
+  `CREATE TABLE IF NOT EXISTS sync_watermarks (
+    id TEXT PRIMARY KEY NOT NULL,
+    connector TEXT NOT NULL,
+    target TEXT NOT NULL,
+    last_from INTEGER NOT NULL,
+    last_to INTEGER NOT NULL,
+    cursor TEXT,
+    activity_count INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL,
+    CONSTRAINT uq_sync_watermarks_connector_target UNIQUE (connector, target)
+  )`,
+  `CREATE TABLE IF NOT EXISTS identities (
+    id TEXT PRIMARY KEY NOT NULL,
+    kind TEXT NOT NULL,
+    value TEXT NOT NULL,
+    person TEXT NOT NULL,
+    source TEXT NOT NULL DEFAULT 'manual',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    CONSTRAINT uq_identities_kind_value UNIQUE (kind, value)
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_identities_person ON identities (person)',
+  `CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY NOT NULL,
+    delivery_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    action TEXT,
+    activity_count INTEGER NOT NULL DEFAULT 0,
+    received_at INTEGER NOT NULL,
+    CONSTRAINT uq_webhook_deliveries_delivery_id UNIQUE (delivery_id)
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at ON webhook_deliveries (received_at)',
+];
@@ -0,0 +1,52 @@
+/**
+ * High-water mark of the last successful sync for one connector target
+ */
+export interface SyncWatermark {
+  connector: string;
+  target: string;
+  lastFrom: Date;
+  lastTo: Date;
+  cursor?: string;
+  activityCount: number; // Activities fetched by the run that set this mark
+  updatedAt?: Date;
+}
+
+/**
+ * Storage operations for sync watermarks
+ */
+export interface WatermarkRepository {
+  /**
+   * Get the watermark for a connector target
+   */
+  getWatermark(connector: string, target: string): Promise<SyncWatermark | null>;
+
+  /**
+   * List all stored watermarks, ordered by connector and target
+   */
+  listWatermarks(): Promise<SyncWatermark[]>;
+
+  /**
+   * Insert or replace the watermark for a connector target
+   */
+  saveWatermark(watermark: SyncWatermark): Promise<void>;
+
+  /**
+   * Delete watermarks, optionally limited to the given connectors
+   * @returns number of deleted watermarks
+   */
+  resetWatermarks(connectors?: string[]): Promise<number>;
+}
+
+/**
+ * Merge a completed sync window into the existing watermark
+ * The high-water mark only moves forward, so backfills of older ranges never rewind it
+ */
+export function advanceWatermark(
+  existing: SyncWatermark | null,
+  next: SyncWatermark
+): SyncWatermark {
+  if (!existing || next.lastTo.getTime() >= existing.lastTo.getTime()) {
+    return next;
+  }
+  return existing;
+}
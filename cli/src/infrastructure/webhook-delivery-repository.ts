@@ -0,0 +1,26 @@
+/**
+ * A processed webhook delivery, recorded so redeliveries are not applied twice
+ */
+export interface WebhookDelivery {
+  deliveryId: string; // X-GitHub-Delivery header
+  event: string; // X-GitHub-Event header, e.g. pull_request
+  action?: string; // Payload action, e.g. opened
+  activityCount: number; // Activities saved from the delivery
+  receivedAt?: Date;
+}
+
+/**
+ * Storage operations for processed webhook deliveries
+ */
+export interface WebhookDeliveryRepository {
+  /**
+   * Get a recorded delivery by its delivery ID
+   */
+  findDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+
+  /**
+   * Record a processed delivery; an already recorded delivery ID is left unchanged
+   * @returns true when the delivery was newly recorded
+   */
+  saveDelivery(delivery: WebhookDelivery): Promise<boolean>;
+}
@@ -0,0 +1,161 @@
+import type { JiraChangelogHistory, JiraComment, JiraIssue } from './types.js';
+import { withRetry } from './core/retry.js';
+
+export interface JiraClientOptions {
+  email?: string; // Jira Cloud: API tokens are sent with the account email (Basic auth)
+  maxRetries?: number; // Retries per request for transient failures (default 5)
+  pageSize?: number; // Results per page, up to 100 (default 100)
+}
+
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_PAGE_SIZE = 100;
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const MAX_ERROR_BODY_LENGTH = 300;
+
+// Issue fields the connector reads; the rest of the issue is not transferred
+const SEARCH_FIELDS = 'summary,created,updated,status,assignee,reporter,labels,resolution,comment';
+
+/**
+ * Raised for non-2xx Jira API responses
+ */
+export class JiraApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'JiraApiError';
+  }
+}
+
+/**
+ * Paged list shape shared by Jira's search, changelog and comment endpoints
+ */
+interface JiraPage {
+  startAt: number;
+  maxResults: number;
+  total: number;
+}
+
+/**
+ * Minimal Jira REST API (v2) client for issues with their changelog and comments
+ * Works with Jira Cloud (email + API token) and Server / Data Center (personal access token)
+ */
+export class JiraClient {
+  private apiUrl: string;
+  private authorization: string;
+  private maxRetries: number;
+  private pageSize: number;
+
+  /**
+   * @param baseUrl - Site root, e.g. https://your-company.atlassian.net
+   * @param token - API token (Cloud, together with options.email) or personal access token
+   */
+  constructor(baseUrl: string, token: string, options: JiraClientOptions = {}) {
+    this.apiUrl = `${baseUrl.replace(/\/+$/, '')}/rest/api/2`;
+    this.authorization = options.email
+      ? `Basic ${Buffer.from(`${options.email}:${token}`).toString('base64')}`
+      : `Bearer ${token}`;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  }
+
+  /**
+   * Issues matching a JQL query, with their first page of changelog and comments
+   * Use fetchChangelog/fetchComments when `total` exceeds what was returned
+   */
+  async searchIssues(jql: string): Promise<JiraIssue[]> {
+    const issues: JiraIssue[] = [];
+    for (let startAt = 0; ; ) {
+      const page = await this.get<JiraPage & { issues: JiraIssue[] }>('/search', {
+        jql,
+        fields: SEARCH_FIELDS,
+        expand: 'changelog',
+        startAt: String(startAt),
+        maxResults: String(this.pageSize),
+      });
+      issues.push(...page.issues);
+      startAt += page.issues.length;
+      if (page.issues.length === 0 || startAt >= page.total) return issues;
+    }
+  }
+
+  async fetchChangelog(issueKey: string): Promise<JiraChangelogHistory[]> {
+    return this.getAll(`/issue/${encodeURIComponent(issueKey)}/changelog`, 'values');
+  }
+
+  async fetchComments(issueKey: string): Promise<JiraComment[]> {
+    return this.getAll(`/issue/${encodeURIComponent(issueKey)}/comment`, 'comments');
+  }
+
+  /**
+   * Fetch every page of an offset-paged list endpoint
+   */
+  private async getAll<T>(path: string, listKey: string): Promise<T[]> {
+    const all: T[] = [];
+    for (let startAt = 0; ; ) {
+      const page = await this.get<JiraPage & Record<string, unknown>>(path, {
+        startAt: String(startAt),
+        maxResults: String(this.pageSize),
+      });
+      const items = (page[listKey] as T[] | undefined) ?? [];
+      all.push(...items);
+      startAt += items.length;
+      if (items.length === 0 || startAt >= page.total) return all;
+    }
+  }
+
+  /**
+   * GET a JSON resource, retrying rate limits (429) and server errors with jittered backoff
+   */
+  private async get<T>(path: string, params: Record<string, string>): Promise<T> {
+    const url = new URL(`${this.apiUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+
+    return withRetry(
+      async () => {
+        const response = await fetch(url, {
+          headers: { Authorization: this.authorization, Accept: 'application/json' },
+        });
+
+        if (!response.ok) {
+          const retryAfter = Number(response.headers.get('retry-after'));
+          const detail = (await response.text()).slice(0, MAX_ERROR_BODY_LENGTH);
+          throw new JiraApiError(
+            response.status,
+            `Jira API ${response.status} ${response.statusText} for ${url.pathname}: ${detail}`,
+            retryAfter > 0 ? retryAfter * 1000 : undefined
+          );
+        }
+
+        return (await response.json()) as T;
+      },
+      {
+        retries: this.maxRetries,
+        shouldRetry: isRetryableJiraError,
+        retryAfterMs: (error) => (error instanceof JiraApiError ? error.retryAfterMs : undefined),
+        onRetry: (error, attempt, delayMs) => {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.warn(
+            `Jira request failed (${reason}), retry ${attempt}/${this.maxRetries} in ${Math.ceil(delayMs / 1000)}s`
+          );
+        },
+      }
+    );
+  }
+}
+
+/**
+ * Whether a Jira request failure is transient: rate limits, server errors or network failures
+ */
+export function isRetryableJiraError(error: unknown): boolean {
+  if (error instanceof JiraApiError) {
+    return RETRYABLE_STATUSES.includes(error.status);
+  }
+  // fetch() rejects with a TypeError on network failures
+  return error instanceof TypeError;
+}
@@ -0,0 +1,238 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Notifier, NotificationError, type NotificationMessage } from './notifier.js';
+import { sleep } from '../core/retry.js';
+import { startStubServer, type StubResponse, type StubServer } from '../testing/stub-server.js';
+
+const MESSAGE: NotificationMessage = {
+  title: 'PR metrics 2026-03-01 – 2026-03-31',
+  markdown: [
+    '## Summary',
+    '**3** PRs merged, see [the dashboard](https://example.com/d?a=1&b=2)',
+    '| Author | PRs |',
+    '| --- | --- |',
+    '| alice | 2 |',
+  ].join('\n'),
+  fields: { from: '2026-03-01', to: '2026-03-31', command: 'report pr-metrics' },
+  data: { totals: { merged: 3 } },
+};
+
+describe('Notifier', () => {
+  let server: StubServer;
+  // Responses per path, replayed in order (the last one repeats); 200 when missing
+  let script: Record<string, StubResponse[]>;
+  const served = new Map<string, number>();
+  const arrivals: number[] = [];
+
+  before(async () => {
+    server = await startStubServer(async (request) => {
+      arrivals.push(Date.now());
+      const responses = script[request.url.pathname] ?? [{}];
+      const count = served.get(request.url.pathname) ?? 0;
+      served.set(request.url.pathname, count + 1);
+      const { body, ...response } = responses[Math.min(count, responses.length - 1)];
+      // A numeric body delays the answer by that many milliseconds
+      if (typeof body === 'number') await sleep(body);
+      return typeof body === 'number' ? response : { ...response, body };
+    });
+  });
+
+  after(() => server.close());
+
+  beforeEach(() => {
+    script = {};
+    served.clear();
+    arrivals.length = 0;
+    server.requests.length = 0;
+  });
+
+  const delays = (): number[] => arrivals.slice(1).map((time, i) => time - arrivals[i]);
+
+  describe('payloads', () => {
+    it('posts Slack mrkdwn with tables as code blocks', async () => {
+      await new Notifier().send(
+        { name: 'team-slack', type: 'slack', url: `${server.url}/slack` },
+        MESSAGE
+      );
+
+      const [request] = server.requests;
+      assert.equal(request.method, 'POST');
+      assert.equal(request.headers['content-type'], 'application/json');
+      assert.deepEqual(JSON.parse(request.body), {
+        text: [
+          '*Summary*',
+          '*3* PRs merged, see <https://example.com/d?a=1&amp;b=2|the dashboard>',
+          '```',
+          '| Author | PRs |',
+          '| --- | --- |',
+          '| alice | 2 |',
+          '```',
+        ].join('\n'),
+      });
+    });
+
+    it('posts a Teams Adaptive Card with tables as lists', async () => {
+      await new Notifier().send(
+        { name: 'team-teams', type: 'teams', url: `${server.url}/teams` },
+        MESSAGE
+      );
+
+      const payload = JSON.parse(server.requests[0].body);
+      assert.equal(payload.type, 'message');
+      const [attachment] = payload.attachments;
+      assert.equal(attachment.contentType, 'application/vnd.microsoft.card.adaptive');
+      assert.deepEqual(attachment.content.body, [
+        { type: 'TextBlock', text: MESSAGE.title, weight: 'Bolder', size: 'Medium', wrap: true },
+        {
+          type: 'TextBlock',
+          text: [
+            '**Summary**',
+            '**3** PRs merged, see [the dashboard](https://example.com/d?a=1&b=2)',
+            '- Author · PRs',
+            '- alice · 2',
+          ].join('\n\n'),
+          wrap: true,
+        },
+      ]);
+    });
+
+    it('posts generic JSON with the template, fields, data and extra headers', async () => {
+      await new Notifier().send(
+        {
+          name: 'ops-hook',
+          type: 'webhook',
+          url: `${server.url}/hook`,
+          template: '{{title}} ({{command}}, {{from}} to {{to}}){{missing}}',
+          headers: { Authorization: 'Bearer s3cret' },
+        },
+        MESSAGE
+      );
+
+      const [request] = server.requests;
+      assert.equal(request.headers.authorization, 'Bearer s3cret');
+      assert.deepEqual(JSON.parse(request.body), {
+        title: MESSAGE.title,
+        text: `${MESSAGE.title} (report pr-metrics, 2026-03-01 to 2026-03-31)`,
+        fields: MESSAGE.fields,
+        data: MESSAGE.data,
+      });
+    });
+  });
+
+  describe('retries', () => {
+    it('retries server errors with growing backoff delays', async () => {
+      script['/flaky'] = [{ status: 503 }, { status: 502 }, { status: 200 }];
+      const warn = mock.method(console, 'warn', () => undefined);
+
+      await new Notifier({ baseDelayMs: 100 }).send(
+        { name: 'flaky', type: 'webhook', url: `${server.url}/flaky` },
+        MESSAGE
+      );
+      warn.mock.restore();
+
+      assert.equal(served.get('/flaky'), 3);
+      assert.deepEqual(
+        warn.mock.calls.map((call) => String(call.arguments[0]).match(/retry \d\/3/)?.[0]),
+        ['retry 1/3', 'retry 2/3']
+      );
+      // Jittered between half and all of 100ms, then of 200ms
+      const [first, second] = delays();
+      assert.ok(first >= 50 && first < 1000, `first delay ${first}ms`);
+      assert.ok(second >= 100 && second < 1000, `second delay ${second}ms`);
+      // Every attempt posts the same body
+      assert.equal(new Set(server.requests.map((r) => r.body)).size, 1);
+    });
+
+    it('waits for Retry-After on 429', async () => {
+      script['/limited'] = [{ status: 429, headers: { 'retry-after': '1' } }, { status: 200 }];
+      const warn = mock.method(console, 'warn', () => undefined);
+
+      await new Notifier({ baseDelayMs: 1 }).send(
+        { name: 'limited', type: 'slack', url: `${server.url}/limited` },
+        MESSAGE
+      );
+      warn.mock.restore();
+
+      const [delay] = delays();
+      assert.ok(delay >= 1000, `delay ${delay}ms`);
+      assert.match(String(warn.mock.calls[0].arguments[0]), /HTTP 429 .* in 1s$/);
+    });
+
+    it('retries requests that time out', async () => {
+      script['/slow'] = [{ body: 500 }, { status: 200 }];
+      const warn = mock.method(console, 'warn', () => undefined);
+
+      await new Notifier({ baseDelayMs: 1, timeoutMs: 100 }).send(
+        { name: 'slow', type: 'mattermost', url: `${server.url}/slow` },
+        MESSAGE
+      );
+      warn.mock.restore();
+
+      assert.equal(served.get('/slow'), 2);
+      assert.equal(warn.mock.callCount(), 1);
+    });
+
+    it('gives up once retries are exhausted', async () => {
+      script['/down'] = [{ status: 500, body: 'Internal Server Error' }];
+      const warn = mock.method(console, 'warn', () => undefined);
+
+      await assert.rejects(
+        new Notifier({ maxRetries: 2, baseDelayMs: 1 }).send(
+          { name: 'down', type: 'webhook', url: `${server.url}/down` },
+          MESSAGE
+        ),
+        (error: unknown) =>
+          error instanceof NotificationError &&
+          error.status === 500 &&
+          error.message === 'down: HTTP 500 Internal Server Error Internal Server Error'
+      );
+      warn.mock.restore();
+
+      assert.equal(served.get('/down'), 3);
+    });
+  });
+
+  describe('non-2xx responses', () => {
+    it('fails a rejected message at once, with the status and a bounded body', async () => {
+      script['/invalid'] = [{ status: 400, body: `invalid_payload ${'x'.repeat(1000)}` }];
+
+      await assert.rejects(
+        new Notifier().send(
+          { name: 'invalid', type: 'slack', url: `${server.url}/invalid` },
+          MESSAGE
+        ),
+        (error: unknown) =>
+          error instanceof NotificationError &&
+          error.status === 400 &&
+          error.channel === 'invalid' &&
+          error.message.startsWith('invalid: HTTP 400 Bad Request invalid_payload xxx') &&
+          error.message.length < 400
+      );
+      assert.equal(served.get('/invalid'), 1);
+    });
+
+    it('still delivers to the other channels and lists every failure', async () => {
+      script['/gone'] = [{ status: 404, body: 'no_team' }];
+      script['/forbidden'] = [{ status: 403, body: 'invalid_token' }];
+
+      await assert.rejects(
+        new Notifier().notifyAll(
+          [
+            { name: 'gone', type: 'slack', url: `${server.url}/gone` },
+            { name: 'ok', type: 'webhook', url: `${server.url}/ok` },
+            { name: 'forbidden', type: 'teams', url: `${server.url}/forbidden` },
+          ],
+          MESSAGE
+        ),
+        {
+          message: [
+            'Notification failed:',
+            '  - gone: HTTP 404 Not Found no_team',
+            '  - forbidden: HTTP 403 Forbidden invalid_token',
+          ].join('\n'),
+        }
+      );
+      assert.equal(served.get('/ok'), 1);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { withRetry } from '../core/retry.js';
+import { buildPayload, renderTemplate } from './payloads.js';
+
+export const CHANNEL_TYPES = ['slack', 'mattermost', 'teams', 'webhook'] as const;
+
+export type ChannelType = (typeof CHANNEL_TYPES)[number];
+
+/**
+ * An incoming webhook messages are posted to
+ */
+export interface NotificationChannel {
+  name: string;
+  type: ChannelType;
+  url: string;
+  template?: string; // Message text with {{title}}, {{body}} and field placeholders
+  headers?: Record<string, string>; // Extra request headers, e.g. Authorization
+}
+
+/**
+ * A message to deliver, written in Markdown and converted per channel type
+ */
+export interface NotificationMessage {
+  title: string;
+  markdown: string;
+  fields?: Record<string, string>; // Template variables, e.g. from, to, command
+  data?: unknown; // Structured report, included in generic webhook payloads
+}
+
+export interface NotifierOptions {
+  maxRetries?: number; // Retries per channel for transient failures (default 3)
+  baseDelayMs?: number; // First backoff delay (default 1000)
+  timeoutMs?: number; // Per-request timeout (default 10000)
+}
+
+const DEFAULT_TEMPLATE = '{{body}}';
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const MAX_ERROR_BODY_LENGTH = 300;
+
+/**
+ * Raised when a channel rejects a message
+ */
+export class NotificationError extends Error {
+  constructor(
+    readonly channel: string,
+    readonly status: number | undefined,
+    message: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+/**
+ * Post messages to chat and generic JSON incoming webhooks
+ */
+export class Notifier {
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private timeoutMs: number;
+
+  constructor(options: NotifierOptions = {}) {
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  /**
+   * Deliver a message to every channel; a failing channel does not stop the others
+   * @throws Error listing every channel that failed after its retries
+   */
+  async notifyAll(channels: NotificationChannel[], message: NotificationMessage): Promise<void> {
+    const failures: string[] = [];
+    for (const channel of channels) {
+      try {
+        await this.send(channel, message);
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    if (failures.length > 0) {
+      throw new Error(`Notification failed:\n${failures.map((f) => `  - ${f}`).join('\n')}`);
+    }
+  }
+
+  /**
+   * Deliver a message to one channel, retrying rate limits, server errors and network failures
+   */
+  async send(channel: NotificationChannel, message: NotificationMessage): Promise<void> {
+    const text = renderTemplate(channel.template ?? DEFAULT_TEMPLATE, message);
+    const body = JSON.stringify(buildPayload(channel.type, message, text));
+
+    await withRetry(
+      async () => {
+        let response: Response;
+        try {
+          response = await fetch(channel.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...channel.headers },
+            body,
+            signal: AbortSignal.timeout(this.timeoutMs),
+          });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new NotificationError(channel.name, undefined, `${channel.name}: ${reason}`);
+        }
+
+        if (!response.ok) {
+          const retryAfter = Number(response.headers.get('retry-after'));
+          const detail = (await response.text()).slice(0, MAX_ERROR_BODY_LENGTH);
+          throw new NotificationError(
+            channel.name,
+            response.status,
+            `${channel.name}: HTTP ${response.status} ${response.statusText} ${detail}`.trim(),
+            retryAfter > 0 ? retryAfter * 1000 : undefined
+          );
+        }
+      },
+      {
+        retries: this.maxRetries,
+        baseDelayMs: this.baseDelayMs,
+        shouldRetry: (error) =>
+          error instanceof NotificationError &&
+          (error.status === undefined || RETRYABLE_STATUSES.includes(error.status)),
+        retryAfterMs: (error) =>
+          error instanceof NotificationError ? error.retryAfterMs : undefined,
+        onRetry: (error, attempt, delayMs) => {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.warn(
+            `Notification failed (${reason}), retry ${attempt}/${this.maxRetries} in ${Math.ceil(delayMs / 1000)}s`
+          );
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import type { ChannelType, NotificationMessage } from './notifier.js';
+
+/**
+ * Substitute `{{name}}` placeholders with message variables
+ * Available: title, body, plus the message's fields (e.g. from, to, command); unknown names
+ * render empty.
+ */
+export function renderTemplate(template: string, message: NotificationMessage): string {
+  const variables: Record<string, string> = {
+    ...message.fields,
+    title: message.title,
+    body: message.markdown,
+  };
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+}
+
+/**
+ * Build the JSON body an incoming webhook of the given type expects
+ *
+ * - slack: `{ text }` in Slack mrkdwn (links, bold headings, tables as code blocks)
+ * - mattermost: `{ text }` in Markdown, which Mattermost renders natively
+ * - teams: an Adaptive Card message, as accepted by Teams workflow and connector webhooks
+ * - webhook: `{ title, text, fields, data }` with the Markdown text and the structured report
+ *
+ * @param text - Message text after templating, in Markdown
+ */
+export function buildPayload(
+  type: ChannelType,
+  message: NotificationMessage,
+  text: string
+): unknown {
+  switch (type) {
+    case 'slack':
+      return { text: toSlackMrkdwn(text) };
+    case 'mattermost':
+      return { text };
+    case 'teams':
+      return {
+        type: 'message',
+        attachments: [
+          {
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            content: {
+              $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+              type: 'AdaptiveCard',
+              version: '1.4',
+              body: [
+                {
+                  type: 'TextBlock',
+                  text: message.title,
+                  weight: 'Bolder',
+                  size: 'Medium',
+                  wrap: true,
+                },
+                { type: 'TextBlock', text: toTeamsMarkdown(text), wrap: true },
+              ],
+            },
+          },
+        ],
+      };
+    case 'webhook':
+      return { title: message.title, text, fields: message.fields ?? {}, data: message.data };
+  }
+}
+
+/**
+ * Convert Markdown to Slack mrkdwn
+ */
+export function toSlackMrkdwn(markdown: string): string {
+  const converted = mapBlocks(markdown, (line) =>
+    line
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/^#{1,6}\s+(.*)$/, '*$1*')
+      .replace(/\*\*(.+?)\*\*/g, '*$1*')
+      .replace(
+        /\[((?:\\.|[^\]])+)\]\(([^)\s]+)\)/g,
+        (_, label: string, url: string) => `<${url}|${unescapeMarkdown(label)}>`
+      )
+  );
+  return converted.replace(/\\([\\[\]*_`])/g, '$1');
+}
+
+/**
+ * Convert Markdown to the subset an Adaptive Card TextBlock renders (no headings, no tables)
+ */
+function toTeamsMarkdown(markdown: string): string {
+  return (
+    mapBlocks(
+      markdown,
+      (line) => line.replace(/^#{1,6}\s+(.*)$/, '**$1**'),
+      (table) =>
+        table
+          .filter((row) => !/^\|[\s|:-]+\|$/.test(row))
+          .map((row) => `- ${row.replace(/^\|\s*|\s*\|$/g, '').replace(/\s*\|\s*/g, ' · ')}`)
+    )
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      // TextBlock Markdown needs blank lines between paragraphs and list items
+      .join('\n\n')
+  );
+}
+
+/**
+ * Apply a line conversion outside tables; tables (consecutive `|` lines) become code blocks
+ * unless a table conversion is given
+ */
+function mapBlocks(
+  markdown: string,
+  convertLine: (line: string) => string,
+  convertTable: (rows: string[]) => string[] = (rows): string[] => ['```', ...rows, '```']
+): string {
+  const output: string[] = [];
+  let table: string[] = [];
+
+  const flush = (): void => {
+    if (table.length > 0) output.push(...convertTable(table));
+    table = [];
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (line.startsWith('|')) {
+      table.push(line);
+    } else {
+      flush();
+      output.push(convertLine(line));
+    }
+  }
+  flush();
+
+  return output.join('\n');
+}
+
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([\\[\]*_`|])/g, '$1');
+}
@@ -0,0 +1,227 @@
+import dayjs from 'dayjs';
+import {
+  ACTIVITY_GROUP_FIELDS,
+  type ActivityGroupField,
+  type ActivityQueryOptions,
+  type ActivityRepository,
+} from '../infrastructure/activity-repository.js';
+import type { ActivityType } from '../types.js';
+import { resolveAuthorFilter } from '../core/identity-resolver.js';
+import { HttpError, type Route, type RouteRequest, type RouteResponse } from './http.js';
+
+export const DEFAULT_PAGE_LIMIT = 100;
+export const MAX_PAGE_LIMIT = 1000;
+
+const FILTER_PARAMS = ['author', 'repository', 'type', 'from', 'to'];
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Read-only JSON API over stored activities
+ *
+ *   GET /health                                  storage connectivity (503 when unreachable)
+ *   GET /activities                              filtered page of activities with pagination metadata
+ *   GET /activities/count                        number of matching activities
+ *   GET /activities/aggregates?groupBy=<field>   counts per type, author or repository
+ *   GET /activities/:id                          single activity
+ *
+ * Filters (all list endpoints): author, repository, type, from, to
+ * Authors are resolved through identities like `query-activities --author`.
+ */
+export function createActivityApiRoutes(repository: ActivityRepository): Route[] {
+  const startedAt = Date.now();
+
+  return [
+    {
+      method: 'GET',
+      path: '/health',
+      handler: async (): Promise<RouteResponse> => {
+        const connected = await repository.ping();
+        return {
+          status: connected ? 200 : 503,
+          body: {
+            status: connected ? 'ok' : 'unavailable',
+            database: { backend: repository.backend, connected },
+            uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+          },
+        };
+      },
+    },
+    {
+      method: 'GET',
+      path: '/activities',
+      handler: async (request): Promise<RouteResponse> => {
+        const problems: string[] = [];
+        checkParams(request, [...FILTER_PARAMS, 'limit', 'offset'], problems);
+        const filters = await parseFilters(repository, request, problems);
+        const limit = parseInteger(
+          request,
+          'limit',
+          DEFAULT_PAGE_LIMIT,
+          1,
+          MAX_PAGE_LIMIT,
+          problems
+        );
+        const offset = parseInteger(request, 'offset', 0, 0, Number.MAX_SAFE_INTEGER, problems);
+        throwIfInvalid(problems);
+
+        const [data, total] = await Promise.all([
+          repository.findActivities({ ...filters, limit, offset }),
+          repository.countActivities(filters),
+        ]);
+        const hasMore = offset + data.length < total;
+
+        return {
+          status: 200,
+          body: {
+            data,
+            pagination: {
+              limit,
+              offset,
+              total,
+              hasMore,
+              nextOffset: hasMore ? offset + data.length : null,
+            },
+          },
+        };
+      },
+    },
+    {
+      method: 'GET',
+      path: '/activities/count',
+      handler: async (request): Promise<RouteResponse> => {
+        const problems: string[] = [];
+        checkParams(request, FILTER_PARAMS, problems);
+        const filters = await parseFilters(repository, request, problems);
+        throwIfInvalid(problems);
+
+        return { status: 200, body: { count: await repository.countActivities(filters) } };
+      },
+    },
+    {
+      method: 'GET',
+      path: '/activities/aggregates',
+      handler: async (request): Promise<RouteResponse> => {
+        const problems: string[] = [];
+        checkParams(request, [...FILTER_PARAMS, 'groupBy'], problems);
+        const filters = await parseFilters(repository, request, problems);
+        const groupBy = request.query.get('groupBy');
+        if (!groupBy) {
+          problems.push(`groupBy: is required (one of: ${ACTIVITY_GROUP_FIELDS.join(', ')})`);
+        } else if (!ACTIVITY_GROUP_FIELDS.includes(groupBy as ActivityGroupField)) {
+          problems.push(`groupBy: must be one of: ${ACTIVITY_GROUP_FIELDS.join(', ')}`);
+        }
+        throwIfInvalid(problems);
+
+        const groups = await repository.countActivitiesBy(groupBy as ActivityGroupField, filters);
+        return { status: 200, body: { groupBy, groups } };
+      },
+    },
+    {
+      method: 'GET',
+      path: '/activities/:id',
+      handler: async (request): Promise<RouteResponse> => {
+        const { id } = request.params;
+        if (!UUID.test(id)) {
+          throw new HttpError(400, 'Invalid request', ['id: must be a UUID']);
+        }
+
+        const activity = await repository.findById(id);
+        if (!activity) {
+          throw new HttpError(404, `Activity ${id} not found`);
+        }
+        return { status: 200, body: activity };
+      },
+    },
+  ];
+}
+
+async function parseFilters(
+  repository: ActivityRepository,
+  request: RouteRequest,
+  problems: string[]
+): Promise<Omit<ActivityQueryOptions, 'limit' | 'offset'>> {
+  const filters: Omit<ActivityQueryOptions, 'limit' | 'offset'> = {};
+
+  const author = optionalParam(request, 'author', problems);
+  if (author) {
+    const authorFilter = await resolveAuthorFilter(repository, author);
+    if (authorFilter) {
+      filters.authors = authorFilter.authors;
+      filters.authorEmails = authorFilter.emails;
+    } else {
+      filters.author = author;
+    }
+  }
+
+  filters.repository = optionalParam(request, 'repository', problems);
+  filters.type = optionalParam(request, 'type', problems) as ActivityType | undefined;
+  filters.fromDate = parseDate(request, 'from', problems);
+  filters.toDate = parseDate(request, 'to', problems);
+
+  if (filters.fromDate && filters.toDate && filters.fromDate > filters.toDate) {
+    problems.push('from: must not be after to');
+  }
+
+  return filters;
+}
+
+function checkParams(request: RouteRequest, allowed: string[], problems: string[]): void {
+  for (const key of new Set(request.query.keys())) {
+    if (!allowed.includes(key)) {
+      problems.push(`${key}: unknown parameter (expected one of: ${allowed.join(', ')})`);
+    } else if (request.query.getAll(key).length > 1) {
+      problems.push(`${key}: must be given once`);
+    }
+  }
+}
+
+function optionalParam(request: RouteRequest, key: string, problems: string[]): string | undefined {
+  const value = request.query.get(key);
+  if (value === null) return undefined;
+  if (value.trim() === '') {
+    problems.push(`${key}: must not be empty`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+function parseDate(request: RouteRequest, key: string, problems: string[]): Date | undefined {
+  const value = optionalParam(request, key, problems);
+  if (!value) return undefined;
+
+  const date = dayjs(value);
+  if (!date.isValid()) {
+    problems.push(`${key}: invalid date "${value}" (expected YYYY-MM-DD or ISO 8601)`);
+    return undefined;
+  }
+  return date.toDate();
+}
+
+function parseInteger(
+  request: RouteRequest,
+  key: string,
+  defaultValue: number,
+  min: number,
+  max: number,
+  problems: string[]
+): number {
+  const value = optionalParam(request, key, problems);
+  if (value === undefined) return defaultValue;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    problems.push(
+      max === Number.MAX_SAFE_INTEGER
+        ? `${key}: must be an integer >= ${min}`
+        : `${key}: must be an integer between ${min} and ${max}`
+    );
+    return defaultValue;
+  }
+  return parsed;
+}
+
+function throwIfInvalid(problems: string[]): void {
+  if (problems.length > 0) {
+    throw new HttpError(400, 'Invalid request', problems);
+  }
+}
@@ -0,0 +1,165 @@
+import http from 'http';
+import chalk from 'chalk';
+import { logInfo } from '../logger.js';
+
+/**
+ * Error with an HTTP status, rendered as a JSON error response
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: string[]
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Incoming request as seen by a route handler
+ */
+export interface RouteRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>; // Values of :name segments in the route path
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  /**
+   * Raw request body; read lazily so GET handlers never wait for it
+   */
+  body(): Promise<Buffer>;
+}
+
+/**
+ * Handler result: status code and JSON-serializable body
+ */
+export interface RouteResponse {
+  status: number;
+  body: unknown;
+}
+
+export type RouteHandler = (request: RouteRequest) => Promise<RouteResponse>;
+
+export interface Route {
+  method: 'GET' | 'POST';
+  path: string; // e.g. /activities/:id
+  handler: RouteHandler;
+}
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Create an HTTP server dispatching to JSON routes
+ *
+ * - Routes match on method and path; `:name` segments become params
+ * - HttpError becomes `{ error: { message, details } }` with its status
+ * - Any other error is logged and answered with 500
+ */
+export function createJsonServer(routes: Route[]): http.Server {
+  const compiled = routes.map((route) => ({ ...route, segments: splitPath(route.path) }));
+
+  return http.createServer((req, res) => {
+    const startedAt = Date.now();
+    const method = req.method || 'GET';
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    const dispatch = async (): Promise<RouteResponse> => {
+      const segments = splitPath(url.pathname);
+      const matches = compiled
+        .map((route) => ({ route, params: matchSegments(route.segments, segments) }))
+        .filter((match) => match.params !== undefined);
+
+      if (matches.length === 0) {
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+      }
+      const match = matches.find(({ route }) => route.method === method);
+      if (!match) {
+        throw new HttpError(405, `Method ${method} not allowed for ${url.pathname}`);
+      }
+
+      return match.route.handler({
+        method,
+        path: url.pathname,
+        params: match.params!,
+        query: url.searchParams,
+        headers: req.headers,
+        body: () => readBody(req),
+      });
+    };
+
+    dispatch()
+      .catch((error: unknown): RouteResponse => {
+        if (error instanceof HttpError) {
+          return {
+            status: error.status,
+            body: { error: { message: error.message, details: error.details } },
+          };
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logInfo(chalk.red(`Error handling ${method} ${url.pathname}: ${errorMessage}`));
+        return { status: 500, body: { error: { message: 'Internal server error' } } };
+      })
+      .then(({ status, body }) => {
+        res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+        res.end(JSON.stringify(body));
+        const color = status >= 500 ? chalk.red : status >= 400 ? chalk.yellow : chalk.gray;
+        logInfo(
+          color(`${method} ${url.pathname}${url.search} ${status} ${Date.now() - startedAt}ms`)
+        );
+      });
+  });
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | undefined {
+  if (pattern.length !== segments.length) return undefined;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      try {
+        params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+      } catch {
+        throw new HttpError(400, `Malformed path segment: ${segments[i]}`);
+      }
+    } else if (pattern[i] !== segments[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Start listening and resolve once the server is bound
+ */
+export function listen(server: http.Server, port: number, host: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+}
@@ -0,0 +1,117 @@
+import type { ActivityRepository } from '../infrastructure/activity-repository.js';
+import { ActivityService } from '../core/activity-service.js';
+import {
+  mapWebhookEvent,
+  resolveWebhookActivities,
+  SUPPORTED_WEBHOOK_EVENTS,
+  verifyWebhookSignature,
+  type TimelineEventFetcher,
+} from '../core/github-webhook.js';
+import { createActivityKeyGenerator } from '../connectors/activity-keys.js';
+import type { GitHubWebhookPayload } from '../types.js';
+import { HttpError, type Route, type RouteRequest, type RouteResponse } from './http.js';
+
+export const DEFAULT_WEBHOOK_PATH = '/webhooks/github';
+
+export interface WebhookRouteOptions {
+  secret: string; // Webhook secret used to verify X-Hub-Signature-256
+  path?: string; // Delivery endpoint (default DEFAULT_WEBHOOK_PATH)
+  fetchTimeline?: TimelineEventFetcher; // Without it lifecycle events are left to the next sync
+}
+
+/**
+ * Routes receiving GitHub webhook deliveries
+ *
+ * - POST <path>  verify the signature, map the payload and upsert its activities
+ * - GET  /health store connectivity
+ *
+ * Delivery IDs are recorded after the activities are saved: a redelivery of a processed
+ * delivery is acknowledged without touching the store, a failed one is processed again.
+ * Lifecycle events are keyed by the timeline event node ID looked up through `fetchTimeline`.
+ */
+export function createWebhookRoutes(
+  repository: ActivityRepository,
+  options: WebhookRouteOptions
+): Route[] {
+  const service = new ActivityService(repository);
+  const keyFor = createActivityKeyGenerator();
+
+  const receive = async (request: RouteRequest): Promise<RouteResponse> => {
+    const body = await request.body();
+    const signature = header(request, 'x-hub-signature-256');
+    if (!verifyWebhookSignature(options.secret, body, signature)) {
+      throw new HttpError(401, 'Invalid or missing X-Hub-Signature-256');
+    }
+
+    const event = header(request, 'x-github-event');
+    const deliveryId = header(request, 'x-github-delivery');
+    if (!event || !deliveryId) {
+      throw new HttpError(400, 'Missing X-GitHub-Event or X-GitHub-Delivery header');
+    }
+
+    if (event === 'ping') {
+      return { status: 200, body: { status: 'pong', deliveryId } };
+    }
+
+    if (await repository.findDelivery(deliveryId)) {
+      return { status: 200, body: { status: 'duplicate', deliveryId } };
+    }
+
+    let payload: GitHubWebhookPayload;
+    try {
+      payload = JSON.parse(body.toString('utf8')) as GitHubWebhookPayload;
+    } catch {
+      throw new HttpError(400, 'Request body is not valid JSON');
+    }
+
+    const mapped = SUPPORTED_WEBHOOK_EVENTS.includes(event) ? mapWebhookEvent(event, payload) : [];
+    const { activities, deferred } = await resolveWebhookActivities(mapped, options.fetchTimeline);
+    const result = await service.saveActivities(activities, keyFor);
+    if (result.errors.length > 0) {
+      // Not recorded, so GitHub's redelivery is processed again
+      throw new Error(`Saving activities failed: ${result.errors.join('; ')}`);
+    }
+
+    await repository.saveDelivery({
+      deliveryId,
+      event,
+      action: payload.action,
+      activityCount: result.saved,
+    });
+
+    return {
+      status: 200,
+      body: {
+        status: mapped.length > 0 ? 'processed' : 'ignored',
+        deliveryId,
+        event,
+        action: payload.action,
+        activities: result.saved,
+        ...(deferred > 0 && { deferred }),
+      },
+    };
+  };
+
+  return [
+    {
+      method: 'GET',
+      path: '/health',
+      handler: async (): Promise<RouteResponse> => {
+        const connected = await repository.ping();
+        return {
+          status: connected ? 200 : 503,
+          body: {
+            status: connected ? 'ok' : 'unavailable',
+            database: { backend: repository.backend, connected },
+          },
+        };
+      },
+    },
+    { method: 'POST', path: options.path || DEFAULT_WEBHOOK_PATH, handler: receive },
+  ];
+}
+
+function header(request: RouteRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
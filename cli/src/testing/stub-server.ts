@@ -0,0 +1,80 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * A request received by the stub server
+ */
+export interface StubRequest {
+  method: string;
+  url: URL;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Response to send; an object body is sent as JSON
+ */
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface StubServer {
+  url: string; // Base URL, e.g. http://127.0.0.1:54321
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a local HTTP server standing in for a remote API in tests
+ *
+ * Every request is recorded in `requests` before `respond` answers it.
+ *
+ * @param respond - Builds the response of each request
+ */
+export async function startStubServer(
+  respond: (request: StubRequest) => StubResponse | Promise<StubResponse>
+): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', async () => {
+      const request: StubRequest = {
+        method: req.method || 'GET',
+        url: new URL(req.url || '/', 'http://127.0.0.1'),
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+      };
+      requests.push(request);
+
+      try {
+        const response = await respond(request);
+        const json = typeof response.body !== 'string' && response.body !== undefined;
+        res.writeHead(response.status ?? 200, {
+          ...(json && { 'content-type': 'application/json' }),
+          ...response.headers,
+        });
+        res.end(json ? JSON.stringify(response.body) : (response.body as string | undefined));
+      } catch (error) {
+        res.writeHead(500, { 'content-type': 'text/plain' });
+        res.end(error instanceof Error ? error.message : String(error));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
@@ -15,11 +15,69 @@ export interface FetchPRsOptions {
   onProgress?: (count: number) => void;
 }
 
+export interface FetchDeploymentsOptions {
+  owner: string;
+  repo: string;
+  from?: string; // Stop after the first page reaching past this date (newest first)
+  environments?: string[]; // Deployment environments, e.g. production (all when omitted)
+}
+
+export interface FetchRepoIssuesOptions {
+  owner: string;
+  repo: string;
+  since?: string; // Only issues updated since, with their timeline events since
+  onProgress?: (count: number) => void;
+}
+
+/**
+ * Nodes fetched from a paginated GitHub connection
+ */
+export interface PaginatedResult<T> {
+  nodes: T[];
+  pages: number;
+  warnings: string[]; // Nested connections still short after paging (e.g. nodes deleted meanwhile)
+}
+
+/**
+ * Page position of a nested connection: `first:` connections continue after `endCursor`,
+ * `last:` connections before `startCursor`
+ */
+export interface ConnectionPageInfo {
+  hasNextPage?: boolean;
+  endCursor?: string | null;
+  hasPreviousPage?: boolean;
+  startCursor?: string | null;
+}
+
+/**
+ * Nested connection with the nodes fetched so far
+ */
+export interface NestedConnection<T> {
+  totalCount?: number;
+  pageInfo?: ConnectionPageInfo;
+  nodes: T[];
+}
+
+export interface NestedConnectionResponse<T> {
+  node: Record<string, NestedConnection<T> | undefined> | null;
+}
+
+/**
+ * GraphQL rate limit state returned with each query
+ */
+export interface GitHubRateLimit {
+  cost: number;
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
 export interface ProjectV2Item {
   id: string;
   type: string;
   content: {
     __typename: string;
+    id?: string; // GraphQL node ID of the issue
     number?: number;
     title?: string;
     url?: string;
@@ -40,9 +98,7 @@ export interface ProjectV2Item {
     author?: {
       login: string;
     };
-    timelineItems?: {
-      nodes: TimelineEvent[];
-    };
+    timelineItems?: NestedConnection<TimelineEvent>;
   };
   fieldValues: {
     nodes: {
@@ -59,6 +115,7 @@ export interface ProjectV2Item {
 
 export interface TimelineEvent {
   __typename: string;
+  id?: string; // GraphQL node ID
   createdAt: string;
   actor?: {
     login: string;
@@ -70,6 +127,35 @@ export interface TimelineEvent {
   // ProjectV2ItemStatusChangedEvent
   previousStatus?: string;
   status?: string;
+  project?: { number: number };
+  // ReviewRequestedEvent
+  requestedReviewer?: { login?: string; name?: string } | null;
+  // IssueComment (has an author instead of an actor)
+  author?: { login: string } | null;
+  body?: string;
+  url?: string;
+}
+
+export interface TimelineItemsResponse {
+  node: { timelineItems?: { nodes: TimelineEvent[] } } | null;
+}
+
+/**
+ * Issue read directly from a repository, with timeline events since the fetch start
+ */
+export interface RepositoryIssueNode {
+  id: string;
+  number: number;
+  title: string;
+  url: string;
+  state: string; // OPEN or CLOSED
+  createdAt: string;
+  updatedAt: string;
+  author?: { login: string } | null;
+  labels?: {
+    nodes: { name: string }[];
+  };
+  timelineItems: NestedConnection<TimelineEvent> & { pageInfo: ConnectionPageInfo };
 }
 
 export interface ProcessedIssue {
@@ -91,24 +177,37 @@ export interface StatusDuration {
 }
 
 export interface IssueHistoryItem {
+  id?: string; // GraphQL node ID of the timeline event
   type: string; // 'status' | 'label' | 'assignment' | 'state_change' | 'unknown'
   action: string; // 'moved', 'labeled', 'assigned', 'closed', etc.
   value?: string; // New status, label name, etc.
+  previousValue?: string; // Status before the move (status changes only)
   who: string;
   when: string;
   durationMs?: number;
 }
 
 export interface PullRequestInfo {
+  id?: string; // GraphQL node ID
   number: number;
   title: string;
   url: string;
   createdAt: string;
   closedAt?: string;
+  state: string; // OPEN, CLOSED or MERGED
+  merged: boolean;
+  mergedAt?: string;
+  mergedBy?: string;
+  isDraft: boolean;
+  baseBranch?: string;
+  headBranch?: string;
+  mergeCommit?: string; // SHA of the merge, squash or rebase commit on the base branch
+  labels: string[];
   changedFiles: number;
   author: string;
   reviews: ReviewInfo[];
   comments: CommentInfo[];
+  events: PullRequestEventInfo[]; // Lifecycle events and pushed commits, oldest first
   isRequestChanges: boolean;
   requestedChangesBy?: {
     who: string;
@@ -118,13 +217,32 @@ export interface PullRequestInfo {
 }
 
 export interface ReviewInfo {
+  id?: string; // GraphQL node ID
   who: string;
   when: string;
   state: string;
   body: string;
 }
 
+/**
+ * Pull request lifecycle event: merge, close without merge, draft to ready,
+ * review request or commit
+ */
+export interface PullRequestEventInfo {
+  id?: string; // GraphQL node ID
+  type: 'merged' | 'closed' | 'ready_for_review' | 'review_requested' | 'commit';
+  who: string;
+  when: string;
+  requestedReviewer?: string; // review_requested: user login or team name
+  commit?: {
+    oid: string;
+    message: string;
+    authorEmail?: string;
+  };
+}
+
 export interface CommentInfo {
+  id?: string; // GraphQL node ID
   who: string;
   when: string;
   text: string;
@@ -162,42 +280,67 @@ export interface ProjectResponse {
   };
 }
 
+/**
+ * Lifecycle timeline item of a pull request
+ */
+export interface PullRequestTimelineEvent {
+  __typename: string; // MergedEvent, ClosedEvent, ReadyForReviewEvent or ReviewRequestedEvent
+  id?: string;
+  createdAt: string;
+  actor?: { login: string } | null;
+  requestedReviewer?: { login?: string; name?: string } | null;
+}
+
 export interface PullRequestsResponse {
   repository: {
     pullRequests: {
-      nodes: {
-        number: number;
-        title: string;
-        url: string;
-        createdAt: string;
-        closedAt?: string;
-        changedFiles: number;
-        reviews: {
-          nodes: {
-            author: {
-              login: string;
-            };
-            createdAt: string;
-            state: string;
-            body: string;
-          }[];
-        };
-        comments: {
-          nodes: {
-            author: {
-              login: string;
-            };
-            createdAt: string;
-            body: string;
-          }[];
-        };
-      }[];
+      nodes: PullRequestNode[];
       pageInfo: {
         hasNextPage: boolean;
         endCursor: string | null;
       };
     };
   };
+  rateLimit?: GitHubRateLimit;
+}
+
+export interface ReleasesResponse {
+  repository: {
+    releases: {
+      nodes: ReleaseNode[];
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+    };
+  } | null;
+  rateLimit?: GitHubRateLimit;
+}
+
+export interface DeploymentsResponse {
+  repository: {
+    deployments: {
+      nodes: DeploymentNode[];
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+    };
+  } | null;
+  rateLimit?: GitHubRateLimit;
+}
+
+export interface RepositoryIssuesResponse {
+  repository: {
+    issues: {
+      nodes: RepositoryIssueNode[];
+      pageInfo: {
+        hasNextPage: boolean;
+        endCursor: string | null;
+      };
+    };
+  } | null;
+  rateLimit?: GitHubRateLimit;
 }
 
 export interface RepositoryResponse {
@@ -277,58 +420,336 @@ export interface RepositoryResponse {
 
 // Additional type for PR processing
 export interface PullRequestNode {
+  id?: string;
   number: number;
   title: string;
   url: string;
   createdAt: string;
+  updatedAt?: string;
   closedAt?: string;
+  state?: string;
+  isDraft?: boolean;
+  merged?: boolean;
+  mergedAt?: string | null;
+  mergedBy?: { login: string } | null;
+  baseRefName?: string;
+  headRefName?: string;
+  mergeCommit?: { oid: string } | null;
   changedFiles: number;
   author?: {
     login: string;
   };
-  comments?: {
-    nodes: {
-      author?: {
-        login: string;
-      };
-      createdAt: string;
-      body: string;
-    }[];
+  labels?: {
+    nodes: { name: string }[];
   };
-  reviewThreads?: {
-    nodes: {
-      comments?: {
-        nodes: {
-          author?: {
-            login: string;
-          };
-          createdAt: string;
-          body: string;
-        }[];
-      };
-    }[];
+  timelineItems?: NestedConnection<PullRequestTimelineEvent>;
+  commits?: NestedConnection<{
+    id?: string;
+    commit: {
+      oid: string;
+      messageHeadline: string;
+      committedDate: string;
+      author?: {
+        name?: string;
+        email?: string;
+        user?: { login: string } | null;
+      } | null;
+    };
+  }>;
+  comments?: NestedConnection<PullRequestComment>;
+  reviewThreads?: NestedConnection<{
+    id?: string;
+    comments?: NestedConnection<PullRequestComment>;
+  }>;
+  reviews?: NestedConnection<{
+    id?: string;
+    author?: {
+      login: string;
+    };
+    createdAt: string;
+    state: string;
+    body?: string;
+  }>;
+}
+
+export interface PullRequestComment {
+  id?: string;
+  author?: {
+    login: string;
   };
-  reviews?: {
+  createdAt: string;
+  body: string;
+}
+
+/**
+ * GitHub release, a deployment when the repository does not use the Deployments API
+ */
+export interface ReleaseNode {
+  id: string;
+  name?: string | null;
+  tagName: string;
+  url: string;
+  isDraft: boolean;
+  isPrerelease: boolean;
+  createdAt: string;
+  publishedAt?: string | null;
+  author?: { login: string } | null;
+  tagCommit?: { oid: string } | null;
+}
+
+/**
+ * GitHub deployment with its status history
+ */
+export interface DeploymentNode {
+  id: string;
+  environment?: string | null;
+  createdAt: string;
+  commitOid: string;
+  creator?: { login: string } | null;
+  ref?: { name: string } | null;
+  statuses?: {
     nodes: {
-      author?: {
-        login: string;
-      };
+      state: string; // SUCCESS, ACTIVE, INACTIVE, FAILURE, ERROR, PENDING, ...
       createdAt: string;
-      state: string;
-      body?: string;
     }[];
   };
 }
 
+// GitLab REST API (v4) response types, limited to the fields the connector reads
+export interface GitLabUser {
+  id: number;
+  username: string;
+  name?: string;
+}
+
+export interface GitLabMergeRequest {
+  id: number;
+  iid: number;
+  title: string;
+  web_url: string;
+  state: string; // opened, closed, merged, locked
+  draft?: boolean;
+  created_at: string;
+  updated_at: string;
+  merged_at?: string | null;
+  closed_at?: string | null;
+  author: GitLabUser;
+  merged_by?: GitLabUser | null;
+  merge_user?: GitLabUser | null;
+  closed_by?: GitLabUser | null;
+  source_branch: string;
+  target_branch: string;
+}
+
+export interface GitLabIssue {
+  id: number;
+  iid: number;
+  title: string;
+  web_url: string;
+  state: string; // opened, closed
+  created_at: string;
+  updated_at: string;
+  author: GitLabUser;
+  labels?: string[];
+}
+
+export interface GitLabNote {
+  id: number;
+  body: string;
+  author: GitLabUser;
+  created_at: string;
+  system: boolean; // Generated notes such as "approved this merge request"
+}
+
+export interface GitLabCommit {
+  id: string; // SHA
+  title: string;
+  author_name: string;
+  author_email: string;
+  created_at: string;
+  web_url?: string;
+}
+
+export interface GitLabLabelEvent {
+  id: number;
+  user: GitLabUser | null;
+  created_at: string;
+  label: { name: string } | null;
+  action: 'add' | 'remove';
+}
+
+export interface GitLabStateEvent {
+  id: number;
+  user: GitLabUser | null;
+  created_at: string;
+  state: string; // closed, reopened, merged
+}
+
+// Jira REST API (v2) response types, limited to the fields the connector reads
+export interface JiraUser {
+  accountId?: string; // Jira Cloud
+  name?: string; // Jira Server / Data Center username
+  displayName?: string;
+  emailAddress?: string;
+}
+
+export interface JiraChangelogItem {
+  field: string; // status, assignee, labels, resolution, ...
+  fieldtype: string;
+  from: string | null;
+  fromString: string | null;
+  to: string | null;
+  toString: string | null;
+}
+
+export interface JiraChangelogHistory {
+  id: string;
+  author?: JiraUser;
+  created: string;
+  items: JiraChangelogItem[];
+}
+
+export interface JiraComment {
+  id: string;
+  author?: JiraUser;
+  body: string;
+  created: string;
+}
+
+export interface JiraIssue {
+  id: string;
+  key: string; // PROJ-123
+  fields: {
+    summary: string;
+    created: string;
+    updated: string;
+    status?: { name: string; statusCategory?: { key: string; name: string } };
+    assignee?: JiraUser | null;
+    reporter?: JiraUser | null;
+    labels?: string[];
+    resolution?: { name: string } | null;
+    comment?: { comments: JiraComment[]; total: number };
+  };
+  changelog?: { histories: JiraChangelogHistory[]; total: number };
+}
+
+// GitHub webhook payloads, limited to the fields the webhook receiver reads
+export interface WebhookUser {
+  login: string;
+}
+
+export interface WebhookPullRequest {
+  node_id: string;
+  number: number;
+  title: string;
+  html_url: string;
+  state: string; // open, closed
+  draft?: boolean;
+  merged?: boolean;
+  merged_at: string | null;
+  merged_by?: WebhookUser | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  changed_files?: number;
+  user: WebhookUser | null;
+  base: { ref: string };
+  head: { ref: string };
+  merge_commit_sha?: string | null;
+  labels?: { name: string }[];
+}
+
+export interface WebhookIssue {
+  node_id: string;
+  number: number;
+  title: string;
+  html_url: string;
+  state: string; // open, closed
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  user: WebhookUser | null;
+  labels?: { name: string }[];
+  pull_request?: { url: string }; // Present when the issue is a pull request
+}
+
+export interface WebhookComment {
+  node_id: string;
+  body: string;
+  html_url: string;
+  created_at: string;
+  user: WebhookUser | null;
+}
+
+export interface WebhookReview {
+  node_id: string;
+  body: string | null;
+  state: string; // approved, changes_requested, commented
+  submitted_at: string;
+  html_url: string;
+  user: WebhookUser | null;
+}
+
+export interface WebhookCommit {
+  id: string; // SHA
+  message: string;
+  timestamp: string;
+  author: { name: string; email: string };
+}
+
+export interface WebhookProjectItemFieldChange {
+  field_node_id?: string;
+  field_name?: string;
+  field_type?: string;
+  project_number?: number;
+  from?: { name?: string } | null;
+  to?: { name?: string } | null;
+}
+
+export interface GitHubWebhookPayload {
+  action?: string;
+  sender?: WebhookUser;
+  repository?: { name: string; full_name: string };
+  organization?: { login: string };
+  pull_request?: WebhookPullRequest;
+  issue?: WebhookIssue;
+  comment?: WebhookComment;
+  review?: WebhookReview;
+  label?: { name: string };
+  assignee?: WebhookUser | null;
+  requested_reviewer?: WebhookUser;
+  requested_team?: { name: string };
+  // push
+  ref?: string;
+  deleted?: boolean;
+  commits?: WebhookCommit[];
+  // projects_v2_item
+  projects_v2_item?: {
+    node_id: string;
+    content_node_id?: string;
+    content_type?: string;
+    updated_at: string;
+  };
+  changes?: { field_value?: WebhookProjectItemFieldChange };
+}
+
 export type ActivityType =
   | 'commit'
   | 'pr_created'
   | 'pr_review'
   | 'pr_comment'
+  | 'pr_review_requested'
+  | 'pr_ready_for_review'
+  | 'pr_commit'
+  | 'pr_merged'
+  | 'pr_closed' // closed without merge
   | 'issue_status_change'
   | 'issue_assignment'
   | 'issue_labeling'
   | 'issue_state_change' // closed/reopened
+  | 'issue_created'
+  | 'issue_comment'
+  | 'deployment' // release, deployment or tag that shipped a commit
   | 'unknown';
 
 export interface UserActivity {